@@ -0,0 +1,45 @@
+/**
+ * Anthropic Chat Model Tests
+ *
+ * Tests that the built-in agent uses the native Anthropic model with prompt caching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PromptCachingChatAnthropic, normalizeAnthropicBaseUrl } from '../anthropic.js';
+import { CodeMieAgent } from '../agent.js';
+import type { CodeMieConfig } from '../types.js';
+
+describe('PromptCachingChatAnthropic', () => {
+  it('should request prompt caching unless the call sets its own cache control', () => {
+    const model = new PromptCachingChatAnthropic({ model: 'claude-sonnet-4-5', apiKey: 'sk-ant-test' });
+
+    expect(model.invocationParams().cache_control).toEqual({ type: 'ephemeral' });
+    expect(model.invocationParams({ cache_control: { type: 'ephemeral', ttl: '1h' } } as any).cache_control)
+      .toEqual({ type: 'ephemeral', ttl: '1h' });
+  });
+
+  it('should strip the /v1 suffix from base URLs', () => {
+    expect(normalizeAnthropicBaseUrl('https://api.anthropic.com/v1/')).toBe('https://api.anthropic.com');
+    expect(normalizeAnthropicBaseUrl('https://gateway.example.com/anthropic')).toBe('https://gateway.example.com/anthropic');
+  });
+});
+
+describe('CodeMieAgent with the anthropic provider', () => {
+  it('should create a native Anthropic chat model', () => {
+    const config: CodeMieConfig = {
+      baseUrl: 'https://api.anthropic.com/v1',
+      authToken: 'sk-ant-test',
+      model: 'claude-sonnet-4-5',
+      provider: 'anthropic',
+      timeout: 30,
+      workingDirectory: process.cwd(),
+      debug: false
+    };
+
+    const llm = (new CodeMieAgent(config, []) as any).llm;
+
+    expect(llm).toBeInstanceOf(PromptCachingChatAnthropic);
+    expect(llm.model).toBe('claude-sonnet-4-5');
+    expect(llm.apiUrl).toBe('https://api.anthropic.com');
+  });
+});
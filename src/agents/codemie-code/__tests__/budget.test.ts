@@ -0,0 +1,121 @@
+/**
+ * Budget Tests
+ *
+ * Tests that the built-in agent, which calls providers without the proxy,
+ * counts token usage towards the profile's budget and stops once it is exhausted
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AIMessage } from '@langchain/core/messages';
+import { CodeMieAgent } from '../agent.js';
+import type { AgentEvent, CodeMieConfig } from '../types.js';
+import { BudgetLedger } from '../../../providers/plugins/sso/proxy/plugins/budget-ledger.js';
+
+const { calls } = vi.hoisted(() => ({ calls: [] as string[] }));
+
+vi.mock('@langchain/openai', async () => {
+  const { BaseChatModel } = await import('@langchain/core/language_models/chat_models');
+
+  // Every answer uses 600 input and 100 output tokens
+  class UsageChatModel extends BaseChatModel {
+    private model: string;
+
+    constructor(fields: { model: string }) {
+      super({});
+      this.model = fields.model;
+    }
+
+    _llmType(): string {
+      return 'usage';
+    }
+
+    bindTools(): any {
+      return this;
+    }
+
+    async _generate() {
+      calls.push(this.model);
+      const message = new AIMessage({
+        content: `Answer from ${this.model}`,
+        usage_metadata: { input_tokens: 600, output_tokens: 100, total_tokens: 700 }
+      });
+      return { generations: [{ text: message.content as string, message }] };
+    }
+  }
+
+  return { ChatOpenAI: UsageChatModel };
+});
+
+describe('CodeMieAgent budget', () => {
+  let tempDir: string;
+  let originalCodemieHome: string | undefined;
+  let config: CodeMieConfig;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'agent-budget-test-'));
+    originalCodemieHome = process.env.CODEMIE_HOME;
+    process.env.CODEMIE_HOME = join(tempDir, 'home');
+    calls.length = 0;
+
+    config = {
+      baseUrl: 'https://llm.example.com/v1',
+      authToken: 'test-token-12345',
+      provider: 'openai',
+      model: 'gpt-4.1',
+      timeout: 30,
+      workingDirectory: tempDir,
+      debug: false,
+      name: 'work'
+    };
+  });
+
+  afterEach(async () => {
+    if (originalCodemieHome === undefined) {
+      delete process.env.CODEMIE_HOME;
+    } else {
+      process.env.CODEMIE_HOME = originalCodemieHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record usage and reject model calls once a limit is crossed', async () => {
+    const events: AgentEvent[] = [];
+    const agent = new CodeMieAgent({ ...config, budget: { session: { tokens: 1000 } } }, []);
+
+    await agent.chatStream('Hello', event => events.push(event));
+    await agent.chatStream('Hello again', event => events.push(event));
+
+    expect(events.find(event => event.type === 'warning')?.warning).toBe(
+      'CodeMie session budget: 1,400 / 1,000 tokens - limit reached, further requests are rejected'
+    );
+    expect((await new BudgetLedger(join(tempDir, 'home', 'budget')).getTotals('work')).daily.tokens).toBe(1400);
+
+    await expect(agent.chatStream('One more', () => {})).rejects.toThrow('The budget of profile "work" is exhausted');
+    expect(calls).toEqual(['gpt-4.1', 'gpt-4.1']);
+  });
+
+  it('should not call unpriced models when a period has only a cost limit', async () => {
+    const agent = new CodeMieAgent({ ...config, model: 'in-house-coder', budget: { daily: { cost: 5 } } }, []);
+
+    await expect(agent.chatStream('Hello', () => {})).rejects.toThrow(
+      'CodeMie cannot price model "in-house-coder", so the cost limit of budget.daily of profile "work" cannot be enforced'
+    );
+    expect(calls).toEqual([]);
+  });
+
+  it('should warn once and apply token limits to unpriced models', async () => {
+    const events: AgentEvent[] = [];
+    const agent = new CodeMieAgent({ ...config, model: 'in-house-coder', budget: { daily: { cost: 5, tokens: 100000 } } }, []);
+
+    await agent.chatStream('Hello', event => events.push(event));
+    await agent.chatStream('Hello again', event => events.push(event));
+
+    expect(events.filter(event => event.type === 'warning').map(event => event.warning)).toEqual([
+      'CodeMie cannot price model "in-house-coder" - its usage counts towards token limits only; add its pricing to ~/.codemie/models.json'
+    ]);
+    expect(calls).toEqual(['in-house-coder', 'in-house-coder']);
+  });
+});
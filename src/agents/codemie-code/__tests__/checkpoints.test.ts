@@ -0,0 +1,147 @@
+/**
+ * Agent Checkpoint Tests
+ *
+ * Tests that file tools record checkpoints during a turn and that undoing a
+ * turn restores the files and trims the conversation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AIMessage } from '@langchain/core/messages';
+import { CodeMieAgent } from '../agent.js';
+import { createSystemTools } from '../tools/index.js';
+import type { CodeMieConfig } from '../types.js';
+
+const { responses } = vi.hoisted(() => ({ responses: [] as AIMessage[] }));
+
+vi.mock('@langchain/openai', async () => {
+  const { BaseChatModel } = await import('@langchain/core/language_models/chat_models');
+
+  class ScriptedChatModel extends BaseChatModel {
+    _llmType(): string {
+      return 'scripted';
+    }
+
+    bindTools(): any {
+      return this;
+    }
+
+    async _generate() {
+      const message = responses.shift() ?? new AIMessage('No scripted response left');
+      return { generations: [{ text: typeof message.content === 'string' ? message.content : '', message }] };
+    }
+  }
+
+  return { ChatOpenAI: ScriptedChatModel };
+});
+
+function writeFileCall(id: string, filePath: string, content: string): AIMessage {
+  return new AIMessage({ content: '', tool_calls: [{ id, name: 'write_file', args: { filePath, content } }] });
+}
+
+describe('CodeMieAgent checkpoints', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let originalCodemieHome: string | undefined;
+  let config: CodeMieConfig;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'agent-checkpoints-test-'));
+    projectDir = join(tempDir, 'project');
+    await mkdir(projectDir);
+    originalCodemieHome = process.env.CODEMIE_HOME;
+    process.env.CODEMIE_HOME = join(tempDir, 'home');
+    responses.length = 0;
+
+    config = {
+      baseUrl: 'https://llm.example.com/v1',
+      authToken: 'test-token-12345',
+      model: 'gpt-4.1',
+      provider: 'openai',
+      timeout: 30,
+      workingDirectory: projectDir,
+      debug: false,
+      permissions: { mode: 'auto-accept-edits' }
+    };
+  });
+
+  afterEach(async () => {
+    if (originalCodemieHome === undefined) {
+      delete process.env.CODEMIE_HOME;
+    } else {
+      process.env.CODEMIE_HOME = originalCodemieHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should undo the file changes and messages of the last turn', async () => {
+    await writeFile(join(projectDir, 'app.ts'), 'v1');
+    responses.push(
+      writeFileCall('call_1', 'app.ts', 'v2'),
+      new AIMessage('Updated app.ts'),
+      writeFileCall('call_2', 'app.ts', 'v3'),
+      new AIMessage('Updated app.ts again')
+    );
+
+    const agent = new CodeMieAgent(config, await createSystemTools(config));
+    await agent.chatStream('Set version 2', () => {});
+    const historyAfterFirstTurn = agent.getHistory().length;
+    await agent.chatStream('Set version 3', () => {});
+
+    expect(await readFile(join(projectDir, 'app.ts'), 'utf-8')).toBe('v3');
+    expect((await agent.listCheckpoints()).map(checkpoint => checkpoint.prompt)).toEqual(['Set version 2', 'Set version 3']);
+
+    const result = await agent.undoLastTurn();
+
+    expect(result.restoredFiles).toEqual(['app.ts']);
+    expect(await readFile(join(projectDir, 'app.ts'), 'utf-8')).toBe('v2');
+    expect(agent.getHistory()).toHaveLength(historyAfterFirstTurn);
+    expect(await agent.listCheckpoints()).toHaveLength(1);
+  });
+
+  it('should rewind several turns and remove files created in them', async () => {
+    responses.push(
+      new AIMessage('Nothing to change'),
+      writeFileCall('call_1', 'new.ts', 'created'),
+      new AIMessage('Created new.ts')
+    );
+
+    const agent = new CodeMieAgent(config, await createSystemTools(config));
+    await agent.chatStream('Look around', () => {});
+    await agent.chatStream('Create new.ts', () => {});
+
+    const result = await agent.rewindToCheckpoint(1);
+
+    expect(result.checkpoints).toHaveLength(2);
+    await expect(readFile(join(projectDir, 'new.ts'), 'utf-8')).rejects.toThrow();
+    expect(agent.getHistory()).toEqual([]);
+    expect(await agent.listSessions()).toEqual([]);
+    await expect(agent.rewindToCheckpoint(1)).rejects.toThrow('Checkpoint not found: 1');
+  });
+
+  it('should list commands it could not revert', async () => {
+    responses.push(
+      new AIMessage({
+        content: '',
+        tool_calls: [
+          { id: 'call_1', name: 'write_file', args: { filePath: 'app.ts', content: 'v1' } },
+          { id: 'call_2', name: 'execute_command', args: { command: 'echo built' } }
+        ]
+      }),
+      new AIMessage('Built the app')
+    );
+
+    const agentConfig = { ...config, permissions: { mode: 'auto-accept-edits' as const, allow: ['execute_command'] } };
+    const agent = new CodeMieAgent(agentConfig, await createSystemTools(agentConfig));
+    await agent.chatStream('Build the app', () => {});
+
+    expect((await agent.listCheckpoints())[0].actions).toEqual(['Command: echo built']);
+
+    const result = await agent.undoLastTurn();
+
+    expect(result.restoredFiles).toEqual(['app.ts']);
+    expect(result.unrevertedActions).toEqual(['Command: echo built']);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Context Compaction Tests
+ *
+ * Tests token accounting, history splitting and LLM-based summarisation
+ * of older conversation turns
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { HumanMessage, AIMessage, ToolMessage, type BaseMessage } from '@langchain/core/messages';
+import { StructuredTool } from '@langchain/core/tools';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { CodeMieAgent } from '../agent.js';
+import type { AgentEvent, CodeMieConfig } from '../types.js';
+import {
+  compactConversation,
+  estimateContextTokens,
+  estimateMessageTokens,
+  isCompactionMarker,
+  splitForCompaction,
+  COMPACTION_MARKER
+} from '../compaction.js';
+import { getModelContextWindow, DEFAULT_CONTEXT_WINDOW } from '../tokenUtils.js';
+
+const { responses, prompts } = vi.hoisted(() => ({ responses: [] as AIMessage[], prompts: [] as BaseMessage[][] }));
+
+vi.mock('@langchain/openai', async () => {
+  const { BaseChatModel } = await import('@langchain/core/language_models/chat_models');
+
+  class ScriptedChatModel extends BaseChatModel {
+    _llmType(): string {
+      return 'scripted';
+    }
+
+    bindTools(): any {
+      return this;
+    }
+
+    async _generate(messages: BaseMessage[]) {
+      prompts.push(messages);
+      const message = responses.shift() ?? new AIMessage('No scripted response left');
+      return { generations: [{ text: typeof message.content === 'string' ? message.content : '', message }] };
+    }
+  }
+
+  return { ChatOpenAI: ScriptedChatModel };
+});
+
+// Returns about 1,000 tokens
+class ReadLogsTool extends StructuredTool {
+  name = 'read_logs';
+  description = 'Read the build logs';
+  schema = z.object({});
+
+  async _call(): Promise<string> {
+    return 'x'.repeat(4000);
+  }
+}
+
+function turn(index: number, resultSize = 40): BaseMessage[] {
+  return [
+    new HumanMessage(`Request ${index}`),
+    new AIMessage({
+      content: '',
+      tool_calls: [{ id: `call_${index}`, name: 'read_file', args: { filePath: `file${index}.ts` } }]
+    }),
+    new ToolMessage({ content: 'x'.repeat(resultSize), tool_call_id: `call_${index}`, name: 'read_file' }),
+    new AIMessage(`Answer ${index}`)
+  ];
+}
+
+function withUsage(message: AIMessage, inputTokens: number, outputTokens: number): AIMessage {
+  message.usage_metadata = { input_tokens: inputTokens, output_tokens: outputTokens, total_tokens: inputTokens + outputTokens };
+  return message;
+}
+
+describe('estimateContextTokens', () => {
+  it('should fall back to a character estimate without usage data', () => {
+    const messages = [new HumanMessage('a'.repeat(400))];
+    expect(estimateContextTokens(messages, 'gpt-4.1', 'openai')).toBe(100);
+  });
+
+  it('should use the latest reported usage plus later messages', () => {
+    const messages = [
+      new HumanMessage('question'),
+      withUsage(new AIMessage('answer'), 5000, 200),
+      new HumanMessage('b'.repeat(40))
+    ];
+
+    expect(estimateContextTokens(messages, 'gpt-4.1', 'openai')).toBe(5210);
+  });
+
+  it('should ignore usage reported before the last compaction', () => {
+    const marker = new HumanMessage({
+      content: `${COMPACTION_MARKER}\nsummary`,
+      additional_kwargs: { compaction: { summarizedMessages: 10, retainedMessages: 2, tokensBefore: 90000 } }
+    });
+    const messages = [marker, new HumanMessage('recent'), withUsage(new AIMessage('old answer'), 90000, 100)];
+
+    expect(estimateContextTokens(messages, 'gpt-4.1', 'openai')).toBe(estimateMessageTokens(messages));
+  });
+});
+
+describe('splitForCompaction', () => {
+  it('should keep recent turns within the budget and split at user messages', () => {
+    const messages = [...turn(1), ...turn(2), ...turn(3)];
+    const { older, recent } = splitForCompaction(messages, estimateMessageTokens([...turn(2), ...turn(3)]));
+
+    expect(older).toHaveLength(4);
+    expect(recent[0].content).toBe('Request 2');
+    expect(recent).toHaveLength(8);
+  });
+
+  it('should always keep the latest turn', () => {
+    const messages = [...turn(1), ...turn(2, 10000)];
+    const { older, recent } = splitForCompaction(messages, 10);
+
+    expect(older).toHaveLength(4);
+    expect(recent[0].content).toBe('Request 2');
+  });
+});
+
+describe('compactConversation', () => {
+  it('should replace older turns with a summary marker and keep recent tool results', async () => {
+    const llm = new FakeListChatModel({ responses: ['User is fixing file1.ts and file2.ts.'] });
+    const messages = [...turn(1, 4000), ...turn(2, 4000), ...turn(3)];
+
+    const result = await compactConversation(llm, messages, { contextWindow: 1000, model: 'gpt-4.1', provider: 'openai' });
+
+    expect(result).not.toBeNull();
+    expect(result!.summarizedMessages).toBe(8);
+    expect(result!.retainedMessages).toBe(4);
+    expect(result!.messages).toHaveLength(5);
+    expect(isCompactionMarker(result!.messages[0])).toBe(true);
+    expect(result!.messages[0].content).toContain(COMPACTION_MARKER);
+    expect(result!.messages[0].content).toContain('User is fixing file1.ts and file2.ts.');
+    expect(result!.messages[3]).toBeInstanceOf(ToolMessage);
+    expect(result!.tokensAfter).toBeLessThan(result!.tokensBefore);
+  });
+
+  it('should return null when only the latest turn exists', async () => {
+    const llm = new FakeListChatModel({ responses: ['unused'] });
+    const result = await compactConversation(llm, turn(1), { contextWindow: 1000, model: 'gpt-4.1', provider: 'openai' });
+
+    expect(result).toBeNull();
+  });
+});
+
+describe('getModelContextWindow', () => {
+  it('should resolve known model families and fall back to the default', () => {
+    expect(getModelContextWindow('claude-4-5-sonnet')).toBe(200_000);
+    expect(getModelContextWindow('gpt-4.1-mini')).toBe(1_047_576);
+    expect(getModelContextWindow('custom-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
+
+describe('CodeMieAgent compaction', () => {
+  let tempDir: string;
+  let originalCodemieHome: string | undefined;
+  let config: CodeMieConfig;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'agent-compaction-test-'));
+    originalCodemieHome = process.env.CODEMIE_HOME;
+    process.env.CODEMIE_HOME = join(tempDir, 'home');
+    responses.length = 0;
+    prompts.length = 0;
+
+    config = {
+      baseUrl: 'https://llm.example.com/v1',
+      authToken: 'test-token-12345',
+      model: 'gpt-4.1',
+      provider: 'openai',
+      timeout: 30,
+      workingDirectory: tempDir,
+      debug: false,
+      contextWindow: 1000
+    };
+  });
+
+  afterEach(async () => {
+    if (originalCodemieHome === undefined) {
+      delete process.env.CODEMIE_HOME;
+    } else {
+      process.env.CODEMIE_HOME = originalCodemieHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should compact before a model call when tool results fill the context during a turn', async () => {
+    responses.push(
+      new AIMessage('Answer 1'),
+      new AIMessage({ content: '', tool_calls: [{ id: 'call_1', name: 'read_logs', args: {} }] }),
+      new AIMessage('User asked about the build.'),
+      new AIMessage('The build failed')
+    );
+    const events: AgentEvent[] = [];
+
+    const agent = new CodeMieAgent(config, [new ReadLogsTool()]);
+    await agent.chatStream('Request 1', () => {});
+    await agent.chatStream('Why did the build fail?', event => events.push(event));
+
+    // The summary request comes before the last call, which gets the summary instead of the first turn
+    const lastPrompt = JSON.stringify(prompts.at(-1)!.map(message => message.content));
+    expect(lastPrompt).toContain('User asked about the build.');
+    expect(lastPrompt).not.toContain('Request 1');
+    expect(events.find(event => event.type === 'context_compacted')?.compaction?.summarizedMessages).toBe(2);
+
+    const history = agent.getHistory();
+    expect(isCompactionMarker(history[0])).toBe(true);
+    expect(history.slice(1).map(message => message.getType())).toEqual(['human', 'ai', 'tool', 'ai']);
+  });
+});
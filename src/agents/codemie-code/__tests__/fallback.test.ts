@@ -0,0 +1,149 @@
+/**
+ * Model Fallback Tests
+ *
+ * Tests that the agent retries retryable model errors with backoff, falls back
+ * to the next model when retries are exhausted and reports the answering model
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AIMessage } from '@langchain/core/messages';
+import { CodeMieAgent } from '../agent.js';
+import type { AgentEvent, CodeMieConfig } from '../types.js';
+
+// Scripted failures per model; models answer once their failures are used up
+const { failures, calls } = vi.hoisted(() => ({
+  failures: {} as Record<string, Error[]>,
+  calls: [] as string[]
+}));
+
+vi.mock('@langchain/openai', async () => {
+  const { BaseChatModel } = await import('@langchain/core/language_models/chat_models');
+
+  class ScriptedChatModel extends BaseChatModel {
+    private model: string;
+
+    constructor(fields: { model: string }) {
+      super({});
+      this.model = fields.model;
+    }
+
+    _llmType(): string {
+      return 'scripted';
+    }
+
+    bindTools(): any {
+      return this;
+    }
+
+    async _generate() {
+      calls.push(this.model);
+      const failure = failures[this.model]?.shift();
+      if (failure) {
+        throw failure;
+      }
+
+      const message = new AIMessage(`Answer from ${this.model}`);
+      return { generations: [{ text: message.content as string, message }] };
+    }
+  }
+
+  return { ChatOpenAI: ScriptedChatModel };
+});
+
+function httpError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+describe('CodeMieAgent model fallbacks', () => {
+  let tempDir: string;
+  let originalCodemieHome: string | undefined;
+  let config: CodeMieConfig;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'agent-fallback-test-'));
+    originalCodemieHome = process.env.CODEMIE_HOME;
+    process.env.CODEMIE_HOME = join(tempDir, 'home');
+    calls.length = 0;
+    for (const model of Object.keys(failures)) {
+      delete failures[model];
+    }
+
+    const base = {
+      baseUrl: 'https://llm.example.com/v1',
+      authToken: 'test-token-12345',
+      provider: 'openai' as const,
+      timeout: 30,
+      workingDirectory: tempDir,
+      debug: false
+    };
+    config = {
+      ...base,
+      model: 'gpt-4.1',
+      fallbacks: [{ ...base, model: 'gpt-4.1-mini' }],
+      retry: { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 5 }
+    };
+  });
+
+  afterEach(async () => {
+    if (originalCodemieHome === undefined) {
+      delete process.env.CODEMIE_HOME;
+    } else {
+      process.env.CODEMIE_HOME = originalCodemieHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should retry retryable errors on the same model', async () => {
+    failures['gpt-4.1'] = [httpError(429, 'Rate limit exceeded')];
+    const events: AgentEvent[] = [];
+
+    const agent = new CodeMieAgent(config, []);
+    await agent.chatStream('Hello', event => events.push(event));
+
+    expect(calls).toEqual(['gpt-4.1', 'gpt-4.1']);
+    expect(events.find(event => event.type === 'model_retry')?.retry).toMatchObject({
+      model: 'gpt-4.1',
+      attempt: 1,
+      maxRetries: 2,
+      reason: 'Rate limit exceeded'
+    });
+    expect(agent.getStats().model).toBe('gpt-4.1');
+  });
+
+  it('should fall back to the next model when retries are exhausted', async () => {
+    failures['gpt-4.1'] = [httpError(503, 'Service Unavailable'), httpError(502, 'Bad Gateway'), httpError(503, 'Service Unavailable')];
+    const events: AgentEvent[] = [];
+
+    const agent = new CodeMieAgent(config, []);
+    await agent.chatStream('Hello', event => events.push(event));
+
+    expect(calls).toEqual(['gpt-4.1', 'gpt-4.1', 'gpt-4.1', 'gpt-4.1-mini']);
+    expect(events.filter(event => event.type === 'model_retry')).toHaveLength(2);
+    expect(events.find(event => event.type === 'model_fallback')?.fallback).toEqual({
+      fromModel: 'gpt-4.1',
+      toModel: 'gpt-4.1-mini',
+      reason: 'Service Unavailable'
+    });
+    expect(agent.getHistory().at(-1)?.content).toBe('Answer from gpt-4.1-mini');
+    expect(agent.getStats().model).toBe('gpt-4.1-mini');
+
+    // The next turn starts with the primary model again
+    await agent.chatStream('Hello again', () => {});
+    expect(calls.at(-1)).toBe('gpt-4.1');
+    expect(agent.getStats().model).toBe('gpt-4.1');
+  });
+
+  it('should not retry or fall back on non-retryable errors', async () => {
+    failures['gpt-4.1'] = [httpError(401, 'Invalid API key')];
+    const events: AgentEvent[] = [];
+
+    const agent = new CodeMieAgent(config, []);
+    await expect(agent.chatStream('Hello', event => events.push(event))).rejects.toThrow('Invalid API key');
+
+    expect(calls).toEqual(['gpt-4.1']);
+    expect(events.some(event => event.type === 'model_retry' || event.type === 'model_fallback')).toBe(false);
+  });
+});
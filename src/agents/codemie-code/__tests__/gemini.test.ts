@@ -0,0 +1,46 @@
+/**
+ * Gemini Chat Model Tests
+ *
+ * Tests that the built-in agent connects to the Gemini API or Vertex AI
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChatGoogle } from '@langchain/google-gauth';
+import { CodeMieAgent } from '../agent.js';
+import type { CodeMieConfig } from '../types.js';
+
+function createConfig(overrides: Partial<CodeMieConfig>): CodeMieConfig {
+  return {
+    baseUrl: 'https://generativelanguage.googleapis.com',
+    authToken: 'AIza-test',
+    model: 'gemini-2.5-pro',
+    provider: 'gemini',
+    timeout: 30,
+    workingDirectory: process.cwd(),
+    debug: false,
+    ...overrides
+  };
+}
+
+describe('CodeMieAgent with the gemini provider', () => {
+  it('should use the Gemini API with an API key', () => {
+    const llm = (new CodeMieAgent(createConfig({}), []) as any).llm;
+
+    expect(llm).toBeInstanceOf(ChatGoogle);
+    expect(llm.model).toBe('gemini-2.5-pro');
+    expect(llm.platform).toBe('gai');
+  });
+
+  it('should use Vertex AI in the configured location', () => {
+    const config = createConfig({
+      baseUrl: 'https://europe-west4-aiplatform.googleapis.com',
+      authToken: 'vertex-ai',
+      vertex: { project: 'my-project', location: 'europe-west4' }
+    });
+
+    const llm = (new CodeMieAgent(config, []) as any).llm;
+
+    expect(llm.platform).toBe('gcp');
+    expect(llm.connection.endpoint).toBe('europe-west4-aiplatform.googleapis.com');
+  });
+});
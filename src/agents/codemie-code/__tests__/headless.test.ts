@@ -0,0 +1,107 @@
+/**
+ * Headless Output Tests
+ *
+ * Tests JSON and stream-JSON reporting of single tasks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runHeadlessTask } from '../headless.js';
+import type { AgentEvent, AgentStats, EventCallback } from '../types.js';
+import { CodeMieAgentError } from '../types.js';
+
+const stats: AgentStats = {
+  inputTokens: 120,
+  outputTokens: 30,
+  cachedTokens: 0,
+  totalTokens: 150,
+  estimatedTotalCost: 0.001,
+  executionTime: 42,
+  toolCalls: 1,
+  successfulTools: 1,
+  failedTools: 0,
+  llmCalls: 2,
+  executionSteps: []
+};
+
+function createAgent(events: AgentEvent[], failure?: string) {
+  return {
+    chatStream: async (_message: string, onEvent: EventCallback) => {
+      events.forEach(onEvent);
+      if (failure) {
+        onEvent({ type: 'error', error: failure });
+        throw new CodeMieAgentError(`Agent execution failed: ${failure}`, 'EXECUTION_ERROR');
+      }
+    },
+    getStats: () => stats,
+    getSessionId: () => 'session-1',
+    getConfig: () => ({ model: 'gpt-4.1', provider: 'openai', displayProvider: 'ai-run-sso' }) as any,
+    getTools: () => [{ name: 'read_file' }, { name: 'execute_command' }] as any
+  };
+}
+
+const successEvents: AgentEvent[] = [
+  { type: 'thinking_start' },
+  { type: 'tool_call_start', toolName: 'read_file', toolArgs: { filePath: 'a.ts' } },
+  { type: 'tool_call_result', toolName: 'read_file', result: 'content' },
+  { type: 'content_chunk', content: 'Done ' },
+  { type: 'content_chunk', content: 'reading.' },
+  { type: 'thinking_end' },
+  { type: 'complete' }
+];
+
+describe('runHeadlessTask', () => {
+  it('should write a single JSON result with stats', async () => {
+    let output = '';
+    const result = await runHeadlessTask(createAgent(successEvents), 'read a.ts', {
+      format: 'json',
+      write: text => { output += text; }
+    });
+
+    expect(JSON.parse(output)).toEqual(result);
+    expect(result).toMatchObject({
+      type: 'result',
+      success: true,
+      result: 'Done reading.',
+      errors: [],
+      sessionId: 'session-1',
+      model: 'gpt-4.1',
+      provider: 'ai-run-sso',
+      stats
+    });
+  });
+
+  it('should stream events as NDJSON between init and result lines', async () => {
+    let output = '';
+    await runHeadlessTask(createAgent(successEvents), 'read a.ts', {
+      format: 'stream-json',
+      write: text => { output += text; }
+    });
+
+    const lines = output.trimEnd().split('\n').map(line => JSON.parse(line));
+
+    expect(lines.map(line => line.type)).toEqual([
+      'init', 'tool_call_start', 'tool_call_result', 'content_chunk', 'content_chunk', 'complete', 'result'
+    ]);
+    expect(lines[0]).toEqual({
+      type: 'init',
+      sessionId: 'session-1',
+      model: 'gpt-4.1',
+      provider: 'ai-run-sso',
+      tools: ['read_file', 'execute_command']
+    });
+    expect(lines[1]).toMatchObject({ toolName: 'read_file', toolArgs: { filePath: 'a.ts' } });
+  });
+
+  it('should report failures without throwing', async () => {
+    let output = '';
+    const result = await runHeadlessTask(createAgent([{ type: 'content_chunk', content: 'partial' }], 'rate limited'), 'task', {
+      format: 'stream-json',
+      write: text => { output += text; }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['rate limited']);
+    expect(result.result).toBe('partial');
+    expect(output.trimEnd().split('\n').pop()).toContain('"success":false');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Ollama Chat Model Tests
+ *
+ * Tests tool support checks and that the built-in agent uses Ollama's native API
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ChatOllama } from '@langchain/ollama';
+import { OllamaModelProxy } from '../../../providers/plugins/ollama/ollama.models.js';
+import { OLLAMA_MAX_CONTEXT, normalizeOllamaBaseUrl, resolveOllamaModel } from '../ollama.js';
+import { CodeMieAgent } from '../agent.js';
+import { ConfigurationError, type CodeMieConfig } from '../types.js';
+
+describe('resolveOllamaModel', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should cap the context size of tool-capable models', async () => {
+    const getModelDetails = vi.spyOn(OllamaModelProxy.prototype, 'getModelDetails')
+      .mockResolvedValueOnce({ capabilities: ['completion', 'tools'], contextLength: 131072 })
+      .mockResolvedValueOnce({ capabilities: ['completion', 'tools'], contextLength: 8192 });
+
+    expect(await resolveOllamaModel('http://localhost:11434/v1', 'qwen2.5-coder')).toEqual({ contextWindow: OLLAMA_MAX_CONTEXT });
+    expect(await resolveOllamaModel('http://localhost:11434/v1', 'llama3')).toEqual({ contextWindow: 8192 });
+    expect(getModelDetails).toHaveBeenCalledWith('qwen2.5-coder');
+  });
+
+  it('should refuse models without tool calling', async () => {
+    vi.spyOn(OllamaModelProxy.prototype, 'getModelDetails').mockResolvedValue({ capabilities: ['completion'] });
+
+    const result = resolveOllamaModel('http://localhost:11434/v1', 'codellama');
+
+    await expect(result).rejects.toBeInstanceOf(ConfigurationError);
+    await expect(result).rejects.toThrow("Ollama model 'codellama' does not support tool calling");
+  });
+
+  it('should explain how to install missing models', async () => {
+    vi.spyOn(OllamaModelProxy.prototype, 'getModelDetails').mockRejectedValue(new Error('Failed to get details for model qwen3: HTTP 404: Not Found'));
+
+    await expect(resolveOllamaModel('http://localhost:11434/v1', 'qwen3')).rejects.toThrow('ollama pull qwen3');
+  });
+
+  it('should strip the /v1 suffix from base URLs', () => {
+    expect(normalizeOllamaBaseUrl('http://localhost:11434/v1/')).toBe('http://localhost:11434');
+    expect(normalizeOllamaBaseUrl('http://gpu-box:11434')).toBe('http://gpu-box:11434');
+  });
+});
+
+describe('CodeMieAgent with the ollama provider', () => {
+  it('should create a native Ollama chat model with the resolved context size', () => {
+    const config: CodeMieConfig = {
+      baseUrl: 'http://localhost:11434/v1',
+      authToken: 'not-required',
+      model: 'qwen2.5-coder',
+      provider: 'ollama',
+      timeout: 30,
+      workingDirectory: process.cwd(),
+      debug: false,
+      contextWindow: 16384
+    };
+
+    const llm = (new CodeMieAgent(config, []) as any).llm;
+
+    expect(llm).toBeInstanceOf(ChatOllama);
+    expect(llm.model).toBe('qwen2.5-coder');
+    expect(llm.baseUrl).toBe('http://localhost:11434');
+    expect(llm.numCtx).toBe(16384);
+  });
+});
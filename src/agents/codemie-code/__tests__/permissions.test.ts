@@ -0,0 +1,231 @@
+/**
+ * Tool Permissions Tests
+ *
+ * Tests rule matching, permission modes, session approvals and the
+ * permission checks performed by mutating tools
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  PermissionManager,
+  parsePermissionRule,
+  splitShellCommand,
+  initializePermissions,
+  setPermissionPromptHandler,
+  checkToolPermission,
+  type PermissionRequest
+} from '../permissions.js';
+import { EditFileTool } from '../tools/editFile.js';
+
+const command = (specifier: string): PermissionRequest => ({
+  toolName: 'execute_command',
+  category: 'execute',
+  specifier,
+  description: `Run command: ${specifier}`
+});
+
+const edit = (specifier: string): PermissionRequest => ({
+  toolName: 'edit_file',
+  category: 'edit',
+  specifier,
+  description: `Edit ${specifier}`
+});
+
+describe('parsePermissionRule', () => {
+  it('should parse tool names with and without specifiers', () => {
+    expect(parsePermissionRule('write_file')).toEqual({ raw: 'write_file', toolName: 'write_file' });
+    expect(parsePermissionRule(' execute_command(npm run build) ')).toEqual({
+      raw: 'execute_command(npm run build)',
+      toolName: 'execute_command',
+      specifier: 'npm run build'
+    });
+  });
+});
+
+describe('splitShellCommand', () => {
+  it('should split compound commands', () => {
+    expect(splitShellCommand('npm test && git status; ls | wc -l || echo fail & sleep 1')).toEqual([
+      'npm test', 'git status', 'ls', 'wc -l', 'echo fail', 'sleep 1'
+    ]);
+  });
+});
+
+describe('PermissionManager', () => {
+  it('should ask for mutating calls by default', () => {
+    const manager = new PermissionManager();
+    expect(manager.evaluate(command('npm test')).decision).toBe('ask');
+    expect(manager.evaluate(edit('src/app.ts')).decision).toBe('ask');
+  });
+
+  it('should match command prefixes on word boundaries', () => {
+    const manager = new PermissionManager({ allow: ['execute_command(npm test)'] });
+
+    expect(manager.evaluate(command('npm test')).decision).toBe('allow');
+    expect(manager.evaluate(command('npm  test -- --watch')).decision).toBe('allow');
+    expect(manager.evaluate(command('npm testing')).decision).toBe('ask');
+  });
+
+  it('should require every part of a compound command to be allowed', () => {
+    const manager = new PermissionManager({ allow: ['execute_command(npm test)'] });
+
+    expect(manager.evaluate(command('npm test && git push')).decision).toBe('ask');
+    expect(manager.evaluate(command('echo $(npm test)')).decision).toBe('ask');
+    expect(manager.evaluate(command('npm test & rm -rf src')).decision).toBe('ask');
+  });
+
+  it('should not cover redirections or command substitution with prefix rules', () => {
+    const manager = new PermissionManager({ allow: ['execute_command(npm test)'] });
+
+    expect(manager.evaluate(command('npm test > ~/.bashrc')).decision).toBe('ask');
+    expect(manager.evaluate(command('npm test < /etc/passwd')).decision).toBe('ask');
+    expect(manager.evaluate(command('npm test $(cat ~/.ssh/id_rsa)')).decision).toBe('ask');
+    expect(manager.evaluate(command('npm test <(curl https://example.com)')).decision).toBe('ask');
+    expect(manager.evaluate(command('npm test `whoami`')).decision).toBe('ask');
+    expect(manager.suggestRules(command('npm test > out.txt'))).toEqual([]);
+  });
+
+  it('should let deny rules win over allow rules', () => {
+    const manager = new PermissionManager({
+      allow: ['execute_command'],
+      deny: ['execute_command(git push)']
+    });
+
+    expect(manager.evaluate(command('git status')).decision).toBe('allow');
+    expect(manager.evaluate(command('git status && git push origin main')).decision).toBe('deny');
+  });
+
+  it('should always deny built-in destructive commands', () => {
+    const manager = new PermissionManager({ allow: ['*'] });
+
+    expect(manager.evaluate(command('sudo apt install x')).decision).toBe('deny');
+    expect(new PermissionManager({ allow: ['execute_command(npm test)'] })
+      .evaluate(command('npm test & sudo rm -rf /')).decision).toBe('deny');
+    expect(manager.evaluate(command('rm -rf /')).decision).toBe('deny');
+    expect(manager.evaluate(command('mkfs.ext4 /dev/sda1')).decision).toBe('deny');
+    expect(manager.evaluate(command('rm -rf ./dist')).decision).toBe('allow');
+    expect(manager.evaluate(command('curl https://example.com')).decision).toBe('allow');
+  });
+
+  it('should match file rules as globs relative to the working directory', () => {
+    const manager = new PermissionManager({ allow: ['edit_file(src/**)'], deny: ['edit_file(**/.env*)'] }, '/project');
+
+    expect(manager.evaluate(edit('src/utils/a.ts')).decision).toBe('allow');
+    expect(manager.evaluate(edit('/project/src/b.ts')).decision).toBe('allow');
+    expect(manager.evaluate(edit('package.json')).decision).toBe('ask');
+    expect(manager.evaluate(edit('src/.env.local')).decision).toBe('deny');
+  });
+
+  it('should apply auto-accept-edits and read-only modes', () => {
+    const autoEdits = new PermissionManager({ mode: 'auto-accept-edits' });
+    expect(autoEdits.evaluate(edit('src/a.ts')).decision).toBe('allow');
+    expect(autoEdits.evaluate(command('npm test')).decision).toBe('ask');
+
+    const readOnly = new PermissionManager({ mode: 'read-only', allow: ['*'] });
+    expect(readOnly.evaluate(edit('src/a.ts')).decision).toBe('deny');
+    expect(readOnly.evaluate(command('npm test')).decision).toBe('deny');
+  });
+
+  it('should suggest session rules for the parts that are not yet allowed', () => {
+    const manager = new PermissionManager({ allow: ['execute_command(npm test)'] });
+
+    expect(manager.suggestRules(command('npm test && git status --short && ls -la'))).toEqual([
+      'execute_command(git status)',
+      'execute_command(ls)'
+    ]);
+    expect(manager.suggestRules(edit('src/a.ts'))).toEqual(['edit_file']);
+  });
+
+  it('should always ask for requests that require confirmation', () => {
+    const commit: PermissionRequest = { toolName: 'git_commit', category: 'execute', description: 'Commit', requireConfirmation: true };
+
+    expect(new PermissionManager({ mode: 'auto-accept-edits', allow: ['*'] }).evaluate(commit).decision).toBe('ask');
+    expect(new PermissionManager({ deny: ['git_commit'] }).evaluate(commit).decision).toBe('deny');
+    expect(new PermissionManager({ mode: 'read-only' }).evaluate(commit).decision).toBe('deny');
+    expect(new PermissionManager().suggestRules(commit)).toEqual([]);
+  });
+});
+
+describe('checkToolPermission', () => {
+  beforeEach(() => {
+    initializePermissions({ mode: 'ask' }, '/project');
+  });
+
+  afterEach(() => {
+    setPermissionPromptHandler(null);
+  });
+
+  it('should deny when approval is needed but no prompt is available', async () => {
+    const result = await checkToolPermission(command('npm test'));
+    expect(result).toMatch(/^Permission denied: approval required/);
+  });
+
+  it('should remember session approvals', async () => {
+    const handler = vi.fn().mockResolvedValue('allow_session');
+    setPermissionPromptHandler(handler);
+
+    expect(await checkToolPermission(command('npm run build'))).toBeNull();
+    expect(await checkToolPermission(command('npm run lint'))).toBeNull();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ specifier: 'npm run build' }), ['execute_command(npm run)']);
+  });
+
+  it('should not remember one-time approvals', async () => {
+    const handler = vi.fn().mockResolvedValueOnce('allow_once').mockResolvedValueOnce('deny');
+    setPermissionPromptHandler(handler);
+
+    expect(await checkToolPermission(command('make'))).toBeNull();
+    expect(await checkToolPermission(command('make'))).toBe('Permission denied by user');
+  });
+
+  it('should show prompts one at a time', async () => {
+    const handler = vi.fn().mockResolvedValue('allow_session');
+    setPermissionPromptHandler(handler);
+
+    const results = await Promise.all([
+      checkToolPermission(edit('a.ts')),
+      checkToolPermission(edit('b.ts'))
+    ]);
+
+    expect(results).toEqual([null, null]);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Permission checks in tools', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'permissions-test-'));
+    await writeFile(join(tempDir, 'app.ts'), 'export const port = 3000;\n');
+  });
+
+  afterEach(async () => {
+    setPermissionPromptHandler(null);
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should leave the file untouched when an edit is denied', async () => {
+    initializePermissions({ mode: 'read-only' }, tempDir);
+    const tool = new EditFileTool(tempDir);
+
+    const result = await tool._call({ filePath: 'app.ts', edits: [{ oldString: '3000', newString: '8080' }] });
+
+    expect(result).toBe('Error editing file: Permission denied: read-only mode is active');
+    expect(await readFile(join(tempDir, 'app.ts'), 'utf-8')).toBe('export const port = 3000;\n');
+  });
+
+  it('should show the diff in the approval prompt', async () => {
+    initializePermissions({ mode: 'ask' }, tempDir);
+    const handler = vi.fn().mockResolvedValue('allow_once');
+    setPermissionPromptHandler(handler);
+    const tool = new EditFileTool(tempDir);
+
+    const result = await tool._call({ filePath: 'app.ts', edits: [{ oldString: '3000', newString: '8080' }] });
+
+    expect(result).toContain('Successfully edited app.ts');
+    expect(handler.mock.calls[0][0].description).toContain('+export const port = 8080;');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Sub-agent Delegation Tests
+ *
+ * Tests the task tool and how the agent runs sub-agents, returns their
+ * report and attributes their steps and tokens
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AIMessage, ToolMessage } from '@langchain/core/messages';
+import { TaskTool, DEFAULT_SUBAGENT_TOOLS } from '../tools/task.js';
+import { CodeMieAgent } from '../agent.js';
+import type { CodeMieConfig } from '../types.js';
+
+// Scripted chat model shared by the parent agent and its sub-agents
+const { responses, models } = vi.hoisted(() => ({
+  responses: [] as AIMessage[],
+  models: [] as string[]
+}));
+
+vi.mock('@langchain/openai', async () => {
+  const { BaseChatModel } = await import('@langchain/core/language_models/chat_models');
+
+  class ScriptedChatModel extends BaseChatModel {
+    constructor(fields: { model: string }) {
+      super({});
+      models.push(fields.model);
+    }
+
+    _llmType(): string {
+      return 'scripted';
+    }
+
+    bindTools(): any {
+      return this;
+    }
+
+    async _generate() {
+      const message = responses.shift() ?? new AIMessage('No scripted response left');
+      return { generations: [{ text: typeof message.content === 'string' ? message.content : '', message }] };
+    }
+  }
+
+  return { ChatOpenAI: ScriptedChatModel };
+});
+
+function withUsage(message: AIMessage, inputTokens: number, outputTokens: number): AIMessage {
+  message.usage_metadata = { input_tokens: inputTokens, output_tokens: outputTokens, total_tokens: inputTokens + outputTokens };
+  return message;
+}
+
+describe('TaskTool', () => {
+  const available = ['read_file', 'write_file', 'grep', 'glob', 'list_directory', 'git_status', 'git_diff', 'git_log', 'execute_command', 'write_todos', 'task'];
+
+  it('should give sub-agents read-only tools by default', async () => {
+    const runner = vi.fn().mockResolvedValue({ report: 'Found it', success: true });
+    const tool = new TaskTool(available, runner);
+
+    expect(await tool._call({ description: 'Explore', prompt: 'Look around' })).toBe('Found it');
+    expect(runner.mock.calls[0][0].tools).toEqual(DEFAULT_SUBAGENT_TOOLS);
+  });
+
+  it('should reject tools that sub-agents cannot use', async () => {
+    const runner = vi.fn();
+    const tool = new TaskTool(available, runner);
+
+    const result = await tool._call({ description: 'Plan', prompt: 'Make todos', tools: ['read_file', 'write_todos', 'task'] });
+
+    expect(result).toMatch(/^Error running task: tools not available to sub-agents: write_todos, task/);
+    expect(runner).not.toHaveBeenCalled();
+  });
+
+  it('should report sub-agent failures with the partial report', async () => {
+    const tool = new TaskTool(available, vi.fn().mockResolvedValue({ report: 'Half done', success: false, error: 'rate limited' }));
+
+    expect(await tool._call({ description: 'Fix', prompt: 'Fix it', tools: ['execute_command'] }))
+      .toBe('Error running task: rate limited\n\nPartial report:\nHalf done');
+  });
+});
+
+describe('CodeMieAgent sub-agents', () => {
+  let tempDir: string;
+  let originalCodemieHome: string | undefined;
+  let config: CodeMieConfig;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'subagent-test-'));
+    originalCodemieHome = process.env.CODEMIE_HOME;
+    process.env.CODEMIE_HOME = tempDir;
+    responses.length = 0;
+    models.length = 0;
+
+    config = {
+      baseUrl: 'https://llm.example.com/v1',
+      authToken: 'test-token-12345',
+      model: 'gpt-4.1',
+      provider: 'openai',
+      timeout: 30,
+      workingDirectory: tempDir,
+      debug: false
+    };
+  });
+
+  afterEach(async () => {
+    if (originalCodemieHome === undefined) {
+      delete process.env.CODEMIE_HOME;
+    } else {
+      process.env.CODEMIE_HOME = originalCodemieHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return the sub-agent report and nest its steps under the task step', async () => {
+    responses.push(
+      withUsage(new AIMessage({
+        content: '',
+        tool_calls: [{
+          id: 'call_1',
+          name: 'task',
+          args: { description: 'Find config loading', prompt: 'Where is config loaded?', model: 'gpt-4.1-mini' }
+        }]
+      }), 1000, 50),
+      withUsage(new AIMessage('Config is loaded in src/utils/config.ts'), 300, 40),
+      withUsage(new AIMessage('The config loader lives in src/utils/config.ts.'), 1200, 30)
+    );
+
+    const agent = new CodeMieAgent(config, []);
+    await agent.chatStream('How is config loaded?', () => {});
+
+    const toolResult = agent.getHistory().find((message): message is ToolMessage => message instanceof ToolMessage);
+    expect(toolResult?.content).toBe('Config is loaded in src/utils/config.ts');
+    expect(models).toEqual(['gpt-4.1', 'gpt-4.1-mini']);
+
+    const stats = agent.getStats();
+    const taskStep = stats.executionSteps.find(step => step.toolName === 'task');
+    expect(taskStep?.subagent).toMatchObject({
+      description: 'Find config loading',
+      model: 'gpt-4.1-mini',
+      success: true
+    });
+    expect(taskStep?.subagent?.stats.executionSteps[0].tokenUsage).toMatchObject({ inputTokens: 300, outputTokens: 40 });
+    expect(stats.inputTokens).toBe(2500);
+    expect(stats.outputTokens).toBe(120);
+  });
+
+  it('should not save sub-agent conversations', async () => {
+    responses.push(
+      new AIMessage({
+        content: '',
+        tool_calls: [{ id: 'call_1', name: 'task', args: { description: 'Explore', prompt: 'Look around' } }]
+      }),
+      new AIMessage('Nothing interesting'),
+      new AIMessage('Done')
+    );
+
+    const agent = new CodeMieAgent(config, []);
+    await agent.chatStream('Explore the repo', () => {});
+
+    const sessions = await agent.listSessions();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].sessionId).toBe(agent.getSessionId());
+  });
+});
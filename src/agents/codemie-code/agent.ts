@@ -6,24 +6,70 @@
 
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
 import { ChatOpenAI } from '@langchain/openai';
+import { ChatOllama } from '@langchain/ollama';
+import { ChatGoogle } from '@langchain/google-gauth';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { RunnableLambda, type Runnable, type RunnableConfig } from '@langchain/core/runnables';
 import type { StructuredTool } from '@langchain/core/tools';
-import type { BaseMessage } from '@langchain/core/messages';
-import { HumanMessage } from '@langchain/core/messages';
-import type { CodeMieConfig, EventCallback, AgentStats, ExecutionStep, TokenUsage } from './types.js';
+import type { BaseMessage, AIMessageChunk } from '@langchain/core/messages';
+import { HumanMessage, isAIMessage } from '@langchain/core/messages';
+import type { CodeMieConfig, CodeMieAgentOptions, AgentEvent, EventCallback, AgentStats, ExecutionStep, SubagentExecution, TokenUsage } from './types.js';
 import type { ClipboardImage } from '../../utils/clipboard.js';
-import { getSystemPrompt } from './prompts.js';
+import { getSystemPrompt, getSubagentSystemPrompt } from './prompts.js';
+import { PromptCachingChatAnthropic, normalizeAnthropicBaseUrl } from './anthropic.js';
+import { OLLAMA_MAX_CONTEXT, normalizeOllamaBaseUrl } from './ollama.js';
+import {
+  createOpenAICompatibleFetch,
+  getOpenAICompatibleConnection
+} from '../../providers/plugins/openai-compatible/openai-compatible.connection.js';
+import { resolveRetrySettings, getRetryDelay, waitForRetry } from './retry.js';
 import { CodeMieAgentError } from './types.js';
 import { extractToolMetadata } from './toolMetadata.js';
-import { extractTokenUsageFromStreamChunk, extractTokenUsageFromFinalState } from './tokenUtils.js';
+import { extractTokenUsageFromStreamChunk, extractTokenUsageFromFinalState, getModelContextWindow } from './tokenUtils.js';
+import {
+  compactConversation,
+  estimateContextTokens,
+  estimateMessageTokens,
+  DEFAULT_COMPACTION_THRESHOLD,
+  type CompactionResult
+} from './compaction.js';
 import { setGlobalToolEventCallback } from './tools/index.js';
+import { TaskTool, type SubagentRequest, type SubagentResult } from './tools/task.js';
+import { ConversationStorage, removeUnansweredToolCalls, type ConversationSummary } from './storage/conversationStorage.js';
+import { CheckpointStorage, setActiveCheckpointStorage, type Checkpoint, type RewindResult } from './storage/checkpointStorage.js';
+import { hasBudgetLimits } from '../../providers/plugins/sso/proxy/plugins/budget-ledger.js';
+import { BudgetTracker } from '../../providers/plugins/sso/proxy/plugins/budget-tracker.js';
+import { PromptRedactor, describeFindings, type RedactionFinding } from '../../providers/plugins/sso/proxy/plugins/prompt-redactor.js';
 import { logger } from '../../utils/logger.js';
 import { sanitizeCookies, sanitizeAuthToken } from '../../utils/security.js';
+import { getErrorMessage, isRetryableError } from '../../utils/errors.js';
+
+/**
+ * Configured model and its LLM; the primary model comes first, then the fallbacks
+ */
+interface ModelCandidate {
+  config: CodeMieConfig;
+  llm: BaseChatModel;
+  llmWithTools?: Runnable<BaseLanguageModelInput, AIMessageChunk>;
+}
 
 export class CodeMieAgent {
   private agent: any;
+  private llm: BaseChatModel;
   private config: CodeMieConfig;
+  private models: ModelCandidate[];
+  private activeModelIndex = 0; // Model answering the current turn
+  private modelEventCallback: EventCallback | null = null;
+  private contextWindow: number;
   private tools: StructuredTool[];
+  private isSubagent: boolean;
   private conversationHistory: BaseMessage[] = [];
+  private conversationStorage: ConversationStorage;
+  private checkpointStorage: CheckpointStorage;
+  private budgetTracker: BudgetTracker | null;
+  private redactor: PromptRedactor | null;
+  private turnCompaction: { summarized: BaseMessage[]; marker: BaseMessage } | null = null; // Summary of messages of the current turn
   private toolCallArgs: Map<string, Record<string, any>> = new Map(); // Store tool args by tool call ID
   private currentExecutionSteps: ExecutionStep[] = [];
   private currentStepNumber = 0;
@@ -43,18 +89,55 @@ export class CodeMieAgent {
     executionSteps: []
   };
 
-  constructor(config: CodeMieConfig, tools: StructuredTool[]) {
+  constructor(config: CodeMieConfig, tools: StructuredTool[], options: CodeMieAgentOptions = {}) {
     this.config = config;
-    this.tools = tools;
+    this.isSubagent = options.subagent ?? false;
+
+    // Sub-agents cannot delegate further
+    this.tools = this.isSubagent
+      ? tools
+      : [...tools, new TaskTool(tools.map(tool => tool.name), (request, signal) => this.runSubagent(request, signal))];
+    this.conversationStorage = new ConversationStorage({
+      workingDirectory: config.workingDirectory,
+      debug: config.debug
+    });
+    this.checkpointStorage = new CheckpointStorage({
+      workingDirectory: config.workingDirectory,
+      sessionId: this.conversationStorage.getSessionId(),
+      debug: config.debug
+    });
 
-    // Create the appropriate LLM based on provider
-    const llm = this.createLLM();
+    // Without the proxy, the agent enforces the profile's budget and prompt redaction itself
+    this.budgetTracker = options.budgetTracker ?? (hasBudgetLimits(config.budget)
+      ? new BudgetTracker(
+        config.budget,
+        { profile: config.name || 'default', sessionId: this.conversationStorage.getSessionId() },
+        message => this.emitModelEvent({ type: 'warning', warning: message })
+      )
+      : null);
+    this.redactor = options.redactor ?? (config.redaction
+      ? new PromptRedactor(config.redaction, message => this.emitModelEvent({ type: 'warning', warning: message }))
+      : null);
+
+    this.contextWindow = config.contextWindow || getModelContextWindow(config.model);
+
+    // Create the appropriate LLM based on provider, followed by the fallback models
+    this.models = [config, ...(config.fallbacks ?? [])].map(modelConfig => ({
+      config: modelConfig,
+      llm: this.createLLM(modelConfig)
+    }));
+    this.llm = this.models[0].llm;
+
+    // Model calls go through invokeModel for retries and fallbacks
+    const model = RunnableLambda.from((input: BaseLanguageModelInput, runConfig?: RunnableConfig) =>
+      this.invokeModel(input, runConfig)
+    );
 
     // Create LangGraph ReAct agent with system prompt
     this.agent = createReactAgent({
-      llm,
+      llm: () => model,
       tools: this.tools,
-      messageModifier: getSystemPrompt(config.workingDirectory)
+      messageModifier: options.systemPrompt ?? getSystemPrompt(config.workingDirectory)
     });
 
     if (config.debug) {
@@ -65,28 +148,30 @@ export class CodeMieAgent {
   /**
    * Create the appropriate LLM instance based on provider configuration
    */
-  private createLLM() {
+  private createLLM(config: CodeMieConfig): BaseChatModel {
     const commonConfig = {
       temperature: 0.7,
       maxTokens: 4096,
-      timeout: this.config.timeout * 1000
+      timeout: config.timeout * 1000,
+      // Failed requests are retried by invokeModel, which can also fall back to other models
+      maxRetries: 0
     };
 
-    switch (this.config.provider) {
+    switch (config.provider) {
       case 'openai':
         return new ChatOpenAI({
-          model: this.config.model,
-          apiKey: this.config.authToken,
+          model: config.model,
+          apiKey: config.authToken,
           configuration: {
-            ...(this.config.baseUrl !== 'https://api.openai.com/v1' && {
-              baseURL: this.config.baseUrl
+            ...(config.baseUrl !== 'https://api.openai.com/v1' && {
+              baseURL: config.baseUrl
             }),
             // Add client tracking headers to all OpenAI requests
             fetch: async (input: string | URL | Request, init?: RequestInit) => {
               const cliVersion = process.env.CODEMIE_CLI_VERSION || 'unknown';
               const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
 
-              if (this.config.debug) {
+              if (config.debug) {
                 logger.debug(`OpenAI request to: ${url}`);
               }
 
@@ -102,7 +187,7 @@ export class CodeMieAgent {
               try {
                 return await fetch(input, updatedInit);
               } catch (error) {
-                if (this.config.debug) {
+                if (config.debug) {
                   logger.debug(`Fetch error for ${url}:`, error);
                 }
                 throw error;
@@ -114,10 +199,10 @@ export class CodeMieAgent {
 
       case 'azure':
         return new ChatOpenAI({
-          model: this.config.model,
-          apiKey: this.config.authToken,
+          model: config.model,
+          apiKey: config.authToken,
           configuration: {
-            baseURL: this.config.baseUrl,
+            baseURL: config.baseUrl,
             defaultQuery: { 'api-version': '2024-02-01' },
             // Add client tracking header to all Azure requests
             fetch: async (input: string | URL | Request, init?: RequestInit) => {
@@ -138,10 +223,10 @@ export class CodeMieAgent {
         // For Bedrock, use OpenAI format with AWS Bedrock credentials
         // Bedrock uses OpenAI-compatible API with special model IDs
         return new ChatOpenAI({
-          model: this.config.model,
-          apiKey: this.config.authToken,
+          model: config.model,
+          apiKey: config.authToken,
           configuration: {
-            baseURL: this.config.baseUrl !== 'bedrock' ? this.config.baseUrl : undefined,
+            baseURL: config.baseUrl !== 'bedrock' ? config.baseUrl : undefined,
             // Add client tracking header to all Bedrock requests
             fetch: async (input: string | URL | Request, init?: RequestInit) => {
               const updatedInit = {
@@ -162,7 +247,7 @@ export class CodeMieAgent {
         // For SSO, we need to inject cookies into requests
         // NOTE: ChatOpenAI appends '/chat/completions' directly, not '/v1/chat/completions'
         // So if baseUrl ends with '/v1', use it as is, otherwise append '/v1'
-        let baseURL = this.config.baseUrl;
+        let baseURL = config.baseUrl;
         if (!baseURL.endsWith('/v1')) {
           baseURL = `${baseURL}/v1`;
         }
@@ -172,13 +257,13 @@ export class CodeMieAgent {
         };
 
         // Check if we have SSO cookies to inject (following codemie-ide-plugin pattern)
-        const ssoCookies = (global as any).codemieSSOCookies;
-        if (this.config.debug) {
+        const ssoCookies = config.ssoCookies ?? (global as any).codemieSSOCookies;
+        if (config.debug) {
           logger.debug(`SSO Cookies available:`, sanitizeCookies(ssoCookies));
-          logger.debug(`Auth token:`, sanitizeAuthToken(this.config.authToken));
+          logger.debug(`Auth token:`, sanitizeAuthToken(config.authToken));
         }
 
-        if (ssoCookies && this.config.authToken === 'sso-authenticated') {
+        if (ssoCookies && config.authToken === 'sso-authenticated') {
           // Create custom fetch function that includes SSO cookies (matches oauth2Proxy.js line 134)
           ssoConfig.fetch = async (input: string | URL | Request, init?: RequestInit) => {
             const cookieString = Object.entries(ssoCookies)
@@ -202,11 +287,11 @@ export class CodeMieAgent {
             // that matches how codemie-claude works through CodeMie Proxy
             process.removeAllListeners('warning');
 
-            if (this.config.debug) {
+            if (config.debug) {
               logger.debug('Disabled SSL verification (like CodeMie Proxy and SSO HTTP Client)');
             }
 
-            if (this.config.debug) {
+            if (config.debug) {
               logger.debug(`SSO request to ${input}`);
               logger.debug(`Cookie string length: ${cookieString.length} characters`);
             }
@@ -214,13 +299,13 @@ export class CodeMieAgent {
             try {
               const response = await fetch(input, updatedInit);
 
-              if (this.config.debug && !response.ok) {
+              if (config.debug && !response.ok) {
                 logger.debug(`SSO request failed: ${response.status} ${response.statusText}`);
               }
 
               return response;
             } catch (error) {
-              if (this.config.debug) {
+              if (config.debug) {
                 logger.debug(`SSO request error:`, error);
               }
               throw error;
@@ -234,12 +319,12 @@ export class CodeMieAgent {
               ...init,
               headers: {
                 ...init?.headers,
-                'Authorization': `Bearer ${this.config.authToken}`,
+                'Authorization': `Bearer ${config.authToken}`,
                 'X-CodeMie-Client': 'codemie-code' // Track client type for request metrics
               }
             };
 
-            if (this.config.debug) {
+            if (config.debug) {
               logger.debug(`Non-SSO LiteLLM request to ${input}`);
               logger.debug(`Authorization header set with API key`);
             }
@@ -247,28 +332,257 @@ export class CodeMieAgent {
             return fetch(input, updatedInit);
           };
 
-          if (this.config.debug) {
+          if (config.debug) {
             logger.debug(`LiteLLM provider configured with API key authentication`);
           }
         }
 
         return new ChatOpenAI({
-          model: this.config.model,
-          apiKey: this.config.authToken,
+          model: config.model,
+          apiKey: config.authToken,
           configuration: ssoConfig,
           ...commonConfig
         });
       }
 
+      case 'anthropic':
+        // Native Messages API with prompt caching
+        return new PromptCachingChatAnthropic({
+          model: config.model,
+          apiKey: config.authToken,
+          anthropicApiUrl: normalizeAnthropicBaseUrl(config.baseUrl),
+          temperature: commonConfig.temperature,
+          maxTokens: commonConfig.maxTokens,
+          maxRetries: commonConfig.maxRetries,
+          clientOptions: {
+            timeout: commonConfig.timeout,
+            // Add client tracking header to all Anthropic requests
+            defaultHeaders: {
+              'X-CodeMie-Client': 'codemie-code'
+            }
+          }
+        });
+
+      case 'ollama':
+        // Native chat API, so the context size can be raised above Ollama's default
+        return new ChatOllama({
+          model: config.model,
+          baseUrl: normalizeOllamaBaseUrl(config.baseUrl),
+          temperature: commonConfig.temperature,
+          numPredict: commonConfig.maxTokens,
+          maxRetries: commonConfig.maxRetries,
+          numCtx: Math.min(config.contextWindow || getModelContextWindow(config.model), OLLAMA_MAX_CONTEXT),
+          // Add client tracking header to all Ollama requests
+          headers: {
+            'X-CodeMie-Client': 'codemie-code'
+          }
+        });
+
+      case 'gemini': {
+        // Gemini API with an API key, or Vertex AI with Google credentials
+        const vertex = config.vertex;
+        const connection = vertex
+          ? {
+            platformType: 'gcp' as const,
+            location: vertex.location,
+            authOptions: { projectId: vertex.project, keyFile: vertex.credentialsFile }
+          }
+          : { platformType: 'gai' as const, apiKey: config.authToken };
+
+        return new ChatGoogle({
+          model: config.model,
+          temperature: commonConfig.temperature,
+          maxOutputTokens: commonConfig.maxTokens,
+          maxRetries: commonConfig.maxRetries,
+          ...connection
+        });
+      }
+
+      case 'openai-compatible':
+        // Any OpenAI-compatible server, with the profile's auth header, static headers and CA bundle
+        return new ChatOpenAI({
+          model: config.model,
+          apiKey: config.authToken,
+          configuration: {
+            baseURL: config.baseUrl,
+            fetch: createOpenAICompatibleFetch(
+              config.openaiCompatible ?? getOpenAICompatibleConnection({}),
+              config.authToken,
+              { 'X-CodeMie-Client': 'codemie-code' } // Track client type for request metrics
+            )
+          },
+          ...commonConfig
+        });
+
       default:
         throw new CodeMieAgentError(
-          `Unsupported provider: ${this.config.provider}`,
+          `Unsupported provider: ${config.provider}`,
           'INVALID_PROVIDER',
-          { provider: this.config.provider }
+          { provider: config.provider }
         );
     }
   }
 
+  /**
+   * Call the active model with the tools bound. Retryable errors are retried
+   * with exponential backoff; when the retries are exhausted the next
+   * fallback model takes over for the rest of the turn.
+   */
+  private async invokeModel(input: BaseLanguageModelInput, runConfig?: RunnableConfig): Promise<AIMessageChunk> {
+    const prompt = this.redactPrompt(await this.compactPrompt(input));
+
+    for (;;) {
+      const candidate = this.models[this.activeModelIndex];
+      await this.checkBudget(candidate.config.model);
+
+      try {
+        const response = await this.invokeWithRetries(candidate, prompt, runConfig);
+        await this.recordBudgetUsage(candidate.config.model, response);
+        return response;
+      } catch (error) {
+        const failed = this.models[this.activeModelIndex];
+        const next = this.models[this.activeModelIndex + 1];
+        if (!next || runConfig?.signal?.aborted || !isRetryableError(error)) {
+          throw error;
+        }
+
+        this.activeModelIndex++;
+        this.emitModelEvent({
+          type: 'model_fallback',
+          fallback: { fromModel: failed.config.model, toModel: next.config.model, reason: getErrorMessage(error) }
+        });
+
+        if (this.config.debug) {
+          logger.debug(`Falling back from ${failed.config.model} to ${next.config.model}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Call one model, retrying retryable errors with exponential backoff
+   */
+  private async invokeWithRetries(
+    candidate: ModelCandidate,
+    input: BaseLanguageModelInput,
+    runConfig?: RunnableConfig
+  ): Promise<AIMessageChunk> {
+    const settings = resolveRetrySettings(this.config.retry);
+    candidate.llmWithTools ??= candidate.llm.bindTools!(this.tools);
+
+    for (let retry = 1; ; retry++) {
+      try {
+        return await candidate.llmWithTools.invoke(input, runConfig);
+      } catch (error) {
+        if (retry > settings.maxRetries || runConfig?.signal?.aborted || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(retry, settings);
+        this.emitModelEvent({
+          type: 'model_retry',
+          retry: { model: candidate.config.model, attempt: retry, maxRetries: settings.maxRetries, delayMs, reason: getErrorMessage(error) }
+        });
+
+        if (this.config.debug) {
+          logger.debug(`Retrying ${candidate.config.model} in ${delayMs}ms (${retry}/${settings.maxRetries}):`, error);
+        }
+
+        await waitForRetry(delayMs, runConfig?.signal);
+      }
+    }
+  }
+
+  /**
+   * Scan the messages of a model call for secrets: masks them in the messages sent
+   * (the conversation keeps them) and rejects the call when a block detector finds one
+   */
+  private redactPrompt(input: BaseLanguageModelInput): BaseLanguageModelInput {
+    if (!this.redactor || !Array.isArray(input)) {
+      return input;
+    }
+
+    const redactor = this.redactor;
+    const findings: RedactionFinding[] = [];
+    const messages = (input as BaseMessage[]).map((message, index) => {
+      const location = `messages[${index}]`;
+      const start = findings.length;
+      const content = redactor.scan(message.content, `${location}.content`, findings);
+      const toolCalls = isAIMessage(message) ? redactor.scan(message.tool_calls, `${location}.tool_calls`, findings) : undefined;
+
+      if (!findings.slice(start).some(finding => finding.policy === 'mask')) {
+        return message;
+      }
+      // Same message type with the masked fields
+      return Object.assign(Object.create(Object.getPrototypeOf(message)), message, {
+        content,
+        ...(toolCalls !== undefined && { tool_calls: toolCalls })
+      }) as BaseMessage;
+    });
+
+    if (findings.length === 0) {
+      return input;
+    }
+
+    const blocking = findings.filter(finding => finding.policy === 'block');
+    for (const finding of findings) {
+      const action = blocking.length > 0 ? 'Blocked' : finding.policy === 'mask' ? 'Masked' : 'Detected';
+      logger.info(`[redaction] ${action} ${finding.detector} in ${finding.location} of a model call`, { policy: finding.policy });
+    }
+
+    if (blocking.length > 0) {
+      redactor.notify(blocking, 'blocked');
+      throw new CodeMieAgentError(
+        `CodeMie blocked this request: the prompt contains ${describeFindings(blocking)}. ` +
+          'Remove the secret from the conversation or change proxy.redaction in the profile.',
+        'SENSITIVE_CONTENT',
+        { detectors: blocking.map(finding => finding.detector) }
+      );
+    }
+
+    redactor.notify(findings.filter(finding => finding.policy === 'mask'), 'masked');
+    redactor.notify(findings.filter(finding => finding.policy === 'warn'), 'detected');
+    return messages;
+  }
+
+  /**
+   * Reject a model call once the profile's budget is exhausted
+   */
+  private async checkBudget(model: string): Promise<void> {
+    const message = await this.budgetTracker?.check(model);
+    if (message) {
+      throw new CodeMieAgentError(message, 'BUDGET_EXCEEDED', { profile: this.config.name, model });
+    }
+  }
+
+  /**
+   * Count the token usage of a model response towards the profile's budget
+   */
+  private async recordBudgetUsage(model: string, response: AIMessageChunk): Promise<void> {
+    const usage = response.usage_metadata;
+    if (!this.budgetTracker || !usage) {
+      return;
+    }
+
+    await this.budgetTracker.record(model, {
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cacheReadTokens: usage.input_token_details?.cache_read,
+      cacheWriteTokens: usage.input_token_details?.cache_creation
+    });
+  }
+
+  private emitModelEvent(event: AgentEvent): void {
+    this.modelEventCallback?.(event);
+  }
+
+  /**
+   * Configuration of the model answering the current turn
+   */
+  private getActiveModelConfig(): CodeMieConfig {
+    return this.models[this.activeModelIndex].config;
+  }
+
   /**
    * Create a HumanMessage with optional image support (multiple images)
    */
@@ -302,7 +616,12 @@ export class CodeMieAgent {
   /**
    * Stream a chat interaction with the agent
    */
-  async chatStream(message: string, onEvent: EventCallback, images: ClipboardImage[] = []): Promise<void> {
+  async chatStream(
+    message: string,
+    onEvent: EventCallback,
+    images: ClipboardImage[] = [],
+    signal?: AbortSignal
+  ): Promise<void> {
     const startTime = Date.now();
     let currentToolCall: string | null = null;
     let currentStep: ExecutionStep | null = null;
@@ -313,18 +632,39 @@ export class CodeMieAgent {
     this.currentStepNumber = 0;
     this.isFirstLLMCall = true;
 
+    // Every turn starts with the primary model again
+    this.activeModelIndex = 0;
+    this.modelEventCallback = onEvent;
+
     // Set up global tool event callback for progress reporting
-    setGlobalToolEventCallback((event) => {
-      onEvent({
-        type: 'tool_call_progress',
-        toolName: event.toolName,
-        toolProgress: event.progress
+    // (sub-agent tools report through the parent's callback)
+    if (!this.isSubagent) {
+      // File tools record prior contents into this agent's checkpoints
+      // (sub-agent changes belong to the parent's turn)
+      setActiveCheckpointStorage(this.checkpointStorage);
+
+      setGlobalToolEventCallback((event) => {
+        onEvent({
+          type: 'tool_call_progress',
+          toolName: event.toolName,
+          toolProgress: event.progress
+        });
       });
-    });
+    }
 
     // Create an AbortController for proper stream cancellation
     const abortController = new AbortController();
 
+    // Follow cancellation of the caller (the parent agent for sub-agents)
+    const abortFromCaller = () => {
+      streamAborted = true;
+      abortController.abort();
+    };
+    if (signal?.aborted) {
+      abortFromCaller();
+    }
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+
     // Set up Ctrl+C handler for graceful stream termination
     const originalSigintHandler = process.listeners('SIGINT');
     const sigintHandler = () => {
@@ -336,15 +676,25 @@ export class CodeMieAgent {
       onEvent({ type: 'error', error: 'Stream interrupted by user (Ctrl+C)' });
     };
 
-    process.once('SIGINT', sigintHandler);
+    // Sub-agents are interrupted through the parent's abort signal
+    if (!this.isSubagent) {
+      process.once('SIGINT', sigintHandler);
+    }
 
     try {
       if (this.config.debug) {
         logger.debug(`Processing message: ${message.substring(0, 100)}...`);
       }
 
-      // Add user message to conversation history (with optional images)
+      // Summarise older turns before the context window fills up
       const userMessage = this.createHumanMessage(message, images);
+      await this.compactIfNeeded(estimateMessageTokens([userMessage]), onEvent);
+
+      if (!this.isSubagent) {
+        await this.startCheckpoint(userMessage, message);
+      }
+
+      // Add user message to conversation history (with optional images)
       this.conversationHistory.push(userMessage);
 
       // Notify start of thinking
@@ -367,6 +717,9 @@ export class CodeMieAgent {
 
       // Process stream chunks with interruption handling
       for await (const chunk of stream) {
+        // Keep model responses and tool results in the conversation history
+        this.conversationHistory.push(...(chunk.agent?.messages ?? []), ...(chunk.tools?.messages ?? []));
+
         // Check if stream was aborted
         if (streamAborted || abortController.signal.aborted) {
           if (this.config.debug) {
@@ -377,8 +730,8 @@ export class CodeMieAgent {
         // Try to extract token usage from stream chunk
         const tokenUsage = extractTokenUsageFromStreamChunk(
           chunk,
-          this.config.model,
-          this.config.provider
+          this.getActiveModelConfig().model,
+          this.getActiveModelConfig().provider
         );
 
         if (tokenUsage && currentStep && currentStep.type === 'llm_call') {
@@ -443,8 +796,8 @@ export class CodeMieAgent {
           // Try to extract token usage from final state if we missed it during streaming
           const finalTokenUsage = extractTokenUsageFromFinalState(
             finalState,
-            this.config.model,
-            this.config.provider
+            this.getActiveModelConfig().model,
+            this.getActiveModelConfig().provider
           );
 
           if (finalTokenUsage && this.currentExecutionSteps.length > 0) {
@@ -466,9 +819,15 @@ export class CodeMieAgent {
         }
       }
 
+      // An interrupted stream can leave tool calls without results, which providers reject
+      this.conversationHistory = removeUnansweredToolCalls(this.applyTurnCompaction(this.conversationHistory));
+
+      await this.saveConversation();
+
       // Finalize execution statistics
       this.stats.executionTime = Date.now() - startTime;
       this.stats.executionSteps = [...this.currentExecutionSteps];
+      this.stats.model = this.getActiveModelConfig().model;
 
       // Notify thinking end and completion
       onEvent({ type: 'thinking_end' });
@@ -494,6 +853,7 @@ export class CodeMieAgent {
         if (this.config.debug) {
           logger.debug('Stream aborted by user');
         }
+        this.conversationHistory = removeUnansweredToolCalls(this.applyTurnCompaction(this.conversationHistory));
 
         onEvent({
           type: 'error',
@@ -522,17 +882,25 @@ export class CodeMieAgent {
         { originalError: error, stats: this.stats }
       );
     } finally {
-      // Clean up global tool event callback
-      setGlobalToolEventCallback(null);
-
-      // Always clean up signal handler
-      process.removeListener('SIGINT', sigintHandler);
-
-      // Restore original handlers if they existed
-      if (originalSigintHandler.length > 0) {
-        originalSigintHandler.forEach(handler => {
-          process.on('SIGINT', handler as NodeJS.SignalsListener);
-        });
+      signal?.removeEventListener('abort', abortFromCaller);
+      this.modelEventCallback = null;
+      this.conversationHistory = this.applyTurnCompaction(this.conversationHistory);
+      this.turnCompaction = null;
+
+      if (!this.isSubagent) {
+        // Clean up global tool event callback
+        setGlobalToolEventCallback(null);
+        setActiveCheckpointStorage(null);
+
+        // Always clean up signal handler
+        process.removeListener('SIGINT', sigintHandler);
+
+        // Restore original handlers if they existed
+        if (originalSigintHandler.length > 0) {
+          originalSigintHandler.forEach(handler => {
+            process.on('SIGINT', handler as NodeJS.SignalsListener);
+          });
+        }
       }
     }
   }
@@ -663,9 +1031,287 @@ export class CodeMieAgent {
   }
 
   /**
-   * Clear conversation history
+   * Compact the conversation automatically when it gets close to the context window.
+   * Failures are logged and the request continues with the full history.
+   */
+  private async compactIfNeeded(pendingTokens: number, onEvent: EventCallback): Promise<void> {
+    const { tokens, contextWindow } = this.getContextUsage();
+    if (tokens + pendingTokens < contextWindow * DEFAULT_COMPACTION_THRESHOLD) {
+      return;
+    }
+
+    try {
+      const result = await this.compactHistory();
+      if (result) {
+        onEvent({
+          type: 'context_compacted',
+          compaction: {
+            summarizedMessages: result.summarizedMessages,
+            tokensBefore: result.tokensBefore,
+            tokensAfter: result.tokensAfter
+          }
+        });
+      }
+    } catch (error) {
+      logger.debug('Automatic context compaction failed:', error);
+    }
+  }
+
+  /**
+   * Summarise older turns with the LLM, keeping recent turns verbatim
+   *
+   * @returns Compaction details, or null when there is nothing to summarise
+   */
+  async compactHistory(): Promise<CompactionResult | null> {
+    const result = await this.summarizeMessages(this.conversationHistory);
+    if (!result) {
+      return null;
+    }
+
+    this.conversationHistory = result.messages;
+    await this.saveConversation();
+
+    if (this.config.debug) {
+      logger.debug(`Compacted ${result.summarizedMessages} messages: ~${result.tokensBefore} -> ~${result.tokensAfter} tokens`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Summarise the older turns of messages with the LLM. The summary request is
+   * redacted and counts towards the budget like the agent's own model calls.
+   */
+  private async summarizeMessages(messages: BaseMessage[]): Promise<CompactionResult | null> {
+    const summarizer = {
+      invoke: async (input: BaseLanguageModelInput) => {
+        await this.checkBudget(this.config.model);
+        const response = await this.llm.invoke(this.redactPrompt(input));
+        await this.recordBudgetUsage(this.config.model, response);
+        return response;
+      }
+    };
+
+    return compactConversation(summarizer, messages, {
+      contextWindow: this.contextWindow,
+      model: this.config.model,
+      provider: this.config.provider
+    });
+  }
+
+  /**
+   * Summarise older turns before a model call once its prompt nears the context
+   * window: tool results grow the conversation within a turn, after the check
+   * at the start of the turn. The graph keeps the full messages until the turn
+   * ends, so the summary replaces them in later calls and in the saved history.
+   */
+  private async compactPrompt(input: BaseLanguageModelInput): Promise<BaseLanguageModelInput> {
+    if (!Array.isArray(input)) {
+      return input;
+    }
+
+    const messages = input as BaseMessage[];
+    const systemCount = messages.findIndex(message => message.getType() !== 'system');
+    if (systemCount === -1) {
+      return input;
+    }
+
+    const system = messages.slice(0, systemCount);
+    const conversation = this.applyTurnCompaction(messages.slice(systemCount));
+    const tokens = estimateContextTokens(conversation, this.config.model, this.config.provider);
+    if (tokens < this.contextWindow * DEFAULT_COMPACTION_THRESHOLD) {
+      return [...system, ...conversation];
+    }
+
+    try {
+      const result = await this.summarizeMessages(conversation);
+      if (result) {
+        const older = conversation.slice(0, result.summarizedMessages);
+        const previous = this.turnCompaction;
+        this.turnCompaction = {
+          summarized: previous && older[0] === previous.marker ? [...previous.summarized, ...older.slice(1)] : older,
+          marker: result.messages[0]
+        };
+
+        this.emitModelEvent({
+          type: 'context_compacted',
+          compaction: { summarizedMessages: result.summarizedMessages, tokensBefore: result.tokensBefore, tokensAfter: result.tokensAfter }
+        });
+        return [...system, ...result.messages];
+      }
+    } catch (error) {
+      logger.debug('Automatic context compaction failed:', error);
+    }
+
+    return [...system, ...conversation];
+  }
+
+  /**
+   * Replace the messages summarised during the current turn with their summary
+   */
+  private applyTurnCompaction(messages: BaseMessage[]): BaseMessage[] {
+    const compaction = this.turnCompaction;
+    if (!compaction || messages.length < compaction.summarized.length) {
+      return messages;
+    }
+
+    // The graph may copy messages, so compare IDs as well
+    const isSummarized = compaction.summarized.every((message, index) =>
+      messages[index] === message || (message.id !== undefined && messages[index].id === message.id)
+    );
+    return isSummarized ? [compaction.marker, ...messages.slice(compaction.summarized.length)] : messages;
+  }
+
+  /**
+   * Get the estimated context window usage of the current conversation
+   */
+  getContextUsage(): { tokens: number; contextWindow: number } {
+    return {
+      tokens: estimateContextTokens(this.conversationHistory, this.config.model, this.config.provider),
+      contextWindow: this.contextWindow
+    };
+  }
+
+  /**
+   * Persist the conversation; failures are logged and never interrupt the chat
+   */
+  private async saveConversation(): Promise<void> {
+    // Sub-agent conversations are internal and not resumable
+    if (this.isSubagent) {
+      return;
+    }
+
+    try {
+      await this.conversationStorage.saveConversation(this.conversationHistory, this.config.model);
+    } catch (error) {
+      logger.debug('Could not save conversation:', error);
+    }
+  }
+
+  /**
+   * Get the ID of the current conversation session
+   */
+  getSessionId(): string {
+    return this.conversationStorage.getSessionId();
+  }
+
+  /**
+   * List saved conversation sessions for the working directory
+   */
+  async listSessions(): Promise<ConversationSummary[]> {
+    return this.conversationStorage.listSessions();
+  }
+
+  /**
+   * Resume a saved conversation session, replacing the current history.
+   * Without a session ID the most recent session is resumed.
+   *
+   * @returns Number of restored messages
+   */
+  async resumeSession(sessionId?: string): Promise<number> {
+    const targetId = sessionId ?? await this.conversationStorage.getLatestSessionId();
+    if (!targetId) {
+      throw new CodeMieAgentError('No saved conversations found for this project', 'SESSION_NOT_FOUND');
+    }
+
+    const messages = await this.conversationStorage.loadConversation(targetId);
+    if (!messages) {
+      throw new CodeMieAgentError(`Conversation not found: ${targetId}`, 'SESSION_NOT_FOUND', { sessionId: targetId });
+    }
+
+    this.resetState();
+    this.conversationHistory = removeUnansweredToolCalls(messages);
+    this.checkpointStorage.setSession(targetId);
+
+    if (this.config.debug) {
+      logger.debug(`Resumed session ${targetId} with ${messages.length} messages`);
+    }
+
+    return messages.length;
+  }
+
+  /**
+   * Start the checkpoint of a new turn and tag the user message with it, so
+   * the turn can be found in the history when it is undone.
+   * Failures are logged and never interrupt the chat.
+   */
+  private async startCheckpoint(userMessage: HumanMessage, text: string): Promise<void> {
+    try {
+      const checkpoint = await this.checkpointStorage.createCheckpoint(text);
+      userMessage.additional_kwargs = { ...userMessage.additional_kwargs, checkpointId: checkpoint.id };
+    } catch (error) {
+      logger.debug('Could not create checkpoint:', error);
+    }
+  }
+
+  /**
+   * List checkpoints (one per turn) of the current session, oldest first
+   */
+  async listCheckpoints(): Promise<Checkpoint[]> {
+    return this.checkpointStorage.getCheckpoints();
+  }
+
+  /**
+   * Restore files to their state before a checkpoint and drop that turn and
+   * all later turns from the conversation
+   */
+  async rewindToCheckpoint(checkpointId: number): Promise<RewindResult> {
+    const checkpoints = await this.checkpointStorage.getCheckpoints();
+    if (!checkpoints.some(checkpoint => checkpoint.id === checkpointId)) {
+      throw new CodeMieAgentError(`Checkpoint not found: ${checkpointId}`, 'CHECKPOINT_NOT_FOUND', { checkpointId });
+    }
+
+    const result = await this.checkpointStorage.rewind(checkpointId);
+
+    // Turns summarised by compaction are no longer in the history; their summary is kept
+    const turnStart = this.conversationHistory.findIndex(message =>
+      message.getType() === 'human' && Number(message.additional_kwargs?.checkpointId) >= checkpointId
+    );
+    if (turnStart !== -1) {
+      this.conversationHistory = this.conversationHistory.slice(0, turnStart);
+    }
+
+    if (this.conversationHistory.length > 0) {
+      await this.saveConversation();
+    } else {
+      await this.conversationStorage.deleteConversation();
+    }
+
+    if (this.config.debug) {
+      logger.debug(`Rewound to checkpoint ${checkpointId}, restored ${result.restoredFiles.length} files`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Undo the last turn: restore the files it changed and remove it from the conversation
+   */
+  async undoLastTurn(): Promise<RewindResult> {
+    const lastCheckpoint = (await this.checkpointStorage.getCheckpoints()).at(-1);
+    if (!lastCheckpoint) {
+      throw new CodeMieAgentError('Nothing to undo', 'NO_CHECKPOINTS');
+    }
+
+    return this.rewindToCheckpoint(lastCheckpoint.id);
+  }
+
+  /**
+   * Clear conversation history and start a new session (the previous one stays resumable)
    */
   clearHistory(): void {
+    this.checkpointStorage.setSession(this.conversationStorage.startNewSession());
+    this.resetState();
+
+    if (this.config.debug) {
+      logger.debug('Conversation history cleared');
+    }
+  }
+
+  /**
+   * Reset history, execution tracking and stats
+   */
+  private resetState(): void {
     this.conversationHistory = [];
     this.toolCallArgs.clear(); // Clear stored tool args
     this.currentExecutionSteps = [];
@@ -687,10 +1333,6 @@ export class CodeMieAgent {
       llmCalls: 0,
       executionSteps: []
     };
-
-    if (this.config.debug) {
-      logger.debug('Conversation history cleared');
-    }
   }
 
   /**
@@ -719,9 +1361,15 @@ export class CodeMieAgent {
    */
   getConfig(): CodeMieConfig {
     // Return sanitized config (without sensitive data)
+    const sanitize = (config: CodeMieConfig): CodeMieConfig => ({
+      ...config,
+      authToken: `${config.authToken.substring(0, 8)}***`,
+      ssoCookies: undefined
+    });
+
     return {
-      ...this.config,
-      authToken: `${this.config.authToken.substring(0, 8)}***`
+      ...sanitize(this.config),
+      fallbacks: this.config.fallbacks?.map(sanitize)
     };
   }
 
@@ -756,6 +1404,81 @@ export class CodeMieAgent {
     }
   }
 
+  /**
+   * Run a task tool sub-agent with its own history and a subset of the tools.
+   * Its steps are nested in the task tool step and its token usage counts towards this agent.
+   */
+  private async runSubagent(request: SubagentRequest, signal?: AbortSignal): Promise<SubagentResult> {
+    const model = request.model ?? this.config.model;
+    const subagent = new CodeMieAgent(
+      {
+        ...this.config,
+        model,
+        contextWindow: model === this.config.model ? this.config.contextWindow : undefined
+      },
+      this.tools.filter(tool => request.tools.includes(tool.name)),
+      {
+        subagent: true,
+        systemPrompt: getSubagentSystemPrompt(this.config.workingDirectory),
+        budgetTracker: this.budgetTracker ?? undefined,
+        redactor: this.redactor ?? undefined
+      }
+    );
+
+    if (this.config.debug) {
+      logger.debug(`Starting sub-agent "${request.description}" (${model}) with tools: ${request.tools.join(', ')}`);
+    }
+
+    const errors: string[] = [];
+    try {
+      await subagent.chatStream(request.prompt, (event) => {
+        if (event.type === 'error' && event.error) {
+          errors.push(event.error);
+        }
+      }, [], signal);
+    } catch (error) {
+      if (errors.length === 0) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    // The final answer of the sub-agent is its report
+    const finalMessage = subagent.getHistory().reverse().find(message =>
+      message.getType() === 'ai' && typeof message.content === 'string' && message.content.trim()
+    );
+    const report = (finalMessage?.content as string | undefined)?.trim() ?? '';
+
+    const stats = subagent.getStats();
+    const execution: SubagentExecution = {
+      description: request.description,
+      model,
+      tools: request.tools,
+      success: errors.length === 0,
+      stats
+    };
+
+    const taskStep = this.currentExecutionSteps.find(step =>
+      step.type === 'tool_execution' && step.toolName === 'task' && !step.subagent
+    );
+    if (taskStep) {
+      taskStep.subagent = execution;
+    }
+
+    this.updateStatsWithTokenUsage({
+      inputTokens: stats.inputTokens,
+      outputTokens: stats.outputTokens,
+      cachedTokens: stats.cachedTokens,
+      totalTokens: stats.totalTokens,
+      estimatedCost: stats.estimatedTotalCost
+    });
+
+    if (this.config.debug) {
+      logger.debug(`Sub-agent "${request.description}" finished: ${stats.llmCalls} LLM calls, ${stats.totalTokens} tokens`);
+    }
+
+    return { report, success: execution.success, error: errors.join('; ') || undefined };
+  }
+
   /**
    * Start a new LLM call step
    */
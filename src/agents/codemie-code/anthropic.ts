@@ -0,0 +1,29 @@
+/**
+ * Anthropic Chat Model for CodeMie Agent
+ *
+ * Native Anthropic Messages API model with prompt caching. Every request
+ * carries a top-level cache_control, so the API places the cache breakpoint
+ * on the last cacheable block and the tools, system prompt and earlier turns
+ * are read from cache on the following requests.
+ */
+
+import { ChatAnthropic } from '@langchain/anthropic';
+
+/**
+ * Normalize an Anthropic base URL for the SDK, which appends /v1/messages itself
+ */
+export function normalizeAnthropicBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * ChatAnthropic with automatic prompt caching
+ */
+export class PromptCachingChatAnthropic extends ChatAnthropic {
+  override invocationParams(options?: this['ParsedCallOptions']): ReturnType<ChatAnthropic['invocationParams']> {
+    return super.invocationParams({
+      ...options,
+      cache_control: options?.cache_control ?? { type: 'ephemeral' }
+    } as this['ParsedCallOptions']);
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Context Compaction for CodeMie Agent
+ *
+ * Keeps long conversations within the model context window by summarising
+ * older turns with the LLM. Recent turns, including their tool results, are
+ * kept verbatim after a compaction marker message that carries the summary.
+ */
+
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { BaseMessage } from '@langchain/core/messages';
+import { AIMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { extractTokenUsage } from './tokenUtils.js';
+
+/**
+ * Fraction of the context window that triggers automatic compaction
+ */
+export const DEFAULT_COMPACTION_THRESHOLD = 0.8;
+
+/**
+ * Fraction of the context window kept verbatim as recent turns
+ */
+export const RECENT_CONTEXT_RATIO = 0.25;
+
+export const COMPACTION_MARKER = '[Conversation compacted]';
+
+const TOOL_RESULT_PREVIEW_CHARS = 2000;
+const TOOL_ARGS_PREVIEW_CHARS = 500;
+
+const COMPACTION_PROMPT = `You are compacting the history of a coding assistant session so it fits in the context window.
+Write a concise summary of the conversation below that lets the assistant continue the work seamlessly. Include:
+- The user's goals and explicit instructions or preferences
+- Files read, created or modified, and the important details learned about them
+- Commands run and their relevant outcomes (errors, test results)
+- Decisions made and the current state of the work
+- Open questions and the next steps that were planned
+Do not invent details. Reply with the summary only.`;
+
+/**
+ * Details stored on the compaction marker message
+ */
+export interface CompactionInfo {
+  summarizedMessages: number;
+  retainedMessages: number;
+  tokensBefore: number;
+}
+
+export interface CompactionResult extends CompactionInfo {
+  messages: BaseMessage[];
+  tokensAfter: number;
+}
+
+/**
+ * Check whether a message is a compaction marker inserted by compactConversation
+ */
+export function isCompactionMarker(message: BaseMessage): boolean {
+  return message.getType() === 'human' && Boolean(message.additional_kwargs?.compaction);
+}
+
+function getMessageText(message: BaseMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+
+  return message.content
+    .map((part: any) => part.type === 'text' ? part.text : `[${part.type}]`)
+    .join('\n');
+}
+
+function getToolCalls(message: BaseMessage): NonNullable<AIMessage['tool_calls']> {
+  return message instanceof AIMessage ? message.tool_calls ?? [] : [];
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for messages without usage data
+ */
+export function estimateMessageTokens(messages: BaseMessage[]): number {
+  let characters = 0;
+
+  for (const message of messages) {
+    characters += getMessageText(message).length;
+    for (const toolCall of getToolCalls(message)) {
+      characters += toolCall.name.length + JSON.stringify(toolCall.args ?? {}).length;
+    }
+  }
+
+  return Math.ceil(characters / 4);
+}
+
+/**
+ * Estimate the tokens the conversation occupies in the context window.
+ * Uses the provider-reported usage of the latest model response and estimates
+ * only the messages added after it. Usage reported before the last compaction
+ * is stale and ignored.
+ */
+export function estimateContextTokens(messages: BaseMessage[], model: string, provider: string): number {
+  let firstTrustedIndex = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (isCompactionMarker(messages[i])) {
+      const info = messages[i].additional_kwargs.compaction as CompactionInfo;
+      firstTrustedIndex = i + 1 + info.retainedMessages;
+      break;
+    }
+  }
+
+  for (let i = messages.length - 1; i >= firstTrustedIndex; i--) {
+    if (messages[i].getType() !== 'ai') continue;
+
+    const usage = extractTokenUsage(messages[i], model, provider);
+    if (usage) {
+      return usage.inputTokens + usage.outputTokens + estimateMessageTokens(messages.slice(i + 1));
+    }
+  }
+
+  return estimateMessageTokens(messages);
+}
+
+/**
+ * Split history into older messages to summarise and recent turns to keep.
+ * Splits only at user messages so tool calls stay next to their results;
+ * the latest turn is always kept.
+ */
+export function splitForCompaction(
+  messages: BaseMessage[],
+  keepRecentTokens: number
+): { older: BaseMessage[]; recent: BaseMessage[] } {
+  const turnStarts = messages
+    .map((message, index) => ({ message, index }))
+    .filter(({ message }) => message.getType() === 'human' && !isCompactionMarker(message))
+    .map(({ index }) => index);
+
+  if (turnStarts.length === 0) {
+    return { older: [], recent: messages };
+  }
+
+  let keepFrom = turnStarts[turnStarts.length - 1];
+  for (let i = turnStarts.length - 2; i >= 0; i--) {
+    if (estimateMessageTokens(messages.slice(turnStarts[i])) > keepRecentTokens) break;
+    keepFrom = turnStarts[i];
+  }
+
+  return { older: messages.slice(0, keepFrom), recent: messages.slice(keepFrom) };
+}
+
+/**
+ * Render messages as a plain-text transcript for the summarisation request
+ */
+function formatTranscript(messages: BaseMessage[]): string {
+  const lines: string[] = [];
+
+  for (const message of messages) {
+    const text = getMessageText(message).trim();
+
+    switch (message.getType()) {
+      case 'human':
+        lines.push(isCompactionMarker(message) ? `Earlier summary:\n${text}` : `User: ${text}`);
+        break;
+
+      case 'ai':
+        if (text) lines.push(`Assistant: ${text}`);
+        for (const toolCall of getToolCalls(message)) {
+          const args = JSON.stringify(toolCall.args ?? {});
+          lines.push(`Assistant called ${toolCall.name}(${args.length > TOOL_ARGS_PREVIEW_CHARS ? `${args.substring(0, TOOL_ARGS_PREVIEW_CHARS)}...` : args})`);
+        }
+        break;
+
+      case 'tool': {
+        const preview = text.length > TOOL_RESULT_PREVIEW_CHARS
+          ? `${text.substring(0, TOOL_RESULT_PREVIEW_CHARS)}... [${text.length - TOOL_RESULT_PREVIEW_CHARS} more characters]`
+          : text;
+        lines.push(`Tool result${message.name ? ` (${message.name})` : ''}: ${preview}`);
+        break;
+      }
+
+      default:
+        if (text) lines.push(`${message.getType()}: ${text}`);
+    }
+  }
+
+  return lines.join('\n\n');
+}
+
+/**
+ * Summarise older turns with the LLM and replace them with a compaction marker
+ *
+ * @returns Compacted history, or null when there is nothing to summarise
+ */
+export async function compactConversation(
+  llm: Pick<BaseChatModel, 'invoke'>,
+  messages: BaseMessage[],
+  options: { contextWindow: number; model: string; provider: string }
+): Promise<CompactionResult | null> {
+  const { older, recent } = splitForCompaction(messages, options.contextWindow * RECENT_CONTEXT_RATIO);
+
+  if (older.length === 0) {
+    return null;
+  }
+
+  const response = await llm.invoke([
+    new SystemMessage(COMPACTION_PROMPT),
+    new HumanMessage(formatTranscript(older))
+  ]);
+
+  const summary = getMessageText(response).trim();
+  if (!summary) {
+    throw new Error('Compaction failed: the model returned an empty summary');
+  }
+
+  const info: CompactionInfo = {
+    summarizedMessages: older.length,
+    retainedMessages: recent.length,
+    tokensBefore: estimateContextTokens(messages, options.model, options.provider)
+  };
+
+  const marker = new HumanMessage({
+    content: `${COMPACTION_MARKER}\nSummary of the earlier conversation:\n\n${summary}`,
+    additional_kwargs: { compaction: info }
+  });
+
+  const compacted = [marker, ...recent];
+
+  return {
+    ...info,
+    messages: compacted,
+    tokensAfter: estimateMessageTokens(compacted)
+  };
+}
@@ -11,7 +11,16 @@ import { ConfigurationError } from './types.js';
 import { CredentialStore } from '../../utils/security.js';
 import { ProviderRegistry } from '../../providers/core/registry.js';
 import { logger } from '../../utils/logger.js';
+import { normalizeAnthropicBaseUrl } from './anthropic.js';
+import { normalizeOllamaBaseUrl, resolveOllamaModel } from './ollama.js';
 import { sanitizeCookies } from '../../utils/security.js';
+import { resolveSecrets } from '../../utils/secrets.js';
+import { getRedactionSettings } from '../../providers/plugins/sso/proxy/plugins/redaction.plugin.js';
+import { getVertexSettings } from '../../providers/plugins/gemini/gemini.models.js';
+import {
+  getOpenAICompatibleConnection,
+  getOpenAICompatibleHeaders
+} from '../../providers/plugins/openai-compatible/openai-compatible.connection.js';
 
 /**
  * Load and validate configuration for the CodeMie native agent
@@ -25,57 +34,19 @@ export async function loadCodeMieConfig(
   try {
     // Use existing ConfigLoader to get base configuration
     const baseConfig = await ConfigLoader.loadAndValidate(workDir, cliOverrides);
+    const agentConfig = await toAgentConfig(baseConfig, workDir);
 
-    // Handle SSO configuration
-    let resolvedBaseUrl = baseConfig.baseUrl!;
-    let resolvedApiKey = baseConfig.apiKey!;
-
-    // Check if provider uses SSO authentication
-    const provider = ProviderRegistry.getProvider(baseConfig.provider || '');
-    if (provider?.authType === 'sso') {
-      const store = CredentialStore.getInstance();
-      // Retrieve credentials using the codeMieUrl from profile for URL-specific storage
-      const codeMieUrl = (baseConfig as any).codeMieUrl || baseConfig.baseUrl;
-      const credentials = await store.retrieveSSOCredentials(codeMieUrl);
-
-      if (!credentials) {
-        throw new ConfigurationError(
-          'SSO credentials not found. Please run: codemie profile login',
-          { provider: baseConfig.provider, codeMieUrl }
-        );
-      }
-
-      // Use SSO credentials
-      resolvedBaseUrl = credentials.apiUrl;
-      resolvedApiKey = 'sso-authenticated'; // Placeholder - actual auth via cookies
-
-      // Store cookies for HTTP client access
-      (global as any).codemieSSOCookies = credentials.cookies;
-
-      if (baseConfig.debug) {
-        logger.debug('SSO credentials loaded from store');
-        logger.debug('API URL:', resolvedBaseUrl);
-        logger.debug('Cookies:', sanitizeCookies(credentials.cookies));
-      }
+    // Store cookies for HTTP client access
+    if (agentConfig.ssoCookies) {
+      (global as any).codemieSSOCookies = agentConfig.ssoCookies;
     }
 
-    // Convert to our agent-specific config format
-    const originalProvider = baseConfig.provider!;
-    const agentConfig: CodeMieConfig = {
-      baseUrl: resolvedBaseUrl,
-      authToken: resolvedApiKey,
-      model: baseConfig.model!,
-      provider: normalizeProvider(originalProvider),
-      displayProvider: originalProvider, // Keep original for display
-      timeout: baseConfig.timeout || 300,
-      workingDirectory: workDir,
-      debug: baseConfig.debug || false,
-      name: baseConfig.name, // Profile name for display
-      codeMieUrl: (baseConfig as any).codeMieUrl // CodeMie URL for SSO providers
-    };
-
-    // Validate agent-specific requirements
-    validateAgentConfig(agentConfig);
+    agentConfig.retry = baseConfig.retry;
+    agentConfig.budget = baseConfig.budget;
+    agentConfig.redaction = getRedactionSettings(baseConfig) ?? undefined;
+    if (baseConfig.fallbacks?.length) {
+      agentConfig.fallbacks = await resolveFallbacks(baseConfig, workDir);
+    }
 
     return agentConfig;
   } catch (error) {
@@ -87,6 +58,120 @@ export async function loadCodeMieConfig(
   }
 }
 
+/**
+ * Names of the MCP servers the project config defines (they replace profile servers of the same name)
+ */
+async function getProjectMcpServers(workDir: string): Promise<string[]> {
+  const projectConfig = await ConfigLoader.readConfigFile('project', workDir);
+  const servers = projectConfig.mcpServers;
+  return typeof servers === 'object' && servers !== null ? Object.keys(servers) : [];
+}
+
+/**
+ * Convert a profile into the agent configuration, resolving SSO credentials
+ * and validating agent-specific requirements
+ */
+async function toAgentConfig(baseConfig: Partial<CodeMieConfigOptions>, workDir: string): Promise<CodeMieConfig> {
+  // Handle SSO configuration
+  let resolvedBaseUrl = baseConfig.baseUrl!;
+  let resolvedApiKey = baseConfig.apiKey!;
+  let ssoCookies: Record<string, string> | undefined;
+
+  // Check if provider uses SSO authentication
+  const provider = ProviderRegistry.getProvider(baseConfig.provider || '');
+  if (provider?.authType === 'sso') {
+    const store = CredentialStore.getInstance();
+    // Retrieve credentials using the codeMieUrl from profile for URL-specific storage
+    const codeMieUrl = baseConfig.codeMieUrl || baseConfig.baseUrl;
+    const credentials = await store.retrieveSSOCredentials(codeMieUrl);
+
+    if (!credentials) {
+      throw new ConfigurationError(
+        'SSO credentials not found. Please run: codemie profile login',
+        { provider: baseConfig.provider, codeMieUrl }
+      );
+    }
+
+    // Use SSO credentials
+    resolvedBaseUrl = credentials.apiUrl;
+    resolvedApiKey = 'sso-authenticated'; // Placeholder - actual auth via cookies
+    ssoCookies = credentials.cookies;
+
+    if (baseConfig.debug) {
+      logger.debug('SSO credentials loaded from store');
+      logger.debug('API URL:', resolvedBaseUrl);
+      logger.debug('Cookies:', sanitizeCookies(credentials.cookies));
+    }
+  }
+
+  // Convert to our agent-specific config format
+  const originalProvider = baseConfig.provider!;
+  const agentConfig: CodeMieConfig = {
+    baseUrl: resolvedBaseUrl,
+    authToken: resolvedApiKey,
+    model: baseConfig.model!,
+    provider: normalizeProvider(originalProvider),
+    displayProvider: originalProvider, // Keep original for display
+    timeout: baseConfig.timeout || 300,
+    workingDirectory: workDir,
+    debug: baseConfig.debug || false,
+    name: baseConfig.name, // Profile name for display
+    codeMieUrl: baseConfig.codeMieUrl, // CodeMie URL for SSO providers
+    permissions: baseConfig.permissions,
+    contextWindow: provider?.modelMetadata?.[baseConfig.model!]?.contextWindow,
+    mcpServers: baseConfig.mcpServers,
+    projectMcpServers: await getProjectMcpServers(workDir),
+    vertex: getVertexSettings(baseConfig),
+    openaiCompatible: originalProvider === 'openai-compatible' ? getOpenAICompatibleConnection(baseConfig) : undefined,
+    ssoCookies
+  };
+
+  // Validate agent-specific requirements
+  validateAgentConfig(agentConfig);
+
+  // Local models differ in tool support and context size, so ask Ollama
+  if (agentConfig.provider === 'ollama') {
+    const { contextWindow } = await resolveOllamaModel(agentConfig.baseUrl, agentConfig.model);
+    agentConfig.contextWindow = contextWindow;
+  }
+
+  return agentConfig;
+}
+
+/**
+ * Resolve the fallback models of a profile into agent configurations.
+ * Fallbacks of a fallback profile are not followed.
+ */
+async function resolveFallbacks(baseConfig: CodeMieConfigOptions, workDir: string): Promise<CodeMieConfig[]> {
+  const fallbacks: CodeMieConfig[] = [];
+
+  for (const [index, fallback] of (baseConfig.fallbacks ?? []).entries()) {
+    let profile: Partial<CodeMieConfigOptions> = baseConfig;
+
+    if (fallback.profile) {
+      const fallbackProfile = await ConfigLoader.getEffectiveProfile(fallback.profile);
+      if (!fallbackProfile) {
+        throw new ConfigurationError(`Fallback profile "${fallback.profile}" not found`, { fallback });
+      }
+      profile = { ...await resolveSecrets(fallbackProfile), name: fallback.profile, debug: baseConfig.debug };
+    } else if (!fallback.model) {
+      throw new ConfigurationError(`Fallback ${index + 1} needs a profile or a model`, { fallback });
+    }
+
+    try {
+      fallbacks.push(await toAgentConfig({ ...profile, model: fallback.model || profile.model }, workDir));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new ConfigurationError(
+        `Fallback ${fallback.profile ? `profile "${fallback.profile}"` : `model "${fallback.model}"`}: ${errorMessage}`,
+        { fallback }
+      );
+    }
+  }
+
+  return fallbacks;
+}
+
 /**
  * Normalize provider name to match our type union
  */
@@ -110,6 +195,20 @@ function normalizeProvider(provider: string): CodeMieConfig['provider'] {
     case 'proxy':
       return 'litellm';
 
+    case 'anthropic':
+      return 'anthropic';
+
+    case 'ollama':
+      return 'ollama';
+
+    case 'gemini':
+    case 'google':
+    case 'vertex':
+      return 'gemini';
+
+    case 'openai-compatible':
+      return 'openai-compatible';
+
     default: {
       // For SSO providers, map to litellm (compatible API)
       const providerTemplate = ProviderRegistry.getProvider(provider);
@@ -134,7 +233,8 @@ function validateAgentConfig(config: CodeMieConfig): void {
     errors.push('baseUrl is required');
   }
 
-  if (!config.authToken || config.authToken.trim() === '') {
+  // Ollama runs locally without authentication
+  if (config.provider !== 'ollama' && (!config.authToken || config.authToken.trim() === '')) {
     errors.push('authToken/apiKey is required');
   }
 
@@ -188,6 +288,20 @@ function validateProviderConfig(config: CodeMieConfig, _errors: string[]): void
     case 'litellm':
       // LiteLLM proxy can use any endpoint
       break;
+
+    case 'anthropic':
+      if (config.baseUrl.includes('/chat/completions')) {
+        console.warn(`Warning: Anthropic provider expects a Messages API endpoint, not ${config.baseUrl}`);
+      }
+      break;
+
+    case 'ollama':
+      // Tool support is checked against the running Ollama instance
+      break;
+
+    case 'openai-compatible':
+      // Any server implementing the OpenAI API
+      break;
   }
 }
 
@@ -217,6 +331,18 @@ function validateModelCompatibility(config: CodeMieConfig, errors: string[]): vo
     case 'litellm':
       // LiteLLM proxy can handle model routing
       break;
+
+    case 'anthropic':
+      if (!model.includes('claude')) {
+        errors.push(`Model '${config.model}' is not compatible with Anthropic provider`);
+      }
+      break;
+
+    case 'gemini':
+      if (!model.includes('gemini') && !model.includes('gemma')) {
+        errors.push(`Model '${config.model}' is not compatible with Gemini provider`);
+      }
+      break;
   }
 }
 
@@ -268,6 +394,30 @@ export function createProviderConfig(config: CodeMieConfig): ProviderConfig[keyo
         model: config.model
       };
 
+    case 'anthropic':
+      return {
+        apiKey: config.authToken,
+        baseURL: normalizeAnthropicBaseUrl(config.baseUrl)
+      };
+
+    case 'ollama':
+      return {
+        baseURL: normalizeOllamaBaseUrl(config.baseUrl),
+        model: config.model
+      };
+
+    case 'gemini':
+      return config.vertex
+        ? { ...config.vertex }
+        : { apiKey: config.authToken };
+
+    case 'openai-compatible':
+      return {
+        apiKey: config.authToken,
+        baseURL: config.baseUrl,
+        headers: config.openaiCompatible ? getOpenAICompatibleHeaders(config.openaiCompatible, config.authToken) : {}
+      };
+
     default:
       throw new ConfigurationError(`Unsupported provider: ${config.provider}`);
   }
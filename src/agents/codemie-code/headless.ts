@@ -0,0 +1,120 @@
+/**
+ * Headless Output for CodeMie Agent
+ *
+ * Runs a single task without the terminal UI and reports it as machine-readable
+ * JSON (one result object) or stream-JSON (NDJSON agent events followed by the result).
+ */
+
+import type { CodeMieAgent } from './agent.js';
+import type { AgentEvent, AgentStats } from './types.js';
+
+export type OutputFormat = 'text' | 'json' | 'stream-json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'stream-json'];
+
+/**
+ * First line of stream-json output
+ */
+export interface HeadlessInitMessage {
+  type: 'init';
+  sessionId: string;
+  model: string;
+  provider: string;
+  tools: string[];
+}
+
+/**
+ * Final message of json and stream-json output
+ */
+export interface HeadlessResult {
+  type: 'result';
+  success: boolean;
+  result: string;
+  errors: string[];
+  sessionId: string;
+  model: string;
+  provider: string;
+  durationMs: number;
+  stats: AgentStats;
+}
+
+export interface HeadlessOptions {
+  format: Exclude<OutputFormat, 'text'>;
+  /** Output writer (defaults to stdout) */
+  write?: (text: string) => void;
+}
+
+type HeadlessAgent = Pick<CodeMieAgent, 'chatStream' | 'getStats' | 'getSessionId' | 'getConfig' | 'getTools'>;
+
+// Internal thinking markers carry no information for consumers
+const SKIPPED_STREAM_EVENTS = new Set<AgentEvent['type']>(['thinking_start', 'thinking_end']);
+
+/**
+ * Run a task and write its output in the requested format.
+ * Never throws for agent failures; they are reported in the result with success: false.
+ */
+export async function runHeadlessTask(
+  agent: HeadlessAgent,
+  task: string,
+  options: HeadlessOptions
+): Promise<HeadlessResult> {
+  const write = options.write ?? ((text: string) => process.stdout.write(text));
+  const writeLine = (message: object) => write(`${JSON.stringify(message)}\n`);
+  const config = agent.getConfig();
+  const startTime = Date.now();
+
+  let content = '';
+  const errors: string[] = [];
+
+  if (options.format === 'stream-json') {
+    const init: HeadlessInitMessage = {
+      type: 'init',
+      sessionId: agent.getSessionId(),
+      model: config.model,
+      provider: config.displayProvider || config.provider,
+      tools: agent.getTools().map(tool => tool.name)
+    };
+    writeLine(init);
+  }
+
+  try {
+    await agent.chatStream(task, (event) => {
+      if (event.type === 'content_chunk') {
+        content += event.content || '';
+      } else if (event.type === 'error' && event.error) {
+        errors.push(event.error);
+      }
+
+      if (options.format === 'stream-json' && !SKIPPED_STREAM_EVENTS.has(event.type)) {
+        writeLine(event);
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!errors.some(existing => message.includes(existing))) {
+      errors.push(message);
+    }
+  }
+
+  const stats = agent.getStats();
+  const result: HeadlessResult = {
+    type: 'result',
+    success: errors.length === 0,
+    result: content,
+    errors,
+    sessionId: agent.getSessionId(),
+    // The answering model differs from the configured one after a fallback
+    model: stats.model ?? config.model,
+    provider: config.displayProvider || config.provider,
+    durationMs: Date.now() - startTime,
+    stats
+  };
+
+  if (options.format === 'stream-json') {
+    writeLine(result);
+  } else {
+    write(`${JSON.stringify(result, null, 2)}\n`);
+  }
+
+  return result;
+}
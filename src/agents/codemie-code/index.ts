@@ -13,6 +13,8 @@ import { CodeMieAgentError } from './types.js';
 import { hasClipboardImage, getClipboardImage } from '../../utils/clipboard.js';
 import { logger } from '../../utils/logger.js';
 import { sanitizeCookies } from '../../utils/security.js';
+import type { PermissionSettings } from '../../env/types.js';
+import { runHeadlessTask, type HeadlessOptions, type HeadlessResult } from './headless.js';
 
 export class CodeMieCode {
   private agent: CodeMieAgent | null = null;
@@ -32,7 +34,7 @@ export class CodeMieCode {
   /**
    * Initialize the CodeMie agent asynchronously
    */
-  async initialize(cliOverrides?: { debug?: boolean }): Promise<InitializationResult> {
+  async initialize(cliOverrides?: { debug?: boolean; permissions?: PermissionSettings }): Promise<InitializationResult> {
     try {
       // Load configuration with CLI overrides
       this.config = await loadCodeMieConfig(this.workingDirectory, cliOverrides);
@@ -148,6 +150,20 @@ export class CodeMieCode {
     }
   }
 
+  /**
+   * Execute a single task without UI and write JSON or stream-JSON output (for scripting and CI)
+   */
+  async executeTaskHeadless(task: string, format: HeadlessOptions['format']): Promise<HeadlessResult> {
+    if (!this.agent) {
+      throw new CodeMieAgentError(
+        'Agent not initialized. Call initialize() first.',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    return runHeadlessTask(this.agent, task, { format });
+  }
+
   /**
    * Execute a single task with modern UI feedback (for CLI usage)
    */
@@ -315,6 +331,22 @@ export class CodeMieCode {
     return this.agent;
   }
 
+  /**
+   * Resume a saved conversation (the most recent one for this project when no ID is given)
+   *
+   * @returns Number of restored messages
+   */
+  async resumeSession(sessionId?: string): Promise<number> {
+    if (!this.agent) {
+      throw new CodeMieAgentError(
+        'Agent not initialized. Call initialize() first.',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    return this.agent.resumeSession(sessionId);
+  }
+
   /**
    * Clear conversation history
    */
@@ -381,7 +413,11 @@ export class CodeMieCode {
    * Dispose of resources
    */
   async dispose(): Promise<void> {
-    // Future: Clean up any resources, close connections, etc.
+    if (this.config.mcpServers) {
+      const { closeMcpServers } = await import('./tools/mcp.js');
+      await closeMcpServers();
+    }
+
     if (this.config.debug) {
       logger.debug('CodeMie agent disposed');
     }
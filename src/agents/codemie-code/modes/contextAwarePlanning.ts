@@ -863,8 +863,11 @@ Now create your context-aware plan using write_todos():`;
     const toolDisplayNames: Record<string, string> = {
       'list_directory': 'Exploring directories',
       'read_file': 'Reading files',
+      'grep': 'Searching code',
+      'glob': 'Finding files',
       'execute_command': 'Running commands',
       'write_file': 'Writing files',
+      'edit_file': 'Editing files',
       'write_todos': 'Creating todos',
       'update_todo_status': 'Updating todos',
       'append_todo': 'Adding todos',
@@ -0,0 +1,57 @@
+/**
+ * Ollama Support for CodeMie Agent
+ *
+ * The agent talks to Ollama's native chat API, which (unlike the
+ * OpenAI-compatible /v1 endpoint) lets it set the context size. Models are
+ * checked for tool calling before the agent starts, since the agent cannot
+ * work without tools.
+ */
+
+import { OllamaModelProxy } from '../../providers/plugins/ollama/ollama.models.js';
+import { OllamaTemplate } from '../../providers/plugins/ollama/ollama.template.js';
+import { ConfigurationError } from './types.js';
+
+/**
+ * Context size requested from Ollama when the model supports more.
+ * Ollama's own default (4096 tokens) is too small for the system prompt and
+ * tool definitions; larger values cost memory on the local machine.
+ */
+export const OLLAMA_MAX_CONTEXT = 32768;
+
+/**
+ * Normalize an Ollama base URL for the native API (profiles store the /v1 URL)
+ */
+export function normalizeOllamaBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * Check that an installed Ollama model can call tools and return the context
+ * size to request for it
+ */
+export async function resolveOllamaModel(baseUrl: string, model: string): Promise<{ contextWindow: number }> {
+  const proxy = new OllamaModelProxy(normalizeOllamaBaseUrl(baseUrl));
+
+  let details;
+  try {
+    details = await proxy.getModelDetails(model);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new ConfigurationError(
+      `Cannot use Ollama model '${model}': ${errorMessage}. Make sure Ollama is running and the model is installed (ollama pull ${model})`,
+      { baseUrl, model }
+    );
+  }
+
+  if (!details.capabilities.includes('tools')) {
+    throw new ConfigurationError(
+      `Ollama model '${model}' does not support tool calling, which the built-in agent requires. ` +
+      `Choose a model with tool support, e.g. ${OllamaTemplate.recommendedModels.slice(0, 2).join(' or ')}`,
+      { model, capabilities: details.capabilities }
+    );
+  }
+
+  return {
+    contextWindow: Math.min(details.contextLength ?? OLLAMA_MAX_CONTEXT, OLLAMA_MAX_CONTEXT)
+  };
+}
@@ -0,0 +1,391 @@
+/**
+ * Tool Permissions for CodeMie Agent
+ *
+ * Policy engine deciding whether a mutating tool call may run. Decisions are
+ * based on the permission mode, allow/deny rules from the profile and project
+ * config, and rules approved by the user during the session.
+ */
+
+import path from 'path';
+import { minimatch } from 'minimatch';
+import type { PermissionMode, PermissionSettings } from '../../env/types.js';
+
+export type { PermissionMode, PermissionSettings };
+
+/**
+ * Kind of side effect a tool call has
+ */
+export type PermissionCategory = 'edit' | 'execute';
+
+/**
+ * A tool call that needs a permission decision
+ */
+export interface PermissionRequest {
+  toolName: string;
+  category: PermissionCategory;
+
+  /** File path (relative to the working directory) or full shell command */
+  specifier?: string;
+
+  /** Human readable summary shown in approval prompts */
+  description: string;
+
+  /** Always prompt (e.g. commits); allow rules and modes do not skip the prompt, deny rules still apply */
+  requireConfirmation?: boolean;
+}
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+
+export interface PermissionCheckResult {
+  decision: PermissionDecision;
+
+  /** Why the decision was made (matched rule or mode) */
+  reason: string;
+}
+
+/**
+ * Answer returned by an interactive approval prompt
+ */
+export type PermissionResponse = 'allow_once' | 'allow_session' | 'deny';
+
+/**
+ * Interactive approval prompt registered by the UI
+ */
+export type PermissionPromptHandler = (
+  request: PermissionRequest,
+  suggestedRules: string[]
+) => Promise<PermissionResponse>;
+
+export const PERMISSION_MODES: PermissionMode[] = ['ask', 'auto-accept-edits', 'read-only'];
+
+/**
+ * Commands that are never run, regardless of mode or allow rules
+ */
+export const BUILTIN_DENY_RULES = [
+  'execute_command(sudo)',
+  'execute_command(su)',
+  'execute_command(rm -rf /)',
+  'execute_command(rm -rf /*)',
+  'execute_command(rm -rf ~)',
+  'execute_command(mkfs*)',
+  'execute_command(dd)',
+  'execute_command(shutdown)',
+  'execute_command(reboot)'
+];
+
+interface ParsedRule {
+  raw: string;
+  toolName: string;
+  specifier?: string;
+}
+
+/**
+ * Parse a rule of the form `tool` or `tool(specifier)`
+ */
+export function parsePermissionRule(rule: string): ParsedRule {
+  const trimmed = rule.trim();
+  const match = trimmed.match(/^([\w*-]+)\((.*)\)$/s);
+
+  if (match) {
+    const specifier = match[2].trim();
+    return { raw: trimmed, toolName: match[1], specifier: specifier || undefined };
+  }
+
+  return { raw: trimmed, toolName: trimmed };
+}
+
+/**
+ * Split a shell command into the simple commands joined by &&, ||, ;, |, or &
+ */
+export function splitShellCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||;|\||&|\n/)
+    .map(segment => segment.trim())
+    .filter(segment => segment.length > 0);
+}
+
+/**
+ * Check whether a command redirects input or output or substitutes commands
+ * (`>`, `<`, `<(`, `$(`, backticks): its effect does not follow from its prefix
+ */
+function hasRedirectionOrSubstitution(command: string): boolean {
+  return /[<>`]|\$\(/.test(command);
+}
+
+/**
+ * Check whether a tool name matches a rule's tool name.
+ * `*` matches every tool; a trailing `*` matches by prefix (`mcp__github__*`).
+ */
+function matchesToolName(toolName: string, ruleToolName: string): boolean {
+  if (ruleToolName.endsWith('*')) {
+    return toolName.startsWith(ruleToolName.slice(0, -1));
+  }
+
+  return ruleToolName === toolName;
+}
+
+/**
+ * Check whether a single command matches a command prefix specifier.
+ * `npm test` matches `npm test` and `npm test -- --watch` but not `npm testing`;
+ * a trailing `*` drops the word boundary (`mkfs*` matches `mkfs.ext4`).
+ */
+function matchesCommandPrefix(command: string, specifier: string): boolean {
+  const normalized = command.replace(/\s+/g, ' ');
+
+  if (specifier.endsWith('*')) {
+    return normalized.startsWith(specifier.slice(0, -1));
+  }
+
+  return normalized === specifier || normalized.startsWith(`${specifier} `);
+}
+
+/**
+ * Suggest a session rule for a single command: the program name plus its
+ * subcommand when there is one (`git status`, `npm run`, `ls`)
+ */
+function suggestCommandRule(command: string): string {
+  const [program, subcommand] = command.split(/\s+/);
+  const prefix = subcommand && /^[a-z][\w:-]*$/i.test(subcommand)
+    ? `${program} ${subcommand}`
+    : program;
+
+  return `execute_command(${prefix})`;
+}
+
+/**
+ * Evaluates tool calls against permission mode and rules
+ */
+export class PermissionManager {
+  private mode: PermissionMode;
+  private allowRules: ParsedRule[];
+  private denyRules: ParsedRule[];
+  private sessionRules: ParsedRule[] = [];
+  private workingDirectory: string;
+
+  constructor(settings: PermissionSettings = {}, workingDirectory: string = process.cwd()) {
+    this.mode = settings.mode && PERMISSION_MODES.includes(settings.mode) ? settings.mode : 'ask';
+    this.allowRules = (settings.allow ?? []).map(parsePermissionRule);
+    this.denyRules = [...BUILTIN_DENY_RULES, ...(settings.deny ?? [])].map(parsePermissionRule);
+    this.workingDirectory = workingDirectory;
+  }
+
+  getMode(): PermissionMode {
+    return this.mode;
+  }
+
+  setMode(mode: PermissionMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Remember a rule approved by the user for the rest of the session
+   */
+  addSessionRule(rule: string): void {
+    if (!this.sessionRules.some(existing => existing.raw === rule.trim())) {
+      this.sessionRules.push(parsePermissionRule(rule));
+    }
+  }
+
+  getSessionRules(): string[] {
+    return this.sessionRules.map(rule => rule.raw);
+  }
+
+  /**
+   * Get configured and session rules for display
+   */
+  getRules(): { allow: string[]; deny: string[]; session: string[] } {
+    return {
+      allow: this.allowRules.map(rule => rule.raw),
+      deny: this.denyRules.map(rule => rule.raw),
+      session: this.getSessionRules()
+    };
+  }
+
+  /**
+   * Decide whether a tool call may run.
+   * Order: deny rules, read-only mode, required confirmation, allow rules,
+   * auto-accept-edits mode, ask.
+   */
+  evaluate(request: PermissionRequest): PermissionCheckResult {
+    const denyRule = this.findDenyRule(request);
+    if (denyRule) {
+      return { decision: 'deny', reason: `matches deny rule ${denyRule}` };
+    }
+
+    if (this.mode === 'read-only') {
+      return { decision: 'deny', reason: 'read-only mode is active' };
+    }
+
+    if (request.requireConfirmation) {
+      return { decision: 'ask', reason: 'confirmation required' };
+    }
+
+    if (this.isAllowedByRules(request)) {
+      return { decision: 'allow', reason: 'matches allow rule' };
+    }
+
+    if (this.mode === 'auto-accept-edits' && request.category === 'edit') {
+      return { decision: 'allow', reason: 'auto-accept-edits mode is active' };
+    }
+
+    return { decision: 'ask', reason: 'no matching allow rule' };
+  }
+
+  /**
+   * Suggest rules that would allow the request for the rest of the session
+   */
+  suggestRules(request: PermissionRequest): string[] {
+    if (request.requireConfirmation) {
+      return [];
+    }
+
+    if (request.toolName !== 'execute_command' || !request.specifier) {
+      return [request.toolName];
+    }
+
+    const allowRules = [...this.allowRules, ...this.sessionRules];
+    const suggestions = splitShellCommand(request.specifier)
+      .filter(segment => !hasRedirectionOrSubstitution(segment))
+      .filter(segment => !allowRules.some(rule => this.ruleMatches(rule, request.toolName, segment)))
+      .map(suggestCommandRule);
+
+    return [...new Set(suggestions)];
+  }
+
+  private findDenyRule(request: PermissionRequest): string | undefined {
+    const targets = this.getTargets(request);
+    const rule = this.denyRules.find(candidate =>
+      targets.some(target => this.ruleMatches(candidate, request.toolName, target))
+    );
+
+    return rule?.raw;
+  }
+
+  private isAllowedByRules(request: PermissionRequest): boolean {
+    const rules = [...this.allowRules, ...this.sessionRules];
+    return this.getTargets(request).every(target =>
+      rules.some(rule => this.ruleMatches(rule, request.toolName, target) && this.coversTarget(rule, request, target))
+    );
+  }
+
+  /**
+   * Redirections and command substitution can write or run anything,
+   * so commands using them are never covered by command prefix rules
+   */
+  private coversTarget(rule: ParsedRule, request: PermissionRequest, target: string | undefined): boolean {
+    if (request.category !== 'execute' || !rule.specifier || target === undefined) {
+      return true;
+    }
+
+    return !hasRedirectionOrSubstitution(target);
+  }
+
+  /**
+   * Every simple command of a compound command must pass on its own
+   */
+  private getTargets(request: PermissionRequest): Array<string | undefined> {
+    if (request.category === 'execute' && request.specifier) {
+      const segments = splitShellCommand(request.specifier);
+      return segments.length > 0 ? segments : [request.specifier];
+    }
+
+    return [request.specifier];
+  }
+
+  private ruleMatches(rule: ParsedRule, toolName: string, target: string | undefined): boolean {
+    if (!matchesToolName(toolName, rule.toolName)) {
+      return false;
+    }
+
+    if (!rule.specifier) {
+      return true;
+    }
+
+    if (target === undefined) {
+      return false;
+    }
+
+    if (toolName === 'execute_command') {
+      return matchesCommandPrefix(target, rule.specifier);
+    }
+
+    const relativePath = path.isAbsolute(target)
+      ? path.relative(this.workingDirectory, target)
+      : path.normalize(target);
+
+    return minimatch(relativePath.split(path.sep).join('/'), rule.specifier, { dot: true });
+  }
+}
+
+// Global permission state, initialized with the system tools
+let permissionManager: PermissionManager | null = null;
+let promptHandler: PermissionPromptHandler | null = null;
+let promptQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Initialize permissions for the current working directory
+ */
+export function initializePermissions(settings: PermissionSettings | undefined, workingDirectory: string): PermissionManager {
+  permissionManager = new PermissionManager(settings, workingDirectory);
+  return permissionManager;
+}
+
+/**
+ * Get the active permission manager (null until tools are created)
+ */
+export function getPermissionManager(): PermissionManager | null {
+  return permissionManager;
+}
+
+/**
+ * Register the interactive approval prompt (null to remove)
+ */
+export function setPermissionPromptHandler(handler: PermissionPromptHandler | null): void {
+  promptHandler = handler;
+}
+
+/**
+ * Check whether a tool call may run, prompting the user when needed.
+ * Returns null when allowed, otherwise the reason for the denial.
+ *
+ * Without an initialized manager (tools used standalone) only the built-in
+ * deny rules apply.
+ */
+export async function checkToolPermission(request: PermissionRequest): Promise<string | null> {
+  const manager = permissionManager;
+
+  if (!manager) {
+    const result = new PermissionManager({ mode: 'auto-accept-edits', allow: ['*'] }).evaluate(request);
+    return result.decision === 'deny' ? `Permission denied: ${result.reason}` : null;
+  }
+
+  const result = manager.evaluate(request);
+  if (result.decision === 'allow') return null;
+  if (result.decision === 'deny') return `Permission denied: ${result.reason}`;
+
+  const handler = promptHandler;
+  if (!handler) {
+    return 'Permission denied: approval required but no interactive prompt is available. ' +
+      'Add an allow rule to the permissions config or change the permission mode';
+  }
+
+  // Prompts are shown one at a time; a rule approved while waiting may cover this call
+  const answer = promptQueue.then(async (): Promise<PermissionResponse> => {
+    if (manager.evaluate(request).decision === 'allow') {
+      return 'allow_once';
+    }
+
+    const response = await handler(request, manager.suggestRules(request));
+    if (response === 'allow_session') {
+      manager.suggestRules(request).forEach(rule => manager.addSessionRule(rule));
+    }
+    return response;
+  });
+  promptQueue = answer.catch(() => undefined);
+
+  try {
+    return (await answer) === 'deny' ? 'Permission denied by user' : null;
+  } catch (error) {
+    return `Permission denied: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
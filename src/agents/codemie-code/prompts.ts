@@ -19,11 +19,30 @@ GUIDELINES:
 - Provide clear, concise explanations of your reasoning
 - Follow best practices for the programming language being used
 - Be security-conscious when executing commands or modifying files
+- Use grep and glob to search the codebase instead of running grep or find through execute_command
+- Use git_status, git_diff and git_log to inspect the repository instead of running git through execute_command; only commit with git_commit when the user asks for a commit
+- Use edit_file for targeted changes to existing files; reserve write_file for new files or full rewrites
+- Use the task tool to delegate broad searches or research to a sub-agent; give it a complete prompt, since it cannot see this conversation
+- If a tool call is rejected with "Permission denied", do not retry it or work around it with another tool; explain what you needed and continue or ask the user
 
 CURRENT WORKING DIRECTORY: {workingDirectory}
 
 You have access to the following tools:`;
 
+/**
+ * System prompt for sub-agents started by the task tool
+ */
+export const SUBAGENT_PROMPT = `You are a CodeMie sub-agent. Another coding agent delegated a task to you and will only see your final message.
+
+GUIDELINES:
+- Work autonomously until the task is done; you cannot ask the user or the calling agent questions
+- Use only the tools you have been given; if the task cannot be completed with them, say so
+- Use grep and glob to search the codebase and read only the files you need
+- If a tool call is rejected with "Permission denied", do not retry it or work around it
+- Finish with a concise report: answer the task directly and include the relevant file paths, line numbers, code references and any changes you made
+
+CURRENT WORKING DIRECTORY: {workingDirectory}`;
+
 /**
  * Planning mode suffix for structured todo-based execution
  * Inspired by LangChain-Code's Deep Agent planning approach
@@ -124,6 +143,13 @@ export function getSystemPrompt(workingDirectory: string): string {
   return SYSTEM_PROMPT.replace('{workingDirectory}', workingDirectory);
 }
 
+/**
+ * Get the system prompt for task tool sub-agents
+ */
+export function getSubagentSystemPrompt(workingDirectory: string): string {
+  return SUBAGENT_PROMPT.replace('{workingDirectory}', workingDirectory);
+}
+
 /**
  * Get system prompt with planning mode enabled
  */
@@ -0,0 +1,61 @@
+/**
+ * Model Request Retries for CodeMie Agent
+ *
+ * Backoff settings for model requests that failed with retryable errors
+ * (see isRetryableError); once the retries of a model are exhausted the agent
+ * falls back to the next configured model.
+ */
+
+import type { RetrySettings } from '../../env/types.js';
+
+export const DEFAULT_RETRY_SETTINGS: Required<RetrySettings> = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+/**
+ * Fill unset retry settings with defaults
+ */
+export function resolveRetrySettings(settings: RetrySettings = {}): Required<RetrySettings> {
+  return {
+    maxRetries: settings.maxRetries ?? DEFAULT_RETRY_SETTINGS.maxRetries,
+    initialDelayMs: settings.initialDelayMs ?? DEFAULT_RETRY_SETTINGS.initialDelayMs,
+    maxDelayMs: settings.maxDelayMs ?? DEFAULT_RETRY_SETTINGS.maxDelayMs
+  };
+}
+
+/**
+ * Delay before a retry (1 for the first retry): doubled for each retry and
+ * capped at maxDelayMs, with jitter so parallel sessions that hit the same
+ * rate limit do not retry in lockstep
+ */
+export function getRetryDelay(retry: number, settings: Required<RetrySettings>): number {
+  const delay = Math.min(settings.initialDelayMs * 2 ** (retry - 1), settings.maxDelayMs);
+  return Math.round(delay * (0.75 + Math.random() * 0.25));
+}
+
+/**
+ * Wait before a retry; rejects with an AbortError when the request is cancelled
+ */
+export function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      const error = new Error('Retry cancelled');
+      error.name = 'AbortError';
+      reject(error);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, delayMs);
+
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+  });
+}
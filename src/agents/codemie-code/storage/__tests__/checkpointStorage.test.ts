@@ -0,0 +1,98 @@
+/**
+ * Checkpoint Storage Tests
+ *
+ * Tests recording file snapshots per turn and rewinding them
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CheckpointStorage } from '../checkpointStorage.js';
+
+describe('CheckpointStorage', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let originalCodemieHome: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'checkpoint-storage-test-'));
+    projectDir = join(tempDir, 'project');
+    await mkdir(projectDir);
+    originalCodemieHome = process.env.CODEMIE_HOME;
+    process.env.CODEMIE_HOME = join(tempDir, 'home');
+  });
+
+  afterEach(async () => {
+    if (originalCodemieHome === undefined) {
+      delete process.env.CODEMIE_HOME;
+    } else {
+      process.env.CODEMIE_HOME = originalCodemieHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep only the first snapshot of a file per turn', async () => {
+    const storage = new CheckpointStorage({ workingDirectory: projectDir, sessionId: 'session-1' });
+    await writeFile(join(projectDir, 'a.ts'), 'original');
+
+    await storage.createCheckpoint('Update   a.ts\nplease');
+    await storage.snapshotFile(join(projectDir, 'a.ts'));
+    await writeFile(join(projectDir, 'a.ts'), 'first edit');
+    await storage.snapshotFile('a.ts');
+    await storage.snapshotFile('new.ts');
+
+    const [checkpoint] = await storage.getCheckpoints();
+    expect(checkpoint).toMatchObject({ id: 1, prompt: 'Update a.ts please' });
+    expect(checkpoint.files).toEqual([
+      { path: 'a.ts', existed: true, blob: expect.any(String) },
+      { path: 'new.ts', existed: false }
+    ]);
+  });
+
+  it('should restore files to their state before the checkpoint', async () => {
+    const storage = new CheckpointStorage({ workingDirectory: projectDir, sessionId: 'session-1' });
+    await writeFile(join(projectDir, 'a.ts'), 'v1');
+
+    await storage.createCheckpoint('Turn 1');
+    await storage.snapshotFile('a.ts');
+    await writeFile(join(projectDir, 'a.ts'), 'v2');
+
+    await storage.createCheckpoint('Turn 2');
+    await storage.snapshotFile('a.ts');
+    await writeFile(join(projectDir, 'a.ts'), 'v3');
+    await storage.snapshotFile('src/new.ts');
+    await mkdir(join(projectDir, 'src'));
+    await writeFile(join(projectDir, 'src/new.ts'), 'created');
+
+    await storage.createCheckpoint('Turn 3');
+
+    const result = await storage.rewind(2);
+    expect(result.checkpoints.map(checkpoint => checkpoint.id)).toEqual([2, 3]);
+    expect(result.restoredFiles).toEqual(['a.ts', 'src/new.ts']);
+    expect(await readFile(join(projectDir, 'a.ts'), 'utf-8')).toBe('v2');
+    expect(existsSync(join(projectDir, 'src/new.ts'))).toBe(false);
+
+    await storage.rewind(1);
+    expect(await readFile(join(projectDir, 'a.ts'), 'utf-8')).toBe('v1');
+    expect(await storage.getCheckpoints()).toEqual([]);
+  });
+
+  it('should keep checkpoints per session on disk', async () => {
+    const storage = new CheckpointStorage({ workingDirectory: projectDir, sessionId: 'session-1' });
+    await storage.createCheckpoint('First session');
+
+    storage.setSession('session-2');
+    expect(await storage.getCheckpoints()).toEqual([]);
+    await storage.createCheckpoint('Second session');
+
+    const reloaded = new CheckpointStorage({ workingDirectory: projectDir, sessionId: 'session-1' });
+    expect((await reloaded.getCheckpoints()).map(checkpoint => checkpoint.prompt)).toEqual(['First session']);
+  });
+
+  it('should reject unknown checkpoints', async () => {
+    const storage = new CheckpointStorage({ workingDirectory: projectDir, sessionId: 'session-1' });
+    await expect(storage.rewind(5)).rejects.toThrow('Checkpoint not found: 5');
+  });
+});
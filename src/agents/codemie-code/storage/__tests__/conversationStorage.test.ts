@@ -0,0 +1,165 @@
+/**
+ * Conversation Storage Tests
+ *
+ * Tests saving, resuming and listing persisted agent conversations
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HumanMessage, AIMessage, ToolMessage } from '@langchain/core/messages';
+import { ConversationStorage, removeUnansweredToolCalls } from '../conversationStorage.js';
+import { readJSONL } from '../../../../providers/plugins/sso/session/utils/jsonl-reader.js';
+
+describe('ConversationStorage', () => {
+  let codemieHome: string;
+  let originalCodemieHome: string | undefined;
+
+  beforeEach(async () => {
+    codemieHome = await mkdtemp(join(tmpdir(), 'conversation-storage-test-'));
+    originalCodemieHome = process.env.CODEMIE_HOME;
+    process.env.CODEMIE_HOME = codemieHome;
+  });
+
+  afterEach(async () => {
+    if (originalCodemieHome === undefined) {
+      delete process.env.CODEMIE_HOME;
+    } else {
+      process.env.CODEMIE_HOME = originalCodemieHome;
+    }
+    await rm(codemieHome, { recursive: true, force: true });
+  });
+
+  const conversation = () => [
+    new HumanMessage('Fix the failing build please'),
+    new AIMessage({
+      content: '',
+      tool_calls: [{ id: 'call_1', name: 'execute_command', args: { command: 'npm run build' } }]
+    }),
+    new ToolMessage({ content: 'STDOUT:\nok', tool_call_id: 'call_1' }),
+    new AIMessage('The build passes now.')
+  ];
+
+  it('should write a JSONL file with a session header and messages', async () => {
+    const storage = new ConversationStorage({ workingDirectory: '/projects/app', sessionId: 'session-1' });
+    await storage.saveConversation(conversation(), 'gpt-4.1');
+
+    const [projectDir] = await readdir(join(codemieHome, 'conversations'));
+    const records = await readJSONL<any>(join(codemieHome, 'conversations', projectDir, 'session-1.jsonl'));
+
+    expect(records).toHaveLength(5);
+    expect(records[0]).toMatchObject({
+      type: 'session',
+      sessionId: 'session-1',
+      projectPath: '/projects/app',
+      title: 'Fix the failing build please',
+      model: 'gpt-4.1'
+    });
+    expect(records.slice(1).every(record => record.type === 'message')).toBe(true);
+  });
+
+  it('should restore messages including tool calls', async () => {
+    await new ConversationStorage({ workingDirectory: '/projects/app', sessionId: 'session-1' })
+      .saveConversation(conversation());
+
+    const storage = new ConversationStorage({ workingDirectory: '/projects/app' });
+    const messages = await storage.loadConversation('session-1');
+
+    expect(messages?.map(message => message.getType())).toEqual(['human', 'ai', 'tool', 'ai']);
+    expect((messages?.[1] as AIMessage).tool_calls?.[0]).toMatchObject({ id: 'call_1', name: 'execute_command' });
+    expect(storage.getSessionId()).toBe('session-1');
+  });
+
+  it('should list sessions of the same project only, newest first', async () => {
+    const first = new ConversationStorage({ workingDirectory: '/projects/app', sessionId: 'older' });
+    await first.saveConversation([new HumanMessage('first')]);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = new ConversationStorage({ workingDirectory: '/projects/app', sessionId: 'newer' });
+    await second.saveConversation([new HumanMessage('second'), new AIMessage('answer')]);
+    await new ConversationStorage({ workingDirectory: '/projects/other', sessionId: 'other' })
+      .saveConversation([new HumanMessage('elsewhere')]);
+
+    const sessions = await first.listSessions();
+
+    expect(sessions.map(session => session.sessionId)).toEqual(['newer', 'older']);
+    expect(sessions[0]).toMatchObject({ title: 'second', messageCount: 2 });
+    expect(await first.getLatestSessionId()).toBe('newer');
+  });
+
+  it('should return null for unknown or unsafe session IDs', async () => {
+    const storage = new ConversationStorage({ workingDirectory: '/projects/app' });
+
+    expect(await storage.loadConversation('missing')).toBeNull();
+    expect(await storage.loadConversation('../../etc/passwd')).toBeNull();
+  });
+
+  it('should skip empty conversations and keep old sessions when starting a new one', async () => {
+    const storage = new ConversationStorage({ workingDirectory: '/projects/app', sessionId: 'first' });
+    await storage.saveConversation([]);
+    expect(await storage.listSessions()).toEqual([]);
+
+    await storage.saveConversation([new HumanMessage('hello')]);
+    const newId = storage.startNewSession();
+    await storage.saveConversation([new HumanMessage('again')]);
+
+    const ids = (await storage.listSessions()).map(session => session.sessionId);
+    expect(ids).toContain('first');
+    expect(ids).toContain(newId);
+  });
+
+  it('should truncate long titles', async () => {
+    const storage = new ConversationStorage({ workingDirectory: '/projects/app', sessionId: 'long' });
+    await storage.saveConversation([new HumanMessage('word '.repeat(40))]);
+
+    const [projectDir] = await readdir(join(codemieHome, 'conversations'));
+    const header = JSON.parse((await readFile(join(codemieHome, 'conversations', projectDir, 'long.jsonl'), 'utf-8')).split('\n')[0]);
+
+    expect(header.title).toHaveLength(60);
+    expect(header.title.endsWith('...')).toBe(true);
+  });
+});
+
+describe('removeUnansweredToolCalls', () => {
+  it('should keep only the answered calls of a partially answered parallel call', () => {
+    const history = [
+      new HumanMessage('Compare the configs'),
+      new AIMessage({
+        content: [
+          { type: 'text', text: 'Reading both files' },
+          { type: 'tool_use', id: 'call_a', name: 'read_file', input: { path: 'a.json' } },
+          { type: 'tool_use', id: 'call_b', name: 'read_file', input: { path: 'b.json' } }
+        ],
+        tool_calls: [
+          { id: 'call_a', name: 'read_file', args: { path: 'a.json' } },
+          { id: 'call_b', name: 'read_file', args: { path: 'b.json' } }
+        ]
+      }),
+      new ToolMessage({ content: '{"a":1}', tool_call_id: 'call_a' }),
+      new HumanMessage('Never mind, list the files'),
+      new AIMessage('Here they are')
+    ];
+
+    const repaired = removeUnansweredToolCalls(history);
+
+    expect(repaired).toHaveLength(5);
+    const partial = repaired[1] as AIMessage;
+    expect(partial.tool_calls?.map(call => call.id)).toEqual(['call_a']);
+    expect((partial.content as Array<{ type: string; id?: string }>).map(part => part.id ?? part.type)).toEqual(['text', 'call_a']);
+    expect(repaired.slice(2)).toEqual(history.slice(2));
+  });
+
+  it('should drop unanswered calls and orphaned results anywhere in the history', () => {
+    const history = [
+      new HumanMessage('Run the tests'),
+      new AIMessage({ content: '', tool_calls: [{ id: 'call_1', name: 'execute_command', args: { command: 'npm test' } }] }),
+      new HumanMessage('Stop, check the lint instead'),
+      new ToolMessage({ content: 'stale', tool_call_id: 'call_0' }),
+      new AIMessage({ content: '', tool_calls: [{ id: 'call_2', name: 'execute_command', args: { command: 'npm run lint' } }] }),
+      new ToolMessage({ content: 'ok', tool_call_id: 'call_2' }),
+      new AIMessage({ content: '', tool_calls: [{ id: 'call_3', name: 'execute_command', args: { command: 'npm test' } }] })
+    ];
+
+    expect(removeUnansweredToolCalls(history)).toEqual([history[0], history[2], history[4], history[5]]);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Checkpoint File Storage System
+ *
+ * Records the contents of files before the agent changes them, one checkpoint
+ * per conversation turn, under ~/.codemie/checkpoints/{projectHash}/{sessionId}/
+ * so turns can be undone. Only changes made through file tools can be reverted;
+ * shell commands, commits and MCP tool calls are recorded so undoing a turn
+ * can list what it did not revert.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getCodemiePath } from '../../../utils/paths.js';
+
+export interface CheckpointStorageConfig {
+  workingDirectory: string;
+  sessionId: string;
+  debug?: boolean;
+}
+
+/**
+ * File state before the first change in a turn
+ */
+export interface FileSnapshot {
+  /** Path relative to the working directory */
+  path: string;
+
+  /** False when the file was created during the turn */
+  existed: boolean;
+
+  /** Content hash of the stored blob (when the file existed) */
+  blob?: string;
+}
+
+/**
+ * One conversation turn and the files it changed
+ */
+export interface Checkpoint {
+  id: number;
+  createdAt: string;
+
+  /** User message that started the turn */
+  prompt: string;
+  files: FileSnapshot[];
+
+  /** Actions that cannot be reverted (commands, commits, MCP tool calls), in order */
+  actions?: string[];
+}
+
+interface CheckpointIndex {
+  version: string;
+  sessionId: string;
+  checkpoints: Checkpoint[];
+}
+
+/**
+ * Outcome of rewinding to a checkpoint
+ */
+export interface RewindResult {
+  /** Checkpoints that were undone, oldest first */
+  checkpoints: Checkpoint[];
+
+  /** Files restored or removed, relative to the working directory */
+  restoredFiles: string[];
+
+  /** Actions of the undone checkpoints that were not reverted, oldest first */
+  unrevertedActions: string[];
+}
+
+const PROMPT_MAX_LENGTH = 80;
+const ACTION_MAX_LENGTH = 120;
+
+export class CheckpointStorage {
+  private workingDirectory: string;
+  private projectDir: string;
+  private sessionId: string;
+  private checkpoints: Checkpoint[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private debug: boolean;
+
+  constructor(config: CheckpointStorageConfig) {
+    this.workingDirectory = config.workingDirectory;
+    this.debug = config.debug ?? false;
+    this.projectDir = getCodemiePath('checkpoints', this.generateProjectHash(this.workingDirectory));
+    this.sessionId = config.sessionId;
+  }
+
+  /**
+   * Generate a hash for the project path to use as directory name
+   */
+  private generateProjectHash(projectPath: string): string {
+    return crypto.createHash('md5').update(projectPath).digest('hex').substring(0, 12);
+  }
+
+  private getSessionDir(): string {
+    return path.join(this.projectDir, this.sessionId);
+  }
+
+  private getBlobPath(blob: string): string {
+    return path.join(this.getSessionDir(), 'blobs', blob);
+  }
+
+  /**
+   * Switch to another session; its checkpoints are loaded on first use
+   */
+  setSession(sessionId: string): void {
+    this.sessionId = sessionId;
+    this.checkpoints = null;
+  }
+
+  /**
+   * List checkpoints of the current session, oldest first
+   */
+  async getCheckpoints(): Promise<Checkpoint[]> {
+    return [...await this.load()];
+  }
+
+  /**
+   * Start a checkpoint for a new turn; file snapshots are added to the latest checkpoint
+   */
+  async createCheckpoint(prompt: string): Promise<Checkpoint> {
+    return this.enqueue(async () => {
+      const checkpoints = await this.load();
+
+      const checkpoint: Checkpoint = {
+        id: (checkpoints.at(-1)?.id ?? 0) + 1,
+        createdAt: new Date().toISOString(),
+        prompt: summarize(prompt, PROMPT_MAX_LENGTH),
+        files: []
+      };
+
+      checkpoints.push(checkpoint);
+      await this.saveIndex();
+      return checkpoint;
+    });
+  }
+
+  /**
+   * Record a file before it is changed. Only the first change in a turn is
+   * recorded, so undoing restores the state from before the turn.
+   */
+  async snapshotFile(filePath: string): Promise<void> {
+    return this.enqueue(async () => {
+      const checkpoint = (await this.load()).at(-1);
+      if (!checkpoint) {
+        return;
+      }
+
+      const relativePath = path.relative(this.workingDirectory, path.resolve(this.workingDirectory, filePath));
+      if (checkpoint.files.some(file => file.path === relativePath)) {
+        return;
+      }
+
+      let content: Buffer | null = null;
+      try {
+        content = await fs.readFile(path.join(this.workingDirectory, relativePath));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      const snapshot: FileSnapshot = { path: relativePath, existed: content !== null };
+      if (content) {
+        snapshot.blob = crypto.createHash('sha256').update(content).digest('hex');
+        await fs.mkdir(path.dirname(this.getBlobPath(snapshot.blob)), { recursive: true });
+        await fs.writeFile(this.getBlobPath(snapshot.blob), content);
+      }
+
+      checkpoint.files.push(snapshot);
+      await this.saveIndex();
+
+      if (this.debug) {
+        console.log(`[CheckpointStorage] Recorded ${relativePath} in checkpoint ${checkpoint.id}`);
+      }
+    });
+  }
+
+  /**
+   * Record an action that undoing the turn cannot revert, e.g. "Command: npm publish"
+   */
+  async recordAction(description: string): Promise<void> {
+    return this.enqueue(async () => {
+      const checkpoint = (await this.load()).at(-1);
+      if (!checkpoint) {
+        return;
+      }
+
+      (checkpoint.actions ??= []).push(summarize(description, ACTION_MAX_LENGTH));
+      await this.saveIndex();
+    });
+  }
+
+  /**
+   * Restore files to their state before the given checkpoint and drop it and
+   * all later checkpoints
+   */
+  async rewind(checkpointId: number): Promise<RewindResult> {
+    return this.enqueue(async () => {
+      const checkpoints = await this.load();
+      const index = checkpoints.findIndex(checkpoint => checkpoint.id === checkpointId);
+      if (index === -1) {
+        throw new Error(`Checkpoint not found: ${checkpointId}`);
+      }
+
+      const undone = checkpoints.slice(index);
+      const restoredFiles = new Set<string>();
+
+      // Newest first, so each file ends up in its state before the target checkpoint
+      for (const checkpoint of [...undone].reverse()) {
+        for (const file of checkpoint.files) {
+          const fullPath = path.join(this.workingDirectory, file.path);
+
+          if (file.existed && file.blob) {
+            await fs.mkdir(path.dirname(fullPath), { recursive: true });
+            await fs.writeFile(fullPath, await fs.readFile(this.getBlobPath(file.blob)));
+          } else {
+            await fs.rm(fullPath, { force: true });
+          }
+
+          restoredFiles.add(file.path);
+        }
+      }
+
+      checkpoints.splice(index);
+      await this.saveIndex();
+
+      return {
+        checkpoints: undone,
+        restoredFiles: [...restoredFiles].sort(),
+        unrevertedActions: undone.flatMap(checkpoint => checkpoint.actions ?? [])
+      };
+    });
+  }
+
+  /**
+   * Run storage operations one at a time (tools may change files concurrently)
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<Checkpoint[]> {
+    if (this.checkpoints) {
+      return this.checkpoints;
+    }
+
+    try {
+      const content = await fs.readFile(path.join(this.getSessionDir(), 'index.json'), 'utf-8');
+      const index = JSON.parse(content) as CheckpointIndex;
+      this.checkpoints = Array.isArray(index.checkpoints) ? index.checkpoints : [];
+    } catch {
+      this.checkpoints = [];
+    }
+
+    return this.checkpoints;
+  }
+
+  private async saveIndex(): Promise<void> {
+    const index: CheckpointIndex = {
+      version: '1.0.0',
+      sessionId: this.sessionId,
+      checkpoints: this.checkpoints ?? []
+    };
+
+    await fs.mkdir(this.getSessionDir(), { recursive: true });
+    await fs.writeFile(path.join(this.getSessionDir(), 'index.json'), JSON.stringify(index, null, 2), 'utf-8');
+  }
+}
+
+// Storage of the active agent; file tools record snapshots into it
+let activeStorage: CheckpointStorage | null = null;
+
+/**
+ * Set the checkpoint storage that file tools record into (null to stop recording)
+ */
+export function setActiveCheckpointStorage(storage: CheckpointStorage | null): void {
+  activeStorage = storage;
+}
+
+/**
+ * Record an action a tool is about to take that undoing the turn cannot revert.
+ * Failures are ignored like those of file snapshots.
+ */
+export async function recordIrreversibleAction(description: string): Promise<void> {
+  try {
+    await activeStorage?.recordAction(description);
+  } catch {
+    // Checkpoints are best effort
+  }
+}
+
+/**
+ * Record a file before a tool changes it. Failures are ignored so a broken
+ * checkpoint store never blocks an edit.
+ */
+export async function recordFileBeforeChange(filePath: string): Promise<void> {
+  try {
+    await activeStorage?.snapshotFile(filePath);
+  } catch {
+    // Checkpoints are best effort
+  }
+}
+
+/**
+ * Single line of at most maxLength characters
+ */
+function summarize(text: string, maxLength: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > maxLength ? `${line.substring(0, maxLength - 3)}...` : line;
+}
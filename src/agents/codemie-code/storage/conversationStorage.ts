@@ -0,0 +1,329 @@
+/**
+ * Conversation File Storage System
+ *
+ * Persists agent conversations as JSONL files under ~/.codemie/conversations/{projectHash}/
+ * so they can be resumed later. Uses the shared JSONL utilities of the session sync.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { BaseMessage, StoredMessage } from '@langchain/core/messages';
+import { AIMessage, ToolMessage, mapChatMessagesToStoredMessages, mapStoredMessagesToChatMessages } from '@langchain/core/messages';
+import { getCodemiePath } from '../../../utils/paths.js';
+import { readJSONL } from '../../../providers/plugins/sso/session/utils/jsonl-reader.js';
+import { writeJSONLAtomic } from '../../../providers/plugins/sso/session/utils/jsonl-writer.js';
+
+export interface ConversationStorageConfig {
+  workingDirectory: string;
+  sessionId?: string;
+  debug?: boolean;
+}
+
+/**
+ * First record of every conversation file
+ */
+export interface ConversationSessionRecord {
+  type: 'session';
+  version: string;
+  sessionId: string;
+  projectPath: string;
+  createdAt: string;
+  updatedAt: string;
+  title: string;
+  model?: string;
+}
+
+/**
+ * One conversation message in LangChain stored message format
+ */
+export interface ConversationMessageRecord {
+  type: 'message';
+  message: StoredMessage;
+}
+
+export type ConversationRecord = ConversationSessionRecord | ConversationMessageRecord;
+
+/**
+ * Saved conversation summary for session pickers
+ */
+export interface ConversationSummary {
+  sessionId: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messageCount: number;
+  model?: string;
+}
+
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Remove tool calls without results from a conversation, wherever they are
+ *
+ * An interrupted turn can leave an AI message with tool calls that were answered
+ * only partly (parallel calls) or not at all, which providers reject. Unanswered
+ * calls are removed from their message, which is dropped when nothing is left,
+ * and so are tool results without a call.
+ */
+export function removeUnansweredToolCalls(messages: BaseMessage[]): BaseMessage[] {
+  const answered = new Set(messages.filter(message => message instanceof ToolMessage).map(message => message.tool_call_id));
+  const called = new Set<string>();
+  const result: BaseMessage[] = [];
+
+  for (const message of messages) {
+    if (message instanceof ToolMessage) {
+      if (called.has(message.tool_call_id)) {
+        result.push(message);
+      }
+      continue;
+    }
+
+    const toolCalls = message instanceof AIMessage ? message.tool_calls ?? [] : [];
+    if (toolCalls.length === 0) {
+      result.push(message);
+      continue;
+    }
+
+    const answeredCalls = toolCalls.filter(call => call.id !== undefined && answered.has(call.id));
+    answeredCalls.forEach(call => called.add(call.id!));
+    if (answeredCalls.length === toolCalls.length) {
+      result.push(message);
+      continue;
+    }
+
+    const partial = withoutToolCalls(message as AIMessage, new Set(answeredCalls.map(call => call.id!)));
+    if (partial.tool_calls?.length || hasText(partial.content)) {
+      result.push(partial);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Copy an AI message with only the given tool calls, also in provider-specific fields
+ */
+function withoutToolCalls(message: AIMessage, keep: Set<string>): AIMessage {
+  const isKept = (id: unknown) => typeof id === 'string' && keep.has(id);
+  const content = Array.isArray(message.content)
+    ? message.content.filter((part: any) => part.type !== 'tool_use' || isKept(part.id))  // Anthropic
+    : message.content;
+  const rawToolCalls = message.additional_kwargs.tool_calls?.filter(call => isKept(call.id));  // OpenAI
+
+  return new AIMessage({
+    id: message.id,
+    content,
+    tool_calls: message.tool_calls?.filter(call => isKept(call.id)),
+    additional_kwargs: { ...message.additional_kwargs, tool_calls: rawToolCalls?.length ? rawToolCalls : undefined },
+    response_metadata: message.response_metadata,
+    usage_metadata: message.usage_metadata
+  });
+}
+
+function hasText(content: AIMessage['content']): boolean {
+  if (typeof content === 'string') {
+    return content.trim().length > 0;
+  }
+  return content.some((part: any) => part.type === 'text' && part.text?.trim());
+}
+
+export class ConversationStorage {
+  private workingDirectory: string;
+  private conversationsDir: string;
+  private sessionId: string;
+  private createdAt: Date;
+  private debug: boolean;
+
+  constructor(config: ConversationStorageConfig) {
+    this.workingDirectory = config.workingDirectory;
+    this.debug = config.debug ?? false;
+    this.conversationsDir = getCodemiePath('conversations', this.generateProjectHash(this.workingDirectory));
+    this.sessionId = config.sessionId ?? this.generateSessionId();
+    this.createdAt = new Date();
+
+    if (this.debug) {
+      console.log(`[ConversationStorage] Conversations dir: ${this.conversationsDir}`);
+      console.log(`[ConversationStorage] Session ID: ${this.sessionId}`);
+    }
+  }
+
+  /**
+   * Generate a hash for the project path to use as directory name
+   */
+  private generateProjectHash(projectPath: string): string {
+    return crypto.createHash('md5').update(projectPath).digest('hex').substring(0, 12);
+  }
+
+  /**
+   * Generate a unique session ID
+   */
+  private generateSessionId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+  }
+
+  private getSessionPath(sessionId: string): string {
+    return path.join(this.conversationsDir, `${sessionId}.jsonl`);
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  /**
+   * Start a new session; the previous one stays on disk and can be resumed
+   */
+  startNewSession(): string {
+    this.sessionId = this.generateSessionId();
+    this.createdAt = new Date();
+    return this.sessionId;
+  }
+
+  /**
+   * Save the full conversation of the current session (empty conversations are skipped)
+   */
+  async saveConversation(messages: BaseMessage[], model?: string): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const header: ConversationSessionRecord = {
+      type: 'session',
+      version: '1.0.0',
+      sessionId: this.sessionId,
+      projectPath: this.workingDirectory,
+      createdAt: this.createdAt.toISOString(),
+      updatedAt: new Date().toISOString(),
+      title: this.createTitle(messages),
+      model
+    };
+
+    const records: ConversationRecord[] = [
+      header,
+      ...mapChatMessagesToStoredMessages(messages).map(message => ({ type: 'message' as const, message }))
+    ];
+
+    try {
+      await fs.mkdir(this.conversationsDir, { recursive: true });
+      await writeJSONLAtomic(this.getSessionPath(this.sessionId), records);
+
+      if (this.debug) {
+        console.log(`[ConversationStorage] Saved ${messages.length} messages to session ${this.sessionId}`);
+      }
+    } catch (error) {
+      throw new Error(`Failed to save conversation: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Delete the saved file of the current session (e.g. after all its turns were undone)
+   */
+  async deleteConversation(): Promise<void> {
+    await fs.rm(this.getSessionPath(this.sessionId), { force: true });
+  }
+
+  /**
+   * Load a saved session and make it the current one, so new messages are appended to it
+   *
+   * @returns Conversation messages, or null when the session does not exist
+   */
+  async loadConversation(sessionId: string): Promise<BaseMessage[] | null> {
+    const records = await this.readSession(sessionId);
+    if (!records) {
+      return null;
+    }
+
+    const header = records.find((record): record is ConversationSessionRecord => record.type === 'session');
+    const storedMessages = records
+      .filter((record): record is ConversationMessageRecord => record.type === 'message')
+      .map(record => record.message);
+
+    this.sessionId = sessionId;
+    this.createdAt = header ? new Date(header.createdAt) : new Date();
+
+    if (this.debug) {
+      console.log(`[ConversationStorage] Loaded ${storedMessages.length} messages from session ${sessionId}`);
+    }
+
+    return mapStoredMessagesToChatMessages(storedMessages);
+  }
+
+  /**
+   * List saved sessions for this project, most recently updated first
+   */
+  async listSessions(): Promise<ConversationSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.conversationsDir);
+    } catch {
+      return [];
+    }
+
+    const summaries: ConversationSummary[] = [];
+
+    for (const file of files.filter(name => name.endsWith('.jsonl'))) {
+      const records = await this.readSession(path.basename(file, '.jsonl'));
+      const header = records?.find((record): record is ConversationSessionRecord => record.type === 'session');
+      if (!records || !header) continue;
+
+      summaries.push({
+        sessionId: header.sessionId,
+        title: header.title,
+        createdAt: new Date(header.createdAt),
+        updatedAt: new Date(header.updatedAt),
+        messageCount: records.filter(record => record.type === 'message').length,
+        model: header.model
+      });
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * Get the most recently updated session ID for this project
+   */
+  async getLatestSessionId(): Promise<string | null> {
+    const sessions = await this.listSessions();
+    return sessions[0]?.sessionId ?? null;
+  }
+
+  /**
+   * Read session records (null when missing or unreadable)
+   */
+  private async readSession(sessionId: string): Promise<ConversationRecord[] | null> {
+    // Session IDs come from user input (--resume), keep them inside the conversations dir
+    if (!/^[\w-]+$/.test(sessionId)) {
+      return null;
+    }
+
+    try {
+      const records = await readJSONL<ConversationRecord>(this.getSessionPath(sessionId));
+      return records.length > 0 ? records : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Use the first user message as the session title
+   */
+  private createTitle(messages: BaseMessage[]): string {
+    const firstUserMessage = messages.find(message => message.getType() === 'human');
+    const content = firstUserMessage?.content;
+
+    let text = '';
+    if (typeof content === 'string') {
+      text = content;
+    } else if (Array.isArray(content)) {
+      const textPart = content.find((part: any) => part.type === 'text') as { text?: string } | undefined;
+      text = textPart?.text ?? '';
+    }
+
+    text = text.replace(/\s+/g, ' ').trim();
+    if (!text) {
+      return 'Untitled conversation';
+    }
+
+    return text.length > TITLE_MAX_LENGTH ? `${text.substring(0, TITLE_MAX_LENGTH - 3)}...` : text;
+  }
+}
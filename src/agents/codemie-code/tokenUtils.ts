@@ -6,32 +6,9 @@
  */
 
 import type { TokenUsage } from './types.js';
+import { calculateModelCost } from '../../providers/core/model-catalog.js';
 
-/**
- * Provider pricing information (per 1M tokens)
- * Updated as of November 2024 - check provider websites for latest pricing
- */
-export const MODEL_PRICING = {
-  // OpenAI GPT Models
-  'gpt-4.1': { input: 2.50, output: 10.00 },
-  'gpt-4.1-mini': { input: 0.15, output: 0.60 },
-  'gpt-4-turbo': { input: 10.00, output: 30.00 },
-  'gpt-4': { input: 30.00, output: 60.00 },
-  'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
-
-  // Claude Models (via LiteLLM/Bedrock)
-  'claude-3-5-sonnet-20241022': { input: 3.00, output: 15.00 },
-  'claude-3-5-sonnet-20240620': { input: 3.00, output: 15.00 },
-  'claude-3-5-haiku-20241022': { input: 0.25, output: 1.25 },
-  'claude-3-opus-20240229': { input: 15.00, output: 75.00 },
-  'claude-3-sonnet-20240229': { input: 3.00, output: 15.00 },
-  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
-
-  // Generic fallbacks for unknown models
-  'gpt-4-*': { input: 10.00, output: 30.00 },
-  'gpt-3.5-*': { input: 0.50, output: 1.50 },
-  'claude-3-*': { input: 3.00, output: 15.00 },
-} as const;
+export { getModelPricing, getModelContextWindow, DEFAULT_CONTEXT_WINDOW } from '../../providers/core/model-catalog.js';
 
 /**
  * Extract token usage from LangChain AIMessage or response
@@ -46,6 +23,7 @@ export function extractTokenUsage(
     let inputTokens = 0;
     let outputTokens = 0;
     let cachedTokens = 0;
+    let cacheWriteTokens = 0;
     let usage: any = null;
 
     // Extract from AIMessage usage_metadata (LangChain v1.0+ format)
@@ -58,6 +36,9 @@ export function extractTokenUsage(
       if (usage.input_token_details?.cache_read) {
         cachedTokens = usage.input_token_details.cache_read;
       }
+      if (usage.input_token_details?.cache_creation) {
+        cacheWriteTokens = usage.input_token_details.cache_creation;
+      }
     }
 
     // Extract from response_metadata.usage (for direct LLM calls)
@@ -96,7 +77,7 @@ export function extractTokenUsage(
     }
 
     const totalTokens = inputTokens + outputTokens;
-    const estimatedCost = calculateCost(model, inputTokens, outputTokens);
+    const estimatedCost = calculateCost(model, inputTokens, outputTokens, cachedTokens, cacheWriteTokens);
 
     return {
       inputTokens,
@@ -112,44 +93,16 @@ export function extractTokenUsage(
 }
 
 /**
- * Calculate estimated cost for a model and token usage
+ * Calculate estimated cost for a model and token usage (see the model catalog)
  */
 export function calculateCost(
   model: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  cacheReadTokens = 0,
+  cacheWriteTokens = 0
 ): number {
-  const pricing = getModelPricing(model);
-  if (!pricing) return 0;
-
-  // Convert from per-million to per-token rates
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-
-  return inputCost + outputCost;
-}
-
-/**
- * Get pricing information for a model
- */
-export function getModelPricing(model: string): { input: number; output: number } | null {
-  // Direct model match
-  if (MODEL_PRICING[model as keyof typeof MODEL_PRICING]) {
-    return MODEL_PRICING[model as keyof typeof MODEL_PRICING];
-  }
-
-  // Pattern matching for model families
-  if (model.startsWith('gpt-4')) {
-    return MODEL_PRICING['gpt-4-*'];
-  }
-  if (model.startsWith('gpt-3.5')) {
-    return MODEL_PRICING['gpt-3.5-*'];
-  }
-  if (model.startsWith('claude-3')) {
-    return MODEL_PRICING['claude-3-*'];
-  }
-
-  return null;
+  return calculateModelCost(model, { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens });
 }
 
 /**
@@ -24,9 +24,16 @@ export function extractToolMetadata(
       case 'write_file':
         return extractWriteFileMetadata(result, toolArgs);
 
+      case 'edit_file':
+        return extractEditFileMetadata(result, toolArgs);
+
       case 'list_directory':
         return extractListDirectoryMetadata(result, toolArgs);
 
+      case 'grep':
+      case 'glob':
+        return extractSearchMetadata(result, toolArgs);
+
       case 'execute_command':
         return extractExecuteCommandMetadata(result, toolArgs);
 
@@ -128,6 +135,56 @@ function extractWriteFileMetadata(result: string, toolArgs?: Record<string, any>
   };
 }
 
+/**
+ * Extract metadata from edit_file tool results
+ */
+function extractEditFileMetadata(result: string, toolArgs?: Record<string, any>): ToolMetadata {
+  const isError = result.toLowerCase().startsWith('error');
+
+  if (isError) {
+    return {
+      success: false,
+      errorMessage: result,
+      filePath: toolArgs?.filePath
+    };
+  }
+
+  // Parse successful result: "Successfully edited {filePath}: {n} replacements, +{added} -{removed} lines\n\n{diff}"
+  const countsMatch = result.match(/\+(\d+) -(\d+) lines/);
+  const linesAdded = countsMatch ? parseInt(countsMatch[1], 10) : undefined;
+  const linesRemoved = countsMatch ? parseInt(countsMatch[2], 10) : undefined;
+
+  let filePath = toolArgs?.filePath;
+  if (!filePath) {
+    const pathMatch = result.match(/^Successfully edited (.+?): /);
+    if (pathMatch) {
+      filePath = pathMatch[1];
+    }
+  }
+
+  // Diff preview: changed lines only, skipping file headers
+  const diffStart = result.indexOf('\n\n');
+  const diff = diffStart >= 0 ? result.substring(diffStart + 2) : '';
+  const changedLines = diff.split('\n').filter(line =>
+    (line.startsWith('+') || line.startsWith('-')) && !line.startsWith('+++') && !line.startsWith('---')
+  );
+
+  let diffPreview: string | undefined;
+  if (changedLines.length > 6) {
+    diffPreview = changedLines.slice(0, 6).join('\n') + `\n... (${changedLines.length} changed lines total)`;
+  } else if (changedLines.length > 0) {
+    diffPreview = changedLines.join('\n');
+  }
+
+  return {
+    success: true,
+    filePath,
+    linesAdded,
+    linesRemoved,
+    diffPreview
+  };
+}
+
 /**
  * Extract metadata from list_directory tool results
  */
@@ -218,6 +275,54 @@ function extractListDirectoryMetadata(result: string, toolArgs?: Record<string,
   };
 }
 
+/**
+ * Extract metadata from grep and glob tool results
+ */
+function extractSearchMetadata(result: string, toolArgs?: Record<string, any>): ToolMetadata {
+  const isError = result.toLowerCase().startsWith('error');
+
+  if (isError) {
+    return {
+      success: false,
+      errorMessage: result,
+      pattern: toolArgs?.pattern
+    };
+  }
+
+  if (result.startsWith('No matches found') || result.startsWith('No files found')) {
+    return {
+      success: true,
+      pattern: toolArgs?.pattern,
+      matchCount: 0,
+      fileCount: 0
+    };
+  }
+
+  // Parse summary: "Found {n} matches in {m} files for ..." (grep) or "Found {n} files matching ..." (glob)
+  const grepMatch = result.match(/^Found (\d+) match(?:es)? in (\d+) files?/);
+  const globMatch = result.match(/^Found (\d+) files? matching/);
+
+  // Preview first few result lines (skip summary and paging footer)
+  const bodyStart = result.indexOf('\n\n');
+  const body = bodyStart >= 0 ? result.substring(bodyStart + 2) : '';
+  const lines = body.split('\n').filter(line => line.trim() !== '' && line !== '--' && !line.startsWith('--- Showing'));
+
+  let contentPreview = '';
+  if (lines.length > 3) {
+    contentPreview = lines.slice(0, 3).join('\n') + `\n... (${lines.length} lines total)`;
+  } else {
+    contentPreview = lines.join('\n');
+  }
+
+  return {
+    success: true,
+    pattern: toolArgs?.pattern,
+    matchCount: grepMatch ? parseInt(grepMatch[1], 10) : undefined,
+    fileCount: grepMatch ? parseInt(grepMatch[2], 10) : globMatch ? parseInt(globMatch[1], 10) : undefined,
+    contentPreview
+  };
+}
+
 /**
  * Extract metadata from execute_command tool results
  */
@@ -298,6 +403,15 @@ export function formatToolMetadata(toolName: string, metadata: ToolMetadata): st
       break;
     }
 
+    case 'edit_file': {
+      const editFileName = metadata.filePath ? path.basename(metadata.filePath) : 'file';
+      const lineInfo = metadata.linesAdded !== undefined && metadata.linesRemoved !== undefined
+        ? ` (+${metadata.linesAdded} -${metadata.linesRemoved})`
+        : '';
+      baseMessage = `✓ Edited ${editFileName}${lineInfo}`;
+      break;
+    }
+
     case 'list_directory': {
       const dirName = metadata.directoryPath === '.' ? 'current directory' : path.basename(metadata.directoryPath || '');
       const counts = `${metadata.fileCount || 0} files, ${metadata.directoryCount || 0} dirs`;
@@ -305,6 +419,19 @@ export function formatToolMetadata(toolName: string, metadata: ToolMetadata): st
       break;
     }
 
+    case 'grep': {
+      const matches = metadata.matchCount || 0;
+      const files = metadata.fileCount || 0;
+      baseMessage = `✓ Found ${matches} match${matches === 1 ? '' : 'es'} in ${files} file${files === 1 ? '' : 's'}`;
+      break;
+    }
+
+    case 'glob': {
+      const files = metadata.fileCount || 0;
+      baseMessage = `✓ Found ${files} file${files === 1 ? '' : 's'}${metadata.pattern ? ` matching ${metadata.pattern}` : ''}`;
+      break;
+    }
+
     case 'execute_command': {
       const cmd = metadata.command ? metadata.command.split(' ')[0] : 'command';
       baseMessage = `✓ Executed ${cmd}`;
@@ -0,0 +1,203 @@
+/**
+ * Edit File Tool Tests
+ *
+ * Tests search/replace semantics, diff output and metadata extraction
+ * for the edit_file tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applyFileEdits, EditFileTool } from '../editFile.js';
+import { createUnifiedDiff } from '../../utils/diffUtils.js';
+import { extractToolMetadata, formatToolMetadata } from '../../toolMetadata.js';
+
+describe('applyFileEdits', () => {
+  it('should replace a unique match', () => {
+    const result = applyFileEdits('const a = 1;\nconst b = 2;\n', [
+      { oldString: 'const b = 2;', newString: 'const b = 3;' }
+    ]);
+
+    expect(result.content).toBe('const a = 1;\nconst b = 3;\n');
+    expect(result.replacements).toBe(1);
+  });
+
+  it('should reject ambiguous matches without replaceAll', () => {
+    expect(() => applyFileEdits('foo\nfoo\n', [
+      { oldString: 'foo', newString: 'bar' }
+    ])).toThrow(/matches 2 locations/);
+  });
+
+  it('should replace all occurrences with replaceAll', () => {
+    const result = applyFileEdits('foo\nfoo\n', [
+      { oldString: 'foo', newString: 'bar', replaceAll: true }
+    ]);
+
+    expect(result.content).toBe('bar\nbar\n');
+    expect(result.replacements).toBe(2);
+  });
+
+  it('should apply multiple edits in order', () => {
+    const result = applyFileEdits('alpha\nbeta\ngamma\n', [
+      { oldString: 'alpha', newString: 'ALPHA' },
+      { oldString: 'gamma', newString: 'GAMMA' }
+    ]);
+
+    expect(result.content).toBe('ALPHA\nbeta\nGAMMA\n');
+    expect(result.replacements).toBe(2);
+  });
+
+  it('should report which edit failed', () => {
+    expect(() => applyFileEdits('alpha\n', [
+      { oldString: 'alpha', newString: 'ALPHA' },
+      { oldString: 'missing', newString: 'x' }
+    ])).toThrow(/^Edit #2: oldString not found/);
+  });
+
+  it('should reject empty and no-op edits', () => {
+    expect(() => applyFileEdits('x', [{ oldString: '', newString: 'y' }])).toThrow(/must not be empty/);
+    expect(() => applyFileEdits('x', [{ oldString: 'x', newString: 'x' }])).toThrow(/identical/);
+  });
+
+  it('should insert replacement text literally', () => {
+    const result = applyFileEdits('price', [{ oldString: 'price', newString: '$& $1 $$' }]);
+    expect(result.content).toBe('$& $1 $$');
+  });
+
+  it('should match LF edit strings against CRLF files', () => {
+    const result = applyFileEdits('one\r\ntwo\r\nthree\r\n', [
+      { oldString: 'one\ntwo', newString: 'one\n2' }
+    ]);
+
+    expect(result.content).toBe('one\r\n2\r\nthree\r\n');
+  });
+
+  it('should match edit strings in files with mixed line endings', () => {
+    const content = 'one\r\ntwo\r\nthree\nfour\n';
+
+    expect(applyFileEdits(content, [{ oldString: 'three\nfour', newString: '3\n4' }]).content).toBe('one\r\ntwo\r\n3\n4\n');
+    expect(applyFileEdits(content, [{ oldString: 'one\ntwo', newString: '1\n2' }]).content).toBe('1\r\n2\r\nthree\nfour\n');
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty diff for identical content', () => {
+    const result = createUnifiedDiff('a\nb\n', 'a\nb\n', 'file.txt');
+    expect(result).toEqual({ diff: '', linesAdded: 0, linesRemoved: 0 });
+  });
+
+  it('should produce a hunk with context lines', () => {
+    const oldContent = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n') + '\n';
+    const newContent = ['1', '2', '3', '4', 'five', '6', '7', '8'].join('\n') + '\n';
+
+    const result = createUnifiedDiff(oldContent, newContent, 'nums.txt');
+
+    expect(result.linesAdded).toBe(1);
+    expect(result.linesRemoved).toBe(1);
+    expect(result.diff.split('\n')).toEqual([
+      '--- a/nums.txt',
+      '+++ b/nums.txt',
+      '@@ -2,7 +2,7 @@',
+      ' 2',
+      ' 3',
+      ' 4',
+      '-5',
+      '+five',
+      ' 6',
+      ' 7',
+      ' 8'
+    ]);
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines[18] = 'changed 19';
+
+    const result = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'f.txt');
+    const hunkHeaders = result.diff.split('\n').filter(line => line.startsWith('@@'));
+
+    expect(hunkHeaders).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+  });
+
+  it('should count pure insertions', () => {
+    const result = createUnifiedDiff('a\nc\n', 'a\nb\nc\n', 'f.txt');
+    expect(result.linesAdded).toBe(1);
+    expect(result.linesRemoved).toBe(0);
+    expect(result.diff).toContain('@@ -1,2 +1,3 @@');
+  });
+});
+
+describe('EditFileTool', () => {
+  let tempDir: string;
+  let tool: EditFileTool;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'edit-file-test-'));
+    tool = new EditFileTool(tempDir);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should edit the file and return a diff', async () => {
+    await writeFile(join(tempDir, 'app.ts'), 'export const port = 3000;\n');
+
+    const result = await tool._call({
+      filePath: 'app.ts',
+      edits: [{ oldString: '3000', newString: '8080' }]
+    });
+
+    expect(result).toContain('Successfully edited app.ts: 1 replacement, +1 -1 lines');
+    expect(result).toContain('-export const port = 3000;');
+    expect(result).toContain('+export const port = 8080;');
+    expect(await readFile(join(tempDir, 'app.ts'), 'utf-8')).toBe('export const port = 8080;\n');
+  });
+
+  it('should leave the file untouched when any edit fails', async () => {
+    await writeFile(join(tempDir, 'app.ts'), 'a\nb\n');
+
+    const result = await tool._call({
+      filePath: 'app.ts',
+      edits: [
+        { oldString: 'a', newString: 'A' },
+        { oldString: 'missing', newString: 'x' }
+      ]
+    });
+
+    expect(result).toMatch(/^Error editing file: Edit #2/);
+    expect(await readFile(join(tempDir, 'app.ts'), 'utf-8')).toBe('a\nb\n');
+  });
+
+  it('should reject paths outside the working directory', async () => {
+    const result = await tool._call({
+      filePath: '../outside.txt',
+      edits: [{ oldString: 'a', newString: 'b' }]
+    });
+
+    expect(result).toContain('Access denied');
+  });
+
+  it('should produce metadata with line counts', async () => {
+    await writeFile(join(tempDir, 'app.ts'), 'one\ntwo\n');
+
+    const result = await tool._call({
+      filePath: 'app.ts',
+      edits: [{ oldString: 'two', newString: 'two\nthree' }]
+    });
+
+    const metadata = extractToolMetadata('edit_file', result, { filePath: 'app.ts' });
+
+    expect(metadata).toMatchObject({
+      success: true,
+      filePath: 'app.ts',
+      linesAdded: 1,
+      linesRemoved: 0
+    });
+    expect(metadata?.diffPreview).toBe('+three');
+    expect(formatToolMetadata('edit_file', metadata!)).toBe('✓ Edited app.ts (+1 -0)');
+  });
+});
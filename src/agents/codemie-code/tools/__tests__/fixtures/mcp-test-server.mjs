@@ -0,0 +1,24 @@
+// Minimal stdio MCP server used by the MCP client tests
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { z } from 'zod';
+
+const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+
+server.registerTool('echo', {
+  description: 'Echo the given text',
+  inputSchema: { text: z.string() },
+  annotations: { readOnlyHint: true }
+}, async ({ text }) => ({ content: [{ type: 'text', text: `echo: ${text}` }] }));
+
+server.registerTool('create_issue', {
+  description: 'Create an issue',
+  inputSchema: { title: z.string() }
+}, async ({ title }) => ({ content: [{ type: 'text', text: `created: ${title}` }] }));
+
+server.registerTool('fail', {
+  description: 'Always fails',
+  annotations: { readOnlyHint: true }
+}, async () => ({ content: [{ type: 'text', text: 'something broke' }], isError: true }));
+
+await server.connect(new StdioServerTransport());
@@ -0,0 +1,143 @@
+/**
+ * Git Tools Tests
+ *
+ * Tests git_status, git_diff, git_log and git_commit against a temporary
+ * repository, including output caps and commit confirmation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { exec } from '../../../../utils/exec.js';
+import { GitStatusTool, GitDiffTool, GitLogTool, GitCommitTool, parseGitStatus, truncateGitOutput } from '../git.js';
+import { initializePermissions, setPermissionPromptHandler } from '../../permissions.js';
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const result = await exec('git', args, { cwd });
+  if (result.code !== 0) {
+    throw new Error(result.stderr);
+  }
+  return result.stdout;
+}
+
+describe('parseGitStatus', () => {
+  it('should parse branch tracking and file sections', () => {
+    const output = [
+      '## feature...origin/feature [ahead 2, behind 1]',
+      'M  src/staged.ts',
+      ' M src/unstaged.ts',
+      'MM src/both.ts',
+      'R  src/new-name.ts',
+      'src/old-name.ts',
+      'UU src/conflict.ts',
+      '?? notes.md',
+      ''
+    ].join('\0');
+
+    expect(parseGitStatus(output)).toEqual({
+      branch: 'feature',
+      upstream: 'origin/feature',
+      ahead: 2,
+      behind: 1,
+      staged: [
+        { path: 'src/staged.ts', originalPath: undefined, status: 'M' },
+        { path: 'src/both.ts', originalPath: undefined, status: 'M' },
+        { path: 'src/new-name.ts', originalPath: 'src/old-name.ts', status: 'R' }
+      ],
+      unstaged: [
+        { path: 'src/unstaged.ts', status: 'M' },
+        { path: 'src/both.ts', status: 'M' }
+      ],
+      untracked: ['notes.md'],
+      conflicted: ['src/conflict.ts']
+    });
+  });
+
+  it('should cap long output with a hint', () => {
+    const result = truncateGitOutput('x'.repeat(50), 'use stat: true', 10);
+    expect(result).toBe(`${'x'.repeat(10)}\n\n... [truncated 40 characters; use stat: true]`);
+  });
+});
+
+describe('Git tools', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'git-tools-test-'));
+
+    await git(tempDir, 'init', '--quiet', '--initial-branch=main');
+    await git(tempDir, 'config', 'user.email', 'dev@example.com');
+    await git(tempDir, 'config', 'user.name', 'Dev');
+    await git(tempDir, 'config', 'commit.gpgsign', 'false');
+    await writeFile(join(tempDir, 'app.ts'), 'export const value = 1;\n');
+    await git(tempDir, 'add', 'app.ts');
+    await git(tempDir, 'commit', '--quiet', '-m', 'Initial commit');
+  });
+
+  afterEach(async () => {
+    setPermissionPromptHandler(null);
+    initializePermissions({ mode: 'ask' }, tempDir);
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report branch and changed files', async () => {
+    await writeFile(join(tempDir, 'app.ts'), 'export const value = 2;\n');
+    await writeFile(join(tempDir, 'new.ts'), 'export {};\n');
+
+    const result = await new GitStatusTool(tempDir)._call();
+
+    expect(result).toBe('Branch: main\n\nUnstaged (1):\n  M app.ts\n\nUntracked (1):\n  new.ts');
+  });
+
+  it('should show unstaged, staged and ref diffs', async () => {
+    const tool = new GitDiffTool(tempDir);
+    await writeFile(join(tempDir, 'app.ts'), 'export const value = 2;\n');
+
+    expect(await tool._call({})).toContain('+export const value = 2;');
+    expect(await tool._call({ staged: true })).toBe('No staged changes');
+
+    await git(tempDir, 'add', 'app.ts');
+    expect(await tool._call({ staged: true, stat: true })).toMatch(/app\.ts \| 2 \+-/);
+    expect(await tool._call({ ref: 'HEAD' })).toContain('-export const value = 1;');
+  });
+
+  it('should reject option-like refs and paths outside the working directory', async () => {
+    const tool = new GitDiffTool(tempDir);
+
+    expect(await tool._call({ ref: '--output=/tmp/x' })).toBe('Error getting git diff: Invalid ref: --output=/tmp/x');
+    expect(await tool._call({ paths: ['../outside'] })).toMatch(/^Error getting git diff: Access denied/);
+  });
+
+  it('should list commits', async () => {
+    const result = await new GitLogTool(tempDir)._call({ maxCount: 5 });
+    expect(result).toMatch(/^[0-9a-f]{7,} \d{4}-\d{2}-\d{2} Dev: Initial commit$/);
+  });
+
+  it('should commit only after confirmation', async () => {
+    initializePermissions({ mode: 'auto-accept-edits', allow: ['*'] }, tempDir);
+    const handler = vi.fn().mockResolvedValue('allow_once');
+    setPermissionPromptHandler(handler);
+    await writeFile(join(tempDir, 'app.ts'), 'export const value = 3;\n');
+
+    const result = await new GitCommitTool(tempDir)._call({ message: 'Bump value', files: ['app.ts'] });
+
+    expect(result).toMatch(/^Committed on main: [0-9a-f]{7,} Bump value/);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: 'git_commit', requireConfirmation: true, description: expect.stringContaining('Bump value') }),
+      []
+    );
+    expect(await git(tempDir, 'log', '--format=%s')).toBe('Bump value\nInitial commit');
+  });
+
+  it('should leave the index untouched when a commit is declined', async () => {
+    initializePermissions({ mode: 'ask' }, tempDir);
+    setPermissionPromptHandler(vi.fn().mockResolvedValue('deny'));
+    await writeFile(join(tempDir, 'app.ts'), 'export const value = 3;\n');
+
+    const result = await new GitCommitTool(tempDir)._call({ message: 'Bump value', files: ['app.ts'] });
+
+    expect(result).toBe('Error committing: Permission denied by user');
+    expect(await git(tempDir, 'status', '--porcelain')).toBe('M app.ts');
+  });
+});
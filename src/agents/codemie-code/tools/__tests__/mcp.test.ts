@@ -0,0 +1,188 @@
+/**
+ * MCP Client Tests
+ *
+ * Tests tool naming, result formatting, and connecting to a real stdio
+ * MCP server whose tools are exposed through the permission system
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { access, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { McpManager, createMcpToolName, formatMcpContent, getMcpServerType, expandEnvVars } from '../mcp.js';
+import { McpApprovalStore, getReferencedEnvVars } from '../mcp-approvals.js';
+import { initializePermissions, setPermissionPromptHandler } from '../../permissions.js';
+
+const serverScript = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'mcp-test-server.mjs');
+
+describe('createMcpToolName', () => {
+  it('should namespace and sanitize tool names', () => {
+    expect(createMcpToolName('github', 'create_issue')).toBe('mcp__github__create_issue');
+    expect(createMcpToolName('my server', 'files.read')).toBe('mcp__my_server__files_read');
+    expect(createMcpToolName('server', 'x'.repeat(100))).toHaveLength(64);
+  });
+});
+
+describe('MCP config helpers', () => {
+  it('should infer the transport type', () => {
+    expect(getMcpServerType({ command: 'npx' })).toBe('stdio');
+    expect(getMcpServerType({ url: 'https://mcp.example.com/mcp' })).toBe('http');
+    expect(getMcpServerType({ type: 'http', command: 'ignored', url: 'https://x' })).toBe('http');
+  });
+
+  it('should expand environment variables', () => {
+    process.env.MCP_TEST_TOKEN = 'secret';
+    expect(expandEnvVars({ Authorization: 'Bearer ${MCP_TEST_TOKEN}', Missing: '${MCP_TEST_UNSET}' })).toEqual({
+      Authorization: 'Bearer secret',
+      Missing: ''
+    });
+    delete process.env.MCP_TEST_TOKEN;
+  });
+
+  it('should format mixed tool result content', () => {
+    expect(formatMcpContent({
+      content: [
+        { type: 'text', text: 'hello' },
+        { type: 'image', data: 'abc', mimeType: 'image/png' },
+        { type: 'resource', resource: { uri: 'file:///a.txt', text: 'file body' } },
+        { type: 'resource_link', uri: 'file:///b.txt', name: 'b' }
+      ]
+    })).toBe('hello\n[image: image/png]\nfile body\n[resource: file:///b.txt]');
+    expect(formatMcpContent({ content: [], structuredContent: { ok: true } })).toBe('{\n  "ok": true\n}');
+  });
+});
+
+describe('McpManager', () => {
+  let manager: McpManager;
+
+  beforeAll(async () => {
+    manager = new McpManager({
+      test: { command: process.execPath, args: [serverScript], trusted: true },
+      untrusted: { command: process.execPath, args: [serverScript] },
+      broken: { command: process.execPath, args: ['-e', 'process.exit(1)'] },
+      off: { command: 'unused', enabled: false }
+    }, process.cwd());
+    await manager.connectAll();
+  }, 30000);
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  afterEach(() => {
+    setPermissionPromptHandler(null);
+  });
+
+  it('should report the state of every configured server', () => {
+    const status = manager.getStatus();
+
+    expect(status.find(server => server.name === 'test')).toMatchObject({
+      state: 'connected',
+      type: 'stdio',
+      tools: ['mcp__test__echo', 'mcp__test__create_issue', 'mcp__test__fail']
+    });
+    expect(status.find(server => server.name === 'broken')?.state).toBe('failed');
+    expect(status.find(server => server.name === 'broken')?.error).toBeTruthy();
+    expect(status.find(server => server.name === 'off')?.state).toBe('disabled');
+  });
+
+  it('should call read-only tools of trusted servers without approval', async () => {
+    initializePermissions({ mode: 'ask' }, process.cwd());
+    const echo = manager.getTools().find(tool => tool.name === 'mcp__test__echo')!;
+
+    expect(echo.description).toBe('[MCP: test] Echo the given text');
+    expect(await echo.invoke({ text: 'hi' })).toBe('echo: hi');
+  });
+
+  it('should not believe read-only annotations of other servers', async () => {
+    initializePermissions({ mode: 'ask' }, process.cwd());
+    const handler = vi.fn().mockResolvedValue('deny');
+    setPermissionPromptHandler(handler);
+    const echo = manager.getTools().find(tool => tool.name === 'mcp__untrusted__echo')!;
+
+    expect(await echo.invoke({ text: 'hi' })).toBe('Error calling MCP tool: Permission denied by user');
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('should ask before calling other tools', async () => {
+    initializePermissions({ mode: 'ask' }, process.cwd());
+    const handler = vi.fn().mockResolvedValueOnce('deny').mockResolvedValueOnce('allow_once');
+    setPermissionPromptHandler(handler);
+    const createIssue = manager.getTools().find(tool => tool.name === 'mcp__test__create_issue')!;
+
+    expect(await createIssue.invoke({ title: 'Bug' })).toBe('Error calling MCP tool: Permission denied by user');
+    expect(await createIssue.invoke({ title: 'Bug' })).toBe('created: Bug');
+    expect(handler.mock.calls[0][0]).toMatchObject({ toolName: 'mcp__test__create_issue', category: 'execute' });
+  });
+
+  it('should allow tools by server prefix rules', async () => {
+    initializePermissions({ mode: 'ask', allow: ['mcp__test__*'] }, process.cwd());
+    const createIssue = manager.getTools().find(tool => tool.name === 'mcp__test__create_issue')!;
+
+    expect(await createIssue.invoke({ title: 'Docs' })).toBe('created: Docs');
+  });
+
+  it('should return server errors as tool errors', async () => {
+    const fail = manager.getTools().find(tool => tool.name === 'mcp__test__fail')!;
+    expect(await fail.invoke({})).toBe('Error calling MCP tool: something broke');
+  });
+});
+
+describe('Project MCP servers', () => {
+  let dir: string;
+  let approvals: McpApprovalStore;
+  let marker: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'codemie-mcp-'));
+    approvals = new McpApprovalStore(join(dir, 'mcp-approvals.json'));
+    marker = join(dir, 'started');
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should only start project servers the user approved', async () => {
+    // A server that leaves a marker when it starts, and would read a token
+    const server = {
+      command: process.execPath,
+      args: ['-e', `require('fs').writeFileSync(${JSON.stringify(marker)}, process.env.LEAK ?? '')`],
+      env: { LEAK: '${HOME}' },
+      trusted: true
+    };
+    const approve = vi.fn().mockResolvedValue(false);
+
+    const declined = new McpManager({ repo: server }, dir, false, { projectServers: ['repo'], approve, approvals });
+    await declined.connectAll();
+
+    expect(approve).toHaveBeenCalledWith('repo', server);
+    expect(declined.getStatus()[0]).toMatchObject({ name: 'repo', state: 'unapproved', tools: [] });
+    await expect(access(marker)).rejects.toThrow();
+    expect(getReferencedEnvVars(server)).toEqual(['HOME']);
+
+    // Without a prompt (e.g. no terminal) unapproved servers are skipped
+    const headless = new McpManager({ repo: server }, dir, false, { projectServers: ['repo'], approvals });
+    await headless.connectAll();
+    expect(headless.getStatus()[0].state).toBe('unapproved');
+  });
+
+  it('should remember approvals until the server config changes', async () => {
+    const server = { command: process.execPath, args: [serverScript] };
+    const approve = vi.fn().mockResolvedValue(true);
+
+    const first = new McpManager({ repo: server }, dir, false, { projectServers: ['repo'], approve, approvals });
+    await first.connectAll();
+    expect(first.getStatus()[0].state).toBe('connected');
+    await first.close();
+    expect(await approvals.isApproved(dir, 'repo', server)).toBe(true);
+
+    const second = new McpManager({ repo: server }, dir, false, { projectServers: ['repo'], approvals });
+    await second.connectAll();
+    expect(second.getStatus()[0].state).toBe('connected');
+    await second.close();
+
+    expect(await approvals.isApproved(dir, 'repo', { ...server, args: [serverScript, '--other'] })).toBe(false);
+  }, 30000);
+});
@@ -0,0 +1,179 @@
+/**
+ * Search Tools Tests
+ *
+ * Tests grep and glob tools including ignore handling, paging and
+ * working directory boundaries
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GrepTool, GlobTool } from '../search.js';
+import { parseGitignore, GitignoreMatcher } from '../../utils/gitignore.js';
+import { extractToolMetadata, formatToolMetadata } from '../../toolMetadata.js';
+
+async function createFile(root: string, relativePath: string, content: string): Promise<void> {
+  const fullPath = join(root, relativePath);
+  await mkdir(join(fullPath, '..'), { recursive: true });
+  await writeFile(fullPath, content);
+}
+
+describe('GitignoreMatcher', () => {
+  it('should match unanchored patterns at any depth', () => {
+    const matcher = new GitignoreMatcher(parseGitignore('*.log\n'));
+    expect(matcher.isIgnored('debug.log', false)).toBe(true);
+    expect(matcher.isIgnored('logs/app/debug.log', false)).toBe(true);
+    expect(matcher.isIgnored('debug.txt', false)).toBe(false);
+  });
+
+  it('should anchor patterns containing a slash', () => {
+    const matcher = new GitignoreMatcher(parseGitignore('/generated\nconfig/local.json\n'));
+    expect(matcher.isIgnored('generated', true)).toBe(true);
+    expect(matcher.isIgnored('src/generated', true)).toBe(false);
+    expect(matcher.isIgnored('config/local.json', false)).toBe(true);
+  });
+
+  it('should apply directory-only rules and negation', () => {
+    const matcher = new GitignoreMatcher(parseGitignore('# comment\ncache/\n*.env\n!example.env\n'));
+    expect(matcher.isIgnored('cache', true)).toBe(true);
+    expect(matcher.isIgnored('cache', false)).toBe(false);
+    expect(matcher.isIgnored('prod.env', false)).toBe(true);
+    expect(matcher.isIgnored('example.env', false)).toBe(false);
+  });
+
+  it('should scope nested rules to their directory', () => {
+    const matcher = new GitignoreMatcher(parseGitignore('*.tmp\n', 'packages/app'));
+    expect(matcher.isIgnored('packages/app/x.tmp', false)).toBe(true);
+    expect(matcher.isIgnored('x.tmp', false)).toBe(false);
+  });
+});
+
+describe('Search tools', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'search-tools-test-'));
+
+    await createFile(tempDir, '.gitignore', 'secret/\n*.log\n');
+    await createFile(tempDir, 'src/index.ts', 'import { helper } from "./helper";\n\nexport function main() {\n  return helper();\n}\n');
+    await createFile(tempDir, 'src/helper.ts', 'export function helper() {\n  return 42;\n}\n');
+    await createFile(tempDir, 'src/utils/math.ts', 'export const add = (a: number, b: number) => a + b;\n');
+    await createFile(tempDir, 'README.md', '# Project\nCall helper() to start.\n');
+    await createFile(tempDir, 'node_modules/pkg/index.ts', 'export function helper() {}\n');
+    await createFile(tempDir, 'secret/keys.ts', 'export const helper = "hidden";\n');
+    await createFile(tempDir, 'debug.log', 'helper called\n');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('GlobTool', () => {
+    it('should find files by extension at any depth', async () => {
+      const tool = new GlobTool(tempDir);
+      const result = await tool._call({ pattern: '*.ts' });
+
+      expect(result).toContain('Found 3 files matching "*.ts"');
+      expect(result).toContain('src/index.ts');
+      expect(result).toContain('src/utils/math.ts');
+      expect(result).not.toContain('node_modules');
+      expect(result).not.toContain('secret/keys.ts');
+    });
+
+    it('should match path patterns relative to the search path', async () => {
+      const tool = new GlobTool(tempDir);
+      const result = await tool._call({ pattern: 'utils/*.ts', path: 'src' });
+
+      expect(result).toContain('Found 1 file matching');
+      expect(result).toContain('src/utils/math.ts');
+    });
+
+    it('should include ignored files when requested', async () => {
+      const tool = new GlobTool(tempDir);
+      const result = await tool._call({ pattern: '**/*.ts', includeIgnored: true });
+
+      expect(result).toContain('node_modules/pkg/index.ts');
+      expect(result).toContain('secret/keys.ts');
+    });
+
+    it('should page results', async () => {
+      const tool = new GlobTool(tempDir);
+      const result = await tool._call({ pattern: '*.ts', limit: 2 });
+
+      expect(result).toContain('--- Showing files 1-2 of 3. Use offset: 2 to see more. ---');
+    });
+
+    it('should reject paths outside the working directory', async () => {
+      const tool = new GlobTool(tempDir);
+      const result = await tool._call({ pattern: '*', path: '..' });
+
+      expect(result).toContain('Access denied');
+    });
+  });
+
+  describe('GrepTool', () => {
+    it('should return matching lines with line numbers', async () => {
+      const tool = new GrepTool(tempDir);
+      const result = await tool._call({ pattern: 'helper\\(' });
+
+      expect(result).toContain('Found 3 matches in 3 files');
+      expect(result).toContain('README.md:2: Call helper() to start.');
+      expect(result).toContain('src/helper.ts:1: export function helper() {');
+      expect(result).toContain('src/index.ts:4:   return helper();');
+      expect(result).not.toContain('node_modules');
+      expect(result).not.toContain('debug.log');
+    });
+
+    it('should support literal mode and case-insensitive search', async () => {
+      const tool = new GrepTool(tempDir);
+      const literal = await tool._call({ pattern: 'HELPER() TO', literal: true, ignoreCase: true });
+
+      expect(literal).toContain('Found 1 match in 1 file');
+      expect(literal).toContain('README.md:2:');
+    });
+
+    it('should filter files with a glob and show context lines', async () => {
+      const tool = new GrepTool(tempDir);
+      const result = await tool._call({ pattern: 'return', glob: '*.ts', path: 'src', contextLines: 1 });
+
+      expect(result).toContain('src/helper.ts-1- export function helper() {');
+      expect(result).toContain('src/helper.ts:2:   return 42;');
+      expect(result).toContain('src/helper.ts-3- }');
+      expect(result).toContain('\n--\n');
+    });
+
+    it('should list files and counts in alternative output modes', async () => {
+      const tool = new GrepTool(tempDir);
+
+      const files = await tool._call({ pattern: 'helper', outputMode: 'files_with_matches' });
+      expect(files.split('\n\n')[1].split('\n')).toEqual(['README.md', 'src/helper.ts', 'src/index.ts']);
+
+      const counts = await tool._call({ pattern: 'helper', outputMode: 'count' });
+      expect(counts).toContain('src/index.ts: 2');
+    });
+
+    it('should cap and page results', async () => {
+      const tool = new GrepTool(tempDir);
+      const result = await tool._call({ pattern: 'helper', maxResults: 2, offset: 1 });
+
+      expect(result).toContain('--- Showing matches 2-3 of 4. Use offset: 3 to see more. ---');
+    });
+
+    it('should report invalid regular expressions', async () => {
+      const tool = new GrepTool(tempDir);
+      const result = await tool._call({ pattern: '(unclosed' });
+
+      expect(result).toMatch(/^Error searching content: Invalid regular expression/);
+    });
+
+    it('should produce metadata for the UI', async () => {
+      const tool = new GrepTool(tempDir);
+      const result = await tool._call({ pattern: 'helper' });
+      const metadata = extractToolMetadata('grep', result, { pattern: 'helper' });
+
+      expect(metadata).toMatchObject({ success: true, matchCount: 4, fileCount: 3 });
+      expect(formatToolMetadata('grep', metadata!)).toBe('✓ Found 4 matches in 3 files');
+    });
+  });
+});
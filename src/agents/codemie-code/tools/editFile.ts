@@ -0,0 +1,171 @@
+/**
+ * Edit File Tool for CodeMie Agent
+ *
+ * Surgical search/replace edits for existing files so the agent does not
+ * have to rewrite whole files through write_file
+ */
+
+import { StructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isPathWithinDirectory } from '../../../utils/paths.js';
+import { createUnifiedDiff } from '../utils/diffUtils.js';
+import { checkToolPermission } from '../permissions.js';
+import { recordFileBeforeChange } from '../storage/checkpointStorage.js';
+
+/**
+ * A single search/replace operation
+ */
+export interface FileEdit {
+  /** Exact text to search for */
+  oldString: string;
+
+  /** Replacement text */
+  newString: string;
+
+  /** Replace every occurrence instead of requiring a unique match */
+  replaceAll?: boolean;
+}
+
+/**
+ * Result of applying a set of edits to file content
+ */
+export interface ApplyEditsResult {
+  /** Updated content */
+  content: string;
+
+  /** Total number of replacements performed */
+  replacements: number;
+}
+
+/**
+ * Count non-overlapping occurrences of a substring
+ */
+function countOccurrences(content: string, search: string): number {
+  let count = 0;
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    count++;
+    index = content.indexOf(search, index + search.length);
+  }
+  return count;
+}
+
+/**
+ * Apply search/replace edits sequentially to file content
+ *
+ * Edits are all-or-nothing: the first failing edit throws and no partial
+ * result is returned. When the file has CRLF line endings and an edit's text
+ * does not match as given, it is retried with LF converted to CRLF so that
+ * models can pass plain "\n" text. Files with mixed line endings match either way.
+ *
+ * @throws Error when an edit is invalid, not found, or ambiguous
+ */
+export function applyFileEdits(content: string, edits: FileEdit[]): ApplyEditsResult {
+  const hasCrlf = content.includes('\r\n');
+  const toCrlf = (value: string) => value.replaceAll('\r\n', '\n').replaceAll('\n', '\r\n');
+
+  let updated = content;
+  let replacements = 0;
+
+  edits.forEach((edit, index) => {
+    const label = edits.length > 1 ? `Edit #${index + 1}: ` : '';
+    let oldString = edit.oldString;
+    let newString = edit.newString;
+
+    if (oldString === '') {
+      throw new Error(`${label}oldString must not be empty (use write_file to create files)`);
+    }
+
+    if (oldString === newString) {
+      throw new Error(`${label}oldString and newString are identical`);
+    }
+
+    let occurrences = countOccurrences(updated, oldString);
+    if (occurrences === 0 && hasCrlf && toCrlf(oldString) !== oldString) {
+      oldString = toCrlf(oldString);
+      newString = toCrlf(newString);
+      occurrences = countOccurrences(updated, oldString);
+    }
+
+    if (occurrences === 0) {
+      throw new Error(`${label}oldString not found in file. Read the file again and copy the exact text, including whitespace and indentation`);
+    }
+
+    if (occurrences > 1 && !edit.replaceAll) {
+      throw new Error(`${label}oldString matches ${occurrences} locations. Add surrounding context to make it unique, or set replaceAll: true`);
+    }
+
+    // Use a replacer function so "$" sequences in newString are inserted literally
+    updated = edit.replaceAll
+      ? updated.replaceAll(oldString, () => newString)
+      : updated.replace(oldString, () => newString);
+    replacements += occurrences;
+  });
+
+  return { content: updated, replacements };
+}
+
+/**
+ * File edit tool - exact search/replace with uniqueness check
+ */
+export class EditFileTool extends StructuredTool {
+  name = 'edit_file';
+  description = 'Edit an existing file by exact search/replace. Each oldString must match the file exactly (including whitespace) and be unique unless replaceAll is true. Multiple edits are applied in order and atomically. Returns a unified diff of the changes. Prefer this over write_file for modifying existing files.';
+
+  schema = z.object({
+    filePath: z.string().describe('Path to the file to edit'),
+    edits: z.array(z.object({
+      oldString: z.string().describe('Exact text to replace (must be unique in the file unless replaceAll is true)'),
+      newString: z.string().describe('Text to replace it with'),
+      replaceAll: z.boolean().optional().describe('Replace all occurrences of oldString (default: false)'),
+    })).min(1).describe('Search/replace operations applied in order'),
+  });
+
+  private workingDirectory: string;
+
+  constructor(workingDirectory: string) {
+    super();
+    this.workingDirectory = workingDirectory;
+  }
+
+  async _call({ filePath, edits }: z.infer<typeof this.schema>): Promise<string> {
+    try {
+      // Resolve path relative to working directory
+      const resolvedPath = path.resolve(this.workingDirectory, filePath);
+
+      // Security check - ensure we're not escaping working directory
+      if (!isPathWithinDirectory(this.workingDirectory, resolvedPath)) {
+        throw new Error('Access denied: Path is outside working directory');
+      }
+
+      const original = await fs.readFile(resolvedPath, 'utf-8');
+      const { content, replacements } = applyFileEdits(original, edits);
+
+      const relativePath = path.relative(this.workingDirectory, resolvedPath) || filePath;
+      const { diff, linesAdded, linesRemoved } = createUnifiedDiff(
+        original.replaceAll('\r\n', '\n'),
+        content.replaceAll('\r\n', '\n'),
+        relativePath
+      );
+
+      const denial = await checkToolPermission({
+        toolName: this.name,
+        category: 'edit',
+        specifier: relativePath,
+        description: `Edit ${relativePath} (+${linesAdded} -${linesRemoved})\n\n${diff}`
+      });
+      if (denial) {
+        throw new Error(denial);
+      }
+
+      await recordFileBeforeChange(resolvedPath);
+      await fs.writeFile(resolvedPath, content, 'utf-8');
+
+      return `Successfully edited ${filePath}: ${replacements} replacement${replacements === 1 ? '' : 's'}, +${linesAdded} -${linesRemoved} lines\n\n${diff}`;
+    } catch (error) {
+      return `Error editing file: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
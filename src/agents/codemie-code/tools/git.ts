@@ -0,0 +1,377 @@
+/**
+ * Git Tools for CodeMie Native Agent
+ *
+ * Dedicated git_status, git_diff, git_log and git_commit tools so the agent
+ * does not have to parse porcelain output from execute_command. Git runs
+ * without a shell, and output is capped to keep tool results small.
+ */
+
+import { StructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import path from 'path';
+import { exec } from '../../../utils/exec.js';
+import { detectGitBranch } from '../../../utils/processes.js';
+import { isPathWithinDirectory } from '../../../utils/paths.js';
+import { checkToolPermission } from '../permissions.js';
+import { recordIrreversibleAction } from '../storage/checkpointStorage.js';
+
+/**
+ * Maximum characters of diff or log output returned to the model
+ */
+export const MAX_GIT_OUTPUT_CHARS = 30_000;
+
+const GIT_TIMEOUT_MS = 30_000;
+
+/**
+ * File entry of `git status`
+ */
+export interface GitFileStatus {
+  path: string;
+  /** Original path for renames and copies */
+  originalPath?: string;
+  /** Porcelain status letter (M, A, D, R, C, U, ?) */
+  status: string;
+}
+
+export interface GitStatusSummary {
+  branch?: string;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  staged: GitFileStatus[];
+  unstaged: GitFileStatus[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+/**
+ * Run git in the working directory and return stdout
+ *
+ * @throws Error with git's stderr when the command fails
+ */
+async function runGit(workingDirectory: string, args: string[], timeout = GIT_TIMEOUT_MS): Promise<string> {
+  const result = await exec('git', args, { cwd: workingDirectory, timeout });
+
+  if (result.code !== 0) {
+    throw new Error(result.stderr || result.stdout || `git ${args[0]} exited with code ${result.code}`);
+  }
+
+  return result.stdout;
+}
+
+/**
+ * Cap output size, keeping the beginning
+ */
+export function truncateGitOutput(output: string, hint: string, maxChars = MAX_GIT_OUTPUT_CHARS): string {
+  if (output.length <= maxChars) {
+    return output;
+  }
+
+  return `${output.substring(0, maxChars)}\n\n... [truncated ${output.length - maxChars} characters; ${hint}]`;
+}
+
+/**
+ * Reject refs that git would parse as options
+ */
+function validateRef(ref: string): void {
+  if (ref.startsWith('-') || /\s/.test(ref)) {
+    throw new Error(`Invalid ref: ${ref}`);
+  }
+}
+
+/**
+ * Resolve paths relative to the working directory, rejecting paths outside of it
+ */
+function resolvePaths(workingDirectory: string, paths: string[]): string[] {
+  return paths.map(filePath => {
+    const resolvedPath = path.resolve(workingDirectory, filePath);
+    if (!isPathWithinDirectory(workingDirectory, resolvedPath)) {
+      throw new Error(`Access denied: ${filePath} is outside working directory`);
+    }
+    return path.relative(workingDirectory, resolvedPath) || '.';
+  });
+}
+
+/**
+ * Parse `git status --porcelain=v1 --branch -z` output
+ */
+export function parseGitStatus(output: string): GitStatusSummary {
+  const summary: GitStatusSummary = { ahead: 0, behind: 0, staged: [], unstaged: [], untracked: [], conflicted: [] };
+  const entries = output.split('\0');
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+
+    if (entry.startsWith('## ')) {
+      const header = entry.substring(3);
+      const branchMatch = header.match(/^(?:No commits yet on |Initial commit on )?(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/);
+      if (branchMatch) {
+        summary.branch = branchMatch[1];
+        summary.upstream = branchMatch[2];
+        summary.ahead = Number(branchMatch[3]?.match(/ahead (\d+)/)?.[1] ?? 0);
+        summary.behind = Number(branchMatch[3]?.match(/behind (\d+)/)?.[1] ?? 0);
+      }
+      continue;
+    }
+
+    const index = entry[0];
+    const workTree = entry[1];
+    const filePath = entry.substring(3);
+
+    if (index === '?' && workTree === '?') {
+      summary.untracked.push(filePath);
+      continue;
+    }
+
+    if (index === 'U' || workTree === 'U' || (index === 'A' && workTree === 'A') || (index === 'D' && workTree === 'D')) {
+      summary.conflicted.push(filePath);
+      continue;
+    }
+
+    // Renames and copies are followed by the original path
+    const originalPath = index === 'R' || index === 'C' ? entries[++i] : undefined;
+
+    if (index !== ' ') {
+      summary.staged.push({ path: filePath, originalPath, status: index });
+    }
+    if (workTree !== ' ') {
+      summary.unstaged.push({ path: filePath, status: workTree });
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Render a status summary as sectioned text for the model
+ */
+export function formatGitStatus(summary: GitStatusSummary): string {
+  const lines: string[] = [];
+
+  let branchLine = `Branch: ${summary.branch ?? 'HEAD (detached)'}`;
+  if (summary.upstream) {
+    branchLine += ` (tracking ${summary.upstream}, ahead ${summary.ahead}, behind ${summary.behind})`;
+  }
+  lines.push(branchLine);
+
+  const formatFiles = (files: GitFileStatus[]) => files.map(file =>
+    `  ${file.status} ${file.originalPath ? `${file.originalPath} -> ` : ''}${file.path}`
+  );
+
+  const sections: Array<[string, string[]]> = [
+    ['Staged', formatFiles(summary.staged)],
+    ['Unstaged', formatFiles(summary.unstaged)],
+    ['Untracked', summary.untracked.map(file => `  ${file}`)],
+    ['Conflicted', summary.conflicted.map(file => `  ${file}`)]
+  ];
+
+  for (const [title, entries] of sections) {
+    if (entries.length > 0) {
+      lines.push('', `${title} (${entries.length}):`, ...entries);
+    }
+  }
+
+  if (sections.every(([, entries]) => entries.length === 0)) {
+    lines.push('', 'Working tree clean');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Git status tool - branch and changed files
+ */
+export class GitStatusTool extends StructuredTool {
+  name = 'git_status';
+  description = 'Show the current git branch, upstream ahead/behind counts and the staged, unstaged, untracked and conflicted files.';
+
+  schema = z.object({});
+
+  private workingDirectory: string;
+
+  constructor(workingDirectory: string) {
+    super();
+    this.workingDirectory = workingDirectory;
+  }
+
+  async _call(): Promise<string> {
+    try {
+      const output = await runGit(this.workingDirectory, ['status', '--porcelain=v1', '--branch', '-z', '--untracked-files=all']);
+      const summary = parseGitStatus(output);
+
+      // The porcelain header shows "HEAD (no branch)" when detached
+      const branch = await detectGitBranch(this.workingDirectory);
+      if (branch) {
+        summary.branch = branch;
+      } else if (summary.branch?.startsWith('HEAD')) {
+        summary.branch = undefined;
+      }
+
+      return truncateGitOutput(formatGitStatus(summary), 'use git_diff with a path to inspect specific files');
+    } catch (error) {
+      return `Error getting git status: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+/**
+ * Git diff tool - unstaged, staged or against a ref
+ */
+export class GitDiffTool extends StructuredTool {
+  name = 'git_diff';
+  description = 'Show changes as a unified diff: unstaged changes (default), staged changes (staged: true) or changes against a ref such as a branch or commit (ref). Use paths to limit the diff and stat: true for a per-file summary of large diffs.';
+
+  schema = z.object({
+    staged: z.boolean().optional().describe('Show staged changes instead of unstaged ones (default: false)'),
+    ref: z.string().optional().describe('Compare the working tree (or the index with staged: true) against this ref, e.g. "main" or "HEAD~3"'),
+    paths: z.array(z.string()).optional().describe('Only show changes in these files or directories'),
+    stat: z.boolean().optional().describe('Show a per-file summary instead of the full diff (default: false)'),
+  });
+
+  private workingDirectory: string;
+
+  constructor(workingDirectory: string) {
+    super();
+    this.workingDirectory = workingDirectory;
+  }
+
+  async _call({ staged = false, ref, paths = [], stat = false }: z.infer<typeof this.schema>): Promise<string> {
+    try {
+      const args = ['diff', '--no-color', '--no-ext-diff'];
+      if (staged) args.push('--cached');
+      if (stat) args.push('--stat');
+      if (ref) {
+        validateRef(ref);
+        args.push(ref);
+      }
+      args.push('--', ...resolvePaths(this.workingDirectory, paths));
+
+      const output = await runGit(this.workingDirectory, args);
+      if (!output) {
+        return `No ${staged ? 'staged ' : ''}changes${ref ? ` against ${ref}` : ''}${paths.length > 0 ? ` in ${paths.join(', ')}` : ''}`;
+      }
+
+      return truncateGitOutput(output, 'use stat: true or limit the diff with paths');
+    } catch (error) {
+      return `Error getting git diff: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+/**
+ * Git log tool - recent commits
+ */
+export class GitLogTool extends StructuredTool {
+  name = 'git_log';
+  description = 'List recent commits (hash, date, author and subject), optionally for a ref or limited to paths.';
+
+  schema = z.object({
+    maxCount: z.number().int().min(1).max(200).optional().describe('Maximum number of commits (default: 20)'),
+    ref: z.string().optional().describe('Branch, tag or range to list, e.g. "main" or "main..HEAD" (default: HEAD)'),
+    paths: z.array(z.string()).optional().describe('Only list commits touching these files or directories'),
+  });
+
+  private workingDirectory: string;
+
+  constructor(workingDirectory: string) {
+    super();
+    this.workingDirectory = workingDirectory;
+  }
+
+  async _call({ maxCount = 20, ref, paths = [] }: z.infer<typeof this.schema>): Promise<string> {
+    try {
+      const args = ['log', `--max-count=${maxCount}`, '--date=short', '--pretty=format:%h %ad %an: %s'];
+      if (ref) {
+        validateRef(ref);
+        args.push(ref);
+      }
+      args.push('--', ...resolvePaths(this.workingDirectory, paths));
+
+      const output = await runGit(this.workingDirectory, args);
+      if (!output) {
+        return 'No commits found';
+      }
+
+      return truncateGitOutput(output, 'lower maxCount or limit the log with paths');
+    } catch (error) {
+      return `Error getting git log: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+/**
+ * Git commit tool - stage files and commit after user confirmation
+ */
+export class GitCommitTool extends StructuredTool {
+  name = 'git_commit';
+  description = 'Create a git commit. Stages the given files (or all tracked changes with all: true) and commits them together with anything already staged. The user always confirms the commit first.';
+
+  schema = z.object({
+    message: z.string().min(1).describe('Commit message (subject line, optionally followed by a blank line and body)'),
+    files: z.array(z.string()).optional().describe('Files to stage before committing'),
+    all: z.boolean().optional().describe('Stage all modified and deleted tracked files (default: false)'),
+  });
+
+  private workingDirectory: string;
+  private timeout: number;
+
+  constructor(workingDirectory: string, timeout: number = 300) {
+    super();
+    this.workingDirectory = workingDirectory;
+    this.timeout = timeout * 1000; // Commit hooks may run linters or tests
+  }
+
+  async _call({ message, files = [], all = false }: z.infer<typeof this.schema>): Promise<string> {
+    try {
+      const filesToStage = resolvePaths(this.workingDirectory, files);
+      const branch = await detectGitBranch(this.workingDirectory) ?? 'HEAD (detached)';
+      const stagedStat = await runGit(this.workingDirectory, ['diff', '--cached', '--stat', '--no-color']);
+
+      const description = [
+        `Commit on branch ${branch}`,
+        '',
+        'Message:',
+        ...message.split('\n').map(line => `  ${line}`),
+        ...(all ? ['', 'Stage: all modified tracked files'] : []),
+        ...(filesToStage.length > 0 ? ['', 'Stage:', ...filesToStage.map(file => `  ${file}`)] : []),
+        ...(stagedStat ? ['', 'Already staged:', stagedStat] : [])
+      ].join('\n');
+
+      const denial = await checkToolPermission({
+        toolName: this.name,
+        category: 'execute',
+        description,
+        requireConfirmation: true
+      });
+      if (denial) {
+        throw new Error(denial);
+      }
+
+      await recordIrreversibleAction(`Commit: ${message.split('\n')[0]}`);
+
+      if (filesToStage.length > 0) {
+        await runGit(this.workingDirectory, ['add', '--', ...filesToStage]);
+      }
+
+      await runGit(this.workingDirectory, ['commit', ...(all ? ['--all'] : []), '--message', message], this.timeout);
+
+      const summary = await runGit(this.workingDirectory, ['show', '--stat', '--no-color', '--format=%h %s', 'HEAD']);
+      return truncateGitOutput(`Committed on ${branch}: ${summary}`, 'use git_log and git_diff for details');
+    } catch (error) {
+      return `Error committing: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+/**
+ * Create all git tools for a working directory
+ */
+export function createGitTools(workingDirectory: string, timeout?: number): StructuredTool[] {
+  return [
+    new GitStatusTool(workingDirectory),
+    new GitDiffTool(workingDirectory),
+    new GitLogTool(workingDirectory),
+    new GitCommitTool(workingDirectory, timeout)
+  ];
+}
@@ -14,6 +14,11 @@ import path from 'path';
 import { filterDirectoryEntries, createFilterConfig, DEFAULT_FILTER_CONFIG, generateFilterStats } from '../filters.js';
 import { logger } from '../../../utils/logger.js';
 import { isPathWithinDirectory } from '../../../utils/paths.js';
+import { EditFileTool } from './editFile.js';
+import { GrepTool, GlobTool } from './search.js';
+import { createGitTools } from './git.js';
+import { checkToolPermission, initializePermissions } from '../permissions.js';
+import { recordFileBeforeChange, recordIrreversibleAction } from '../storage/checkpointStorage.js';
 
 const execAsync = promisify(exec);
 
@@ -154,6 +159,19 @@ class WriteFileTool extends StructuredTool {
         throw new Error('Access denied: Path is outside working directory');
       }
 
+      const relativePath = path.relative(this.workingDirectory, resolvedPath);
+      const denial = await checkToolPermission({
+        toolName: this.name,
+        category: 'edit',
+        specifier: relativePath,
+        description: `Write ${content.length} characters to ${relativePath}`
+      });
+      if (denial) {
+        throw new Error(denial);
+      }
+
+      await recordFileBeforeChange(resolvedPath);
+
       // Ensure directory exists
       const dir = path.dirname(resolvedPath);
       await fs.mkdir(dir, { recursive: true });
@@ -188,12 +206,19 @@ class ExecuteCommandTool extends StructuredTool {
 
   async _call({ command }: z.infer<typeof this.schema>): Promise<string> {
     try {
-      // Basic security checks
-      const dangerousCommands = ['rm -rf', 'sudo', 'chmod +x', 'curl', 'wget'];
-      if (dangerousCommands.some(cmd => command.toLowerCase().includes(cmd))) {
-        return `Error: Command rejected for security reasons: ${command}`;
+      // Permission check - deny rules, mode and interactive approval
+      const denial = await checkToolPermission({
+        toolName: this.name,
+        category: 'execute',
+        specifier: command,
+        description: `Run command: ${command}`
+      });
+      if (denial) {
+        throw new Error(denial);
       }
 
+      await recordIrreversibleAction(`Command: ${command}`);
+
       // Emit progress: command starting
       emitToolProgress(this.name, {
           percentage: 10,
@@ -437,14 +462,25 @@ export async function createSystemTools(config: CodeMieConfig): Promise<Structur
   const tools: StructuredTool[] = [];
 
   try {
+    // Permission policy for mutating tools
+    initializePermissions(config.permissions, config.workingDirectory);
+
     // Basic file system tools
     tools.push(new ReadFileTool(config.workingDirectory));
     tools.push(new WriteFileTool(config.workingDirectory));
+    tools.push(new EditFileTool(config.workingDirectory));
     tools.push(new ListDirectoryTool(config.workingDirectory, config.directoryFilters));
 
+    // Code search tools
+    tools.push(new GrepTool(config.workingDirectory, config.directoryFilters));
+    tools.push(new GlobTool(config.workingDirectory, config.directoryFilters));
+
     // Command execution tool
     tools.push(new ExecuteCommandTool(config.workingDirectory, config.timeout));
 
+    // Git tools
+    tools.push(...createGitTools(config.workingDirectory, config.timeout));
+
     // Planning and todo tools
     try {
       const { planningTools, initializeTodoStorage } = await import('./planning.js');
@@ -464,6 +500,30 @@ export async function createSystemTools(config: CodeMieConfig): Promise<Structur
       }
     }
 
+    // MCP server tools (SDK loaded only when servers are configured)
+    if (config.mcpServers && Object.keys(config.mcpServers).length > 0) {
+      try {
+        const { initializeMcpServers } = await import('./mcp.js');
+        const { promptMcpServerApproval } = await import('./mcp-approvals.js');
+        const manager = await initializeMcpServers(config.mcpServers, config.workingDirectory, config.debug, {
+          projectServers: config.projectMcpServers,
+          // Without a terminal, project servers that were not approved before are skipped
+          approve: process.stdin.isTTY && process.stdout.isTTY ? promptMcpServerApproval : undefined
+        });
+        const mcpTools = manager?.getTools() ?? [];
+
+        tools.push(...mcpTools);
+
+        if (config.debug) {
+          logger.debug(`Added ${mcpTools.length} MCP tools`);
+        }
+      } catch (error) {
+        if (config.debug) {
+          logger.debug('MCP tools not available:', error);
+        }
+      }
+    }
+
     if (config.debug) {
       logger.debug(`Created ${tools.length} total system tools`);
     }
@@ -486,8 +546,16 @@ export function getToolSummary(): Array<{ name: string; description: string }> {
   return [
     { name: 'read_file', description: 'Read the contents of a file from the filesystem' },
     { name: 'write_file', description: 'Write content to a file in the filesystem' },
+    { name: 'edit_file', description: 'Edit an existing file by exact search/replace and return a unified diff' },
     { name: 'list_directory', description: 'List files and directories in a given path, automatically filtering out common ignore patterns (node_modules, .git, build artifacts, etc.)' },
+    { name: 'grep', description: 'Search file contents by regex or literal text, respecting .gitignore and ignore patterns' },
+    { name: 'glob', description: 'Find files by glob pattern, respecting .gitignore and ignore patterns' },
     { name: 'execute_command', description: 'Execute a shell command in the working directory' },
+    { name: 'git_status', description: 'Show the current branch and staged, unstaged and untracked files' },
+    { name: 'git_diff', description: 'Show unstaged, staged or ref-relative changes as a size-capped diff' },
+    { name: 'git_log', description: 'List recent commits' },
+    { name: 'git_commit', description: 'Stage files and create a commit after user confirmation' },
+    { name: 'task', description: 'Delegate a self-contained task to a sub-agent and return its final report' },
     { name: 'write_todos', description: 'Create or update a structured todo list for planning and progress tracking' },
     { name: 'update_todo_status', description: 'Update the status of a specific todo by index' },
     { name: 'append_todo', description: 'Add a new todo item to the existing list' },
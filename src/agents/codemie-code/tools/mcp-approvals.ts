@@ -0,0 +1,86 @@
+/**
+ * Approvals of Project MCP Servers
+ *
+ * MCP servers from the project config (.codemie/codemie-cli.config.json) come
+ * with a cloned repository, so they are only started after the user approved
+ * them. Approvals are stored per project directory in ~/.codemie/mcp-approvals.json
+ * together with a hash of the server config: a changed command, url, env or
+ * header needs a new approval.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { confirm, isCancel, note } from '@clack/prompts';
+import chalk from 'chalk';
+import type { MCPServerConfig } from '../../../env/types.js';
+import { getCodemiePath } from '../../../utils/paths.js';
+import { toCanonicalJSON } from '../../../utils/parsers.js';
+
+/**
+ * Asks the user whether a project MCP server may start
+ */
+export type McpApprovalPrompt = (name: string, config: MCPServerConfig) => Promise<boolean>;
+
+type ApprovalFile = Record<string, Record<string, string>>;
+
+export class McpApprovalStore {
+  constructor(private readonly file: string = getCodemiePath('mcp-approvals.json')) {}
+
+  async isApproved(projectDir: string, name: string, config: MCPServerConfig): Promise<boolean> {
+    const approvals = await this.read();
+    return approvals[projectDir]?.[name] === getMcpServerFingerprint(config);
+  }
+
+  async approve(projectDir: string, name: string, config: MCPServerConfig): Promise<void> {
+    const approvals = await this.read();
+    approvals[projectDir] = { ...approvals[projectDir], [name]: getMcpServerFingerprint(config) };
+
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(this.file, JSON.stringify(approvals, null, 2) + '\n', 'utf-8');
+  }
+
+  private async read(): Promise<ApprovalFile> {
+    try {
+      return JSON.parse(await readFile(this.file, 'utf-8')) as ApprovalFile;
+    } catch {
+      return {};
+    }
+  }
+}
+
+/**
+ * Hash of everything that decides what a server runs or receives
+ */
+export function getMcpServerFingerprint(config: MCPServerConfig): string {
+  return createHash('sha256').update(toCanonicalJSON(config)).digest('hex');
+}
+
+/**
+ * Environment variables a server config reads through ${VAR} references
+ */
+export function getReferencedEnvVars(config: MCPServerConfig): string[] {
+  const values = [...Object.values(config.env ?? {}), ...Object.values(config.headers ?? {})];
+  const names = values.flatMap(value => [...value.matchAll(/\$\{(\w+)\}/g)].map(match => match[1]));
+  return [...new Set(names)];
+}
+
+/**
+ * Terminal prompt for project MCP servers (interactive sessions only)
+ */
+export const promptMcpServerApproval: McpApprovalPrompt = async (name, config) => {
+  const target = config.url ?? [config.command, ...(config.args ?? [])].join(' ');
+  const envVars = getReferencedEnvVars(config);
+
+  note(
+    `${chalk.white(target)}` +
+    (envVars.length > 0 ? `\n${chalk.yellow(`Reads environment variables: ${envVars.join(', ')}`)}` : ''),
+    `Project MCP server "${name}"`
+  );
+
+  const answer = await confirm({
+    message: `Start MCP server "${name}" from .codemie/codemie-cli.config.json? (remembered for this project)`,
+    initialValue: false
+  });
+  return !isCancel(answer) && answer === true;
+};
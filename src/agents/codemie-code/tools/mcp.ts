@@ -0,0 +1,419 @@
+/**
+ * MCP (Model Context Protocol) Client for CodeMie Native Agent
+ *
+ * Connects to the MCP servers configured in `mcpServers` (stdio or streamable
+ * HTTP) and exposes their tools to the agent as namespaced StructuredTools.
+ *
+ * Servers from the project config only start once the user approved them
+ * (see mcp-approvals.ts). Tool calls go through the permission system; the
+ * read-only annotations of a server are only believed when the user marked
+ * it `trusted` in the profile.
+ */
+
+import { StructuredTool } from '@langchain/core/tools';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { Tool as McpToolDefinition } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPServerConfig } from '../../../env/types.js';
+import { logger } from '../../../utils/logger.js';
+import { checkToolPermission } from '../permissions.js';
+import { McpApprovalStore, type McpApprovalPrompt } from './mcp-approvals.js';
+import { recordIrreversibleAction } from '../storage/checkpointStorage.js';
+
+const MCP_TOOL_PREFIX = 'mcp';
+const MAX_TOOL_NAME_LENGTH = 64;
+const CONNECT_TIMEOUT_MS = 30_000;
+const DEFAULT_CALL_TIMEOUT_MS = 60_000;
+const STDERR_TAIL_CHARS = 2000;
+
+export type McpServerState = 'connected' | 'failed' | 'disabled' | 'unapproved';
+
+/**
+ * Connection status of a configured MCP server (for /mcp)
+ */
+export interface McpServerStatus {
+  name: string;
+  type: 'stdio' | 'http';
+  state: McpServerState;
+  tools: string[];
+  error?: string;
+}
+
+/**
+ * Build the agent-facing tool name: mcp__{server}__{tool}
+ * Characters outside [a-zA-Z0-9_-] are replaced, and the name is capped at
+ * 64 characters to satisfy provider tool name limits.
+ */
+export function createMcpToolName(serverName: string, toolName: string): string {
+  const sanitize = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return `${MCP_TOOL_PREFIX}__${sanitize(serverName)}__${sanitize(toolName)}`.substring(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Expand ${VAR} references from the environment (unset variables become empty)
+ */
+export function expandEnvVars(values: Record<string, string> | undefined): Record<string, string> | undefined {
+  if (!values) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] ?? '')
+    ])
+  );
+}
+
+/**
+ * Resolve the transport type, inferring it from command/url when omitted
+ */
+export function getMcpServerType(config: MCPServerConfig): 'stdio' | 'http' {
+  return config.type ?? (config.url && !config.command ? 'http' : 'stdio');
+}
+
+/**
+ * Render MCP tool result content as text for the model
+ */
+export function formatMcpContent(result: Record<string, unknown>): string {
+  const content = Array.isArray(result.content) ? result.content : [];
+
+  const parts = content.map((item: any) => {
+    switch (item.type) {
+      case 'text':
+        return item.text;
+      case 'image':
+      case 'audio':
+        return `[${item.type}: ${item.mimeType}]`;
+      case 'resource':
+        return item.resource?.text ?? `[resource: ${item.resource?.uri}]`;
+      case 'resource_link':
+        return `[resource: ${item.uri}]`;
+      default:
+        return JSON.stringify(item);
+    }
+  });
+
+  if (parts.length === 0 && result.structuredContent !== undefined) {
+    return JSON.stringify(result.structuredContent, null, 2);
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * LangChain tool wrapping a single MCP server tool
+ */
+export class McpTool extends StructuredTool {
+  name: string;
+  description: string;
+  schema: any;
+
+  private client: Client;
+  private serverName: string;
+  private definition: McpToolDefinition;
+  private timeout: number;
+  private trusted: boolean;
+
+  constructor(
+    client: Client,
+    serverName: string,
+    definition: McpToolDefinition,
+    timeout = DEFAULT_CALL_TIMEOUT_MS,
+    trusted = false
+  ) {
+    super();
+    this.client = client;
+    this.serverName = serverName;
+    this.definition = definition;
+    this.timeout = timeout;
+    this.trusted = trusted;
+    this.name = createMcpToolName(serverName, definition.name);
+    this.description = `[MCP: ${serverName}] ${definition.description || definition.title || definition.name}`;
+    // MCP tools describe their input with JSON Schema, which LangChain accepts directly
+    this.schema = { ...definition.inputSchema, type: 'object' };
+  }
+
+  async _call(args: Record<string, unknown>): Promise<string> {
+    try {
+      // Servers can claim anything: read-only annotations only count for servers the user trusts
+      if (!this.trusted || !this.definition.annotations?.readOnlyHint) {
+        const denied = await checkToolPermission({
+          toolName: this.name,
+          category: 'execute',
+          description: `Call MCP tool ${this.definition.name} on server ${this.serverName}\n${JSON.stringify(args, null, 2)}`
+        });
+        if (denied) {
+          return `Error calling MCP tool: ${denied}`;
+        }
+
+        await recordIrreversibleAction(`MCP tool ${this.definition.name} on server ${this.serverName}`);
+      }
+
+      const result = await this.client.callTool(
+        { name: this.definition.name, arguments: args },
+        undefined,
+        { timeout: this.timeout }
+      );
+      const output = formatMcpContent(result);
+
+      if (result.isError) {
+        return `Error calling MCP tool: ${output || 'the server reported an error'}`;
+      }
+
+      return output || 'Tool completed with no output';
+    } catch (error) {
+      return `Error calling MCP tool: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+interface McpConnection {
+  name: string;
+  type: 'stdio' | 'http';
+  state: McpServerState;
+  client?: Client;
+  tools: McpTool[];
+  error?: string;
+}
+
+/**
+ * Where the servers come from and how project servers get approved
+ */
+export interface McpServerSources {
+  /** Names of servers defined in the project config */
+  projectServers?: string[];
+
+  /** Asks the user about project servers without an approval (none: they are skipped) */
+  approve?: McpApprovalPrompt;
+
+  approvals?: McpApprovalStore;
+}
+
+/**
+ * Manages connections to all configured MCP servers
+ */
+export class McpManager {
+  private servers: Record<string, MCPServerConfig>;
+  private workingDirectory: string;
+  private debug: boolean;
+  private sources: McpServerSources;
+  private connections: McpConnection[] = [];
+
+  constructor(
+    servers: Record<string, MCPServerConfig>,
+    workingDirectory: string,
+    debug = false,
+    sources: McpServerSources = {}
+  ) {
+    this.servers = servers;
+    this.workingDirectory = workingDirectory;
+    this.debug = debug;
+    this.sources = sources;
+  }
+
+  /**
+   * Connect to all enabled servers in parallel; failures are recorded, not thrown
+   */
+  async connectAll(): Promise<void> {
+    // Approval prompts are shown one at a time, before any server starts
+    const unapproved = new Set<string>();
+    for (const [name, config] of Object.entries(this.servers)) {
+      if (config.enabled !== false && !(await this.isApproved(name, config))) {
+        unapproved.add(name);
+      }
+    }
+
+    this.connections = await Promise.all(
+      Object.entries(this.servers).map(([name, config]) => unapproved.has(name)
+        ? Promise.resolve<McpConnection>({
+          name,
+          type: getMcpServerType(config),
+          state: 'unapproved',
+          tools: [],
+          error: 'defined in the project config and not approved'
+        })
+        : this.connect(name, config))
+    );
+  }
+
+  /**
+   * Tools of all connected servers
+   */
+  getTools(): McpTool[] {
+    return this.connections.flatMap(connection => connection.tools);
+  }
+
+  getStatus(): McpServerStatus[] {
+    return this.connections.map(({ name, type, state, tools, error }) => ({
+      name,
+      type,
+      state,
+      tools: tools.map(tool => tool.name),
+      error
+    }));
+  }
+
+  /**
+   * Close all connections (stops stdio server processes)
+   */
+  async close(): Promise<void> {
+    await Promise.allSettled(
+      this.connections
+        .filter(connection => connection.client)
+        .map(connection => connection.client!.close())
+    );
+    this.connections = [];
+  }
+
+  /**
+   * Profile servers are the user's own; project servers need an approval of their current config
+   */
+  private async isApproved(name: string, config: MCPServerConfig): Promise<boolean> {
+    if (!this.isProjectServer(name)) {
+      return true;
+    }
+
+    const approvals = this.sources.approvals ?? new McpApprovalStore();
+    if (await approvals.isApproved(this.workingDirectory, name, config)) {
+      return true;
+    }
+
+    if (!this.sources.approve || !(await this.sources.approve(name, config))) {
+      logger.warn(`[MCP] Skipping project server ${name}: not approved`);
+      return false;
+    }
+
+    await approvals.approve(this.workingDirectory, name, config);
+    return true;
+  }
+
+  private isProjectServer(name: string): boolean {
+    return this.sources.projectServers?.includes(name) ?? false;
+  }
+
+  private async connect(name: string, config: MCPServerConfig): Promise<McpConnection> {
+    const type = getMcpServerType(config);
+
+    if (config.enabled === false) {
+      return { name, type, state: 'disabled', tools: [] };
+    }
+
+    let stderrTail = '';
+    const client = new Client({ name: 'codemie-code', version: '1.0.0' });
+
+    try {
+      const transport = this.createTransport(name, config, type, chunk => {
+        stderrTail = (stderrTail + chunk).slice(-STDERR_TAIL_CHARS);
+      });
+
+      await client.connect(transport, { timeout: CONNECT_TIMEOUT_MS });
+
+      const definitions: McpToolDefinition[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await client.listTools(cursor ? { cursor } : undefined, { timeout: CONNECT_TIMEOUT_MS });
+        definitions.push(...page.tools);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      // The trusted flag only counts in the user's profile
+      const trusted = config.trusted === true && !this.isProjectServer(name);
+      const tools = definitions.map(definition => new McpTool(client, name, definition, config.timeout, trusted));
+
+      if (this.debug) {
+        logger.debug(`[MCP] Connected to ${name} (${type}) with ${tools.length} tools`);
+      }
+
+      return { name, type, state: 'connected', client, tools };
+    } catch (error) {
+      await client.close().catch(() => {});
+
+      const message = error instanceof Error ? error.message : String(error);
+      const details = stderrTail.trim();
+
+      if (this.debug) {
+        logger.debug(`[MCP] Failed to connect to ${name}: ${message}${details ? `\n${details}` : ''}`);
+      }
+
+      return { name, type, state: 'failed', tools: [], error: details ? `${message}: ${details.split('\n').pop()}` : message };
+    }
+  }
+
+  private createTransport(
+    name: string,
+    config: MCPServerConfig,
+    type: 'stdio' | 'http',
+    onStderr: (chunk: string) => void
+  ): Transport {
+    if (type === 'http') {
+      if (!config.url) {
+        throw new Error(`MCP server "${name}" requires a url`);
+      }
+
+      return new StreamableHTTPClientTransport(new URL(config.url), {
+        requestInit: { headers: expandEnvVars(config.headers) }
+      });
+    }
+
+    if (!config.command) {
+      throw new Error(`MCP server "${name}" requires a command`);
+    }
+
+    const transport = new StdioClientTransport({
+      command: config.command,
+      args: config.args,
+      env: { ...getDefaultEnvironment(), ...expandEnvVars(config.env) },
+      cwd: config.cwd ?? this.workingDirectory,
+      stderr: 'pipe'
+    });
+
+    // Drain stderr so the server cannot block on a full pipe; keep the tail for errors
+    transport.stderr?.on('data', (chunk: Buffer) => onStderr(chunk.toString()));
+
+    return transport;
+  }
+}
+
+// Global MCP state, initialized with the system tools
+let mcpManager: McpManager | null = null;
+
+/**
+ * Connect to the configured MCP servers, replacing any previous connections
+ */
+export async function initializeMcpServers(
+  servers: Record<string, MCPServerConfig> | undefined,
+  workingDirectory: string,
+  debug = false,
+  sources: McpServerSources = {}
+): Promise<McpManager | null> {
+  await closeMcpServers();
+
+  if (!servers || Object.keys(servers).length === 0) {
+    return null;
+  }
+
+  mcpManager = new McpManager(servers, workingDirectory, debug, sources);
+  await mcpManager.connectAll();
+  return mcpManager;
+}
+
+/**
+ * Get the active MCP manager (null when no servers are configured)
+ */
+export function getMcpManager(): McpManager | null {
+  return mcpManager;
+}
+
+/**
+ * Close all MCP connections
+ */
+export async function closeMcpServers(): Promise<void> {
+  if (mcpManager) {
+    const manager = mcpManager;
+    mcpManager = null;
+    await manager.close();
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Search Tools for CodeMie Agent
+ *
+ * Pure TypeScript grep and glob tools so the agent does not need to shell out
+ * to platform-specific commands for code search. Both tools honour the
+ * directory filters from filters.ts and the project's .gitignore files.
+ */
+
+import { StructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { shouldIgnore, createFilterConfig, type FilterConfig } from '../filters.js';
+import { GitignoreMatcher, loadGitignoreRules } from '../utils/gitignore.js';
+import { isPathWithinDirectory, normalizePathSeparators } from '../../../utils/paths.js';
+
+/** Maximum number of files visited by a single search */
+const MAX_FILES_SCANNED = 20000;
+
+/** Files larger than this are skipped by grep */
+const MAX_GREP_FILE_SIZE = 1024 * 1024;
+
+/** Long lines are truncated in grep output */
+const MAX_LINE_LENGTH = 500;
+
+/**
+ * Options for walking the working directory
+ */
+interface WalkOptions {
+  /** Directory filter configuration (disabled to include everything) */
+  filterConfig: FilterConfig;
+
+  /** Apply .gitignore rules */
+  respectGitignore: boolean;
+}
+
+/**
+ * Recursively yield files under a directory as paths relative to the root
+ *
+ * Ignored directories are pruned without descending into them and symbolic
+ * links are skipped so that the walk cannot leave the working directory.
+ */
+async function* walkFiles(
+  rootDir: string,
+  startDir: string,
+  options: WalkOptions
+): AsyncGenerator<string> {
+  let matcher = new GitignoreMatcher();
+
+  if (options.respectGitignore) {
+    // Collect rules from the root down to the start directory
+    const relativeStart = normalizePathSeparators(path.relative(rootDir, startDir));
+    const segments = relativeStart ? relativeStart.split('/') : [];
+    for (let i = 0; i <= segments.length; i++) {
+      const relativeDir = segments.slice(0, i).join('/');
+      matcher = matcher.withRules(await loadGitignoreRules(path.join(rootDir, relativeDir), relativeDir));
+    }
+  }
+
+  let scanned = 0;
+  const stack: Array<{ dir: string; matcher: GitignoreMatcher }> = [{ dir: startDir, matcher }];
+
+  while (stack.length > 0) {
+    const { dir, matcher: dirMatcher } = stack.pop()!;
+
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    entries.sort((a, b) => b.name.localeCompare(a.name));
+
+    for (const entry of entries) {
+      if (entry.isSymbolicLink()) continue;
+
+      const absolutePath = path.join(dir, entry.name);
+      const relativePath = normalizePathSeparators(path.relative(rootDir, absolutePath));
+      const isDirectory = entry.isDirectory();
+
+      if (shouldIgnore(entry.name, isDirectory, options.filterConfig, relativePath)) continue;
+      if (options.respectGitignore && dirMatcher.isIgnored(relativePath, isDirectory)) continue;
+
+      if (isDirectory) {
+        const childMatcher = options.respectGitignore
+          ? dirMatcher.withRules(await loadGitignoreRules(absolutePath, relativePath))
+          : dirMatcher;
+        stack.push({ dir: absolutePath, matcher: childMatcher });
+      } else if (entry.isFile()) {
+        if (++scanned > MAX_FILES_SCANNED) return;
+        yield relativePath;
+      }
+    }
+  }
+}
+
+/**
+ * Build walk options from the tool's filter configuration
+ */
+function createWalkOptions(filterConfig: Partial<FilterConfig> | undefined, includeIgnored: boolean): WalkOptions {
+  return {
+    filterConfig: createFilterConfig({ ...filterConfig, enabled: !includeIgnored }),
+    respectGitignore: !includeIgnored
+  };
+}
+
+/**
+ * Test whether a path matches a glob pattern.
+ * Patterns without a slash match file names at any depth (like .gitignore).
+ */
+function matchesGlob(relativePath: string, pattern: string): boolean {
+  return minimatch(relativePath, pattern, { dot: true, matchBase: !pattern.includes('/') });
+}
+
+/**
+ * Format the paging footer shown when results are truncated
+ */
+function formatPagingFooter(offset: number, shown: number, total: number, unit: string): string {
+  if (offset === 0 && shown >= total) return '';
+  const end = offset + shown;
+  const more = end < total ? ` Use offset: ${end} to see more.` : '';
+  return `\n\n--- Showing ${unit} ${shown > 0 ? offset + 1 : 0}-${end} of ${total}.${more} ---`;
+}
+
+/**
+ * Glob tool - find files by name pattern
+ */
+export class GlobTool extends StructuredTool {
+  name = 'glob';
+  description = 'Find files by glob pattern (e.g. "**/*.ts", "src/**/*.test.ts", "*.json"). Patterns without a slash match file names at any depth. Respects .gitignore and default ignore patterns (node_modules, .git, build output). Returns paths relative to the working directory.';
+
+  schema = z.object({
+    pattern: z.string().describe('Glob pattern to match file paths against'),
+    path: z.string().optional().describe('Directory to search in (defaults to working directory)'),
+    includeIgnored: z.boolean().optional().describe('Include files excluded by .gitignore and default ignore patterns (default: false)'),
+    limit: z.number().int().min(1).max(1000).optional().describe('Maximum number of paths to return (default: 200)'),
+    offset: z.number().int().min(0).optional().describe('Number of paths to skip, for paging (default: 0)'),
+  });
+
+  private workingDirectory: string;
+  private filterConfig?: Partial<FilterConfig>;
+
+  constructor(workingDirectory: string, filterConfig?: Partial<FilterConfig>) {
+    super();
+    this.workingDirectory = workingDirectory;
+    this.filterConfig = filterConfig;
+  }
+
+  async _call({ pattern, path: searchPath, includeIgnored = false, limit = 200, offset = 0 }: z.infer<typeof this.schema>): Promise<string> {
+    try {
+      const startDir = path.resolve(this.workingDirectory, searchPath || '.');
+
+      // Security check
+      if (!isPathWithinDirectory(this.workingDirectory, startDir)) {
+        throw new Error('Access denied: Path is outside working directory');
+      }
+
+      const startRelative = normalizePathSeparators(path.relative(this.workingDirectory, startDir));
+      const matches: string[] = [];
+
+      for await (const relativePath of walkFiles(this.workingDirectory, startDir, createWalkOptions(this.filterConfig, includeIgnored))) {
+        const pathFromStart = startRelative ? relativePath.slice(startRelative.length + 1) : relativePath;
+        if (matchesGlob(pathFromStart, pattern)) {
+          matches.push(relativePath);
+        }
+      }
+
+      if (matches.length === 0) {
+        return `No files found matching "${pattern}"${searchPath ? ` in ${searchPath}` : ''}`;
+      }
+
+      matches.sort();
+      const page = matches.slice(offset, offset + limit);
+
+      let result = `Found ${matches.length} file${matches.length === 1 ? '' : 's'} matching "${pattern}"${searchPath ? ` in ${searchPath}` : ''}\n\n`;
+      result += page.join('\n');
+      result += formatPagingFooter(offset, page.length, matches.length, 'files');
+
+      return result;
+    } catch (error) {
+      return `Error searching files: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+/**
+ * A matching line with optional surrounding context
+ */
+interface GrepMatch {
+  file: string;
+  lineNumber: number;
+  lines: string[];
+}
+
+/**
+ * Grep tool - search file contents by regex or literal text
+ */
+export class GrepTool extends StructuredTool {
+  name = 'grep';
+  description = 'Search file contents using a regular expression (or literal text with literal: true). Respects .gitignore and default ignore patterns. Output modes: "content" (matching lines with line numbers), "files_with_matches" (file paths only) or "count" (matches per file). Use the glob parameter to restrict file types.';
+
+  schema = z.object({
+    pattern: z.string().describe('Regular expression (JavaScript syntax) or literal text to search for'),
+    path: z.string().optional().describe('File or directory to search in (defaults to working directory)'),
+    glob: z.string().optional().describe('Only search files matching this glob pattern (e.g. "*.ts", "src/**/*.py")'),
+    literal: z.boolean().optional().describe('Treat pattern as literal text instead of a regular expression (default: false)'),
+    ignoreCase: z.boolean().optional().describe('Case-insensitive search (default: false)'),
+    contextLines: z.number().int().min(0).max(10).optional().describe('Number of context lines to show before and after each match (default: 0)'),
+    outputMode: z.enum(['content', 'files_with_matches', 'count']).optional().describe('Output format (default: "content")'),
+    includeIgnored: z.boolean().optional().describe('Include files excluded by .gitignore and default ignore patterns (default: false)'),
+    maxResults: z.number().int().min(1).max(1000).optional().describe('Maximum number of results to return (default: 100)'),
+    offset: z.number().int().min(0).optional().describe('Number of results to skip, for paging (default: 0)'),
+  });
+
+  private workingDirectory: string;
+  private filterConfig?: Partial<FilterConfig>;
+
+  constructor(workingDirectory: string, filterConfig?: Partial<FilterConfig>) {
+    super();
+    this.workingDirectory = workingDirectory;
+    this.filterConfig = filterConfig;
+  }
+
+  async _call({
+    pattern,
+    path: searchPath,
+    glob,
+    literal = false,
+    ignoreCase = false,
+    contextLines = 0,
+    outputMode = 'content',
+    includeIgnored = false,
+    maxResults = 100,
+    offset = 0
+  }: z.infer<typeof this.schema>): Promise<string> {
+    try {
+      const target = path.resolve(this.workingDirectory, searchPath || '.');
+
+      // Security check
+      if (!isPathWithinDirectory(this.workingDirectory, target)) {
+        throw new Error('Access denied: Path is outside working directory');
+      }
+
+      const source = literal ? pattern.replaceAll(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern;
+      let regex: RegExp;
+      try {
+        regex = new RegExp(source, ignoreCase ? 'i' : '');
+      } catch (error) {
+        throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const files = await this.collectFiles(target, glob, includeIgnored);
+
+      const matches: GrepMatch[] = [];
+      const countsByFile = new Map<string, number>();
+
+      for (const file of files) {
+        const content = await this.readSearchableFile(path.join(this.workingDirectory, file));
+        if (content === null) continue;
+
+        const lines = content.split(/\r?\n/);
+        const matchingLines: number[] = [];
+        lines.forEach((line, index) => {
+          if (regex.test(line)) matchingLines.push(index);
+        });
+
+        if (matchingLines.length === 0) continue;
+
+        countsByFile.set(file, matchingLines.length);
+
+        if (outputMode === 'content') {
+          for (const index of matchingLines) {
+            const start = Math.max(0, index - contextLines);
+            const end = Math.min(lines.length - 1, index + contextLines);
+            matches.push({ file, lineNumber: index + 1, lines: lines.slice(start, end + 1) });
+          }
+        }
+      }
+
+      const totalMatches = [...countsByFile.values()].reduce((sum, count) => sum + count, 0);
+
+      if (totalMatches === 0) {
+        return `No matches found for "${pattern}"${searchPath ? ` in ${searchPath}` : ''}`;
+      }
+
+      const summary = `Found ${totalMatches} match${totalMatches === 1 ? '' : 'es'} in ${countsByFile.size} file${countsByFile.size === 1 ? '' : 's'} for "${pattern}"`;
+
+      if (outputMode === 'files_with_matches') {
+        const fileList = [...countsByFile.keys()];
+        const page = fileList.slice(offset, offset + maxResults);
+        return `${summary}\n\n${page.join('\n')}${formatPagingFooter(offset, page.length, fileList.length, 'files')}`;
+      }
+
+      if (outputMode === 'count') {
+        const entries = [...countsByFile.entries()];
+        const page = entries.slice(offset, offset + maxResults);
+        return `${summary}\n\n${page.map(([file, count]) => `${file}: ${count}`).join('\n')}${formatPagingFooter(offset, page.length, entries.length, 'files')}`;
+      }
+
+      const page = matches.slice(offset, offset + maxResults);
+      return `${summary}\n\n${this.formatContent(page, contextLines)}${formatPagingFooter(offset, page.length, matches.length, 'matches')}`;
+    } catch (error) {
+      return `Error searching content: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Resolve the list of files to search (single file or directory walk)
+   */
+  private async collectFiles(target: string, glob: string | undefined, includeIgnored: boolean): Promise<string[]> {
+    const stats = await fs.stat(target);
+    const relativeTarget = normalizePathSeparators(path.relative(this.workingDirectory, target));
+
+    if (stats.isFile()) {
+      return [relativeTarget];
+    }
+
+    const files: string[] = [];
+    for await (const relativePath of walkFiles(this.workingDirectory, target, createWalkOptions(this.filterConfig, includeIgnored))) {
+      const pathFromTarget = relativeTarget ? relativePath.slice(relativeTarget.length + 1) : relativePath;
+      if (!glob || matchesGlob(pathFromTarget, glob)) {
+        files.push(relativePath);
+      }
+    }
+
+    return files.sort();
+  }
+
+  /**
+   * Read a text file for searching; returns null for large or binary files
+   */
+  private async readSearchableFile(filePath: string): Promise<string | null> {
+    try {
+      const stats = await fs.stat(filePath);
+      if (stats.size > MAX_GREP_FILE_SIZE) return null;
+
+      const buffer = await fs.readFile(filePath);
+      if (buffer.subarray(0, 8000).includes(0)) return null;
+
+      return buffer.toString('utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Format matches as "file:line: text" with context lines as "file-line- text"
+   */
+  private formatContent(matches: GrepMatch[], contextLines: number): string {
+    const truncate = (line: string) =>
+      line.length > MAX_LINE_LENGTH ? `${line.substring(0, MAX_LINE_LENGTH)}...` : line;
+
+    if (contextLines === 0) {
+      return matches.map(match => `${match.file}:${match.lineNumber}: ${truncate(match.lines[0])}`).join('\n');
+    }
+
+    return matches.map(match => {
+      const firstLine = Math.max(1, match.lineNumber - contextLines);
+      return match.lines.map((line, index) => {
+        const lineNumber = firstLine + index;
+        const separator = lineNumber === match.lineNumber ? ':' : '-';
+        return `${match.file}${separator}${lineNumber}${separator} ${truncate(line)}`;
+      }).join('\n');
+    }).join('\n--\n');
+  }
+}
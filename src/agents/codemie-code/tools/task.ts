@@ -0,0 +1,85 @@
+/**
+ * Task Delegation Tool for CodeMie Native Agent
+ *
+ * Lets the agent hand a self-contained task to a sub-agent with its own
+ * conversation history, so exploration noise stays out of the main context.
+ * Only the sub-agent's final report is returned to the calling agent.
+ */
+
+import { StructuredTool } from '@langchain/core/tools';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { z } from 'zod';
+
+/**
+ * Tools a sub-agent gets when the caller does not choose any (read-only exploration)
+ */
+export const DEFAULT_SUBAGENT_TOOLS = ['read_file', 'list_directory', 'grep', 'glob', 'git_status', 'git_diff', 'git_log'];
+
+/**
+ * Tools a sub-agent never gets: no nested delegation, and the todo list belongs to the main agent
+ */
+export const SUBAGENT_EXCLUDED_TOOLS = ['task', 'write_todos', 'update_todo_status', 'append_todo', 'clear_todos', 'show_todos'];
+
+export interface SubagentRequest {
+  description: string;
+  prompt: string;
+  tools: string[];
+  model?: string;
+}
+
+export interface SubagentResult {
+  report: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Runs a sub-agent to completion (provided by the parent CodeMieAgent)
+ */
+export type SubagentRunner = (request: SubagentRequest, signal?: AbortSignal) => Promise<SubagentResult>;
+
+export class TaskTool extends StructuredTool {
+  name = 'task';
+  description = 'Delegate a self-contained task to a sub-agent with a fresh context, e.g. exploring a large part of the codebase or researching how something works. The sub-agent works autonomously and returns only its final report, which keeps your own context small. The prompt must contain everything the sub-agent needs, as it cannot see this conversation. By default the sub-agent can only read and search files.';
+
+  schema = z.object({
+    description: z.string().describe('Short (3-5 word) description of the task'),
+    prompt: z.string().describe('Detailed instructions for the sub-agent, including what to report back'),
+    tools: z.array(z.string()).optional().describe(`Tool names the sub-agent may use (default: ${DEFAULT_SUBAGENT_TOOLS.join(', ')})`),
+    model: z.string().optional().describe('Model for the sub-agent (default: the current model)')
+  });
+
+  private availableTools: string[];
+  private runner: SubagentRunner;
+
+  constructor(availableTools: string[], runner: SubagentRunner) {
+    super();
+    this.availableTools = availableTools.filter(name => !SUBAGENT_EXCLUDED_TOOLS.includes(name));
+    this.runner = runner;
+  }
+
+  async _call(
+    { description, prompt, tools, model }: z.infer<typeof this.schema>,
+    _runManager?: unknown,
+    parentConfig?: RunnableConfig
+  ): Promise<string> {
+    const requestedTools = tools ?? DEFAULT_SUBAGENT_TOOLS.filter(name => this.availableTools.includes(name));
+    const unknownTools = requestedTools.filter(name => !this.availableTools.includes(name));
+
+    if (unknownTools.length > 0) {
+      return `Error running task: tools not available to sub-agents: ${unknownTools.join(', ')}. Available: ${this.availableTools.join(', ')}`;
+    }
+
+    try {
+      const result = await this.runner({ description, prompt, tools: requestedTools, model }, parentConfig?.signal);
+
+      if (!result.success) {
+        return `Error running task: ${result.error ?? 'sub-agent failed'}${result.report ? `\n\nPartial report:\n${result.report}` : ''}`;
+      }
+
+      return result.report || 'Sub-agent finished without a report';
+    } catch (error) {
+      return `Error running task: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
@@ -6,6 +6,10 @@
  */
 
 import type { FilterConfig } from './filters.js';
+import type { BudgetSettings, MCPServerConfig, PermissionSettings, RetrySettings } from '../../env/types.js';
+import type { OpenAICompatibleConnection } from '../../providers/plugins/openai-compatible/openai-compatible.connection.js';
+import type { BudgetTracker } from '../../providers/plugins/sso/proxy/plugins/budget-tracker.js';
+import type { ActiveRedactionSettings, PromptRedactor } from '../../providers/plugins/sso/proxy/plugins/prompt-redactor.js';
 
 /**
  * Configuration interface for the CodeMie agent
@@ -21,7 +25,7 @@ export interface CodeMieConfig {
   model: string;
 
   /** LLM provider type */
-  provider: 'openai' | 'azure' | 'bedrock' | 'litellm';
+  provider: 'openai' | 'azure' | 'bedrock' | 'litellm' | 'anthropic' | 'ollama' | 'gemini' | 'openai-compatible';
 
   /** Original provider name for display (before normalization) */
   displayProvider?: string;
@@ -43,6 +47,60 @@ export interface CodeMieConfig {
 
   /** CodeMie base URL (for SSO providers) */
   codeMieUrl?: string;
+
+  /** Vertex AI project settings (gemini provider without an API key) */
+  vertex?: {
+    project: string;
+    location: string;
+    credentialsFile?: string;
+  };
+
+  /** Auth header, static headers and TLS settings (openai-compatible provider) */
+  openaiCompatible?: OpenAICompatibleConnection;
+
+  /** Tool permission mode and allow/deny rules */
+  permissions?: PermissionSettings;
+
+  /** Model context window in tokens (used for automatic compaction) */
+  contextWindow?: number;
+
+  /** MCP servers whose tools are added to the agent, keyed by server name */
+  mcpServers?: Record<string, MCPServerConfig>;
+
+  /** Names of MCP servers from the project config (started only after approval) */
+  projectMcpServers?: string[];
+
+  /** Models to fall back to, in order, when retries of this model are exhausted */
+  fallbacks?: CodeMieConfig[];
+
+  /** Retry settings for failed model requests */
+  retry?: RetrySettings;
+
+  /** Token and cost limits of the profile */
+  budget?: BudgetSettings;
+
+  /** Redaction of secrets in prompts (proxy.redaction of the profile, when enabled) */
+  redaction?: ActiveRedactionSettings;
+
+  /** SSO cookies of a fallback profile that signs in to another CodeMie URL */
+  ssoCookies?: Record<string, string>;
+}
+
+/**
+ * Options for creating a CodeMieAgent
+ */
+export interface CodeMieAgentOptions {
+  /** Run as a task tool sub-agent: no saved conversation, no Ctrl+C handler and no task tool */
+  subagent?: boolean;
+
+  /** System prompt to use instead of the default one */
+  systemPrompt?: string;
+
+  /** Budget of the parent agent (sub-agent usage counts towards its session) */
+  budgetTracker?: BudgetTracker;
+
+  /** Prompt redactor of the parent agent (secrets are reported once per session) */
+  redactor?: PromptRedactor;
 }
 
 /**
@@ -61,6 +119,15 @@ export interface ToolMetadata {
   /** Number of bytes written */
   bytesWritten?: number;
 
+  /** Number of lines added (edit operations) */
+  linesAdded?: number;
+
+  /** Number of lines removed (edit operations) */
+  linesRemoved?: number;
+
+  /** Unified diff preview (edit operations) */
+  diffPreview?: string;
+
   /** Directory path */
   directoryPath?: string;
 
@@ -70,6 +137,12 @@ export interface ToolMetadata {
   /** Number of directories found */
   directoryCount?: number;
 
+  /** Number of matches found (search operations) */
+  matchCount?: number;
+
+  /** Search pattern (search operations) */
+  pattern?: string;
+
   /** Command that was executed */
   command?: string;
 
@@ -106,7 +179,8 @@ export interface AgentEvent {
   /** Event type */
   type: 'thinking_start' | 'thinking_end' | 'content_chunk' |
         'tool_call_start' | 'tool_call_progress' | 'tool_call_result' | 'complete' | 'error' |
-        'todo_update' | 'planning_start' | 'planning_complete' |
+        'todo_update' | 'context_compacted' | 'model_retry' | 'model_fallback' | 'warning' |
+        'planning_start' | 'planning_complete' |
         'planning_progress' | 'planning_tool_call' | 'planning_discovery' | 'planning_phase_change';
 
   /** Content chunk for streaming text */
@@ -139,6 +213,32 @@ export interface AgentEvent {
   /** Error message if event type is 'error' */
   error?: string;
 
+  /** Compaction details (when type is 'context_compacted') */
+  compaction?: {
+    summarizedMessages: number;
+    tokensBefore: number;
+    tokensAfter: number;
+  };
+
+  /** Retry details (when type is 'model_retry') */
+  retry?: {
+    model: string;
+    attempt: number;
+    maxRetries: number;
+    delayMs: number;
+    reason: string;
+  };
+
+  /** Fallback details (when type is 'model_fallback') */
+  fallback?: {
+    fromModel: string;
+    toModel: string;
+    reason: string;
+  };
+
+  /** Budget or redaction notice for the user (when type is 'warning') */
+  warning?: string;
+
   /** Todo update information (when type is 'todo_update') */
   todoUpdate?: {
     todos: Todo[];
@@ -325,6 +425,29 @@ export interface ExecutionStep {
 
   /** Context for LLM calls to distinguish between different types of reasoning */
   llmContext?: 'initial_input' | 'processing_tool_result' | 'final_response';
+
+  /** Sub-agent run started by this step (only for task tool executions) */
+  subagent?: SubagentExecution;
+}
+
+/**
+ * Sub-agent run recorded on the task tool step; its steps are nested in stats.executionSteps
+ */
+export interface SubagentExecution {
+  /** Short task description given by the parent agent */
+  description: string;
+
+  /** Model used by the sub-agent */
+  model: string;
+
+  /** Tools available to the sub-agent */
+  tools: string[];
+
+  /** Whether the sub-agent finished without errors */
+  success: boolean;
+
+  /** Sub-agent statistics, including its own execution steps */
+  stats: AgentStats;
 }
 
 /**
@@ -361,6 +484,9 @@ export interface AgentStats {
   /** Number of LLM calls made */
   llmCalls: number;
 
+  /** Model that answered the last turn (differs from the configured model after a fallback) */
+  model?: string;
+
   /** Detailed execution steps */
   executionSteps: ExecutionStep[];
 }
@@ -390,6 +516,25 @@ export type ProviderConfig = {
     baseURL: string;
     model: string;
   };
+  anthropic: {
+    apiKey: string;
+    baseURL: string;
+  };
+  ollama: {
+    baseURL: string;
+    model: string;
+  };
+  gemini: {
+    apiKey?: string;
+    project?: string;
+    location?: string;
+    credentialsFile?: string;
+  };
+  'openai-compatible': {
+    apiKey: string;
+    baseURL: string;
+    headers: Record<string, string>;
+  };
 };
 
 /**
@@ -1,13 +1,22 @@
-import { intro, outro, text, spinner, note, isCancel } from '@clack/prompts';
+import { intro, outro, text, spinner, note, select, isCancel } from '@clack/prompts';
 import chalk from 'chalk';
 import { CodeMieAgent } from './agent.js';
-import { ExecutionStep, TodoUpdateEvent } from './types.js';
+import type { RewindResult } from './storage/checkpointStorage.js';
+import { AgentEvent, ExecutionStep, TodoUpdateEvent } from './types.js';
 import { formatToolMetadata } from './toolMetadata.js';
 import { formatCost, formatTokens, formatTokenUsageSummary } from './tokenUtils.js';
 import { hasClipboardImage, getClipboardImage, type ClipboardImage } from '../../utils/clipboard.js';
 import { TodoPanel } from './ui/todoPanel.js';
 import { ProgressTracker, getProgressTracker } from './ui/progressTracker.js';
 import { TodoStateManager } from './tools/planning.js';
+import {
+  getPermissionManager,
+  setPermissionPromptHandler,
+  PERMISSION_MODES,
+  type PermissionMode,
+  type PermissionRequest,
+  type PermissionResponse
+} from './permissions.js';
 import { logger } from '../../utils/logger.js';
 
 /**
@@ -35,6 +44,9 @@ export class CodeMieTerminalUI {
 
     // Register for todo update events
     TodoStateManager.addEventCallback(this.handleTodoUpdate.bind(this));
+
+    // Ask for approval before mutating tool calls
+    setPermissionPromptHandler(this.handlePermissionPrompt.bind(this));
   }
 
   /**
@@ -356,16 +368,23 @@ export class CodeMieTerminalUI {
    * Handle special commands
    */
   private async handleCommand(command: string): Promise<string | void> {
-    const [cmd] = command.slice(1).split(' ');
+    const [cmd, ...args] = command.slice(1).split(' ');
 
     switch (cmd) {
       case 'help':
         note(
           `${chalk.cyan('/help')} - Show this help message\n` +
-          `${chalk.cyan('/clear')} - Clear conversation history\n` +
+          `${chalk.cyan('/clear')} - Start a new conversation (the current one stays resumable)\n` +
+          `${chalk.cyan('/sessions')} - Resume a saved conversation\n` +
+          `${chalk.cyan('/compact')} - Summarise older turns to free up context\n` +
+          `${chalk.cyan('/undo')} - Revert the file changes and messages of the last turn\n` +
+          `${chalk.cyan('/checkpoints')} - List turns that can be rewound\n` +
+          `${chalk.cyan('/rewind [n]')} - Revert files and conversation to before checkpoint n\n` +
           `${chalk.cyan('/stats')} - Show agent statistics\n` +
           `${chalk.cyan('/todos')} - Show current todo list and progress\n` +
           `${chalk.cyan('/config')} - Show configuration\n` +
+          `${chalk.cyan('/permissions [mode]')} - Show permission rules or switch mode\n` +
+          `${chalk.cyan('/mcp')} - Show MCP server status and tools\n` +
           `${chalk.cyan('/health')} - Run health check\n` +
           `${chalk.cyan('/exit')} - Exit the agent\n\n` +
           `${chalk.yellow('Hotkeys:')}\n` +
@@ -393,6 +412,26 @@ export class CodeMieTerminalUI {
         note('Conversation history cleared', 'History');
         break;
 
+      case 'sessions':
+        await this.pickSession();
+        break;
+
+      case 'compact':
+        await this.compactConversation();
+        break;
+
+      case 'undo':
+        await this.undoLastTurn();
+        break;
+
+      case 'checkpoints':
+        await this.showCheckpoints();
+        break;
+
+      case 'rewind':
+        await this.rewindToCheckpoint(args[0]);
+        break;
+
       case 'stats':
         await this.showStats();
         break;
@@ -409,7 +448,18 @@ export class CodeMieTerminalUI {
         await this.runHealthCheck();
         break;
 
+      case 'permissions':
+        this.showPermissions(args[0]);
+        break;
+
+      case 'mcp':
+        await this.showMcpStatus();
+        break;
+
       case 'exit':
+        if (this.agent.getHistory().length > 0) {
+          console.log(chalk.dim(`Resume this conversation with: codemie-code --resume ${this.agent.getSessionId()}`));
+        }
         outro(chalk.white('Goodbye! 👋'));
         return 'exit';
 
@@ -436,6 +486,23 @@ export class CodeMieTerminalUI {
       // Start streaming with visual feedback
       await this.agent.chatStream(task, (event) => {
         switch (event.type) {
+          case 'context_compacted':
+            this.showCompactionNotice(event);
+            break;
+
+          case 'model_retry':
+          case 'model_fallback':
+            if (this.currentSpinner) {
+              this.currentSpinner.message(chalk.yellow(this.formatModelNotice(event)));
+            } else {
+              console.log(chalk.dim(this.formatModelNotice(event)));
+            }
+            break;
+
+          case 'warning':
+            console.log(chalk.yellow(`⚠ ${event.warning}`));
+            break;
+
           case 'thinking_start':
             // Show "Thinking..." spinner when the agent starts processing
             if (!this.currentSpinner) {
@@ -551,6 +618,7 @@ export class CodeMieTerminalUI {
       `  Output: ${chalk.cyan(formatTokens(stats.outputTokens))}${stats.cachedTokens > 0 ? ` + ${chalk.green(formatTokens(stats.cachedTokens))} cached` : ''}`,
       `  Total: ${chalk.cyan(formatTokens(stats.totalTokens))}`,
       `  Cost: ${chalk.green(formatCost(stats.estimatedTotalCost))}`,
+      `  Context: ${this.formatContextUsage()}`,
       '',
       `${chalk.yellow('Execution Stats:')}`,
       `  LLM Calls: ${chalk.cyan(stats.llmCalls)}`,
@@ -592,6 +660,301 @@ export class CodeMieTerminalUI {
     note(configText, 'Configuration');
   }
 
+  /**
+   * Compact the conversation on demand (/compact)
+   */
+  private async compactConversation(): Promise<void> {
+    const compactSpinner = spinner();
+    compactSpinner.start('Summarising older turns...');
+
+    try {
+      const result = await this.agent.compactHistory();
+
+      if (!result) {
+        compactSpinner.stop(chalk.white('Nothing to compact yet'));
+        return;
+      }
+
+      compactSpinner.stop(chalk.green(
+        `✓ Compacted ${result.summarizedMessages} messages (~${formatTokens(result.tokensBefore)} → ~${formatTokens(result.tokensAfter)} tokens)`
+      ));
+    } catch (error) {
+      compactSpinner.stop(chalk.red('✗ Compaction failed'));
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Show a notice after automatic compaction
+   */
+  private showCompactionNotice(event: AgentEvent): void {
+    if (!event.compaction) return;
+
+    const { summarizedMessages, tokensBefore, tokensAfter } = event.compaction;
+    console.log(chalk.dim(
+      `Context compacted: summarised ${summarizedMessages} earlier messages (~${formatTokens(tokensBefore)} → ~${formatTokens(tokensAfter)} tokens)`
+    ));
+  }
+
+  /**
+   * Format a retry or fallback notice for the spinner
+   */
+  private formatModelNotice(event: AgentEvent): string {
+    if (event.retry) {
+      const { model, attempt, maxRetries, delayMs, reason } = event.retry;
+      return `${model} failed (${reason}), retrying in ${Math.ceil(delayMs / 1000)}s (${attempt}/${maxRetries})...`;
+    }
+
+    if (event.fallback) {
+      return `${event.fallback.fromModel} unavailable, switching to ${event.fallback.toModel}...`;
+    }
+
+    return 'Retrying...';
+  }
+
+  /**
+   * Format estimated context window usage, e.g. "45.2K / 128.0K (35%)"
+   */
+  private formatContextUsage(): string {
+    const { tokens, contextWindow } = this.agent.getContextUsage();
+    const percentage = Math.round((tokens / contextWindow) * 100);
+    const color = percentage >= 80 ? chalk.red : percentage >= 50 ? chalk.yellow : chalk.cyan;
+
+    return `${color(formatTokens(tokens))} / ${chalk.white(formatTokens(contextWindow))} (${percentage}%)`;
+  }
+
+  /**
+   * Let the user pick a saved conversation and resume it
+   */
+  private async pickSession(): Promise<void> {
+    const sessions = await this.agent.listSessions();
+
+    if (sessions.length === 0) {
+      note('No saved conversations for this project yet', 'Sessions');
+      return;
+    }
+
+    const currentSessionId = this.agent.getSessionId();
+    const choice = await select({
+      message: 'Resume a conversation',
+      options: sessions.slice(0, 20).map(session => ({
+        value: session.sessionId,
+        label: session.title,
+        hint: `${session.messageCount} messages • ${session.updatedAt.toLocaleString()}` +
+          (session.sessionId === currentSessionId ? ' • current' : '')
+      }))
+    });
+
+    if (isCancel(choice)) {
+      return;
+    }
+
+    try {
+      const restored = await this.agent.resumeSession(choice as string);
+      note(`Restored ${restored} messages from ${choice}`, 'Sessions');
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Revert the last turn (/undo)
+   */
+  private async undoLastTurn(): Promise<void> {
+    try {
+      this.showRewindResult(await this.agent.undoLastTurn());
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * List checkpoints of the current session (/checkpoints)
+   */
+  private async showCheckpoints(): Promise<void> {
+    const checkpoints = await this.agent.listCheckpoints();
+
+    if (checkpoints.length === 0) {
+      note('No checkpoints in this session yet', 'Checkpoints');
+      return;
+    }
+
+    const lines = checkpoints.map(checkpoint => {
+      const files = checkpoint.files.length > 0
+        ? chalk.yellow(`${checkpoint.files.length} file${checkpoint.files.length === 1 ? '' : 's'}`)
+        : chalk.dim('no file changes');
+      return `${chalk.cyan(String(checkpoint.id).padStart(3))}  ${chalk.white(checkpoint.prompt)} ${chalk.dim('•')} ${files} ${chalk.dim(`• ${new Date(checkpoint.createdAt).toLocaleTimeString()}`)}`;
+    });
+
+    note(`${lines.join('\n')}\n\n${chalk.dim('Use /rewind <n> to revert to before a checkpoint')}`, 'Checkpoints');
+  }
+
+  /**
+   * Revert files and conversation to before a checkpoint (/rewind [n]);
+   * without a number the user picks one
+   */
+  private async rewindToCheckpoint(arg?: string): Promise<void> {
+    const checkpoints = await this.agent.listCheckpoints();
+
+    if (checkpoints.length === 0) {
+      note('No checkpoints in this session yet', 'Checkpoints');
+      return;
+    }
+
+    let checkpointId: number;
+    if (arg) {
+      checkpointId = Number(arg);
+      if (!Number.isInteger(checkpointId)) {
+        note(chalk.rgb(255, 120, 120)(`Invalid checkpoint: ${arg}\nUse /checkpoints to list checkpoints`), 'Error');
+        return;
+      }
+    } else {
+      const choice = await select({
+        message: 'Rewind to before',
+        options: [...checkpoints].reverse().slice(0, 20).map(checkpoint => ({
+          value: checkpoint.id,
+          label: `${checkpoint.id}. ${checkpoint.prompt}`,
+          hint: `${checkpoint.files.length} file${checkpoint.files.length === 1 ? '' : 's'}`
+        }))
+      });
+
+      if (isCancel(choice)) {
+        return;
+      }
+      checkpointId = choice as number;
+    }
+
+    try {
+      this.showRewindResult(await this.agent.rewindToCheckpoint(checkpointId));
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Show which turns were undone and which files were restored
+   */
+  private showRewindResult(result: RewindResult): void {
+    const turns = result.checkpoints.length;
+    const files = result.restoredFiles.length > 0
+      ? result.restoredFiles.map(file => `  ${file}`).join('\n')
+      : chalk.dim('  no file changes to revert');
+
+    const actions = result.unrevertedActions.length > 0
+      ? `${chalk.yellow('Not reverted (undo these yourself if needed):')}\n${result.unrevertedActions.map(action => `  ${action}`).join('\n')}`
+      : chalk.dim('No commands, commits or MCP tool calls to revert');
+
+    note(
+      `Undid ${turns} turn${turns === 1 ? '' : 's'} (from: ${chalk.white(result.checkpoints[0].prompt)})\n\n` +
+      `${chalk.yellow('Restored files:')}\n${files}\n\n${actions}`,
+      'Rewind'
+    );
+  }
+
+  /**
+   * Show permission mode and rules, or switch to another mode
+   */
+  private showPermissions(mode?: string): void {
+    const manager = getPermissionManager();
+
+    if (!manager) {
+      note('Permissions are not initialized', 'Permissions');
+      return;
+    }
+
+    if (mode) {
+      if (!PERMISSION_MODES.includes(mode as PermissionMode)) {
+        note(chalk.rgb(255, 120, 120)(`Unknown mode: ${mode}\nValid modes: ${PERMISSION_MODES.join(', ')}`), 'Error');
+        return;
+      }
+      manager.setMode(mode as PermissionMode);
+    }
+
+    const rules = manager.getRules();
+    const formatRules = (list: string[]) => list.length > 0
+      ? list.map(rule => `  ${rule}`).join('\n')
+      : chalk.dim('  none');
+
+    note(
+      `Mode: ${chalk.yellow(manager.getMode())}\n\n` +
+      `${chalk.green('Allow:')}\n${formatRules(rules.allow)}\n\n` +
+      `${chalk.cyan('Allowed this session:')}\n${formatRules(rules.session)}\n\n` +
+      `${chalk.red('Deny:')}\n${formatRules(rules.deny)}`,
+      'Permissions'
+    );
+  }
+
+  /**
+   * Show configured MCP servers, their connection state and tools
+   */
+  private async showMcpStatus(): Promise<void> {
+    const { getMcpManager } = await import('./tools/mcp.js');
+    const manager = getMcpManager();
+
+    if (!manager) {
+      note(`No MCP servers configured\nAdd servers under ${chalk.cyan('mcpServers')} in your profile or .codemie/codemie-cli.config.json`, 'MCP');
+      return;
+    }
+
+    const lines = manager.getStatus().map(server => {
+      const label = `${chalk.white(server.name)} ${chalk.dim(`(${server.type})`)}`;
+
+      switch (server.state) {
+        case 'connected':
+          return [
+            `${chalk.green('●')} ${label} - ${server.tools.length} tools`,
+            ...server.tools.map(tool => chalk.dim(`    ${tool}`))
+          ].join('\n');
+        case 'failed':
+          return `${chalk.red('●')} ${label} - ${chalk.rgb(255, 120, 120)(`failed: ${server.error}`)}`;
+        case 'unapproved':
+          return `${chalk.yellow('○')} ${label} - ${chalk.yellow('project server not approved (asked again on the next interactive start)')}`;
+        default:
+          return `${chalk.dim('○')} ${label} - ${chalk.dim('disabled')}`;
+      }
+    });
+
+    note(lines.join('\n'), 'MCP Servers');
+  }
+
+  /**
+   * Ask the user to approve a mutating tool call
+   */
+  private async handlePermissionPrompt(
+    request: PermissionRequest,
+    suggestedRules: string[]
+  ): Promise<PermissionResponse> {
+    const activeSpinner = this.currentSpinner;
+    activeSpinner?.stop(chalk.yellow(`Approval required for ${request.toolName}`));
+
+    const lines = request.description.split('\n');
+    const shownLines = lines.slice(0, 40).map(line => {
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return chalk.white(line);
+    });
+    if (lines.length > shownLines.length) {
+      shownLines.push(chalk.dim(`... ${lines.length - shownLines.length} more lines`));
+    }
+    note(shownLines.join('\n'), 'Permission Required');
+
+    // Requests that always need confirmation come without rules to remember
+    const options: Array<{ value: PermissionResponse; label: string; hint?: string }> = [{ value: 'allow_once', label: 'Yes' }];
+    if (suggestedRules.length > 0) {
+      options.push({ value: 'allow_session', label: 'Yes, and don\'t ask again this session', hint: suggestedRules.join(', ') });
+    }
+    options.push({ value: 'deny', label: 'No' });
+
+    const choice = await select({
+      message: 'Allow this action?',
+      options
+    });
+
+    activeSpinner?.start(chalk.yellow(`Using ${request.toolName}...`));
+
+    return isCancel(choice) ? 'deny' : choice as PermissionResponse;
+  }
+
   /**
    * Run health check with UI feedback
    */
@@ -645,6 +1008,7 @@ export class CodeMieTerminalUI {
    */
   async executeSingleTask(task: string, images: ClipboardImage[] = []): Promise<string> {
     const taskSpinner = spinner();
+    this.currentSpinner = taskSpinner; // Store reference so approval prompts can pause it
 
     let response = '';
     let toolCallCount = 0;
@@ -653,6 +1017,19 @@ export class CodeMieTerminalUI {
     try {
       await this.agent.chatStream(task, (event) => {
         switch (event.type) {
+          case 'context_compacted':
+            this.showCompactionNotice(event);
+            break;
+
+          case 'model_retry':
+          case 'model_fallback':
+            taskSpinner.message(chalk.yellow(this.formatModelNotice(event)));
+            break;
+
+          case 'warning':
+            taskSpinner.message(chalk.yellow(`⚠ ${event.warning}`));
+            break;
+
           case 'thinking_start':
             // Show "Thinking..." when the agent starts processing
             taskSpinner.start(chalk.white('Thinking...'));
@@ -722,6 +1099,10 @@ export class CodeMieTerminalUI {
         summaryParts.push(`${formatCost(stats.estimatedTotalCost)}`);
       }
 
+      if (stats.model && stats.model !== this.agent.getConfig().model) {
+        summaryParts.push(`answered by ${stats.model}`);
+      }
+
       if (summaryParts.length > 0) {
         console.log(chalk.white(`${summaryParts.join(' • ')}\n`));
       }
@@ -730,6 +1111,8 @@ export class CodeMieTerminalUI {
     } catch (error) {
       taskSpinner.stop(chalk.red('Task failed'));
       throw error;
+    } finally {
+      this.currentSpinner = undefined;
     }
   }
 
@@ -839,6 +1222,10 @@ export class CodeMieTerminalUI {
         summaryParts.push(`${formatCost(stats.estimatedTotalCost)}`);
       }
 
+      if (stats.model && stats.model !== this.agent.getConfig().model) {
+        summaryParts.push(`answered by ${stats.model}`);
+      }
+
       if (summaryParts.length > 0) {
         console.log(chalk.white(`${summaryParts.join(' • ')}\n`));
       }
@@ -856,7 +1243,7 @@ export class CodeMieTerminalUI {
    */
   private shouldShowDetails(toolName: string): boolean {
     // Show details for these tools when they have interesting information
-    return ['read_file', 'list_directory', 'execute_command'].includes(toolName);
+    return ['read_file', 'edit_file', 'list_directory', 'grep', 'glob', 'execute_command'].includes(toolName);
   }
 
   /**
@@ -874,6 +1261,19 @@ export class CodeMieTerminalUI {
         }
         break;
 
+      case 'edit_file':
+        if (metadata.diffPreview) {
+          details = metadata.diffPreview
+            .split('\n')
+            .map((line: string) => {
+              if (line.startsWith('+')) return chalk.green(line);
+              if (line.startsWith('-')) return chalk.red(line);
+              return chalk.white(line);
+            })
+            .join('\n');
+        }
+        break;
+
       case 'list_directory':
         if (metadata.contentPreview && metadata.contentPreview !== 'Empty directory') {
           // Parse the content preview and format each item on a new line
@@ -894,6 +1294,13 @@ export class CodeMieTerminalUI {
         }
         break;
 
+      case 'grep':
+      case 'glob':
+        if (metadata.contentPreview) {
+          details = chalk.white(metadata.contentPreview);
+        }
+        break;
+
       case 'execute_command':
         if (metadata.outputPreview && metadata.outputPreview !== 'No output') {
           details = chalk.white(`Output:\n${metadata.outputPreview}`);
@@ -926,6 +1333,11 @@ export class CodeMieTerminalUI {
       summaryParts.push(`${formatCost(stats.estimatedTotalCost)} estimated cost`);
     }
 
+    // A fallback model answered
+    if (stats.model && stats.model !== this.agent.getConfig().model) {
+      summaryParts.push(chalk.yellow(`Answered by ${stats.model}`));
+    }
+
     if (summaryParts.length > 0) {
       note(summaryParts.join(' • '), 'Task Summary');
     }
@@ -938,6 +1350,16 @@ export class CodeMieTerminalUI {
     const stepLines: string[] = [];
 
     stepLines.push(chalk.yellow('Execution Steps:'));
+    stepLines.push(...this.formatExecutionSteps(steps, '  '));
+
+    note(stepLines.join('\n'), 'Step Details');
+  }
+
+  /**
+   * Format execution steps, with sub-agent steps nested under their task step
+   */
+  private formatExecutionSteps(steps: ExecutionStep[], indent: string): string[] {
+    const stepLines: string[] = [];
 
     for (const step of steps) {
       const duration = step.duration ? `${step.duration}ms` : 'ongoing';
@@ -957,16 +1379,24 @@ export class CodeMieTerminalUI {
           llmLabel = 'Final Reasoning';
         }
 
-        stepLines.push(`  ${chalk.cyan(`${step.stepNumber}.`)} ${llmLabel} - ${chalk.white(duration)}${tokenInfo}`);
+        stepLines.push(`${indent}${chalk.cyan(`${step.stepNumber}.`)} ${llmLabel} - ${chalk.white(duration)}${tokenInfo}`);
       } else {
         const success = step.toolSuccess !== undefined
           ? (step.toolSuccess ? chalk.green('✓') : chalk.red('✗'))
           : chalk.yellow('?');
-        stepLines.push(`  ${chalk.cyan(`${step.stepNumber}.`)} ${success} ${step.toolName} - ${chalk.white(duration)}`);
+        stepLines.push(`${indent}${chalk.cyan(`${step.stepNumber}.`)} ${success} ${step.toolName} - ${chalk.white(duration)}`);
+
+        if (step.subagent) {
+          const { description, model, stats } = step.subagent;
+          stepLines.push(
+            `${indent}   ${chalk.magenta(`Sub-agent: ${description}`)} ${chalk.dim(`(${model}, ${formatTokens(stats.totalTokens)} tokens, ${formatCost(stats.estimatedTotalCost)})`)}`
+          );
+          stepLines.push(...this.formatExecutionSteps(stats.executionSteps, `${indent}     `));
+        }
       }
     }
 
-    note(stepLines.join('\n'), 'Step Details');
+    return stepLines;
   }
 
   /**
@@ -1247,6 +1677,8 @@ export class CodeMieTerminalUI {
     const toolNames = {
       'list_directory': 'Exploring',
       'read_file': 'Reading',
+      'grep': 'Searching',
+      'glob': 'Finding',
       'execute_command': 'Executing',
       'llm_analysis': 'Analyzing',
       'llm_plan_generation': 'Generating Plan',
@@ -1617,5 +2049,6 @@ Chat Commands:
     // Clean up todo tracking
     this.progressTracker.stop();
     TodoStateManager.removeEventCallback(this.handleTodoUpdate.bind(this));
+    setPermissionPromptHandler(null);
   }
 }
\ No newline at end of file
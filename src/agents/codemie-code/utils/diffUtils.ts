@@ -0,0 +1,205 @@
+/**
+ * Diff Utility
+ *
+ * Produces unified diffs for file edits made by the agent tools so that
+ * changes can be shown to the LLM and summarized in the terminal UI
+ */
+
+/**
+ * Result of a diff computation
+ */
+export interface UnifiedDiffResult {
+  /** Unified diff text (empty when contents are identical) */
+  diff: string;
+
+  /** Number of lines added */
+  linesAdded: number;
+
+  /** Number of lines removed */
+  linesRemoved: number;
+}
+
+type DiffOp = { type: 'equal' | 'add' | 'remove'; line: string };
+
+// Upper bound for the LCS table (changed region lines old x new).
+// Beyond this the changed region is reported as a single replace block.
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Split content into lines without the trailing empty element for a final newline
+ */
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+  const lines = content.split('\n');
+  if (lines.at(-1) === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Compute line-level diff operations between two line arrays
+ *
+ * Strips the common prefix and suffix first so that typical localized edits
+ * only run the LCS over the changed region.
+ */
+function computeDiffOps(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: 'equal', line: oldLines[i] });
+  }
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    oldMiddle.forEach(line => ops.push({ type: 'remove', line }));
+    newMiddle.forEach(line => ops.push({ type: 'add', line }));
+  } else {
+    ops.push(...computeLcsOps(oldMiddle, newMiddle));
+  }
+
+  for (let i = oldLines.length - suffix; i < oldLines.length; i++) {
+    ops.push({ type: 'equal', line: oldLines[i] });
+  }
+
+  return ops;
+}
+
+/**
+ * Longest-common-subsequence based diff for the changed region
+ */
+function computeLcsOps(oldLines: string[], newLines: string[]): DiffOp[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const table: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = oldLines[i] === newLines[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ type: 'equal', line: oldLines[i] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      ops.push({ type: 'remove', line: oldLines[i] });
+      i++;
+    } else {
+      ops.push({ type: 'add', line: newLines[j] });
+      j++;
+    }
+  }
+  while (i < n) {
+    ops.push({ type: 'remove', line: oldLines[i++] });
+  }
+  while (j < m) {
+    ops.push({ type: 'add', line: newLines[j++] });
+  }
+
+  return ops;
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * @param oldContent - Original file content
+ * @param newContent - Updated file content
+ * @param filePath - Path shown in the diff header
+ * @param contextLines - Number of unchanged lines around each change (default: 3)
+ */
+export function createUnifiedDiff(
+  oldContent: string,
+  newContent: string,
+  filePath: string,
+  contextLines = 3
+): UnifiedDiffResult {
+  const ops = computeDiffOps(splitLines(oldContent), splitLines(newContent));
+
+  const linesAdded = ops.filter(op => op.type === 'add').length;
+  const linesRemoved = ops.filter(op => op.type === 'remove').length;
+
+  if (linesAdded === 0 && linesRemoved === 0) {
+    return { diff: '', linesAdded, linesRemoved };
+  }
+
+  // Group changes into hunks with surrounding context
+  const changeIndices = ops
+    .map((op, index) => (op.type === 'equal' ? -1 : index))
+    .filter(index => index >= 0);
+
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const index of changeIndices) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(ops.length - 1, index + contextLines);
+    const last = ranges.at(-1);
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  const output: string[] = [`--- a/${filePath}`, `+++ b/${filePath}`];
+
+  for (const range of ranges) {
+    // Line numbers (1-based) at the start of the hunk
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < range.start; k++) {
+      if (ops[k].type !== 'add') oldLine++;
+      if (ops[k].type !== 'remove') newLine++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let k = range.start; k <= range.end; k++) {
+      const op = ops[k];
+      if (op.type === 'equal') {
+        body.push(` ${op.line}`);
+        oldCount++;
+        newCount++;
+      } else if (op.type === 'remove') {
+        body.push(`-${op.line}`);
+        oldCount++;
+      } else {
+        body.push(`+${op.line}`);
+        newCount++;
+      }
+    }
+
+    const oldStart = oldCount === 0 ? oldLine - 1 : oldLine;
+    const newStart = newCount === 0 ? newLine - 1 : newLine;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...body);
+  }
+
+  return {
+    diff: output.join('\n'),
+    linesAdded,
+    linesRemoved
+  };
+}
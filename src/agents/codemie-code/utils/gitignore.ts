@@ -0,0 +1,135 @@
+/**
+ * Gitignore Utility
+ *
+ * Minimal .gitignore support for the agent search tools. Handles the common
+ * subset of the format: comments, negation (!), directory-only rules (dir/),
+ * anchored rules (containing a slash) and glob wildcards.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+
+/**
+ * A single parsed .gitignore rule
+ */
+export interface GitignoreRule {
+  /** Glob pattern relative to the directory of the .gitignore file */
+  pattern: string;
+
+  /** Rule re-includes previously ignored paths */
+  negated: boolean;
+
+  /** Rule only applies to directories */
+  directoryOnly: boolean;
+
+  /** Rule is anchored to its base directory (pattern contained a slash) */
+  anchored: boolean;
+
+  /** Directory of the .gitignore file, relative to the search root (posix, '' for root) */
+  baseDir: string;
+}
+
+/**
+ * Parse .gitignore content into rules
+ *
+ * @param content - Raw .gitignore file content
+ * @param baseDir - Directory containing the .gitignore, relative to the search root
+ */
+export function parseGitignore(content: string, baseDir = ''): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    let negated = false;
+    if (line.startsWith('!')) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith('/')) {
+      directoryOnly = true;
+      line = line.slice(0, -1);
+    }
+
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+
+    if (!line) continue;
+
+    rules.push({ pattern: line, negated, directoryOnly, anchored, baseDir });
+  }
+
+  return rules;
+}
+
+/**
+ * Matches paths against .gitignore rules collected while walking a directory tree
+ */
+export class GitignoreMatcher {
+  private rules: GitignoreRule[] = [];
+
+  constructor(rules: GitignoreRule[] = []) {
+    this.rules = rules;
+  }
+
+  /**
+   * Create a matcher for a nested directory by appending its .gitignore rules
+   */
+  withRules(rules: GitignoreRule[]): GitignoreMatcher {
+    if (rules.length === 0) return this;
+    return new GitignoreMatcher([...this.rules, ...rules]);
+  }
+
+  /**
+   * Check whether a path is ignored
+   *
+   * @param relativePath - Path relative to the search root (posix separators)
+   * @param isDirectory - Whether the path is a directory
+   */
+  isIgnored(relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+
+      let candidate = relativePath;
+      if (rule.baseDir) {
+        if (!relativePath.startsWith(`${rule.baseDir}/`)) continue;
+        candidate = relativePath.slice(rule.baseDir.length + 1);
+      }
+
+      const matches = rule.anchored
+        ? minimatch(candidate, rule.pattern, { dot: true })
+        : minimatch(candidate, rule.pattern, { dot: true, matchBase: true });
+
+      if (matches) {
+        ignored = !rule.negated;
+      }
+    }
+
+    return ignored;
+  }
+}
+
+/**
+ * Load the .gitignore rules of a single directory (empty when absent)
+ *
+ * @param absoluteDir - Absolute directory path
+ * @param relativeDir - Same directory relative to the search root (posix, '' for root)
+ */
+export async function loadGitignoreRules(absoluteDir: string, relativeDir = ''): Promise<GitignoreRule[]> {
+  try {
+    const content = await fs.readFile(path.join(absoluteDir, '.gitignore'), 'utf-8');
+    return parseGitignore(content, relativeDir);
+  } catch {
+    return [];
+  }
+}
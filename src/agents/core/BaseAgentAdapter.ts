@@ -5,7 +5,14 @@ import { exec } from '../../utils/processes.js';
 import { logger } from '../../utils/logger.js';
 import { spawn } from 'child_process';
 import { randomUUID } from 'crypto';
-import { CodeMieProxy } from '../../providers/plugins/sso/index.js';
+import {
+  CodeMieProxy,
+  PROXY_API_KEY,
+  getCacheSettings,
+  getCassetteSettings,
+  getRedactionSettings,
+  hasBudgetLimits
+} from '../../providers/plugins/sso/index.js';
 import type { ProxyConfig } from '../../providers/plugins/sso/index.js';
 import { ProviderRegistry } from '../../providers/index.js';
 import type { CodeMieConfigOptions } from '../../env/types.js';
@@ -384,16 +391,42 @@ export abstract class BaseAgentAdapter implements AgentAdapter {
 
   /**
    * Check if proxy should be used for this agent/provider combination
+   * SSO providers always need it for authentication, other providers opt in with proxy.enabled
+   * (or by recording or replaying a cassette, caching responses, redacting prompts or setting a budget)
    */
   private shouldUseProxy(env: NodeJS.ProcessEnv): boolean {
     const providerName = env.CODEMIE_PROVIDER;
     if (!providerName) return false;
 
+    const isProxyEnabled = this.metadata.ssoConfig?.enabled ?? false;
+    if (!isProxyEnabled) return false;
+
     const provider = ProviderRegistry.getProvider(providerName);
     const isSSOProvider = provider?.authType === 'sso';
-    const isProxyEnabled = this.metadata.ssoConfig?.enabled ?? false;
 
-    return isSSOProvider && isProxyEnabled;
+    const profileConfig = this.parseProfileConfig(env);
+    return isSSOProvider ||
+      profileConfig?.proxy?.enabled === true ||
+      getCassetteSettings(profileConfig) !== null ||
+      getCacheSettings(profileConfig) !== null ||
+      getRedactionSettings(profileConfig) !== null ||
+      hasBudgetLimits(profileConfig?.budget);
+  }
+
+  /**
+   * Parse the profile config serialized by the CLI
+   */
+  private parseProfileConfig(env: NodeJS.ProcessEnv): CodeMieConfigOptions | undefined {
+    if (!env.CODEMIE_PROFILE_CONFIG) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(env.CODEMIE_PROFILE_CONFIG) as CodeMieConfigOptions;
+    } catch (error) {
+      logger.warn('[BaseAgentAdapter] Failed to parse profile config:', error);
+      return undefined;
+    }
   }
 
   /**
@@ -403,7 +436,7 @@ export abstract class BaseAgentAdapter implements AgentAdapter {
     // Get and validate target URL
     const targetApiUrl = env.CODEMIE_BASE_URL;
     if (!targetApiUrl) {
-      throw new Error('No API URL found for SSO authentication');
+      throw new Error('No API URL found for the proxy');
     }
 
     // Parse timeout (seconds → milliseconds, default 0 = unlimited)
@@ -411,14 +444,7 @@ export abstract class BaseAgentAdapter implements AgentAdapter {
     const timeoutMs = timeoutSeconds * 1000;
 
     // Parse profile config from JSON
-    let profileConfig: CodeMieConfigOptions | undefined = undefined;
-    if (env.CODEMIE_PROFILE_CONFIG) {
-      try {
-        profileConfig = JSON.parse(env.CODEMIE_PROFILE_CONFIG) as CodeMieConfigOptions;
-      } catch (error) {
-        logger.warn('[BaseAgentAdapter] Failed to parse profile config:', error);
-      }
-    }
+    const profileConfig = this.parseProfileConfig(env);
 
     return {
       targetApiUrl,
@@ -454,7 +480,7 @@ export abstract class BaseAgentAdapter implements AgentAdapter {
 
       // Update environment with proxy URL
       env.CODEMIE_BASE_URL = url;
-      env.CODEMIE_API_KEY = 'proxy-handled';
+      env.CODEMIE_API_KEY = PROXY_API_KEY;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`Proxy setup failed: ${errorMessage}`);
@@ -27,7 +27,7 @@ export const ClaudePluginMetadata: AgentMetadata = {
     model: ['ANTHROPIC_MODEL']
   },
 
-  supportedProviders: ['litellm', 'ai-run-sso', 'bedrock'],
+  supportedProviders: ['litellm', 'ai-run-sso', 'bedrock', 'anthropic', 'ollama'],
   blockedModelPatterns: [],
   recommendedModels: ['claude-4-5-sonnet', 'claude-4-opus', 'gpt-4.1'],
 
@@ -2,6 +2,8 @@ import { AgentMetadata, AgentAdapter } from '../core/types.js';
 import { logger } from '../../utils/logger.js';
 import { CodeMieCode } from '../codemie-code/index.js';
 import { loadCodeMieConfig } from '../codemie-code/config.js';
+import { PERMISSION_MODES, type PermissionMode } from '../codemie-code/permissions.js';
+import { OUTPUT_FORMATS, type OutputFormat } from '../codemie-code/headless.js';
 import { join } from 'path';
 import { readFileSync } from 'fs';
 import { getDirname } from '../../utils/paths.js';
@@ -27,7 +29,7 @@ export const CodeMieCodePluginMetadata: AgentMetadata = {
 
   envMapping: {},
 
-  supportedProviders: ['ollama', 'litellm', 'ai-run-sso'],
+  supportedProviders: ['ollama', 'litellm', 'ai-run-sso', 'anthropic', 'gemini', 'openai-compatible'],
   blockedModelPatterns: [],
 
   // Built-in agent doesn't use proxy (handles auth internally)
@@ -37,7 +39,11 @@ export const CodeMieCodePluginMetadata: AgentMetadata = {
     { flags: '--task <task>', description: 'Execute a single task and exit' },
     { flags: '--debug', description: 'Enable debug logging' },
     { flags: '--plan', description: 'Enable planning mode' },
-    { flags: '--plan-only', description: 'Plan without execution' }
+    { flags: '--plan-only', description: 'Plan without execution' },
+    { flags: '--permission-mode <mode>', description: `Tool permission mode (${PERMISSION_MODES.join(', ')})` },
+    { flags: '--continue', description: 'Continue the most recent conversation in this directory' },
+    { flags: '--resume <sessionId>', description: 'Resume a saved conversation by session ID' },
+    { flags: '--output-format <format>', description: `Task output format (${OUTPUT_FORMATS.join(', ')})` }
   ],
 
   isBuiltIn: true,
@@ -57,35 +63,72 @@ export const CodeMieCodePluginMetadata: AgentMetadata = {
         throw new Error(`CodeMie configuration required: ${errorMessage}. Please run: codemie setup`);
       }
 
-      // Show welcome message with session info
-      // Read from environment variables (same as BaseAgentAdapter)
-      const profileName = process.env.CODEMIE_PROFILE_NAME || config.name || 'default';
-      const provider = process.env.CODEMIE_PROVIDER || config.displayProvider || config.provider;
-      const model = process.env.CODEMIE_MODEL || config.model;
-      const codeMieUrl = process.env.CODEMIE_URL || config.codeMieUrl;
-      const sessionId = process.env.CODEMIE_SESSION_ID || 'n/a';
-      const cliVersion = process.env.CODEMIE_CLI_VERSION || 'unknown';
-      console.log(
-        renderProfileInfo({
-            profile: profileName,
-            provider,
-            model,
-            codeMieUrl,
-            agent: BUILTIN_AGENT_NAME,
-            cliVersion,
-            sessionId
-        })
-      );
-
-      // Show random welcome message
-      console.log(chalk.cyan.bold(getRandomWelcomeMessage()));
-      console.log(''); // Empty line for spacing
+      const permissionMode = options.permissionMode as PermissionMode | undefined;
+      if (permissionMode && !PERMISSION_MODES.includes(permissionMode)) {
+        throw new Error(`Invalid permission mode "${permissionMode}". Valid modes: ${PERMISSION_MODES.join(', ')}`);
+      }
+
+      const outputFormat = (options.outputFormat as OutputFormat | undefined) ?? 'text';
+      if (!OUTPUT_FORMATS.includes(outputFormat)) {
+        throw new Error(`Invalid output format "${outputFormat}". Valid formats: ${OUTPUT_FORMATS.join(', ')}`);
+      }
+
+      // JSON output modes run a single task and keep stdout machine-readable
+      const headless = outputFormat !== 'text';
+      const task = (options.task as string | undefined) ?? (args.length > 0 ? args.join(' ') : undefined);
+      if (headless && !task) {
+        throw new Error(`--output-format ${outputFormat} requires a task (--task "<task>")`);
+      }
+      if (headless && (options.plan || options.planOnly)) {
+        throw new Error(`--output-format ${outputFormat} cannot be combined with --plan or --plan-only`);
+      }
+
+      if (!headless) {
+        // Show welcome message with session info
+        // Read from environment variables (same as BaseAgentAdapter)
+        const profileName = process.env.CODEMIE_PROFILE_NAME || config.name || 'default';
+        const provider = process.env.CODEMIE_PROVIDER || config.displayProvider || config.provider;
+        const model = process.env.CODEMIE_MODEL || config.model;
+        const codeMieUrl = process.env.CODEMIE_URL || config.codeMieUrl;
+        const sessionId = process.env.CODEMIE_SESSION_ID || 'n/a';
+        const cliVersion = process.env.CODEMIE_CLI_VERSION || 'unknown';
+        console.log(
+          renderProfileInfo({
+              profile: profileName,
+              provider,
+              model,
+              codeMieUrl,
+              agent: BUILTIN_AGENT_NAME,
+              cliVersion,
+              sessionId
+          })
+        );
+
+        // Show random welcome message
+        console.log(chalk.cyan.bold(getRandomWelcomeMessage()));
+        console.log(''); // Empty line for spacing
+      }
 
       const codeMie = new CodeMieCode(workingDir);
-      await codeMie.initialize({ debug: options.debug as boolean | undefined });
+      await codeMie.initialize({
+        debug: options.debug as boolean | undefined,
+        permissions: permissionMode ? { mode: permissionMode } : undefined
+      });
 
       try {
-        if (options.task) {
+        if (options.resume || options.continue) {
+          const restored = await codeMie.resumeSession(options.resume as string | undefined);
+          if (!headless) {
+            console.log(chalk.dim(`Resumed conversation ${codeMie.getAgent()?.getSessionId()} (${restored} messages)\n`));
+          }
+        }
+
+        if (headless) {
+          const result = await codeMie.executeTaskHeadless(task!, outputFormat as Exclude<OutputFormat, 'text'>);
+          if (!result.success) {
+            process.exitCode = 1;
+          }
+        } else if (options.task) {
           await codeMie.executeTaskWithUI(options.task as string, {
             planMode: (options.plan || options.planOnly) as boolean | undefined,
             planOnly: options.planOnly as boolean | undefined
@@ -99,12 +142,17 @@ export const CodeMieCodePluginMetadata: AgentMetadata = {
           await codeMie.startInteractive();
         }
       } finally {
+        // Stop MCP servers and release other agent resources
+        await codeMie.dispose();
+
         // Show goodbye message
-        console.log(''); // Empty line for spacing
-        console.log(chalk.cyan.bold(getRandomGoodbyeMessage()));
-        console.log(''); // Spacing before powered by
-        console.log(chalk.cyan('Powered by AI/Run CodeMie CLI'));
-        console.log(''); // Empty line for spacing
+        if (!headless) {
+          console.log(''); // Empty line for spacing
+          console.log(chalk.cyan.bold(getRandomGoodbyeMessage()));
+          console.log(''); // Spacing before powered by
+          console.log(chalk.cyan('Powered by AI/Run CodeMie CLI'));
+          console.log(''); // Empty line for spacing
+        }
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -169,6 +217,17 @@ export class CodeMieCodePlugin implements AgentAdapter {
         options.plan = true;
       } else if (arg === '--plan-only') {
         options.planOnly = true;
+      } else if (arg === '--permission-mode' && args[i + 1]) {
+        options.permissionMode = args[i + 1];
+        i++; // Skip next arg
+      } else if (arg === '--continue') {
+        options.continue = true;
+      } else if (arg === '--resume' && args[i + 1]) {
+        options.resume = args[i + 1];
+        i++; // Skip next arg
+      } else if (arg === '--output-format' && args[i + 1]) {
+        options.outputFormat = args[i + 1];
+        i++; // Skip next arg
       } else {
         filteredArgs.push(arg);
       }
@@ -11,8 +11,11 @@ import type {
   TokenBreakdown,
   ModelStats,
   ToolStats,
-  LanguageStats
+  LanguageStats,
+  ProfileBudgetUsage
 } from './types.js';
+import { formatBudgetStatus } from '../../../providers/plugins/sso/proxy/plugins/budget-ledger.js';
+import type { CacheHitSummary } from '../../../providers/plugins/sso/proxy/plugins/cache-store.js';
 
 export class AnalyticsFormatter {
   private verbose: boolean;
@@ -69,6 +72,49 @@ export class AnalyticsFormatter {
     }
   }
 
+  /**
+   * Display budget consumption of profiles with a budget
+   */
+  displayBudgets(budgets: ProfileBudgetUsage[]): void {
+    if (budgets.length === 0) return;
+
+    console.log(chalk.bold.cyan('\n' + '-'.repeat(60)));
+    console.log(chalk.bold.cyan('BUDGETS'));
+    console.log(chalk.bold.cyan('-'.repeat(60)));
+
+    for (const budget of budgets) {
+      console.log(chalk.bold.green(`\n  ${budget.profile}`));
+
+      for (const status of budget.statuses) {
+        let ratioColor;
+        if (status.ratio >= 1) {
+          ratioColor = chalk.red;
+        } else if (status.ratio >= 0.8) {
+          ratioColor = chalk.yellow;
+        } else {
+          ratioColor = chalk.green;
+        }
+
+        console.log(`    ${formatBudgetStatus(status)} ${ratioColor(`(${(status.ratio * 100).toFixed(1)}%)`)}`);
+      }
+    }
+  }
+
+  /**
+   * Display requests served from the proxy response cache
+   */
+  displayCache(summary: CacheHitSummary): void {
+    if (summary.hits === 0) return;
+
+    console.log(chalk.bold.cyan('\n' + '-'.repeat(60)));
+    console.log(chalk.bold.cyan('RESPONSE CACHE'));
+    console.log(chalk.bold.cyan('-'.repeat(60)));
+
+    console.log(`${chalk.cyan('Hits:')} ${summary.hits}`);
+    console.log(`${chalk.cyan('Tokens Saved:')} ${summary.tokens.toLocaleString()}`);
+    console.log(`${chalk.cyan('Cost Saved:')} ${chalk.green(`$${summary.cost.toFixed(2)}`)}`);
+  }
+
   /**
    * Display a single project
    */
@@ -8,8 +8,11 @@ import { MetricsDataLoader } from './data-loader.js';
 import { AnalyticsAggregator } from './aggregator.js';
 import { AnalyticsFormatter } from './formatter.js';
 import { AnalyticsExporter } from './exporter.js';
-import type { AnalyticsOptions, AnalyticsFilter } from './types.js';
+import type { AnalyticsOptions, AnalyticsFilter, ProfileBudgetUsage } from './types.js';
 import { logger } from '../../../utils/logger.js';
+import { ConfigLoader } from '../../../utils/config.js';
+import { BudgetLedger, evaluateBudget, emptyTotals, hasBudgetLimits } from '../../../providers/plugins/sso/proxy/plugins/budget-ledger.js';
+import { CacheStore } from '../../../providers/plugins/sso/proxy/plugins/cache-store.js';
 
 export function createAnalyticsCommand(): Command {
   const command = new Command('analytics');
@@ -34,10 +37,15 @@ export function createAnalyticsCommand(): Command {
         // Load data
         const loader = new MetricsDataLoader();
         const rawSessions = loader.loadSessions(filter);
+        const budgets = await loadProfileBudgets();
+        const cacheHits = await new CacheStore().summarizeHits(filter);
+        const formatter = new AnalyticsFormatter(options.verbose);
 
         if (rawSessions.length === 0) {
           console.log(chalk.yellow('\nNo sessions found matching the specified criteria.'));
           console.log(chalk.dim('Run with different filters or check that metrics are being collected.\n'));
+          formatter.displayBudgets(budgets);
+          formatter.displayCache(cacheHits);
           return;
         }
 
@@ -51,9 +59,10 @@ export function createAnalyticsCommand(): Command {
         }
 
         // Display results
-        const formatter = new AnalyticsFormatter(options.verbose);
         formatter.displayRoot(analytics);
         formatter.displayProjects(analytics.projects);
+        formatter.displayBudgets(budgets);
+        formatter.displayCache(cacheHits);
 
         // Export if requested
         if (options.export) {
@@ -83,6 +92,33 @@ export function createAnalyticsCommand(): Command {
   return command;
 }
 
+/**
+ * Load today's and this month's consumption of profiles with a budget
+ * (session budgets only apply while a session runs)
+ */
+async function loadProfileBudgets(): Promise<ProfileBudgetUsage[]> {
+  const ledger = new BudgetLedger();
+  const budgets: ProfileBudgetUsage[] = [];
+
+  try {
+    for (const { name } of await ConfigLoader.listProfiles()) {
+      const budget = (await ConfigLoader.getEffectiveProfile(name))?.budget;
+      if (!hasBudgetLimits(budget)) continue;
+
+      const { daily, monthly } = await ledger.getTotals(name);
+      const statuses = evaluateBudget(budget, { session: emptyTotals(), daily, monthly })
+        .filter(status => status.period !== 'session');
+      if (statuses.length > 0) {
+        budgets.push({ profile: name, statuses });
+      }
+    }
+  } catch (error) {
+    logger.debug('Failed to load profile budgets:', error);
+  }
+
+  return budgets;
+}
+
 /**
  * Parse filter options from command line arguments
  */
@@ -9,6 +9,7 @@ import type {
   FileOperation,
   ToolStatus
 } from '../../../agents/core/metrics/types.js';
+import type { BudgetStatus } from '../../../providers/plugins/sso/proxy/plugins/budget-ledger.js';
 
 // Re-export core types used by analytics
 export type { MetricDelta, SyncStatus, FileOperation, ToolStatus };
@@ -203,6 +204,14 @@ export interface RootAnalytics {
   formats: LanguageStats[];
 }
 
+/**
+ * Budget consumption of a profile (recorded by the proxy budget plugin)
+ */
+export interface ProfileBudgetUsage {
+  profile: string;
+  statuses: BudgetStatus[];
+}
+
 /**
  * Analytics filter options
  */
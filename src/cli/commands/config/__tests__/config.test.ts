@@ -0,0 +1,130 @@
+/**
+ * Config Command Tests
+ *
+ * Tests reading and editing config files by dotted path and that edits
+ * making the config invalid are refused
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ProviderProfile } from '../../../../env/types.js';
+import { ConfigLoader } from '../../../../utils/config.js';
+import { CredentialStore } from '../../../../utils/security.js';
+import { createConfigCommand } from '../index.js';
+import { getByPath, parsePath, parseValue, setByPath, unsetByPath } from '../dotted-path.js';
+
+async function run(...args: string[]): Promise<void> {
+  await createConfigCommand().parseAsync(args, { from: 'user' });
+}
+
+describe('config command', () => {
+  let files: Record<'global' | 'project', Record<string, unknown>>;
+  let output: string[];
+
+  beforeEach(() => {
+    files = {
+      global: {
+        version: 2,
+        activeProfile: 'work',
+        profiles: {
+          work: { name: 'work', provider: 'litellm', baseUrl: 'https://litellm.company.com', model: 'claude-4-5-sonnet' }
+        }
+      },
+      project: {}
+    };
+    output = [];
+
+    vi.spyOn(ConfigLoader, 'readConfigFile').mockImplementation(async scope => structuredClone(files[scope]));
+    vi.spyOn(ConfigLoader, 'writeConfigFile').mockImplementation(async (scope, data) => {
+      files[scope] = data;
+    });
+    vi.spyOn(ConfigLoader, 'listProfiles').mockImplementation(async () =>
+      Object.entries(files.global.profiles as Record<string, ProviderProfile>).map(([name, profile]) => ({ name, active: true, profile }))
+    );
+    vi.spyOn(CredentialStore.prototype, 'storeSecret').mockResolvedValue();
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      output.push(args.join(' '));
+    });
+    vi.spyOn(console, 'error').mockImplementation((...args: unknown[]) => {
+      output.push(args.join(' '));
+    });
+    vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should get values by dotted path', async () => {
+    await run('get', 'model', '--profile', 'work');
+    await run('get', 'profiles.work');
+
+    expect(output[0]).toBe('claude-4-5-sonnet');
+    expect(JSON.parse(output.slice(1).join('\n'))).toMatchObject({ provider: 'litellm' });
+    await expect(run('get', 'profiles.work.timeout')).rejects.toThrow('process.exit(1)');
+  });
+
+  it('should set parsed values and remove them again', async () => {
+    await run('set', 'profiles.work.timeout', '300');
+    await run('set', 'retry.maxRetries', '5', '-p', 'work');
+    await run('set', 'permissions.allow', '["execute_command(npm test)"]', '--project');
+
+    expect(getByPath(files.global, ['profiles', 'work', 'timeout'])).toBe(300);
+    expect(getByPath(files.global, ['profiles', 'work', 'retry'])).toEqual({ maxRetries: 5 });
+    expect(files.project).toEqual({ permissions: { allow: ['execute_command(npm test)'] } });
+
+    await run('unset', 'profiles.work.retry');
+    expect(getByPath(files.global, ['profiles', 'work', 'retry'])).toBeUndefined();
+  });
+
+  it('should refuse edits that make the config invalid', async () => {
+    await expect(run('set', 'profiles.work.timout', '300')).rejects.toThrow('process.exit(1)');
+    await expect(run('set', 'profiles.work.timeout', 'soon')).rejects.toThrow('process.exit(1)');
+
+    expect(output.join('\n')).toContain('profiles.work.timout');
+    expect(output.join('\n')).toContain('did you mean "timeout"?');
+    expect(getByPath(files.global, ['profiles', 'work', 'timeout'])).toBeUndefined();
+  });
+
+  it('should store API keys set on a profile in the credential store', async () => {
+    await run('set', 'apiKey', 'sk-secret', '--profile', 'work');
+    await run('set', 'awsSecretAccessKey', 'env:AWS_SECRET', '--profile', 'work');
+
+    expect(CredentialStore.prototype.storeSecret).toHaveBeenCalledExactlyOnceWith('codemie', 'work', 'sk-secret');
+    expect(getByPath(files.global, ['profiles', 'work', 'apiKey'])).toBe('keychain:codemie/work');
+    expect(getByPath(files.global, ['profiles', 'work', 'awsSecretAccessKey'])).toBe('env:AWS_SECRET');
+  });
+
+  it('should report validation issues of the config files', async () => {
+    files.project = { baseURL: 'http://localhost:8000/v1' };
+
+    await expect(run('validate')).rejects.toThrow('process.exit(1)');
+    expect(output.join('\n')).toContain('is valid');
+    expect(output.join('\n')).toContain('baseURL');
+  });
+});
+
+describe('dotted paths', () => {
+  it('should parse paths and values', () => {
+    expect(parsePath('profiles.work.model')).toEqual(['profiles', 'work', 'model']);
+    expect(() => parsePath('profiles..model')).toThrow('Invalid path');
+    expect(() => parsePath('__proto__.polluted')).toThrow('is not a config key');
+
+    expect(parseValue('300')).toBe(300);
+    expect(parseValue('false')).toBe(false);
+    expect(parseValue('gpt-4.1')).toBe('gpt-4.1');
+  });
+
+  it('should edit nested objects and arrays', () => {
+    const data: Record<string, unknown> = { fallbacks: [{ model: 'a' }, { model: 'b' }] };
+
+    setByPath(data, ['retry', 'maxRetries'], 2);
+    expect(data.retry).toEqual({ maxRetries: 2 });
+    expect(() => setByPath(data, ['retry', 'maxRetries', 'x'], 1)).toThrow('retry.maxRetries is not an object');
+
+    expect(unsetByPath(data, ['fallbacks', '0'])).toBe(true);
+    expect(data.fallbacks).toEqual([{ model: 'b' }]);
+    expect(unsetByPath(data, ['missing', 'key'])).toBe(false);
+  });
+});
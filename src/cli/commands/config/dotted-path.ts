@@ -0,0 +1,99 @@
+/**
+ * Dotted path helpers for the config command
+ *
+ * Read and edit nested config values by paths such as
+ * `profiles.work.retry.maxRetries` or `fallbacks.0.model`.
+ */
+
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+type ConfigObject = Record<string, unknown>;
+
+/**
+ * Split a dotted path into its keys
+ */
+export function parsePath(path: string): string[] {
+  const keys = path.split('.');
+
+  if (keys.some(key => key === '')) {
+    throw new Error(`Invalid path "${path}"`);
+  }
+  const forbidden = keys.find(key => FORBIDDEN_SEGMENTS.has(key));
+  if (forbidden) {
+    throw new Error(`Invalid path "${path}": "${forbidden}" is not a config key`);
+  }
+
+  return keys;
+}
+
+/**
+ * Get the value at a path (undefined if any key is missing)
+ */
+export function getByPath(data: ConfigObject, keys: string[]): unknown {
+  let current: unknown = data;
+
+  for (const key of keys) {
+    if (!isContainer(current) || !Object.hasOwn(current, key)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+
+  return current;
+}
+
+/**
+ * Set the value at a path, creating missing objects along the way
+ */
+export function setByPath(data: ConfigObject, keys: string[], value: unknown): void {
+  let current: ConfigObject = data;
+
+  for (const [index, key] of keys.slice(0, -1).entries()) {
+    if (current[key] === undefined) {
+      current[key] = {};
+    }
+
+    const next = current[key];
+    if (!isContainer(next)) {
+      throw new Error(`Cannot set ${keys.join('.')}: ${keys.slice(0, index + 1).join('.')} is not an object`);
+    }
+    current = next;
+  }
+
+  current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Remove the value at a path
+ * @returns Whether a value was removed
+ */
+export function unsetByPath(data: ConfigObject, keys: string[]): boolean {
+  const parent = getByPath(data, keys.slice(0, -1));
+  const key = keys[keys.length - 1];
+
+  if (!isContainer(parent) || !Object.hasOwn(parent, key)) {
+    return false;
+  }
+
+  if (Array.isArray(parent) && /^\d+$/.test(key)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+  return true;
+}
+
+/**
+ * Parse a command-line value: JSON (numbers, booleans, arrays, objects) or a plain string
+ */
+export function parseValue(input: string): unknown {
+  try {
+    return JSON.parse(input);
+  } catch {
+    return input;
+  }
+}
+
+function isContainer(value: unknown): value is ConfigObject {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,247 @@
+/**
+ * Config command
+ *
+ * Validates the global and project config files against the config schema
+ * and edits them by dotted path. Edits are validated before they are written.
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getConfigJsonSchema, validateConfig, type ConfigIssue, type ConfigSchemaKind } from '../../../env/schema.js';
+import { isMultiProviderConfig } from '../../../env/types.js';
+import { ConfigLoader } from '../../../utils/config.js';
+import { logger } from '../../../utils/logger.js';
+import { SECRET_FIELDS, storeProfileSecrets, type SecretField } from '../../../utils/secrets.js';
+import { getByPath, parsePath, parseValue, setByPath, unsetByPath } from './dotted-path.js';
+
+interface ConfigTargetOptions {
+  project?: boolean;
+  profile?: string;
+}
+
+export function createConfigCommand(): Command {
+  const command = new Command('config');
+
+  command
+    .description('Validate and edit configuration files by dotted path')
+    .addCommand(createValidateCommand())
+    .addCommand(createGetCommand())
+    .addCommand(createSetCommand())
+    .addCommand(createUnsetCommand())
+    .addCommand(createSchemaCommand());
+
+  return command;
+}
+
+/**
+ * Create validate command
+ * Checks the global config and, if present, the project config
+ */
+function createValidateCommand(): Command {
+  const command = new Command('validate');
+
+  command
+    .description('Validate the global and project config files against the schema')
+    .option('--project', 'Only validate the project config (.codemie/codemie-cli.config.json)')
+    .action(async (options: { project?: boolean }) => {
+      try {
+        const scopes: ConfigSchemaKind[] = options.project ? ['project'] : ['global', 'project'];
+        let valid = true;
+
+        for (const scope of scopes) {
+          const filePath = ConfigLoader.getConfigFilePath(scope);
+          const data = await ConfigLoader.readConfigFile(scope);
+          if (scope === 'project' && !options.project && Object.keys(data).length === 0) {
+            continue;
+          }
+
+          const issues = validateConfig(data, scope);
+          if (issues.length === 0) {
+            console.log(chalk.green(`✓ ${filePath} is valid`));
+          } else {
+            valid = false;
+            console.log(chalk.red(`✗ ${filePath}`));
+            printIssues(issues);
+          }
+        }
+
+        if (!valid) {
+          process.exit(1);
+        }
+      } catch (error: unknown) {
+        handleError('Failed to validate configuration', error);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Create get command
+ */
+function createGetCommand(): Command {
+  const command = addTargetOptions(new Command('get'));
+
+  command
+    .description('Print the value at a dotted path, e.g. profiles.work.model')
+    .argument('<path>', 'Dotted path of the value')
+    .action(async (path: string, options: ConfigTargetOptions) => {
+      try {
+        const { scope, keys } = await resolveTarget(path, options);
+        const value = getByPath(await ConfigLoader.readConfigFile(scope), keys);
+
+        if (value === undefined) {
+          throw new Error(`${keys.join('.')} is not set`);
+        }
+        console.log(typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+      } catch (error: unknown) {
+        handleError('Failed to get config value', error);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Create set command
+ * Values are parsed as JSON when possible, so numbers, booleans, arrays and objects can be set
+ */
+function createSetCommand(): Command {
+  const command = addTargetOptions(new Command('set'));
+
+  command
+    .description('Set the value at a dotted path (JSON values are parsed)')
+    .argument('<path>', 'Dotted path of the value')
+    .argument('<value>', 'New value, e.g. 300, true, ["src"] or a string')
+    .option('--string', 'Store the value as a string without parsing it as JSON')
+    .action(async (path: string, value: string, options: ConfigTargetOptions & { string?: boolean }) => {
+      try {
+        const { scope, keys } = await resolveTarget(path, options);
+        const data = await ConfigLoader.readConfigFile(scope);
+
+        setByPath(data, keys, options.string ? value : parseValue(value));
+        assertValidEdit(scope, data);
+        await ConfigLoader.writeConfigFile(scope, await secureProfileSecret(scope, data, keys));
+
+        console.log(chalk.green(`✓ Set ${keys.join('.')}`));
+      } catch (error: unknown) {
+        handleError('Failed to set config value', error);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Create unset command
+ */
+function createUnsetCommand(): Command {
+  const command = addTargetOptions(new Command('unset'));
+
+  command
+    .description('Remove the value at a dotted path')
+    .argument('<path>', 'Dotted path of the value')
+    .action(async (path: string, options: ConfigTargetOptions) => {
+      try {
+        const { scope, keys } = await resolveTarget(path, options);
+        const data = await ConfigLoader.readConfigFile(scope);
+
+        if (!unsetByPath(data, keys)) {
+          throw new Error(`${keys.join('.')} is not set`);
+        }
+        assertValidEdit(scope, data);
+        await ConfigLoader.writeConfigFile(scope, data);
+
+        console.log(chalk.green(`✓ Removed ${keys.join('.')}`));
+      } catch (error: unknown) {
+        handleError('Failed to unset config value', error);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Create schema command
+ * Prints the JSON Schema for editor validation (also published in schemas/)
+ */
+function createSchemaCommand(): Command {
+  const command = new Command('schema');
+
+  command
+    .description('Print the JSON Schema of the global (or --project) config file')
+    .option('--project', 'Print the schema of the project config')
+    .action((options: { project?: boolean }) => {
+      console.log(JSON.stringify(getConfigJsonSchema(options.project ? 'project' : 'global'), null, 2));
+    });
+
+  return command;
+}
+
+function addTargetOptions(command: Command): Command {
+  return command
+    .option('--project', 'Edit the project config (.codemie/codemie-cli.config.json) instead of the global config')
+    .option('-p, --profile <name>', 'Resolve the path inside a profile of the global config');
+}
+
+/**
+ * Get the config file and keys a path refers to
+ */
+async function resolveTarget(path: string, options: ConfigTargetOptions): Promise<{ scope: ConfigSchemaKind; keys: string[] }> {
+  const keys = parsePath(path);
+
+  if (!options.profile) {
+    return { scope: options.project ? 'project' : 'global', keys };
+  }
+  if (options.project) {
+    throw new Error('--profile cannot be combined with --project');
+  }
+
+  const profiles = (await ConfigLoader.listProfiles()).map(p => p.name);
+  if (!profiles.includes(options.profile)) {
+    throw new Error(`Profile "${options.profile}" not found. Available profiles: ${profiles.join(', ') || 'none'}`);
+  }
+  return { scope: 'global', keys: ['profiles', options.profile, ...keys] };
+}
+
+/**
+ * Move a plaintext secret set on a profile to the credential store, as `codemie setup` does
+ */
+async function secureProfileSecret(
+  scope: ConfigSchemaKind,
+  data: Record<string, unknown>,
+  keys: string[]
+): Promise<Record<string, unknown>> {
+  if (scope !== 'global' || keys.length !== 3 || keys[0] !== 'profiles' || !SECRET_FIELDS.includes(keys[2] as SecretField)) {
+    return data;
+  }
+  if (!isMultiProviderConfig(data) || !data.profiles[keys[1]]) {
+    return data;
+  }
+
+  data.profiles[keys[1]] = await storeProfileSecrets(keys[1], data.profiles[keys[1]]);
+  return data;
+}
+
+/**
+ * Refuse edits that make the config invalid
+ */
+function assertValidEdit(scope: ConfigSchemaKind, data: Record<string, unknown>): void {
+  const issues = validateConfig(data, scope);
+  if (issues.length > 0) {
+    printIssues(issues);
+    throw new Error('The change would make the configuration invalid, nothing was written');
+  }
+}
+
+function printIssues(issues: ConfigIssue[]): void {
+  for (const issue of issues) {
+    console.log(`  ${chalk.cyan(issue.path || '(root)')}: ${issue.message}`);
+  }
+}
+
+function handleError(message: string, error: unknown): never {
+  logger.error(`${message}:`, error);
+  console.error(chalk.red(`\n✗ ${message}: ${error instanceof Error ? error.message : String(error)}\n`));
+  process.exit(1);
+}
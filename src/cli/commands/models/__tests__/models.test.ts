@@ -0,0 +1,146 @@
+/**
+ * Models Command Tests
+ *
+ * Tests that model management goes through the model proxy of the selected
+ * profile's provider and that `use` updates the profile
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ProviderProfile } from '../../../../env/types.js';
+import type { InstallProgress, ModelInfo, ModelInstallerProxy, ProviderModelFetcher } from '../../../../providers/core/types.js';
+import { ProviderRegistry } from '../../../../providers/core/registry.js';
+import { ConfigLoader } from '../../../../utils/config.js';
+import { createModelsCommand } from '../index.js';
+import { formatInstallProgress } from '../display.js';
+
+const installed: ModelInfo[] = [
+  { id: 'qwen2.5-coder:7b', name: 'qwen2.5-coder:7b', size: 4_683_087_332 }
+];
+
+const installer: ModelInstallerProxy = {
+  supportsInstallation: () => true,
+  listModels: vi.fn(async () => installed),
+  installModel: vi.fn(async (_model: string, onProgress?: (status: InstallProgress) => void) => {
+    onProgress?.({ status: 'downloading', progress: 50, message: 'pulling 8934d96d3f08 (50%)' });
+    onProgress?.({ status: 'complete', progress: 100, message: 'Successfully pulled' });
+  }),
+  removeModel: vi.fn(async () => {}),
+  getModelInfo: vi.fn(async (model: string) => installed.find(m => m.id === model) ?? null)
+};
+
+const fetcher: ProviderModelFetcher = {
+  supports: (provider: string) => provider === 'models-test-local',
+  fetchModels: vi.fn(async () => installed),
+  getInstaller: vi.fn(() => installer)
+};
+
+ProviderRegistry.registerModelProxy('models-test-local', fetcher);
+
+async function run(...args: string[]): Promise<void> {
+  await createModelsCommand().parseAsync(args, { from: 'user' });
+}
+
+describe('models command', () => {
+  let profiles: Record<string, ProviderProfile>;
+  let output: string[];
+
+  beforeEach(() => {
+    profiles = {
+      local: { name: 'local', provider: 'models-test-local', baseUrl: 'http://gpu-box:11434/v1', model: 'llama3.1:8b' },
+      other: { name: 'other', provider: 'models-test-local', baseUrl: 'http://localhost:11434/v1', model: 'qwen2.5-coder:7b' }
+    };
+    output = [];
+
+    vi.spyOn(ConfigLoader, 'getActiveProfileName').mockResolvedValue('local');
+    vi.spyOn(ConfigLoader, 'getProfile').mockImplementation(async (name: string) => profiles[name] ?? null);
+    vi.spyOn(ConfigLoader, 'getEffectiveProfile').mockImplementation(async (name: string) => profiles[name] ?? null);
+    vi.spyOn(ConfigLoader, 'listProfiles').mockImplementation(async () =>
+      Object.entries(profiles).map(([name, profile]) => ({ name, active: name === 'local', profile }))
+    );
+    vi.spyOn(ConfigLoader, 'saveProfile').mockImplementation(async (name: string, profile: ProviderProfile) => {
+      profiles[name] = profile;
+    });
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      output.push(args.join(' '));
+    });
+    vi.spyOn(console, 'error').mockImplementation((...args: unknown[]) => {
+      output.push(args.join(' '));
+    });
+    vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('should set the model of the active profile', async () => {
+    await run('use', 'qwen2.5-coder:7b');
+
+    expect(fetcher.fetchModels).toHaveBeenCalledWith(expect.objectContaining({ baseUrl: 'http://gpu-box:11434/v1' }));
+    expect(profiles.local.model).toBe('qwen2.5-coder:7b');
+  });
+
+  it('should refuse models the provider does not offer unless forced', async () => {
+    await expect(run('use', 'mistral:7b')).rejects.toThrow('process.exit(1)');
+    expect(profiles.local.model).toBe('llama3.1:8b');
+    expect(output.join('\n')).toContain('codemie models pull mistral:7b');
+
+    await run('use', 'mistral:7b', '--force');
+    expect(profiles.local.model).toBe('mistral:7b');
+  });
+
+  it('should pull models through the installer of the named profile', async () => {
+    await run('pull', 'llama3.1:8b', '--profile', 'other');
+
+    expect(fetcher.getInstaller).toHaveBeenCalledWith(profiles.other);
+    expect(installer.installModel).toHaveBeenCalledWith('llama3.1:8b', expect.any(Function));
+  });
+
+  it('should not pull models that are already installed', async () => {
+    await run('pull', 'qwen2.5-coder:7b');
+
+    expect(installer.installModel).not.toHaveBeenCalled();
+    expect(output.join('\n')).toContain('already installed');
+  });
+
+  it('should remove installed models without prompting when confirmed', async () => {
+    await run('rm', 'qwen2.5-coder:7b', '--yes');
+    expect(installer.removeModel).toHaveBeenCalledWith('qwen2.5-coder:7b');
+
+    await expect(run('rm', 'missing:1b', '--yes')).rejects.toThrow('process.exit(1)');
+  });
+
+  it('should use the provider a profile inherits through extends', async () => {
+    profiles.child = { name: 'child', extends: 'local', model: 'qwen2.5-coder:7b' };
+    vi.mocked(ConfigLoader.getEffectiveProfile).mockImplementation(async (name: string) =>
+      name === 'child' ? { ...profiles.local, ...profiles.child } : profiles[name] ?? null
+    );
+
+    await run('list', '--profile', 'child');
+    expect(fetcher.fetchModels).toHaveBeenCalledWith(expect.objectContaining({ provider: 'models-test-local' }));
+    expect(output.join('\n')).toContain('● qwen2.5-coder:7b');
+
+    await run('use', 'qwen2.5-coder:7b', '--profile', 'child');
+    expect(output.join('\n')).toContain('already uses model "qwen2.5-coder:7b"');
+
+    await run('info', 'qwen2.5-coder:7b', '--profile', 'child');
+    expect(output.join('\n')).toContain('current model');
+  });
+
+  it('should report unknown profiles', async () => {
+    await expect(run('list', '--profile', 'missing')).rejects.toThrow('process.exit(1)');
+    expect(output.join('\n')).toContain('Available profiles: local, other');
+  });
+
+  it('should format install progress as a bar', () => {
+    const line = formatInstallProgress({ status: 'downloading', progress: 50, message: 'pulling 8934d96d3f08 (50%)' }, 10);
+
+    expect(line).toContain('█████░░░░░');
+    expect(line).toContain(' 50% pulling 8934d96d3f08');
+    expect(line).not.toContain('(50%)');
+    expect(formatInstallProgress({ status: 'downloading', message: 'pulling manifest' })).toBe('pulling manifest');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Models Display Utilities
+ *
+ * Tables and formatting for the models command
+ */
+
+import chalk from 'chalk';
+import type { CatalogModel, ModelPricing } from '../../../providers/core/model-catalog.js';
+import type { InstallProgress } from '../../../providers/core/types.js';
+import { formatTokens } from '../../../agents/codemie-code/tokenUtils.js';
+
+/**
+ * Table column
+ */
+export interface TableColumn<T> {
+  header: string;
+  align?: 'left' | 'right';
+  value: (row: T) => string;
+}
+
+/**
+ * Display rows in a box-drawn table
+ *
+ * @param highlight - Rows to print in green (e.g. the profile's current model)
+ */
+export function displayTable<T>(rows: T[], columns: TableColumn<T>[], highlight?: (row: T) => boolean, indent = '  '): void {
+  const cells = rows.map(row => columns.map(column => column.value(row)));
+  const widths = columns.map((column, index) => Math.max(column.header.length, ...cells.map(cell => cell[index].length)));
+  const pad = (text: string, index: number) =>
+    columns[index].align === 'right' ? text.padStart(widths[index]) : text.padEnd(widths[index]);
+  const border = (left: string, middle: string, right: string) =>
+    `${indent}${chalk.dim(left + widths.map(width => '─'.repeat(width + 2)).join(middle) + right)}`;
+  const separator = ` ${chalk.dim('│')} `;
+
+  console.log(border('┌', '┬', '┐'));
+  console.log(`${indent}${chalk.dim('│')} ${columns.map((column, index) => chalk.bold.cyan(pad(column.header, index))).join(separator)} ${chalk.dim('│')}`);
+  console.log(border('├', '┼', '┤'));
+
+  cells.forEach((cell, rowIndex) => {
+    const color = highlight?.(rows[rowIndex]) ? chalk.green : chalk.white;
+    console.log(`${indent}${chalk.dim('│')} ${cell.map((text, index) => color(pad(text, index))).join(separator)} ${chalk.dim('│')}`);
+  });
+
+  console.log(border('└', '┴', '┘'));
+}
+
+/**
+ * Catalog table columns
+ */
+export const CATALOG_COLUMNS: TableColumn<CatalogModel>[] = [
+  { header: 'Model', value: model => model.id },
+  { header: 'Vendor', value: model => model.vendor },
+  { header: 'Context', align: 'right', value: model => formatTokenCount(model.contextWindow) },
+  { header: 'Max out', align: 'right', value: model => formatTokenCount(model.maxOutputTokens) },
+  { header: 'Input', align: 'right', value: model => formatPrice(model.pricing?.input) },
+  { header: 'Output', align: 'right', value: model => formatPrice(model.pricing?.output) },
+  { header: 'Cache read', align: 'right', value: model => formatPrice(model.pricing?.cacheRead) },
+  { header: 'Cache write', align: 'right', value: model => formatPrice(model.pricing?.cacheWrite) },
+  { header: 'Capabilities', value: model => formatCapabilities(model) }
+];
+
+export function formatTokenCount(tokens?: number): string {
+  return tokens ? formatTokens(tokens) : '-';
+}
+
+export function formatPrice(price?: number): string {
+  return price === undefined ? '-' : `$${price.toFixed(price < 0.1 ? 3 : 2)}`;
+}
+
+export function formatPricing(pricing?: ModelPricing): string {
+  if (!pricing) {
+    return '-';
+  }
+
+  const parts = [`${formatPrice(pricing.input)} input`, `${formatPrice(pricing.output)} output`];
+  if (pricing.cacheRead !== undefined) {
+    parts.push(`${formatPrice(pricing.cacheRead)} cache read`);
+  }
+  if (pricing.cacheWrite !== undefined) {
+    parts.push(`${formatPrice(pricing.cacheWrite)} cache write`);
+  }
+
+  return `${parts.join(', ')} per 1M tokens`;
+}
+
+export function formatCapabilities(model?: CatalogModel): string {
+  if (!model) {
+    return '-';
+  }
+
+  const { tools, vision, reasoning, promptCaching } = model.capabilities;
+  return [
+    tools && 'tools',
+    vision && 'vision',
+    reasoning && 'reasoning',
+    promptCaching && 'caching'
+  ].filter(Boolean).join(', ') || '-';
+}
+
+export function formatSize(bytes?: number): string {
+  if (!bytes) {
+    return '-';
+  }
+  if (bytes < 1024 ** 2) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  if (bytes < 1024 ** 3) {
+    return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  }
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+}
+
+/**
+ * Format installation progress as a bar, e.g. "████████░░░░░░░░  50% pulling 8934d96d3f08"
+ */
+export function formatInstallProgress(progress: InstallProgress, width = 24): string {
+  // Provider messages may already end with the percentage
+  const message = (progress.message ?? '').replace(/\s*\(\d+%\)$/, '');
+  if (progress.progress === undefined) {
+    return message;
+  }
+
+  const percent = Math.min(Math.max(Math.round(progress.progress), 0), 100);
+  const filled = Math.round((percent / 100) * width);
+  const bar = chalk.cyan('█'.repeat(filled)) + chalk.dim('░'.repeat(width - filled));
+  return `${bar} ${`${percent}%`.padStart(4)} ${message}`.trimEnd();
+}
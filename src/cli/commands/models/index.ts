@@ -0,0 +1,471 @@
+/**
+ * Models command - list, inspect, install and select models of a profile's provider
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import ora from 'ora';
+import type { ProviderProfile } from '../../../env/types.js';
+import type { ModelInfo, ModelInstallerProxy, ProviderModelFetcher } from '../../../providers/core/types.js';
+import { ProviderRegistry } from '../../../providers/core/registry.js';
+import { findModel, getModelCatalog } from '../../../providers/core/model-catalog.js';
+import { ConfigLoader } from '../../../utils/config.js';
+import { resolveSecrets } from '../../../utils/secrets.js';
+import { logger } from '../../../utils/logger.js';
+import {
+  CATALOG_COLUMNS,
+  displayTable,
+  formatCapabilities,
+  formatInstallProgress,
+  formatPrice,
+  formatPricing,
+  formatSize,
+  formatTokenCount,
+  type TableColumn
+} from './display.js';
+
+/**
+ * Profile whose provider the models command works with
+ */
+interface ModelsProfile {
+  name: string;
+  profile: ProviderProfile;
+  /** Effective profile (with inherited settings) with secret references resolved, for requests to the provider */
+  config: ProviderProfile;
+  providerName: string;
+}
+
+export function createModelsCommand(): Command {
+  const command = new Command('models');
+
+  command
+    .description('Manage models of the active (or --profile) provider profile')
+    .addCommand(createListCommand())
+    .addCommand(createInfoCommand())
+    .addCommand(createPullCommand())
+    .addCommand(createRemoveCommand())
+    .addCommand(createUseCommand());
+
+  return command;
+}
+
+/**
+ * Create list command
+ * Lists the models of the profile's provider, or the model catalog with --catalog
+ */
+function createListCommand(): Command {
+  const command = new Command('list');
+
+  command
+    .description('List models available to a profile')
+    .option('-p, --profile <name>', 'Profile to use (default: active profile)')
+    .option('--catalog', 'List the model catalog (context windows, pricing and capabilities) instead')
+    .option('--vendor <name>', 'With --catalog: only show models of a vendor (openai, anthropic, google, ...)')
+    .option('--json', 'Print models as JSON')
+    .action(async (options: { profile?: string; catalog?: boolean; vendor?: string; json?: boolean }) => {
+      try {
+        if (options.catalog) {
+          listCatalog(options);
+        } else {
+          await listProfileModels(options);
+        }
+      } catch (error: unknown) {
+        handleError('Failed to list models', error);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Create info command
+ */
+function createInfoCommand(): Command {
+  const command = new Command('info');
+
+  command
+    .description('Show details of a model')
+    .argument('<model>', 'Model ID')
+    .option('-p, --profile <name>', 'Profile to use (default: active profile)')
+    .action(async (modelId: string, options: { profile?: string }) => {
+      try {
+        await showModelInfo(modelId, options.profile);
+      } catch (error: unknown) {
+        handleError(`Failed to get model ${modelId}`, error);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Create pull command
+ */
+function createPullCommand(): Command {
+  const command = new Command('pull');
+
+  command
+    .description('Install a model (providers with local models, e.g. Ollama)')
+    .argument('<model>', 'Model ID, e.g. qwen2.5-coder:7b')
+    .option('-p, --profile <name>', 'Profile to use (default: active profile)')
+    .action(async (modelId: string, options: { profile?: string }) => {
+      try {
+        await pullModel(modelId, options.profile);
+      } catch (error: unknown) {
+        handleError(`Failed to pull model ${modelId}`, error);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Create rm command
+ */
+function createRemoveCommand(): Command {
+  const command = new Command('rm');
+
+  command
+    .description('Remove an installed model (providers with local models, e.g. Ollama)')
+    .argument('<model>', 'Model ID')
+    .option('-p, --profile <name>', 'Profile to use (default: active profile)')
+    .option('-y, --yes', 'Do not ask for confirmation')
+    .action(async (modelId: string, options: { profile?: string; yes?: boolean }) => {
+      try {
+        await removeModel(modelId, options);
+      } catch (error: unknown) {
+        handleError(`Failed to remove model ${modelId}`, error);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Create use command
+ */
+function createUseCommand(): Command {
+  const command = new Command('use');
+
+  command
+    .description('Set the model of a profile')
+    .argument('<model>', 'Model ID')
+    .option('-p, --profile <name>', 'Profile to update (default: active profile)')
+    .option('-f, --force', 'Set the model even if the provider does not list it')
+    .action(async (modelId: string, options: { profile?: string; force?: boolean }) => {
+      try {
+        await useModel(modelId, options);
+      } catch (error: unknown) {
+        handleError(`Failed to set model ${modelId}`, error);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Print the model catalog, including local overrides
+ */
+function listCatalog(options: { vendor?: string; json?: boolean }): void {
+  const catalog = getModelCatalog();
+  const models = options.vendor
+    ? catalog.models.filter(model => model.vendor === options.vendor?.toLowerCase())
+    : catalog.models;
+
+  if (options.json) {
+    console.log(JSON.stringify(models, null, 2));
+    return;
+  }
+
+  if (catalog.overridesError) {
+    console.log(chalk.yellow(`\n⚠️  Ignoring ${catalog.overridesFile}: ${catalog.overridesError}`));
+  }
+
+  if (models.length === 0) {
+    console.log(chalk.yellow(`\nNo models found for vendor "${options.vendor}".\n`));
+    return;
+  }
+
+  console.log(chalk.bold.cyan('\n📚 Model Catalog:\n'));
+  displayTable(models, CATALOG_COLUMNS);
+
+  console.log('');
+  console.log(chalk.dim('  Prices in USD per 1M tokens. Override or add models in:'));
+  console.log(chalk.dim(`  ${catalog.overridesFile}`));
+  console.log('');
+}
+
+/**
+ * Print the models of a profile's provider, with catalog details
+ */
+async function listProfileModels(options: { profile?: string; json?: boolean }): Promise<void> {
+  const target = await resolveProfile(options.profile);
+  const fetcher = getModelFetcher(target);
+
+  const spinner = options.json ? null : ora(`Fetching models from ${target.providerName}...`).start();
+  let models: ModelInfo[];
+  try {
+    models = await fetcher.fetchModels(target.config);
+    spinner?.stop();
+  } catch (error) {
+    spinner?.fail(chalk.red(`Could not fetch models from ${target.providerName}`));
+    throw error;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(models, null, 2));
+    return;
+  }
+
+  if (models.length === 0) {
+    console.log(chalk.yellow(`\nNo models found for profile "${target.name}".`));
+    console.log(chalk.dim('  Check the provider connection and credentials with: codemie doctor\n'));
+    return;
+  }
+
+  const columns: TableColumn<ModelInfo>[] = [
+    { header: 'Model', value: model => `${model.id === target.config.model ? '● ' : '  '}${model.id}` },
+    { header: 'Name', value: model => model.name === model.id ? '' : model.name },
+    ...(models.some(model => model.size) ? [{ header: 'Size', align: 'right' as const, value: (model: ModelInfo) => formatSize(model.size) }] : []),
+    { header: 'Context', align: 'right', value: model => formatTokenCount(model.contextWindow ?? findModel(model.id)?.contextWindow) },
+    { header: 'Input', align: 'right', value: model => formatPrice(findModel(model.id)?.pricing?.input) },
+    { header: 'Output', align: 'right', value: model => formatPrice(findModel(model.id)?.pricing?.output) },
+    { header: 'Capabilities', value: model => formatCapabilities(findModel(model.id)) }
+  ];
+
+  console.log(chalk.bold.cyan(`\n📦 Models for profile "${target.name}" (${target.providerName}):\n`));
+  displayTable(models, columns, model => model.id === target.config.model);
+
+  console.log('');
+  console.log(chalk.dim('  ● current model of the profile; prices in USD per 1M tokens'));
+  console.log('');
+  console.log(chalk.bold('  Next Steps:'));
+  console.log('');
+  console.log('  ' + chalk.white('• Model details:') + '      ' + chalk.cyan('codemie models info <model>'));
+  console.log('  ' + chalk.white('• Switch model:') + '       ' + chalk.cyan('codemie models use <model>'));
+  if (getInstaller(target, fetcher)) {
+    console.log('  ' + chalk.white('• Install a model:') + '    ' + chalk.cyan('codemie models pull <model>'));
+  }
+  console.log('');
+}
+
+/**
+ * Print provider and catalog details of a model
+ */
+async function showModelInfo(modelId: string, profileName?: string): Promise<void> {
+  const target = await resolveProfile(profileName);
+  const fetcher = ProviderRegistry.getModelProxy(target.config.provider || '');
+  const installer = fetcher && getInstaller(target, fetcher);
+
+  let info: ModelInfo | null | undefined;
+  try {
+    info = installer
+      ? await installer.getModelInfo(modelId)
+      : (await fetcher?.fetchModels(target.config))?.find(model => model.id === modelId);
+  } catch (error) {
+    logger.debug(`Failed to fetch model ${modelId} from ${target.providerName}:`, error);
+    console.log(chalk.yellow(`\n⚠️  Could not fetch models from ${target.providerName}; showing catalog details only`));
+  }
+
+  const catalogModel = findModel(modelId);
+  if (!info && !catalogModel) {
+    throw new Error(`Model "${modelId}" not found for profile "${target.name}" or in the model catalog`);
+  }
+
+  const rows: Array<[string, string | undefined]> = [
+    ['ID', modelId],
+    ['Name', info?.name ?? catalogModel?.name],
+    ['Description', info?.description],
+    ['Vendor', catalogModel?.vendor],
+    ['Size', info?.size ? formatSize(info.size) : undefined],
+    ['Context window', formatTokenCount(info?.contextWindow ?? catalogModel?.contextWindow)],
+    ['Max output', formatTokenCount(catalogModel?.maxOutputTokens)],
+    ['Pricing', formatPricing(catalogModel?.pricing)],
+    ['Capabilities', formatCapabilities(catalogModel)],
+    ['Aliases', catalogModel?.aliases?.join(', ')],
+    [installer ? 'Installed' : 'Available', info ? chalk.green('yes') : chalk.yellow(fetcher ? 'no' : 'unknown')],
+    ['Profile', `${target.name}${modelId === target.config.model ? chalk.green(' (current model)') : ''}`]
+  ];
+
+  console.log(chalk.bold.cyan(`\n🔎 ${info?.name ?? catalogModel?.name ?? modelId}\n`));
+  for (const [label, value] of rows) {
+    if (value) {
+      console.log(`  ${chalk.white(`${label}:`.padEnd(16))}${value}`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(info?.metadata ?? {})) {
+    console.log(`  ${chalk.dim(`${key}:`.padEnd(16))}${chalk.dim(String(value))}`);
+  }
+  console.log('');
+}
+
+/**
+ * Install a model with a progress bar
+ */
+async function pullModel(modelId: string, profileName?: string): Promise<void> {
+  const target = await resolveProfile(profileName);
+  const installer = requireInstaller(target);
+
+  const installed = await installer.listModels();
+  if (installed.some(model => model.id === modelId)) {
+    console.log(chalk.dim(`\n  Model "${modelId}" is already installed\n`));
+    return;
+  }
+
+  console.log(chalk.cyan(`\n📦 Pulling ${modelId} into ${target.providerName}`));
+  console.log(chalk.dim('  This may take several minutes depending on model size...\n'));
+
+  const spinner = ora(`Pulling ${modelId}...`).start();
+  try {
+    await installer.installModel(modelId, (progress) => {
+      if (progress.status === 'downloading' || progress.status === 'installing') {
+        spinner.text = formatInstallProgress(progress) || `Pulling ${modelId}...`;
+      } else if (progress.status === 'complete') {
+        spinner.succeed(chalk.green(progress.message || `Pulled ${modelId}`));
+      } else if (progress.status === 'error') {
+        spinner.fail(chalk.red(progress.message || `Failed to pull ${modelId}`));
+      }
+    });
+  } catch (error) {
+    if (spinner.isSpinning) {
+      spinner.fail(chalk.red(`Failed to pull ${modelId}`));
+    }
+    throw error;
+  }
+
+  if (modelId !== target.config.model) {
+    console.log(chalk.dim(`\n  Use it with: codemie models use ${modelId}${profileName ? ` --profile ${target.name}` : ''}`));
+  }
+  console.log('');
+}
+
+/**
+ * Remove an installed model
+ */
+async function removeModel(modelId: string, options: { profile?: string; yes?: boolean }): Promise<void> {
+  const target = await resolveProfile(options.profile);
+  const installer = requireInstaller(target);
+
+  const installed = await installer.listModels();
+  if (!installed.some(model => model.id === modelId)) {
+    throw new Error(`Model "${modelId}" is not installed`);
+  }
+
+  if (!options.yes) {
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `Remove model "${modelId}" from ${target.providerName}?`,
+        default: false
+      }
+    ]);
+
+    if (!confirm) {
+      console.log(chalk.yellow('\nRemoval cancelled.\n'));
+      return;
+    }
+  }
+
+  await installer.removeModel(modelId);
+  console.log(chalk.green(`\n✓ Removed model "${modelId}"`));
+
+  if (modelId === target.config.model) {
+    console.log(chalk.yellow(`\n⚠️  Profile "${target.name}" still uses this model. Choose another with: codemie models use <model>`));
+  }
+  console.log('');
+}
+
+/**
+ * Set the model of a profile after checking that its provider offers it
+ */
+async function useModel(modelId: string, options: { profile?: string; force?: boolean }): Promise<void> {
+  const target = await resolveProfile(options.profile);
+
+  if (modelId === target.config.model) {
+    console.log(chalk.yellow(`\nProfile "${target.name}" already uses model "${modelId}".\n`));
+    return;
+  }
+
+  const fetcher = ProviderRegistry.getModelProxy(target.config.provider || '');
+  if (fetcher && !options.force) {
+    let models: ModelInfo[] | undefined;
+    try {
+      models = await fetcher.fetchModels(target.config);
+    } catch (error) {
+      logger.debug(`Failed to fetch models from ${target.providerName}:`, error);
+      console.log(chalk.yellow(`\n⚠️  Could not fetch models from ${target.providerName}; setting the model without checking it`));
+    }
+
+    if (models && models.length > 0 && !models.some(model => model.id === modelId)) {
+      const hint = getInstaller(target, fetcher)
+        ? `Install it first: codemie models pull ${modelId}`
+        : 'See available models with: codemie models list (or pass --force)';
+      throw new Error(`Model "${modelId}" is not available for profile "${target.name}". ${hint}`);
+    }
+  }
+
+  await ConfigLoader.saveProfile(target.name, { ...target.profile, model: modelId });
+  console.log(chalk.green(`\n✓ Profile "${target.name}" now uses model "${modelId}"`));
+
+  const catalogModel = findModel(modelId);
+  if (catalogModel) {
+    console.log(chalk.dim(`  Context window: ${formatTokenCount(catalogModel.contextWindow)} · Pricing: ${formatPricing(catalogModel.pricing)}`));
+  }
+  console.log('');
+}
+
+/**
+ * Get the named profile, or the active profile
+ */
+async function resolveProfile(profileName?: string): Promise<ModelsProfile> {
+  const name = profileName ?? await ConfigLoader.getActiveProfileName();
+  if (!name) {
+    throw new Error('No active profile. Run "codemie setup" to create one.');
+  }
+
+  const profile = await ConfigLoader.getProfile(name);
+  if (!profile) {
+    const available = (await ConfigLoader.listProfiles()).map(p => p.name);
+    throw new Error(`Profile "${name}" not found. Available profiles: ${available.join(', ') || 'none'}`);
+  }
+
+  // Provider and model may be inherited through `extends`
+  const config = await resolveSecrets(await ConfigLoader.getEffectiveProfile(name) ?? profile);
+  const provider = config.provider || '';
+  return {
+    name,
+    profile,
+    config,
+    providerName: ProviderRegistry.getProvider(provider)?.displayName ?? provider
+  };
+}
+
+function getModelFetcher(target: ModelsProfile): ProviderModelFetcher {
+  const fetcher = ProviderRegistry.getModelProxy(target.config.provider || '');
+  if (!fetcher) {
+    throw new Error(`${target.providerName} does not support listing models`);
+  }
+  return fetcher;
+}
+
+function getInstaller(target: ModelsProfile, fetcher: ProviderModelFetcher): ModelInstallerProxy | undefined {
+  const installer = fetcher.getInstaller?.(target.config);
+  return installer?.supportsInstallation() ? installer : undefined;
+}
+
+function requireInstaller(target: ModelsProfile): ModelInstallerProxy {
+  const installer = getInstaller(target, getModelFetcher(target));
+  if (!installer) {
+    throw new Error(`${target.providerName} does not support installing or removing models`);
+  }
+  return installer;
+}
+
+function handleError(message: string, error: unknown): never {
+  logger.error(`${message}:`, error);
+  console.error(chalk.red(`\n✗ ${message}: ${error instanceof Error ? error.message : String(error)}\n`));
+  process.exit(1);
+}
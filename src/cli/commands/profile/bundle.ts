@@ -0,0 +1,347 @@
+/**
+ * Profile bundles
+ *
+ * Portable JSON files with the settings of a profile (provider, model, allowed
+ * dirs, ignore patterns, metrics, workflow defaults, ...) for onboarding team
+ * members without walking them through `codemie setup`. Secrets never leave
+ * the machine: they are replaced by prompts that `codemie profile import` asks.
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { readFile, writeFile } from 'fs/promises';
+import { z } from 'zod';
+import { validateProfile, type ConfigIssue } from '../../../env/schema.js';
+import type { ProviderProfile } from '../../../env/types.js';
+import { ConfigLoader } from '../../../utils/config.js';
+import { logger } from '../../../utils/logger.js';
+import { SECRET_FIELDS, isPlaintextSecret, isSecretReference } from '../../../utils/secrets.js';
+import { isSensitiveKey } from '../../../utils/security.js';
+import { getByPath, parsePath, setByPath, unsetByPath } from '../config/dotted-path.js';
+import { getReferencedEnvVars } from '../../../agents/codemie-code/tools/mcp-approvals.js';
+
+export const BUNDLE_FORMAT_VERSION = 1;
+
+/**
+ * Portable profile settings
+ */
+export interface ProfileBundle {
+  codemieProfileBundle: typeof BUNDLE_FORMAT_VERSION;
+  name: string;           // Suggested profile name
+  exportedAt: string;
+  profile: ProviderProfile;
+  prompts?: string[];     // Dotted paths of secrets asked on import
+}
+
+const ProfileBundleSchema = z.strictObject({
+  codemieProfileBundle: z.literal(BUNDLE_FORMAT_VERSION),
+  name: z.string().min(1),
+  exportedAt: z.string().optional(),
+  profile: z.record(z.string(), z.unknown()),
+  prompts: z.array(z.string()).optional()
+});
+
+// ${VAR} placeholders of MCP server env and headers, expanded from the environment
+const ENV_PLACEHOLDER_PATTERN = /^\$\{[A-Za-z_][A-Za-z0-9_]*\}$/;
+
+/**
+ * Create a bundle of a profile's settings
+ *
+ * Secret values are always replaced by prompts. References to secrets
+ * (env:, file:, cmd:, ${VAR}) are kept, as they name where each team member
+ * keeps the secret, unless redact is set.
+ */
+export function createProfileBundle(name: string, profile: ProviderProfile, options: { redact?: boolean } = {}): ProfileBundle {
+  const settings = structuredClone(profile);
+  const prompts: string[] = [];
+
+  // Machine-specific: profile name, inheritance (settings are flattened) and SSO session
+  delete settings.name;
+  delete settings.extends;
+  delete settings.ssoConfig;
+
+  const isPortableReference = (value: string): boolean =>
+    !options.redact && (ENV_PLACEHOLDER_PATTERN.test(value) || (isSecretReference(value) && !value.startsWith('keychain:')));
+
+  for (const field of SECRET_FIELDS) {
+    const value = settings[field];
+    if (value === undefined || isPortableReference(value)) continue;
+    if (!isPlaintextSecret(value) && !isSecretReference(value)) continue;  // Placeholder such as not-required
+
+    delete settings[field];
+    prompts.push(field);
+  }
+
+  // Sensitive headers and environment variables
+  const sensitiveMaps: string[][] = [['headers']];
+  for (const server of Object.keys(settings.mcpServers ?? {})) {
+    sensitiveMaps.push(['mcpServers', server, 'env'], ['mcpServers', server, 'headers']);
+  }
+  for (const mapPath of sensitiveMaps) {
+    const values = getByPath(settings as Record<string, unknown>, mapPath) as Record<string, string> | undefined;
+
+    for (const [key, value] of Object.entries(values ?? {})) {
+      if (!isSensitiveKey(key) || isPortableReference(value)) continue;
+
+      delete values![key];
+      prompts.push([...mapPath, key].join('.'));
+    }
+  }
+
+  return {
+    codemieProfileBundle: BUNDLE_FORMAT_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    profile: settings,
+    ...(prompts.length > 0 ? { prompts } : {})
+  };
+}
+
+/**
+ * Parse and validate a bundle
+ * @throws Error listing every problem of the bundle
+ */
+export function parseProfileBundle(content: string, source: string): ProfileBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = ProfileBundleSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`${source} is not a CodeMie profile bundle:\n${result.error.issues
+      .map(issue => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n')}`);
+  }
+
+  const bundle = result.data as ProfileBundle;
+  if (bundle.profile.extends !== undefined) {
+    throw new Error(`${source}: profile.extends is not supported in bundles`);
+  }
+  bundle.prompts?.forEach(parsePath);
+
+  assertValidProfile(bundle.profile, source);
+  return bundle;
+}
+
+/**
+ * Read a bundle from a file or an http(s) URL
+ */
+export async function readBundleSource(source: string): Promise<string> {
+  if (!/^https?:\/\//i.test(source)) {
+    return readFile(source, 'utf-8');
+  }
+
+  const response = await fetch(source, { signal: AbortSignal.timeout(15000) });
+  if (!response.ok) {
+    throw new Error(`Cannot download ${source}: HTTP ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+export function createExportCommand(): Command {
+  const command = new Command('export');
+
+  command
+    .description('Export the settings of a profile as a portable bundle (secrets are never exported)')
+    .argument('<profile>', 'Profile to export')
+    .option('--redact', 'Also replace secret references (env:, file:, cmd:) and sensitive headers with prompts')
+    .option('-o, --output <file>', 'Write the bundle to a file instead of stdout')
+    .action(async (profileName: string, options: { redact?: boolean; output?: string }) => {
+      try {
+        const profile = await ConfigLoader.getEffectiveProfile(profileName);
+        if (!profile) {
+          const available = (await ConfigLoader.listProfiles()).map(p => p.name);
+          throw new Error(`Profile "${profileName}" not found. Available profiles: ${available.join(', ') || 'none'}`);
+        }
+
+        const bundle = createProfileBundle(profileName, profile, options);
+        const content = JSON.stringify(bundle, null, 2) + '\n';
+
+        if (!options.output) {
+          process.stdout.write(content);
+          return;
+        }
+
+        await writeFile(options.output, content, 'utf-8');
+        console.log(chalk.green(`\n✓ Profile "${profileName}" exported to ${options.output}`));
+        if (bundle.prompts) {
+          console.log(chalk.white(`  Asked on import: ${bundle.prompts.join(', ')}`));
+        }
+        console.log(chalk.white(`  Import with: ${chalk.cyan(`codemie profile import ${options.output}`)}\n`));
+      } catch (error: unknown) {
+        handleError('Failed to export profile', error);
+      }
+    });
+
+  return command;
+}
+
+export function createImportCommand(): Command {
+  const command = new Command('import');
+
+  command
+    .description('Create a profile from a bundle file or URL')
+    .argument('<source>', 'Bundle file or http(s) URL')
+    .option('-n, --name <name>', 'Profile name (default: name in the bundle)')
+    .option('-f, --force', 'Replace an existing profile with the same name')
+    .option('-y, --yes', 'Skip the confirmation of bundles that run no commands, read no secrets and grant no permissions')
+    .option('--activate', 'Switch to the imported profile')
+    .action(async (source: string, options: { name?: string; force?: boolean; yes?: boolean; activate?: boolean }) => {
+      try {
+        await handleImport(source, options);
+      } catch (error: unknown) {
+        handleError('Failed to import profile', error);
+      }
+    });
+
+  return command;
+}
+
+async function handleImport(
+  source: string,
+  options: { name?: string; force?: boolean; yes?: boolean; activate?: boolean }
+): Promise<void> {
+  const bundle = parseProfileBundle(await readBundleSource(source), source);
+  const name = options.name?.trim() || bundle.name;
+
+  if (!options.force && await ConfigLoader.getProfile(name)) {
+    throw new Error(`Profile "${name}" already exists. Use --name to import it under another name or --force to replace it`);
+  }
+
+  const risks = getBundleRisks(bundle.profile);
+  displayBundle(name, bundle, risks);
+
+  // Commands, local secrets and permissions are always confirmed, --yes does not skip them
+  const needsReview = risks.commands.length + risks.secrets.length + risks.grants.length > 0;
+  if (needsReview && options.yes && !process.stdin.isTTY) {
+    throw new Error(`${source} runs commands, reads local secrets or grants permissions; import it in a terminal to confirm them`);
+  }
+  if (needsReview || !options.yes) {
+    const { confirm } = await inquirer.prompt([{
+      type: 'confirm',
+      name: 'confirm',
+      message: needsReview
+        ? `Create profile "${name}" with the commands, secrets and permissions listed above?`
+        : `Create profile "${name}" with these settings?`,
+      default: !needsReview
+    }]);
+    if (!confirm) {
+      console.log(chalk.yellow('\nImport cancelled.\n'));
+      return;
+    }
+  }
+
+  const profile = structuredClone(bundle.profile);
+  for (const path of bundle.prompts ?? []) {
+    const { value } = await inquirer.prompt([
+      { type: 'password', name: 'value', message: `${path} (leave empty to skip):`, mask: '*' }
+    ]);
+
+    const keys = parsePath(path);
+    if (value?.trim()) {
+      setByPath(profile as Record<string, unknown>, keys, value.trim());
+    } else {
+      unsetByPath(profile as Record<string, unknown>, keys);
+    }
+  }
+
+  assertValidProfile(profile, source);
+  await ConfigLoader.saveProfile(name, profile);
+  if (options.activate) {
+    await ConfigLoader.switchProfile(name);
+  }
+
+  console.log(chalk.green(`\n✓ Profile "${name}" imported`));
+  if (!options.activate && await ConfigLoader.getActiveProfileName() !== name) {
+    console.log(chalk.white(`  Switch to it with: ${chalk.cyan(`codemie profile switch ${name}`)}`));
+  }
+  console.log('');
+}
+
+/**
+ * Settings of a bundle that act on the user's machine or on their behalf
+ */
+interface BundleRisks {
+  commands: string[];  // Commands the profile runs
+  secrets: string[];   // Local secrets the profile reads and sends
+  grants: string[];    // Permissions the profile grants the agent
+}
+
+function getBundleRisks(profile: ProviderProfile): BundleRisks {
+  const risks: BundleRisks = { commands: [], secrets: [], grants: [] };
+  const servers = Object.entries(profile.mcpServers ?? {});
+
+  for (const field of SECRET_FIELDS) {
+    const value = profile[field];
+    if (value?.startsWith('cmd:')) {
+      risks.commands.push(`${field}: ${value}`);
+    } else if (value && isSecretReference(value)) {
+      risks.secrets.push(`${field}: ${value} (sent to ${profile.baseUrl ?? 'the provider'})`);
+    }
+  }
+
+  for (const [server, config] of servers) {
+    if (config.command) {
+      risks.commands.push(`MCP server ${server}: ${[config.command, ...(config.args ?? [])].join(' ')}`);
+    }
+    const envVars = getReferencedEnvVars(config);
+    if (envVars.length > 0) {
+      risks.secrets.push(`MCP server ${server}: ${envVars.join(', ')} (sent to ${config.url ?? config.command})`);
+    }
+    if (config.trusted) {
+      risks.grants.push(`MCP server ${server} is trusted: its read-only tools run without asking`);
+    }
+  }
+
+  if (profile.permissions?.mode) {
+    risks.grants.push(`Permission mode: ${profile.permissions.mode}`);
+  }
+  profile.permissions?.allow?.forEach(rule => risks.grants.push(`Allowed without asking: ${rule}`));
+
+  return risks;
+}
+
+/**
+ * Show what a bundle configures, including commands it would run
+ */
+function displayBundle(name: string, bundle: ProfileBundle, risks: BundleRisks): void {
+  const { profile } = bundle;
+
+  console.log(chalk.bold(`\nProfile "${name}"`) + chalk.dim(` (exported ${bundle.exportedAt ?? 'at an unknown time'})`));
+  console.log(`  Provider: ${profile.provider ?? '-'}`);
+  console.log(`  Base URL: ${profile.baseUrl ?? '-'}`);
+  console.log(`  Model:    ${profile.model ?? '-'}`);
+
+  const sections: Array<[string, string[]]> = [
+    ['Commands this profile runs on your machine:', risks.commands],
+    ['Local secrets this profile reads and sends:', risks.secrets],
+    ['Permissions this profile grants:', risks.grants]
+  ];
+  for (const [title, lines] of sections) {
+    if (lines.length === 0) continue;
+    console.log(chalk.yellow(`\n  ${title}`));
+    lines.forEach(line => console.log(chalk.yellow(`    ${line}`)));
+  }
+
+  if (bundle.prompts?.length) {
+    console.log(chalk.white(`\n  You will be asked for: ${bundle.prompts.join(', ')}`));
+  }
+  console.log('');
+}
+
+function assertValidProfile(profile: ProviderProfile, source: string): void {
+  const issues: ConfigIssue[] = validateProfile(profile);
+  if (issues.length > 0) {
+    throw new Error(`Invalid profile in ${source}:\n${issues.map(issue => `  profile.${issue.path}: ${issue.message}`).join('\n')}`);
+  }
+}
+
+function handleError(message: string, error: unknown): never {
+  logger.error(`${message}:`, error);
+  console.error(chalk.red(`\n✗ ${message}: ${error instanceof Error ? error.message : String(error)}\n`));
+  process.exit(1);
+}
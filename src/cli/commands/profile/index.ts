@@ -7,6 +7,7 @@ import { ProfileDisplay } from './display.js';
 import { ProviderRegistry } from '../../../providers/core/registry.js';
 import { handleAuthValidationFailure } from '../../../providers/core/auth-validation.js';
 import { createLoginCommand, createLogoutCommand, createRefreshCommand } from './auth.js';
+import { createExportCommand, createImportCommand } from './bundle.js';
 
 export function createProfileCommand(): Command {
   const command = new Command('profile');
@@ -23,7 +24,9 @@ export function createProfileCommand(): Command {
     .addCommand(createRefreshCommand())
     .addCommand(createSwitchCommand())
     .addCommand(createDeleteCommand())
-    .addCommand(createRenameCommand());
+    .addCommand(createRenameCommand())
+    .addCommand(createExportCommand())
+    .addCommand(createImportCommand());
 
   return command;
 }
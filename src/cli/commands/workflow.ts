@@ -19,6 +19,8 @@ import {
   type VCSProvider,
   type WorkflowInstallOptions,
 } from '../../workflows/index.js';
+import type { WorkflowPreferences } from '../../env/types.js';
+import { ConfigLoader } from '../../utils/config.js';
 
 export function createWorkflowCommand(): Command {
   const workflow = new Command('workflow')
@@ -257,6 +259,9 @@ Configuration Guide:
         console.log('');
       }
 
+      // Defaults from the active profile (see `workflow` in the profile settings)
+      const preferences = await getWorkflowPreferences();
+
       // Interactive mode
       let installOptions: WorkflowInstallOptions = {
         force: options.force,
@@ -274,7 +279,7 @@ Configuration Guide:
             type: 'input',
             name: 'timeout',
             message: 'Workflow timeout (minutes):',
-            default: String(template.config.timeout || 15),
+            default: String(preferences.timeout || template.config.timeout || 15),
             validate: (value: string) => {
               if (!value || value.trim() === '') return true; // Allow empty to use default
               const num = parseInt(value);
@@ -288,7 +293,7 @@ Configuration Guide:
             type: 'input',
             name: 'maxTurns',
             message: 'Maximum AI turns:',
-            default: String(template.config.maxTurns || 50),
+            default: String(preferences.maxTurns || template.config.maxTurns || 50),
             validate: (value: string) => {
               if (!value || value.trim() === '') return true; // Allow empty to use default
               const num = parseInt(value);
@@ -305,7 +310,7 @@ Configuration Guide:
             type: 'input',
             name: 'environment',
             message: 'GitHub environment (optional):',
-            default: template.config.environment || ''
+            default: preferences.environment || template.config.environment || ''
           });
         }
 
@@ -333,10 +338,13 @@ Configuration Guide:
           console.log('');
         }
       } else {
-        // Use CLI options
-        if (options.timeout) installOptions.timeout = options.timeout;
-        if (options.maxTurns) installOptions.maxTurns = options.maxTurns;
-        if (options.environment) installOptions.environment = options.environment;
+        // Use CLI options, then profile preferences
+        const timeout = options.timeout || preferences.timeout;
+        const maxTurns = options.maxTurns || preferences.maxTurns;
+        const environment = options.environment || preferences.environment;
+        if (timeout) installOptions.timeout = timeout;
+        if (maxTurns) installOptions.maxTurns = maxTurns;
+        if (environment) installOptions.environment = environment;
       }
 
       // Install workflow
@@ -436,3 +444,16 @@ Note: This removes the workflow file but doesn't delete workflow runs or history
 
   return workflow;
 }
+
+/**
+ * Get the workflow preferences of the active profile (none if the config cannot be read)
+ */
+async function getWorkflowPreferences(): Promise<WorkflowPreferences> {
+  try {
+    const activeProfile = await ConfigLoader.getActiveProfileName();
+    const profile = activeProfile ? await ConfigLoader.getEffectiveProfile(activeProfile) : null;
+    return profile?.workflow ?? {};
+  } catch {
+    return {};
+  }
+}
@@ -18,6 +18,8 @@ import { createWorkflowCommand } from './commands/workflow.js';
 import { createProfileCommand } from './commands/profile/index.js';
 import { createAnalyticsCommand } from './commands/analytics/index.js';
 import { createHookCommand } from './commands/hook.js';
+import { createModelsCommand } from './commands/models/index.js';
+import { createConfigCommand } from './commands/config/index.js';
 import { FirstTimeExperience } from './first-time.js';
 import chalk from 'chalk';
 import { readFileSync } from 'fs';
@@ -55,6 +57,8 @@ program.addCommand(createVersionCommand());
 program.addCommand(createWorkflowCommand());
 program.addCommand(createAnalyticsCommand());
 program.addCommand(createHookCommand());
+program.addCommand(createModelsCommand());
+program.addCommand(createConfigCommand());
 
 // Check for --task option before parsing commands
 const taskIndex = process.argv.indexOf('--task');
@@ -0,0 +1,100 @@
+/**
+ * Configuration Schema Unit Tests
+ *
+ * Tests error paths of invalid configs, profile inheritance and the published JSON Schemas
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  ConfigValidationError,
+  assertValidConfig,
+  getConfigJsonSchema,
+  resolveProfileExtends,
+  validateConfig
+} from '../schema.js';
+
+describe('Configuration schema', () => {
+  it('should accept valid global and project configs', () => {
+    expect(validateConfig({
+      version: 2,
+      activeProfile: 'work',
+      profiles: {
+        work: { provider: 'litellm', baseUrl: 'https://litellm.company.com', apiKey: 'env:LITELLM_KEY', model: 'claude-4-5-sonnet', timeout: 300 }
+      }
+    }, 'global')).toEqual([]);
+
+    expect(validateConfig({ $schema: '../schemas/codemie-project.config.schema.json', permissions: { mode: 'ask', allow: ['execute_command(npm test)'] } }, 'project')).toEqual([]);
+  });
+
+  it('should report typos and wrong types with their paths', () => {
+    const issues = validateConfig({
+      version: 2,
+      activeProfile: 'work',
+      profiles: { work: { baseURL: 'https://api.openai.com/v1', timout: 300, retry: { maxRetries: '3' } } }
+    }, 'global');
+
+    expect(issues).toEqual(expect.arrayContaining([
+      { path: 'profiles.work.baseURL', message: 'Unknown key (did you mean "baseUrl"?)' },
+      { path: 'profiles.work.timout', message: 'Unknown key (did you mean "timeout"?)' },
+      { path: 'profiles.work.retry.maxRetries', message: expect.stringContaining('expected number') }
+    ]));
+    expect(issues).toHaveLength(3);
+  });
+
+  it('should validate legacy and project configs with the profile settings', () => {
+    expect(validateConfig({ provider: 'openai', modle: 'gpt-4.1' }, 'global')).toEqual([
+      { path: 'modle', message: 'Unknown key (did you mean "model"?)' }
+    ]);
+    expect(validateConfig({ extends: 'work' }, 'project')).toEqual([
+      { path: 'extends', message: 'Unknown key' }
+    ]);
+  });
+
+  it('should throw with every issue in the message', () => {
+    expect(() => assertValidConfig({ timout: 1 }, 'project', '.codemie/codemie-cli.config.json')).toThrow(ConfigValidationError);
+    expect(() => assertValidConfig({ timout: 1 }, 'project', '.codemie/codemie-cli.config.json')).toThrow(
+      'Invalid configuration in .codemie/codemie-cli.config.json:\n  timout: Unknown key (did you mean "timeout"?)'
+    );
+  });
+
+  it('should resolve profile inheritance with overrides', () => {
+    const profiles = {
+      base: { provider: 'litellm', baseUrl: 'https://litellm.company.com', apiKey: 'env:LITELLM_KEY', model: 'claude-4-5-sonnet' },
+      fast: { extends: 'base', model: 'claude-haiku-4-5' },
+      faster: { extends: 'fast', timeout: 60 }
+    };
+
+    expect(resolveProfileExtends(profiles, 'faster')).toEqual({
+      name: 'faster',
+      provider: 'litellm',
+      baseUrl: 'https://litellm.company.com',
+      apiKey: 'env:LITELLM_KEY',
+      model: 'claude-haiku-4-5',
+      timeout: 60
+    });
+  });
+
+  it('should report unknown and circular extends', () => {
+    const issues = validateConfig({
+      version: 2,
+      activeProfile: 'a',
+      profiles: { a: { extends: 'b' }, b: { extends: 'a' }, c: { extends: 'missing' } }
+    }, 'global');
+
+    expect(issues).toEqual([
+      { path: 'profiles.a.extends', message: 'Profile "a" has circular extends: a → b → a' },
+      { path: 'profiles.b.extends', message: 'Profile "b" has circular extends: b → a → b' },
+      { path: 'profiles.c.extends', message: 'Profile "c" extends unknown profile "missing"' }
+    ]);
+  });
+
+  it('should match the published JSON Schemas', () => {
+    const schemasDir = join(__dirname, '../../../schemas');
+
+    // Regenerate with: codemie config schema [--project] > schemas/<file>
+    expect(JSON.parse(readFileSync(join(schemasDir, 'codemie-cli.config.schema.json'), 'utf-8'))).toEqual(getConfigJsonSchema('global'));
+    expect(JSON.parse(readFileSync(join(schemasDir, 'codemie-project.config.schema.json'), 'utf-8'))).toEqual(getConfigJsonSchema('project'));
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Configuration schema for CodeMie Code
+ *
+ * Zod schemas of the global config (~/.codemie/codemie-cli.config.json) and the
+ * project config (.codemie/codemie-cli.config.json). Unknown keys are rejected,
+ * so typos such as `baseURL` or `timout` fail at load time instead of being ignored.
+ * The published JSON Schemas in schemas/ are generated from these definitions.
+ */
+
+import { z } from 'zod';
+import { ConfigurationError } from '../utils/errors.js';
+import { isSecretReference } from '../utils/secrets.js';
+import type { ProviderProfile } from './types.js';
+
+const PermissionSettingsSchema = z.strictObject({
+  mode: z.enum(['ask', 'auto-accept-edits', 'read-only']).optional()
+    .describe('ask: prompt before mutating tools; auto-accept-edits: edits run without prompting; read-only: deny mutating tools'),
+  allow: z.array(z.string()).optional().describe('Rules of tool calls that run without prompting, e.g. "execute_command(npm test)"'),
+  deny: z.array(z.string()).optional().describe('Rules of tool calls that are always denied, e.g. "write_file(.env)"')
+});
+
+const MCPServerConfigSchema = z.strictObject({
+  type: z.enum(['stdio', 'http']).optional().describe('Inferred from command/url when omitted'),
+  command: z.string().optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+  cwd: z.string().optional(),
+  url: z.string().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  enabled: z.boolean().optional().describe('Default: true'),
+  timeout: z.number().int().positive().optional().describe('Tool call timeout in ms (default: 60000)'),
+  trusted: z.boolean().optional().describe('Run tools the server marks as read-only without approval (ignored in the project config)')
+});
+
+const ModelFallbackSchema = z.strictObject({
+  profile: z.string().optional().describe('Profile whose provider and credentials are used (default: current profile)'),
+  model: z.string().optional().describe('Model to use (default: the fallback profile\'s model)')
+});
+
+const RetrySettingsSchema = z.strictObject({
+  maxRetries: z.number().int().nonnegative().optional().describe('Retries per model before falling back (default: 3)'),
+  initialDelayMs: z.number().int().nonnegative().optional().describe('Delay before the first retry (default: 1000)'),
+  maxDelayMs: z.number().int().nonnegative().optional().describe('Upper bound of the retry delay (default: 30000)')
+});
+
+const TlsSettingsSchema = z.strictObject({
+  caFile: z.string().optional().describe('PEM bundle of CAs to trust in addition to the system CAs'),
+  rejectUnauthorized: z.boolean().optional().describe('Verify server certificates (default: true)')
+});
+
+const MetricsSettingsSchema = z.strictObject({
+  enabled: z.boolean().optional().describe('Enable metrics collection (default: true)'),
+  sync: z.strictObject({
+    enabled: z.boolean().optional().describe('Enable metrics sync (default: true for SSO)'),
+    interval: z.number().int().positive().optional().describe('Sync interval in ms (default: 300000)'),
+    maxRetries: z.number().int().nonnegative().optional().describe('Max retry attempts (default: 3)'),
+    dryRun: z.boolean().optional().describe('Log metrics without sending (default: false)')
+  }).optional()
+});
+
+const CassetteSettingsSchema = z.strictObject({
+  mode: z.enum(['record', 'replay']).describe('Record responses to the cassette directory or replay them from it'),
+  dir: z.string().min(1).optional().describe('Cassette directory (default: ~/.codemie/cassettes)')
+});
+
+const CacheSettingsSchema = z.strictObject({
+  enabled: z.boolean().optional().describe('Serve repeated temperature 0 requests from ~/.codemie/cache'),
+  ttlSeconds: z.number().int().positive().optional().describe('Lifetime of cached responses (default: 86400)'),
+  maxSizeMb: z.number().positive().optional().describe('Size limit of the cache (default: 100)')
+});
+
+const RedactionPolicySchema = z.enum(['mask', 'block', 'warn']);
+
+const RegExpSchema = z.string().min(1).refine(isValidRegExp, 'Invalid regular expression');
+
+const RedactionSettingsSchema = z.strictObject({
+  enabled: z.boolean().optional().describe('Scan prompts for secrets and personal data before they are sent'),
+  policy: RedactionPolicySchema.optional().describe('Mask, block or warn about detected secrets (default: mask)'),
+  detectors: z.partialRecord(
+    z.enum(['private-key', 'aws-access-key', 'aws-secret-key', 'github-token', 'jwt', 'email']),
+    z.enum(['mask', 'block', 'warn', 'off'])
+  ).optional().describe('Policy per built-in detector'),
+  patterns: z.array(z.strictObject({
+    name: z.string().min(1).describe('Detector name shown in logs and masks'),
+    pattern: RegExpSchema.describe('Regular expression'),
+    policy: RedactionPolicySchema.optional().describe('Policy of this detector (default: the redaction policy)')
+  })).optional().describe('Custom detectors'),
+  allow: z.array(RegExpSchema).optional().describe('Regular expressions of values that are never redacted')
+});
+
+const ProxySettingsSchema = z.strictObject({
+  enabled: z.boolean().optional().describe('Route agent requests through the CodeMie proxy (always on for SSO providers)'),
+  cassette: CassetteSettingsSchema.optional().describe('Record or replay proxied requests for offline testing'),
+  cache: CacheSettingsSchema.optional().describe('Response cache of deterministic requests'),
+  redaction: RedactionSettingsSchema.optional().describe('Redaction of secrets in prompts')
+});
+
+const BudgetLimitSchema = z.strictObject({
+  tokens: z.number().int().positive().optional().describe('Input and output tokens'),
+  cost: z.number().positive().optional().describe('Estimated cost in USD')
+});
+
+const BudgetSettingsSchema = z.strictObject({
+  session: BudgetLimitSchema.optional().describe('Limit per agent session'),
+  daily: BudgetLimitSchema.optional().describe('Limit per profile and calendar day'),
+  monthly: BudgetLimitSchema.optional().describe('Limit per profile and calendar month'),
+  warnAt: z.number().gt(0).max(1).optional().describe('Fraction of a limit that triggers a warning (default: 0.8)')
+});
+
+const WorkflowPreferencesSchema = z.strictObject({
+  timeout: z.number().int().positive().optional().describe('Workflow timeout in minutes'),
+  maxTurns: z.number().int().positive().optional().describe('Maximum AI conversation turns'),
+  environment: z.string().optional().describe('GitHub environment for protection rules')
+});
+
+/**
+ * Settings shared by profiles and the project config
+ */
+const ProfileSettingsShape = {
+  provider: z.string().optional().describe('Provider name, e.g. openai, anthropic, litellm, ollama'),
+  baseUrl: z.string().optional().describe('Provider API base URL'),
+  apiKey: z.string().optional().describe('API key or secret reference (env:, keychain:, file:, cmd:)'),
+  model: z.string().optional(),
+  timeout: z.number().nonnegative().optional().describe('Request timeout in seconds (0: unlimited)'),
+  debug: z.boolean().optional(),
+  allowedDirs: z.array(z.string()).optional(),
+  ignorePatterns: z.array(z.string()).optional(),
+
+  // SSO-specific fields
+  authMethod: z.enum(['manual', 'sso']).optional(),
+  codeMieUrl: z.string().optional(),
+  codeMieProject: z.string().optional(),
+  codeMieIntegration: z.looseObject({ id: z.string(), alias: z.string() }).optional(),
+  ssoConfig: z.looseObject({ apiUrl: z.string().optional(), cookiesEncrypted: z.string().optional() }).optional(),
+
+  // AWS Bedrock-specific fields
+  awsProfile: z.string().optional(),
+  awsRegion: z.string().optional(),
+  awsSecretAccessKey: z.string().optional().describe('AWS secret access key or secret reference'),
+
+  // Google Vertex AI-specific fields
+  vertexProject: z.string().optional(),
+  vertexLocation: z.string().optional(),
+  vertexCredentialsFile: z.string().optional().describe('Service account key file'),
+
+  // OpenAI-compatible provider fields
+  authHeader: z.string().optional().describe('Header carrying the API key (default: Authorization)'),
+  authScheme: z.string().optional().describe('Scheme before the API key (default: Bearer; empty sends the bare key)'),
+  headers: z.record(z.string(), z.string()).optional().describe('Static headers sent with every request'),
+  tls: TlsSettingsSchema.optional(),
+
+  maxOutputTokens: z.number().int().positive().optional(),
+  maxThinkingTokens: z.number().int().nonnegative().optional(),
+  permissions: PermissionSettingsSchema.optional().describe('Tool permissions of the built-in agent'),
+  mcpServers: z.record(z.string(), MCPServerConfigSchema).optional().describe('MCP servers of the built-in agent, keyed by name'),
+  fallbacks: z.array(ModelFallbackSchema).optional().describe('Fallback models of the built-in agent, tried in order'),
+  retry: RetrySettingsSchema.optional(),
+  proxy: ProxySettingsSchema.optional().describe('Local proxy of external agents'),
+  budget: BudgetSettingsSchema.optional().describe('Token and cost limits enforced by the CodeMie proxy'),
+  workflow: WorkflowPreferencesSchema.optional().describe('Defaults of codemie workflow install'),
+  metrics: MetricsSettingsSchema.optional()
+};
+
+export const ProviderProfileSchema = z.strictObject({
+  name: z.string().optional(),
+  extends: z.string().optional().describe('Profile whose settings this profile inherits and overrides'),
+  ...ProfileSettingsShape
+});
+
+export const MultiProviderConfigSchema = z.strictObject({
+  $schema: z.string().optional(),
+  version: z.literal(2),
+  activeProfile: z.string(),
+  profiles: z.record(z.string(), ProviderProfileSchema)
+});
+
+/**
+ * Project config (.codemie/codemie-cli.config.json), layered over the active profile
+ */
+export const ProjectConfigSchema = z.strictObject({
+  $schema: z.string().optional(),
+  ...ProfileSettingsShape,
+  // A cloned repository must not run commands or read local secrets through references
+  apiKey: z.string().refine(value => !isSecretReference(value), 'Secret references are only allowed in profiles of the global config')
+    .optional().describe('API key (secret references are only allowed in the global config)'),
+  awsSecretAccessKey: z.string().refine(value => !isSecretReference(value), 'Secret references are only allowed in profiles of the global config')
+    .optional().describe('AWS secret access key (secret references are only allowed in the global config)')
+});
+
+/**
+ * Legacy single-provider config (version 1)
+ */
+const LegacyConfigSchema = z.strictObject(ProfileSettingsShape);
+
+export type ConfigSchemaKind = 'global' | 'project';
+
+/**
+ * A problem found in a configuration file
+ */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a configuration file does not match its schema
+ */
+export class ConfigValidationError extends ConfigurationError {
+  readonly issues: ConfigIssue[];
+
+  constructor(source: string, issues: ConfigIssue[]) {
+    super(`Invalid configuration in ${source}:\n${issues.map(issue => `  ${issue.path || '(root)'}: ${issue.message}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a configuration file's content
+ * @returns Problems found, empty if the configuration is valid
+ */
+export function validateConfig(data: unknown, kind: ConfigSchemaKind): ConfigIssue[] {
+  const schema = kind === 'project'
+    ? ProjectConfigSchema
+    : isVersionedConfig(data) ? MultiProviderConfigSchema : LegacyConfigSchema;
+
+  const result = schema.safeParse(data);
+  const issues = result.success ? [] : result.error.issues.flatMap(issue => toConfigIssues(issue, schema));
+
+  if (result.success && kind === 'global' && isVersionedConfig(data)) {
+    issues.push(...validateExtends((data as { profiles: Record<string, ProviderProfile> }).profiles));
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a single profile, e.g. one imported from a bundle
+ * @returns Problems found, empty if the profile is valid
+ */
+export function validateProfile(data: unknown): ConfigIssue[] {
+  const result = ProviderProfileSchema.safeParse(data);
+  return result.success ? [] : result.error.issues.flatMap(issue => toConfigIssues(issue, ProviderProfileSchema));
+}
+
+/**
+ * Validate a configuration file's content
+ * @throws ConfigValidationError listing every problem
+ */
+export function assertValidConfig(data: unknown, kind: ConfigSchemaKind, source: string): void {
+  const issues = validateConfig(data, kind);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(source, issues);
+  }
+}
+
+/**
+ * Resolve the `extends` chain of a profile
+ * @returns Profile with inherited settings, without `extends`
+ */
+export function resolveProfileExtends(profiles: Record<string, ProviderProfile>, profileName: string): ProviderProfile {
+  const chain: string[] = [];
+  let current: string | undefined = profileName;
+
+  while (current !== undefined) {
+    if (chain.includes(current)) {
+      throw new ConfigurationError(`Profile "${profileName}" has circular extends: ${[...chain, current].join(' → ')}`);
+    }
+    if (!profiles[current]) {
+      throw new ConfigurationError(
+        chain.length === 0
+          ? `Profile "${current}" not found`
+          : `Profile "${chain[chain.length - 1]}" extends unknown profile "${current}"`
+      );
+    }
+
+    chain.push(current);
+    current = profiles[current].extends;
+  }
+
+  const resolved: ProviderProfile = {};
+  for (const name of chain.reverse()) {
+    Object.assign(resolved, profiles[name]);
+  }
+  delete resolved.extends;
+  resolved.name = profileName;
+
+  return resolved;
+}
+
+/**
+ * Generate the published JSON Schema of a configuration file
+ */
+export function getConfigJsonSchema(kind: ConfigSchemaKind): Record<string, unknown> {
+  const schema = kind === 'project' ? ProjectConfigSchema : MultiProviderConfigSchema;
+  return {
+    ...z.toJSONSchema(schema, { io: 'input' }),
+    title: kind === 'project' ? 'CodeMie project configuration' : 'CodeMie CLI configuration'
+  };
+}
+
+function isVersionedConfig(data: unknown): boolean {
+  return typeof data === 'object' && data !== null && 'version' in data;
+}
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateExtends(profiles: Record<string, ProviderProfile>): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (profile.extends === undefined) continue;
+
+    try {
+      resolveProfileExtends(profiles, name);
+    } catch (error) {
+      issues.push({ path: `profiles.${name}.extends`, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return issues;
+}
+
+function toConfigIssues(issue: z.core.$ZodIssue, schema: z.ZodType): ConfigIssue[] {
+  const path = issue.path.map(String).join('.');
+
+  if (issue.code === 'unrecognized_keys') {
+    const knownKeys = getKnownKeys(schema, issue.path.map(String));
+    return issue.keys.map(key => {
+      const suggestion = suggestKey(key, knownKeys);
+      return {
+        path: path ? `${path}.${key}` : key,
+        message: `Unknown key${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`
+      };
+    });
+  }
+
+  return [{ path, message: issue.message }];
+}
+
+/**
+ * Get the keys of the object schema at a path, for "did you mean" suggestions
+ */
+function getKnownKeys(schema: z.ZodType, path: string[]): string[] {
+  let current: z.ZodType | undefined = schema;
+
+  for (const key of [...path, undefined]) {
+    while (current instanceof z.ZodOptional) {
+      current = current.unwrap() as z.ZodType;
+    }
+
+    if (key === undefined) break;
+    if (current instanceof z.ZodObject) {
+      current = current.shape[key] as z.ZodType | undefined;
+    } else if (current instanceof z.ZodRecord) {
+      current = current.valueType as z.ZodType;
+    } else if (current instanceof z.ZodArray) {
+      current = current.element as z.ZodType;
+    } else {
+      return [];
+    }
+  }
+
+  return current instanceof z.ZodObject ? Object.keys(current.shape) : [];
+}
+
+/**
+ * Suggest the known key closest to a misspelled one
+ */
+function suggestKey(key: string, knownKeys: string[]): string | undefined {
+  let best: { key: string; distance: number } | undefined;
+
+  for (const known of knownKeys) {
+    const distance = known.toLowerCase() === key.toLowerCase() ? 0 : editDistance(known, key);
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { key: known, distance };
+    }
+  }
+
+  return best?.key;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+
+  return row[b.length];
+}
@@ -10,11 +10,165 @@ export interface CodeMieIntegrationInfo {
   alias: string;
 }
 
+/**
+ * Tool permission mode for the built-in agent
+ * - ask: prompt before every mutating tool call
+ * - auto-accept-edits: file edits run without prompting, commands still ask
+ * - read-only: all mutating tool calls are denied
+ */
+export type PermissionMode = 'ask' | 'auto-accept-edits' | 'read-only';
+
+/**
+ * Tool permission settings
+ *
+ * Rules use the form `tool` or `tool(specifier)`, e.g. `write_file(src/**)`
+ * or `execute_command(npm test)`. For commands the specifier is a prefix,
+ * for file tools it is a glob relative to the working directory. A trailing
+ * `*` in the tool name matches by prefix, e.g. `mcp__github__*`.
+ */
+export interface PermissionSettings {
+  mode?: PermissionMode;
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * MCP server configuration for the built-in agent
+ *
+ * stdio servers are started with `command`/`args`; HTTP servers use `url`
+ * (streamable HTTP transport). `${VAR}` references in env and headers are
+ * expanded from the environment. Servers of the project config only start
+ * after the user approved them.
+ */
+export interface MCPServerConfig {
+  type?: 'stdio' | 'http';  // Inferred from command/url when omitted
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  enabled?: boolean;  // Default: true
+  timeout?: number;   // Tool call timeout in ms (default: 60000)
+  trusted?: boolean;  // Run tools the server marks as read-only without approval (profile servers only)
+}
+
+/**
+ * Fallback model for the built-in agent, used when the previous model keeps
+ * failing with retryable errors (rate limits, overload, 5xx, network errors).
+ * Without `profile` the model runs with the current profile's provider and
+ * credentials; without `model` the fallback profile's own model is used.
+ */
+export interface ModelFallback {
+  profile?: string;
+  model?: string;
+}
+
+/**
+ * Retry settings for model requests of the built-in agent
+ */
+export interface RetrySettings {
+  maxRetries?: number;      // Retries per model before falling back (default: 3)
+  initialDelayMs?: number;  // Delay before the first retry, doubled for each further retry (default: 1000)
+  maxDelayMs?: number;      // Upper bound of the retry delay (default: 30000)
+}
+
+/**
+ * TLS settings for endpoints with certificates from a private CA
+ */
+export interface TlsSettings {
+  caFile?: string;              // PEM bundle of CAs to trust in addition to the system CAs
+  rejectUnauthorized?: boolean; // Verify server certificates (default: true)
+}
+
+/**
+ * CodeMie proxy between external agents and the provider
+ */
+export interface ProxySettings {
+  enabled?: boolean;  // Route agent requests through the proxy (always on for SSO providers)
+  cassette?: CassetteSettings;
+  cache?: CacheSettings;
+  redaction?: RedactionSettings;
+}
+
+/**
+ * What happens to a request containing a detected secret
+ * - mask: replace the secret with [REDACTED:<detector>] and forward the request
+ * - block: reject the request
+ * - warn: forward the request unchanged and warn
+ */
+export type RedactionPolicy = 'mask' | 'block' | 'warn';
+
+/**
+ * Custom detector of secrets in prompts
+ */
+export interface RedactionPattern {
+  name: string;
+  pattern: string;           // Regular expression
+  policy?: RedactionPolicy;  // Default: the redaction policy
+}
+
+/**
+ * Redaction of secrets and personal data in prompts sent to the provider
+ */
+export interface RedactionSettings {
+  enabled?: boolean;
+  policy?: RedactionPolicy;  // Default: 'mask'
+  detectors?: Record<string, RedactionPolicy | 'off'>;  // Per built-in detector, e.g. { email: 'warn' }
+  patterns?: RedactionPattern[];
+  allow?: string[];          // Regular expressions of values that are never redacted
+}
+
+/**
+ * Cache of deterministic (temperature 0) model responses
+ */
+export interface CacheSettings {
+  enabled?: boolean;
+  ttlSeconds?: number;  // Default: 86400 (1 day)
+  maxSizeMb?: number;   // Default: 100
+}
+
+/**
+ * Recording of proxied requests for offline replay
+ */
+export interface CassetteSettings {
+  mode: 'record' | 'replay';
+  dir?: string;  // Cassette directory (default: ~/.codemie/cassettes)
+}
+
+/**
+ * Token and cost limit of a budget period
+ */
+export interface BudgetLimit {
+  tokens?: number;  // Input and output tokens
+  cost?: number;    // Estimated cost in USD (model catalog pricing)
+}
+
+/**
+ * Budget of agent sessions through the CodeMie proxy
+ */
+export interface BudgetSettings {
+  session?: BudgetLimit;  // Per agent session
+  daily?: BudgetLimit;    // Per profile and calendar day
+  monthly?: BudgetLimit;  // Per profile and calendar month
+  warnAt?: number;        // Fraction of a limit that triggers a warning (default: 0.8)
+}
+
+/**
+ * Defaults of `codemie workflow install`
+ */
+export interface WorkflowPreferences {
+  timeout?: number;      // Workflow timeout in minutes
+  maxTurns?: number;     // Maximum AI conversation turns
+  environment?: string;  // GitHub environment for protection rules
+}
+
 /**
  * Provider profile configuration
  */
 export interface ProviderProfile {
   name?: string;  // Optional - set during save
+  extends?: string;  // Profile whose settings this profile inherits and overrides
   provider?: string;
   baseUrl?: string;
   apiKey?: string;
@@ -39,10 +193,42 @@ export interface ProviderProfile {
   awsRegion?: string;
   awsSecretAccessKey?: string;
 
+  // Google Vertex AI-specific fields (Gemini provider)
+  vertexProject?: string;
+  vertexLocation?: string;
+  vertexCredentialsFile?: string;  // Service account key file (application default credentials when unset)
+
+  // OpenAI-compatible provider fields
+  authHeader?: string;  // Header carrying the API key (default: Authorization)
+  authScheme?: string;  // Scheme before the API key (default: Bearer; empty sends the bare key)
+  headers?: Record<string, string>;  // Static headers sent with every request
+  tls?: TlsSettings;
+
   // Token configuration (for Claude Code with Bedrock)
   maxOutputTokens?: number;
   maxThinkingTokens?: number;
 
+  // Tool permissions for the built-in agent
+  permissions?: PermissionSettings;
+
+  // MCP servers for the built-in agent, keyed by server name
+  mcpServers?: Record<string, MCPServerConfig>;
+
+  // Model fallbacks of the built-in agent, tried in order
+  fallbacks?: ModelFallback[];
+
+  // Retries of failed model requests in the built-in agent
+  retry?: RetrySettings;
+
+  // Local proxy of external agents (logging, endpoint blocking, metrics)
+  proxy?: ProxySettings;
+
+  // Token and cost limits enforced by the CodeMie proxy
+  budget?: BudgetSettings;
+
+  // Defaults of CI/CD workflow installation
+  workflow?: WorkflowPreferences;
+
   // Metrics configuration
   metrics?: {
     enabled?: boolean;  // Enable metrics collection (default: true)
@@ -0,0 +1,78 @@
+import * as fs from 'fs/promises';
+import type { Migration, MigrationResult } from './types.js';
+import { MigrationRegistry } from './registry.js';
+import { isMultiProviderConfig, isLegacyConfig } from '../env/types.js';
+import { logger } from '../utils/logger.js';
+import { getCodemiePath } from '../utils/paths.js';
+import { SECRET_FIELDS, isPlaintextSecret, storeProfileSecrets } from '../utils/secrets.js';
+
+/**
+ * Migration 003: Move plaintext secrets out of the global config
+ *
+ * Stores apiKey and awsSecretAccessKey of every profile in the CredentialStore
+ * (system keychain, or encrypted file storage) and replaces them with
+ * keychain:codemie/<profile> references, which ConfigLoader resolves on load.
+ */
+class SecureProfileSecretsMigration implements Migration {
+  id = '003-secure-profile-secrets';
+  description = 'Move plaintext API keys from profiles to the credential store';
+  minVersion = '0.0.31';
+
+  private readonly CONFIG_PATH = getCodemiePath('codemie-cli.config.json');
+
+  async up(): Promise<MigrationResult> {
+    logger.info('[003-secure-profile-secrets] secure: phase=start');
+
+    let config: any;
+    try {
+      config = JSON.parse(await fs.readFile(this.CONFIG_PATH, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        logger.debug('[003-secure-profile-secrets] secure: phase=complete reason=no_config');
+        return { success: true, migrated: false, reason: 'no-config' };
+      }
+      logger.error(`[003-secure-profile-secrets] Failed to read/parse config: ${error.message}`);
+      return { success: false, migrated: false, reason: 'invalid-json' };
+    }
+
+    // Legacy single-provider configs become the "default" profile on first use
+    const profiles: Record<string, any> = isMultiProviderConfig(config)
+      ? config.profiles
+      : isLegacyConfig(config) ? { default: config } : {};
+
+    const secured: string[] = [];
+    try {
+      for (const [name, profile] of Object.entries(profiles)) {
+        if (!SECRET_FIELDS.some(field => isPlaintextSecret(profile[field]))) continue;
+
+        Object.assign(profile, await storeProfileSecrets(name, profile));
+        secured.push(name);
+        logger.debug(`[003-secure-profile-secrets] secure: profile=${name}`);
+      }
+
+      if (secured.length === 0) {
+        logger.debug('[003-secure-profile-secrets] secure: phase=complete reason=no_plaintext_secrets');
+        return { success: true, migrated: false, reason: 'no-plaintext-secrets' };
+      }
+
+      // Write the config only after every secret is stored
+      await fs.writeFile(this.CONFIG_PATH, JSON.stringify(config, null, 2), 'utf-8');
+    } catch (error: any) {
+      logger.error(`[003-secure-profile-secrets] Migration failed: ${error.message}`, error);
+      return { success: false, migrated: false, reason: `migration-failed: ${error.message}` };
+    }
+
+    logger.info(`[003-secure-profile-secrets] secure: phase=complete profiles=${secured.join(',')}`);
+    return {
+      success: true,
+      migrated: true,
+      details: { profiles: secured }
+    };
+  }
+}
+
+// Auto-register the migration
+MigrationRegistry.register(new SecureProfileSecretsMigration());
+
+// Export for testing
+export { SecureProfileSecretsMigration };
@@ -24,7 +24,7 @@ export type { Migration, MigrationResult, MigrationRecord, MigrationHistory } fr
 // Import all migrations (auto-registers them)
 import './001-config-rename.migration.js';
 import './002-consolidate-sessions.migration.js';
+import './003-secure-profile-secrets.migration.js';
 
 // Future migrations will be imported here:
-// import './003-add-analytics.migration.js';
 // import './004-restructure-profiles.migration.js';
@@ -0,0 +1,102 @@
+/**
+ * Model Catalog Tests
+ *
+ * Tests model lookup by alias and provider-specific IDs, cost estimates and local overrides
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  calculateModelCost,
+  findModel,
+  getModelCatalog,
+  getModelContextWindow,
+  normalizeModelName,
+  resetModelCatalog,
+  DEFAULT_CONTEXT_WINDOW
+} from '../model-catalog.js';
+
+describe('Model catalog', () => {
+  let tempDir: string;
+  let originalCodemieHome: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'model-catalog-test-'));
+    originalCodemieHome = process.env.CODEMIE_HOME;
+    process.env.CODEMIE_HOME = tempDir;
+    resetModelCatalog();
+  });
+
+  afterEach(async () => {
+    if (originalCodemieHome === undefined) {
+      delete process.env.CODEMIE_HOME;
+    } else {
+      process.env.CODEMIE_HOME = originalCodemieHome;
+    }
+    resetModelCatalog();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find models by alias, snapshot and provider-specific IDs', () => {
+    expect(findModel('claude-4-5-sonnet')?.id).toBe('claude-sonnet-4-5');
+    expect(findModel('claude-sonnet-4-5-20250929')?.id).toBe('claude-sonnet-4-5');
+    expect(findModel('us.anthropic.claude-sonnet-4-5-20250929-v1:0')?.id).toBe('claude-sonnet-4-5');
+    expect(findModel('converse/global.anthropic.claude-haiku-4-5-20251001-v1:0')?.id).toBe('claude-haiku-4-5');
+    expect(findModel('models/gemini-2.5-pro')?.id).toBe('gemini-2.5-pro');
+    expect(findModel('gpt-4.1-2025-04-14')?.id).toBe('gpt-4.1');
+    expect(findModel('unknown-model')).toBeUndefined();
+  });
+
+  it('should normalize model names for analytics', () => {
+    expect(normalizeModelName('us.anthropic.claude-3-7-sonnet-20250219-v1:0')).toBe('claude-3-7-sonnet');
+    expect(normalizeModelName('openai/gpt-4o')).toBe('gpt-4o');
+    expect(normalizeModelName('My-Custom-Model')).toBe('My-Custom-Model');
+    expect(normalizeModelName('acme/My-Model')).toBe('my-model');
+  });
+
+  it('should fall back to family and default context windows', () => {
+    expect(getModelContextWindow('claude-sonnet-4-5')).toBe(200_000);
+    expect(getModelContextWindow('claude-future-9')).toBe(200_000);
+    expect(getModelContextWindow('custom-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+
+  it('should price cached input tokens at cache rates', () => {
+    // 1M input of which 400K cache reads and 100K cache writes, 100K output
+    const cost = calculateModelCost('claude-sonnet-4-5', {
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+      cacheReadTokens: 400_000,
+      cacheWriteTokens: 100_000
+    });
+
+    expect(cost).toBeCloseTo(0.5 * 3 + 0.4 * 0.3 + 0.1 * 3.75 + 0.1 * 15, 6);
+    expect(calculateModelCost('unknown-model', { inputTokens: 1000, outputTokens: 1000 })).toBe(0);
+  });
+
+  it('should merge and add models from the local overrides file', async () => {
+    await writeFile(join(tempDir, 'models.json'), JSON.stringify({
+      models: {
+        'claude-4-5-sonnet': { pricing: { input: 2.5 } },
+        'acme-coder': { contextWindow: 32_768, pricing: { input: 1, output: 2 }, capabilities: { tools: true } }
+      }
+    }));
+
+    const sonnet = findModel('claude-sonnet-4-5');
+    expect(sonnet?.pricing).toMatchObject({ input: 2.5, output: 15, cacheRead: 0.3 });
+    expect(sonnet?.capabilities.tools).toBe(true);
+
+    expect(findModel('acme-coder')).toMatchObject({ vendor: 'custom', contextWindow: 32_768 });
+    expect(getModelContextWindow('acme-coder')).toBe(32_768);
+    expect(getModelCatalog().overridesError).toBeUndefined();
+  });
+
+  it('should ignore an invalid overrides file', async () => {
+    await writeFile(join(tempDir, 'models.json'), '{ "models": [] }');
+
+    const catalog = getModelCatalog();
+    expect(catalog.overridesError).toContain('"models" object');
+    expect(findModel('claude-sonnet-4-5')?.pricing?.input).toBe(3);
+  });
+});
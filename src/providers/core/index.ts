@@ -33,3 +33,14 @@ export { BaseHealthCheck } from './base/BaseHealthCheck.js';
 export { BaseModelProxy } from './base/BaseModelProxy.js';
 export { HTTPClient } from './base/http-client.js';
 export type { HTTPClientConfig, HTTPResponse } from './base/http-client.js';
+
+// Model catalog
+export {
+  getModelCatalog,
+  findModel,
+  normalizeModelName,
+  getModelContextWindow,
+  getModelPricing,
+  calculateModelCost
+} from './model-catalog.js';
+export type { CatalogModel, ModelPricing, ModelCapabilities, ModelCatalog } from './model-catalog.js';
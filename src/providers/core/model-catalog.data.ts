@@ -0,0 +1,275 @@
+/**
+ * Built-in Model Catalog Entries
+ *
+ * Prices are list prices in USD per 1M tokens; check provider websites for
+ * the latest pricing. Aliases cover the names gateways and older configs use;
+ * dated snapshots (e.g. claude-sonnet-4-5-20250929) and provider-qualified IDs
+ * (e.g. us.anthropic.claude-sonnet-4-5-20250929-v1:0) resolve without aliases.
+ */
+
+import type { CatalogModel } from './model-catalog.js';
+
+export const BUILT_IN_MODELS: CatalogModel[] = [
+  // OpenAI
+  {
+    id: 'gpt-5',
+    name: 'GPT-5',
+    vendor: 'openai',
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    pricing: { input: 1.25, output: 10.00, cacheRead: 0.125 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'gpt-5-mini',
+    name: 'GPT-5 mini',
+    vendor: 'openai',
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    pricing: { input: 0.25, output: 2.00, cacheRead: 0.025 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'gpt-5-nano',
+    name: 'GPT-5 nano',
+    vendor: 'openai',
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    pricing: { input: 0.05, output: 0.40, cacheRead: 0.005 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'gpt-4.1',
+    name: 'GPT-4.1',
+    vendor: 'openai',
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    pricing: { input: 2.00, output: 8.00, cacheRead: 0.50 },
+    capabilities: { tools: true, vision: true, promptCaching: true }
+  },
+  {
+    id: 'gpt-4.1-mini',
+    name: 'GPT-4.1 mini',
+    vendor: 'openai',
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    pricing: { input: 0.40, output: 1.60, cacheRead: 0.10 },
+    capabilities: { tools: true, vision: true, promptCaching: true }
+  },
+  {
+    id: 'gpt-4.1-nano',
+    name: 'GPT-4.1 nano',
+    vendor: 'openai',
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    pricing: { input: 0.10, output: 0.40, cacheRead: 0.025 },
+    capabilities: { tools: true, vision: true, promptCaching: true }
+  },
+  {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    vendor: 'openai',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    pricing: { input: 2.50, output: 10.00, cacheRead: 1.25 },
+    capabilities: { tools: true, vision: true, promptCaching: true }
+  },
+  {
+    id: 'gpt-4o-mini',
+    name: 'GPT-4o mini',
+    vendor: 'openai',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    pricing: { input: 0.15, output: 0.60, cacheRead: 0.075 },
+    capabilities: { tools: true, vision: true, promptCaching: true }
+  },
+  {
+    id: 'o3',
+    name: 'o3',
+    vendor: 'openai',
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    pricing: { input: 2.00, output: 8.00, cacheRead: 0.50 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'o4-mini',
+    name: 'o4-mini',
+    vendor: 'openai',
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    pricing: { input: 1.10, output: 4.40, cacheRead: 0.275 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'gpt-4-turbo',
+    name: 'GPT-4 Turbo',
+    vendor: 'openai',
+    contextWindow: 128_000,
+    maxOutputTokens: 4_096,
+    pricing: { input: 10.00, output: 30.00 },
+    capabilities: { tools: true, vision: true }
+  },
+  {
+    id: 'gpt-4',
+    name: 'GPT-4',
+    vendor: 'openai',
+    contextWindow: 8_192,
+    maxOutputTokens: 8_192,
+    pricing: { input: 30.00, output: 60.00 },
+    capabilities: { tools: true }
+  },
+  {
+    id: 'gpt-3.5-turbo',
+    name: 'GPT-3.5 Turbo',
+    vendor: 'openai',
+    contextWindow: 16_385,
+    maxOutputTokens: 4_096,
+    pricing: { input: 0.50, output: 1.50 },
+    capabilities: { tools: true }
+  },
+
+  // Anthropic (also served through Bedrock, Vertex AI and CodeMie gateways)
+  {
+    id: 'claude-opus-4-1',
+    name: 'Claude Opus 4.1',
+    vendor: 'anthropic',
+    aliases: ['claude-4-1-opus'],
+    contextWindow: 200_000,
+    maxOutputTokens: 32_000,
+    pricing: { input: 15.00, output: 75.00, cacheRead: 1.50, cacheWrite: 18.75 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'claude-opus-4',
+    name: 'Claude Opus 4',
+    vendor: 'anthropic',
+    aliases: ['claude-4-opus'],
+    contextWindow: 200_000,
+    maxOutputTokens: 32_000,
+    pricing: { input: 15.00, output: 75.00, cacheRead: 1.50, cacheWrite: 18.75 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'claude-sonnet-4-5',
+    name: 'Claude Sonnet 4.5',
+    vendor: 'anthropic',
+    aliases: ['claude-4-5-sonnet'],
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    pricing: { input: 3.00, output: 15.00, cacheRead: 0.30, cacheWrite: 3.75 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'claude-sonnet-4',
+    name: 'Claude Sonnet 4',
+    vendor: 'anthropic',
+    aliases: ['claude-4-sonnet'],
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    pricing: { input: 3.00, output: 15.00, cacheRead: 0.30, cacheWrite: 3.75 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'claude-haiku-4-5',
+    name: 'Claude Haiku 4.5',
+    vendor: 'anthropic',
+    aliases: ['claude-4-5-haiku'],
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    pricing: { input: 1.00, output: 5.00, cacheRead: 0.10, cacheWrite: 1.25 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'claude-3-7-sonnet',
+    name: 'Claude Sonnet 3.7',
+    vendor: 'anthropic',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    pricing: { input: 3.00, output: 15.00, cacheRead: 0.30, cacheWrite: 3.75 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'claude-3-5-sonnet',
+    name: 'Claude Sonnet 3.5',
+    vendor: 'anthropic',
+    contextWindow: 200_000,
+    maxOutputTokens: 8_192,
+    pricing: { input: 3.00, output: 15.00, cacheRead: 0.30, cacheWrite: 3.75 },
+    capabilities: { tools: true, vision: true, promptCaching: true }
+  },
+  {
+    id: 'claude-3-5-haiku',
+    name: 'Claude Haiku 3.5',
+    vendor: 'anthropic',
+    contextWindow: 200_000,
+    maxOutputTokens: 8_192,
+    pricing: { input: 0.80, output: 4.00, cacheRead: 0.08, cacheWrite: 1.00 },
+    capabilities: { tools: true, promptCaching: true }
+  },
+  {
+    id: 'claude-3-opus',
+    name: 'Claude Opus 3',
+    vendor: 'anthropic',
+    contextWindow: 200_000,
+    maxOutputTokens: 4_096,
+    pricing: { input: 15.00, output: 75.00, cacheRead: 1.50, cacheWrite: 18.75 },
+    capabilities: { tools: true, vision: true, promptCaching: true }
+  },
+  {
+    id: 'claude-3-haiku',
+    name: 'Claude Haiku 3',
+    vendor: 'anthropic',
+    contextWindow: 200_000,
+    maxOutputTokens: 4_096,
+    pricing: { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.30 },
+    capabilities: { tools: true, vision: true, promptCaching: true }
+  },
+
+  // Google (prices for prompts up to 200K tokens)
+  {
+    id: 'gemini-3-pro-preview',
+    name: 'Gemini 3 Pro (Preview)',
+    vendor: 'google',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    pricing: { input: 2.00, output: 12.00, cacheRead: 0.20 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    vendor: 'google',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    pricing: { input: 1.25, output: 10.00, cacheRead: 0.125 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    vendor: 'google',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    pricing: { input: 0.30, output: 2.50, cacheRead: 0.03 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    name: 'Gemini 2.5 Flash-Lite',
+    vendor: 'google',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    pricing: { input: 0.10, output: 0.40, cacheRead: 0.01 },
+    capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true }
+  },
+  {
+    id: 'gemini-2.0-flash',
+    name: 'Gemini 2.0 Flash',
+    vendor: 'google',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 8_192,
+    pricing: { input: 0.10, output: 0.40, cacheRead: 0.025 },
+    capabilities: { tools: true, vision: true, promptCaching: true }
+  }
+];
@@ -0,0 +1,258 @@
+/**
+ * Model Catalog
+ *
+ * One source of model facts - aliases, context window, max output, pricing and
+ * capabilities - shared by cost estimates, context management, analytics and
+ * the setup wizards. Entries from ~/.codemie/models.json override or extend
+ * the built-in catalog.
+ */
+
+import { readFileSync } from 'fs';
+import { getCodemiePath } from '../../utils/paths.js';
+import { logger } from '../../utils/logger.js';
+import { BUILT_IN_MODELS } from './model-catalog.data.js';
+
+/**
+ * Model pricing in USD per 1M tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+
+  /** Input tokens read from the prompt cache */
+  cacheRead?: number;
+
+  /** Input tokens written to the prompt cache */
+  cacheWrite?: number;
+}
+
+/**
+ * Model capability flags
+ */
+export interface ModelCapabilities {
+  tools?: boolean;
+  vision?: boolean;
+  reasoning?: boolean;
+  promptCaching?: boolean;
+}
+
+/**
+ * Model catalog entry
+ */
+export interface CatalogModel {
+  /** Canonical model ID */
+  id: string;
+  name: string;
+
+  /** Model vendor, e.g. openai, anthropic, google */
+  vendor: string;
+
+  /** Other names of the model */
+  aliases?: string[];
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  pricing?: ModelPricing;
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Loaded catalog with local overrides applied
+ */
+export interface ModelCatalog {
+  models: CatalogModel[];
+
+  /** Local overrides file */
+  overridesFile: string;
+
+  /** Why the overrides file was ignored (when it could not be used) */
+  overridesError?: string;
+}
+
+/**
+ * Token usage to price
+ */
+export interface ModelUsage {
+  /** Input tokens, including cached ones */
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+/**
+ * Context window used when the model is unknown
+ */
+export const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+/**
+ * Context windows of unknown models by family (first match wins)
+ */
+const FAMILY_CONTEXT_WINDOWS: Array<[pattern: string, contextWindow: number]> = [
+  ['gpt-4.1', 1_047_576],
+  ['gpt-5', 400_000],
+  ['gpt-4o', 128_000],
+  ['gpt-4-turbo', 128_000],
+  ['gpt-4', 8_192],
+  ['gpt-3.5', 16_385],
+  ['claude', 200_000],
+  ['gemini', 1_048_576],
+];
+
+// Snapshot suffixes of dated model versions: -20250929, -2025-04-14, @20250929, -0613, -001, -latest
+const SNAPSHOT_SUFFIX = /[-@](?:\d{8}|\d{4}-\d{2}-\d{2}|\d{3,4}|latest)$/;
+
+let catalog: ModelCatalog | null = null;
+
+/**
+ * Get the model catalog (loaded once, with local overrides)
+ */
+export function getModelCatalog(): ModelCatalog {
+  catalog ??= loadModelCatalog();
+  return catalog;
+}
+
+/**
+ * Reload the catalog on next use (e.g. after the overrides file changed)
+ */
+export function resetModelCatalog(): void {
+  catalog = null;
+}
+
+/**
+ * Normalize a provider-specific model ID for catalog lookup
+ *
+ * Examples:
+ *   converse/global.anthropic.claude-haiku-4-5-20251001-v1:0 -> claude-haiku-4-5-20251001
+ *   us.anthropic.claude-sonnet-4-5-20250929-v1:0 -> claude-sonnet-4-5-20250929
+ *   anthropic/claude-sonnet-4-5 -> claude-sonnet-4-5
+ *   models/gemini-2.5-pro -> gemini-2.5-pro
+ */
+export function normalizeModelId(modelId: string): string {
+  return modelId
+    .trim()
+    .toLowerCase()
+    .replace(/^.*\//, '')                                 // Gateway and API prefixes (openai/, models/, converse/)
+    .replace(/^(?:[a-z]+(?:-[a-z]+-\d)?\.)?(?:anthropic|amazon|meta|mistral|cohere|ai21|deepseek|openai)\./, '') // Bedrock region and vendor
+    .replace(/-v\d+(?::\d+)?$/, '');                      // Bedrock version suffix
+}
+
+/**
+ * Find a model by ID, alias, dated snapshot or provider-specific ID
+ */
+export function findModel(modelId: string): CatalogModel | undefined {
+  const normalized = normalizeModelId(modelId);
+  const models = getModelCatalog().models;
+  const match = (id: string) => models.find(model => model.id === id || model.aliases?.includes(id));
+
+  return match(normalized) ?? match(normalized.replace(SNAPSHOT_SUFFIX, ''));
+}
+
+/**
+ * Normalize a model name for display and grouping: the catalog ID for known
+ * models, otherwise the model name without provider-specific decoration
+ */
+export function normalizeModelName(modelName: string): string {
+  const model = findModel(modelName);
+  if (model) {
+    return model.id;
+  }
+
+  // Keep the original casing of unknown models
+  return /[/.:]/.test(modelName) ? normalizeModelId(modelName) : modelName;
+}
+
+/**
+ * Get the context window of a model, falling back to its family and then DEFAULT_CONTEXT_WINDOW
+ */
+export function getModelContextWindow(modelId: string): number {
+  const contextWindow = findModel(modelId)?.contextWindow;
+  if (contextWindow) {
+    return contextWindow;
+  }
+
+  const normalized = normalizeModelId(modelId);
+  const family = FAMILY_CONTEXT_WINDOWS.find(([pattern]) => normalized.includes(pattern));
+  return family ? family[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Get the pricing of a model (null when unknown)
+ */
+export function getModelPricing(modelId: string): ModelPricing | null {
+  return findModel(modelId)?.pricing ?? null;
+}
+
+/**
+ * Estimate the cost of token usage in USD (0 when the model has no pricing).
+ * Cached input tokens are priced at the cache rates when the model has them.
+ */
+export function calculateModelCost(modelId: string, usage: ModelUsage): number {
+  const pricing = getModelPricing(modelId);
+  if (!pricing) {
+    return 0;
+  }
+
+  const cacheRead = pricing.cacheRead !== undefined ? usage.cacheReadTokens ?? 0 : 0;
+  const cacheWrite = pricing.cacheWrite !== undefined ? usage.cacheWriteTokens ?? 0 : 0;
+  const uncachedInput = Math.max(usage.inputTokens - cacheRead - cacheWrite, 0);
+
+  return (
+    uncachedInput * pricing.input +
+    cacheRead * (pricing.cacheRead ?? 0) +
+    cacheWrite * (pricing.cacheWrite ?? 0) +
+    usage.outputTokens * pricing.output
+  ) / 1_000_000;
+}
+
+/**
+ * Load the built-in catalog and apply ~/.codemie/models.json
+ *
+ * The file maps model IDs to entries, e.g.
+ *   { "models": { "gpt-4.1": { "pricing": { "input": 1.8, "output": 7.2 } },
+ *                 "my-model": { "contextWindow": 32768, "capabilities": { "tools": true } } } }
+ * Entries of known models (by ID or alias) are merged into them; others are added.
+ */
+function loadModelCatalog(): ModelCatalog {
+  const overridesFile = getCodemiePath('models.json');
+  const builtIn = () => BUILT_IN_MODELS.map(model => ({ ...model, capabilities: { ...model.capabilities } }));
+  const models = builtIn();
+
+  let content: string;
+  try {
+    content = readFileSync(overridesFile, 'utf-8');
+  } catch {
+    return { models, overridesFile };
+  }
+
+  try {
+    const overrides = (JSON.parse(content) as { models?: unknown }).models;
+    if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+      throw new Error('expected a "models" object keyed by model ID');
+    }
+
+    for (const [id, entry] of Object.entries(overrides as Record<string, Partial<CatalogModel>>)) {
+      if (typeof entry !== 'object' || entry === null) {
+        throw new Error(`entry "${id}" is not an object`);
+      }
+
+      const normalized = normalizeModelId(id);
+      const existing = models.find(model => model.id === normalized || model.aliases?.includes(normalized));
+      if (existing) {
+        Object.assign(existing, {
+          ...entry,
+          id: existing.id,
+          pricing: entry.pricing ? { ...existing.pricing, ...entry.pricing } : existing.pricing,
+          capabilities: { ...existing.capabilities, ...entry.capabilities }
+        });
+      } else {
+        models.push({ name: id, vendor: 'custom', ...entry, id: normalized, capabilities: { ...entry.capabilities } });
+      }
+    }
+
+    return { models, overridesFile };
+  } catch (error) {
+    const overridesError = error instanceof Error ? error.message : String(error);
+    logger.warn(`Ignoring model catalog overrides in ${overridesFile}: ${overridesError}`);
+    return { models: builtIn(), overridesFile, overridesError };
+  }
+}
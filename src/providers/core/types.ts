@@ -40,6 +40,11 @@ export interface ModelMetadata {
  */
 export type AuthenticationType = 'api-key' | 'sso' | 'oauth' | 'none';
 
+/**
+ * How the CodeMie proxy authenticates forwarded requests
+ */
+export type ProxyAuthType = 'api-key' | 'aws-sigv4' | 'sso' | 'none';
+
 /**
  * Provider template - declarative metadata
  *
@@ -56,6 +61,7 @@ export interface ProviderTemplate {
   defaultBaseUrl: string;            // Default API endpoint
   requiresAuth?: boolean;            // Whether authentication is required (default: false)
   authType?: AuthenticationType;     // Authentication method (default: 'api-key')
+  proxyAuthType?: ProxyAuthType;     // Proxy authentication (default: derived from authType)
 
   // UI & UX
   priority?: number;                 // Display priority (0=highest, used for sorting)
@@ -237,6 +243,11 @@ export interface ProviderModelFetcher {
    * Returns installed models if available, otherwise recommended models
    */
   fetchModels(config: CodeMieConfigOptions): Promise<ModelInfo[]>;
+
+  /**
+   * Get a model installer for a profile (providers with supportsModelInstallation)
+   */
+  getInstaller?(config: CodeMieConfigOptions): ModelInstallerProxy;
 }
 
 /**
@@ -35,9 +35,15 @@ import './plugins/ollama/index.js';
 import './plugins/sso/index.js';
 import './plugins/litellm/index.js';
 import './plugins/bedrock/index.js';
+import './plugins/anthropic/index.js';
+import './plugins/gemini/index.js';
+import './plugins/openai-compatible/index.js';
 
 // Re-export plugin modules for direct access if needed
 export * as Ollama from './plugins/ollama/index.js';
 export * as SSO from './plugins/sso/index.js';
 export * as LiteLLM from './plugins/litellm/index.js';
 export * as Bedrock from './plugins/bedrock/index.js';
+export * as Anthropic from './plugins/anthropic/index.js';
+export * as Gemini from './plugins/gemini/index.js';
+export * as OpenAICompatible from './plugins/openai-compatible/index.js';
@@ -7,6 +7,7 @@
 
 import chalk from 'chalk';
 import type { ProviderTemplate } from '../core/types.js';
+import { findModel } from '../core/model-catalog.js';
 
 /**
  * Format provider choice for inquirer
@@ -107,6 +108,7 @@ export function formatModelChoice(
   template?: ProviderTemplate
 ): { name: string; value: string } {
   const metadata = template?.modelMetadata?.[modelId];
+  const catalogModel = findModel(modelId);
 
   // Check if model is recommended (with partial matching support)
   const isRecommended =
@@ -115,10 +117,14 @@ export function formatModelChoice(
     false;
 
   // If no metadata and not recommended, return plain format
-  if (!metadata && !isRecommended) {
+  if (!metadata && !catalogModel && !isRecommended) {
     return { name: modelId, value: modelId };
   }
 
+  // The model catalog fills in what the template does not specify
+  const contextWindow = metadata?.contextWindow ?? catalogModel?.contextWindow;
+  const pricing = metadata?.pricing ?? catalogModel?.pricing;
+
   const popularBadge = isRecommended ? chalk.yellow('⭐ ') : '';
   const mainLine = `${popularBadge}${chalk.white.bold(metadata?.name || modelId)}`;
 
@@ -126,8 +132,11 @@ export function formatModelChoice(
   if (metadata?.description) {
     details.push(metadata.description);
   }
-  if (metadata?.contextWindow) {
-    details.push(`${metadata.contextWindow.toLocaleString()} tokens`);
+  if (contextWindow) {
+    details.push(`${contextWindow.toLocaleString()} tokens`);
+  }
+  if (pricing) {
+    details.push(`$${pricing.input}/$${pricing.output} per 1M tokens`);
   }
 
   const detailLine = details.length > 0 ? `\n   ${chalk.dim(details.join(' • '))}` : '';
@@ -0,0 +1,86 @@
+/**
+ * Anthropic Provider Tests
+ *
+ * Tests model listing, health checks and the Claude Code agent hook
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { HTTPClient } from '../../../core/base/http-client.js';
+import { ProviderRegistry } from '../../../core/registry.js';
+import { AnthropicTemplate } from '../anthropic.template.js';
+import { AnthropicModelProxy } from '../anthropic.models.js';
+import { AnthropicHealthCheck } from '../anthropic.health.js';
+import '../anthropic.setup-steps.js';
+
+function modelsPage(ids: string[], lastId?: string) {
+  return {
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    data: {
+      data: ids.map(id => ({ id, display_name: id.toUpperCase(), created_at: '2025-09-29T00:00:00Z' })),
+      has_more: Boolean(lastId),
+      last_id: lastId
+    }
+  };
+}
+
+describe('Anthropic provider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should register template, setup steps, model proxy and health check', () => {
+    expect(ProviderRegistry.getProvider('anthropic')).toBe(AnthropicTemplate);
+    expect(ProviderRegistry.getSetupSteps('anthropic')).toBeDefined();
+    expect(ProviderRegistry.getModelProxy('anthropic')?.supports('anthropic')).toBe(true);
+    expect(ProviderRegistry.getHealthCheck('anthropic')?.supports('anthropic')).toBe(true);
+  });
+
+  it('should list models across pages with API key headers', async () => {
+    const get = vi.spyOn(HTTPClient.prototype, 'get')
+      .mockResolvedValueOnce(modelsPage(['claude-sonnet-4-5'], 'claude-sonnet-4-5'))
+      .mockResolvedValueOnce(modelsPage(['claude-3-5-haiku-20241022']));
+
+    const models = await new AnthropicModelProxy('https://api.anthropic.com/v1/', 'sk-ant-test').listModels();
+
+    expect(models.map(model => model.id)).toEqual(['claude-sonnet-4-5', 'claude-3-5-haiku-20241022']);
+    expect(models[0]).toMatchObject({ name: 'CLAUDE-SONNET-4-5', popular: true, contextWindow: 200000 });
+    expect(get.mock.calls[0]).toEqual([
+      'https://api.anthropic.com/v1/models?limit=1000',
+      { 'anthropic-version': '2023-06-01', 'x-api-key': 'sk-ant-test' }
+    ]);
+    expect(get.mock.calls[1][0]).toBe('https://api.anthropic.com/v1/models?limit=1000&after_id=claude-sonnet-4-5');
+  });
+
+  it('should report a rejected API key', async () => {
+    vi.spyOn(HTTPClient.prototype, 'get').mockRejectedValue(new Error('HTTP 401: Unauthorized'));
+
+    const result = await new AnthropicHealthCheck().check({
+      provider: 'anthropic',
+      baseUrl: 'https://api.anthropic.com',
+      apiKey: 'sk-ant-wrong',
+      model: 'claude-sonnet-4-5'
+    });
+
+    expect(result).toMatchObject({ status: 'unreachable', message: 'Anthropic API rejected the API key' });
+  });
+
+  it('should pass the API key to Claude Code as ANTHROPIC_API_KEY', async () => {
+    const beforeRun = AnthropicTemplate.agentHooks!.claude.beforeRun!;
+
+    const env = await beforeRun({
+      CODEMIE_API_KEY: 'sk-ant-test',
+      CODEMIE_MODEL: 'claude-sonnet-4-5',
+      ANTHROPIC_AUTH_TOKEN: 'sk-ant-test',
+      ANTHROPIC_BASE_URL: 'https://api.anthropic.com'
+    }, {} as any);
+
+    expect(env).toEqual({
+      CODEMIE_API_KEY: 'sk-ant-test',
+      CODEMIE_MODEL: 'claude-sonnet-4-5',
+      ANTHROPIC_API_KEY: 'sk-ant-test',
+      ANTHROPIC_MODEL: 'claude-sonnet-4-5'
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Anthropic Health Check Implementation
+ *
+ * Validates Anthropic API reachability and the configured API key.
+ * Uses BaseHealthCheck for common patterns, delegates to AnthropicModelProxy for model operations.
+ */
+
+import type { CodeMieConfigOptions } from '../../../env/types.js';
+import type { HealthCheckResult, ModelInfo } from '../../core/types.js';
+import { BaseHealthCheck } from '../../core/base/BaseHealthCheck.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { AnthropicTemplate, ANTHROPIC_API_VERSION } from './anthropic.template.js';
+import { AnthropicModelProxy } from './anthropic.models.js';
+
+/**
+ * Health check implementation for the Anthropic API
+ */
+export class AnthropicHealthCheck extends BaseHealthCheck {
+  private modelProxy: AnthropicModelProxy;
+
+  constructor(baseUrl: string = AnthropicTemplate.defaultBaseUrl, apiKey?: string) {
+    super({
+      provider: 'anthropic',
+      baseUrl,
+      timeout: 10000
+    });
+    this.modelProxy = new AnthropicModelProxy(baseUrl, apiKey);
+  }
+
+  /**
+   * Override check() to use the URL and API key of the config being checked
+   */
+  async check(config: CodeMieConfigOptions): Promise<HealthCheckResult> {
+    this.config.baseUrl = config.baseUrl || AnthropicTemplate.defaultBaseUrl;
+    this.modelProxy = new AnthropicModelProxy(this.config.baseUrl, config.apiKey);
+
+    return super.check(config);
+  }
+
+  /**
+   * Ping the API by listing models, which also validates the API key
+   */
+  protected async ping(): Promise<void> {
+    await this.modelProxy.listModels();
+  }
+
+  /**
+   * Get API version (the Anthropic API has no version endpoint)
+   */
+  protected async getVersion(): Promise<string | undefined> {
+    return `API ${ANTHROPIC_API_VERSION}`;
+  }
+
+  /**
+   * List available models
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    return this.modelProxy.listModels();
+  }
+
+  /**
+   * Custom unreachable message with API key hints
+   */
+  protected getUnreachableResult(error?: unknown): HealthCheckResult {
+    const message = error instanceof Error ? error.message : String(error);
+    const unauthorized = /HTTP 401|HTTP 403/.test(message);
+
+    return {
+      provider: 'anthropic',
+      status: 'unreachable',
+      message: unauthorized ? 'Anthropic API rejected the API key' : `Cannot connect to Anthropic API: ${message}`,
+      remediation: unauthorized
+        ? `Check your API key:
+  1. Create or copy a key at https://console.anthropic.com/settings/keys
+  2. Update the profile: codemie setup`
+        : `Check connectivity to ${this.config.baseUrl}:
+  1. Verify the base URL in your profile
+  2. Check proxy and firewall settings
+  3. See https://status.anthropic.com for outages`
+    };
+  }
+
+  /**
+   * Custom healthy message
+   */
+  protected getHealthyMessage(models: ModelInfo[]): string {
+    return `Anthropic API is accessible with ${models.length} model(s) available`;
+  }
+}
+
+// Auto-register health check (credentials come from the checked config)
+ProviderRegistry.registerHealthCheck('anthropic', new AnthropicHealthCheck());
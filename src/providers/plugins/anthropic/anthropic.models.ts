@@ -0,0 +1,99 @@
+/**
+ * Anthropic Model Proxy
+ *
+ * Fetches available models from the Anthropic API via /v1/models endpoint.
+ */
+
+import type { CodeMieConfigOptions } from '../../../env/types.js';
+import type { ModelInfo } from '../../core/types.js';
+import { BaseModelProxy } from '../../core/base/BaseModelProxy.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { AnthropicTemplate, ANTHROPIC_API_VERSION } from './anthropic.template.js';
+
+/**
+ * Anthropic /v1/models response
+ */
+interface AnthropicModelsResponse {
+  data: Array<{
+    id: string;
+    display_name?: string;
+    created_at?: string;
+  }>;
+  has_more?: boolean;
+  last_id?: string;
+}
+
+/**
+ * Build Anthropic API headers
+ */
+export function getAnthropicHeaders(apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'anthropic-version': ANTHROPIC_API_VERSION
+  };
+
+  if (apiKey) {
+    headers['x-api-key'] = apiKey;
+  }
+
+  return headers;
+}
+
+/**
+ * Anthropic model proxy implementation
+ */
+export class AnthropicModelProxy extends BaseModelProxy {
+  private apiKey?: string;
+
+  constructor(baseUrl: string = AnthropicTemplate.defaultBaseUrl, apiKey?: string) {
+    // Accept base URLs with or without the /v1 suffix
+    super(baseUrl.replace(/\/v1\/?$/, '').replace(/\/$/, ''), 10000);
+    this.apiKey = apiKey;
+  }
+
+  supports(provider: string): boolean {
+    return provider === 'anthropic';
+  }
+
+  /**
+   * List models available to the API key, following pagination
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    let afterId: string | undefined;
+
+    do {
+      const query = `limit=1000${afterId ? `&after_id=${encodeURIComponent(afterId)}` : ''}`;
+      const response = await this.client.get<AnthropicModelsResponse>(
+        `${this.baseUrl}/v1/models?${query}`,
+        getAnthropicHeaders(this.apiKey)
+      );
+
+      for (const model of response.data.data) {
+        const metadata = AnthropicTemplate.modelMetadata?.[model.id];
+        models.push({
+          id: model.id,
+          name: model.display_name || metadata?.name || model.id,
+          description: metadata?.description,
+          contextWindow: metadata?.contextWindow,
+          popular: metadata?.popular ?? false,
+          metadata: model.created_at ? { created: model.created_at } : undefined
+        });
+      }
+
+      afterId = response.data.has_more ? response.data.last_id : undefined;
+    } while (afterId);
+
+    return models;
+  }
+
+  /**
+   * Fetch models for setup wizard
+   */
+  async fetchModels(config: CodeMieConfigOptions): Promise<ModelInfo[]> {
+    const proxy = new AnthropicModelProxy(config.baseUrl || this.baseUrl, config.apiKey || this.apiKey);
+    return proxy.listModels();
+  }
+}
+
+// Auto-register model proxy
+ProviderRegistry.registerModelProxy('anthropic', new AnthropicModelProxy());
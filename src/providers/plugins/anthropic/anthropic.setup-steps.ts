@@ -0,0 +1,75 @@
+/**
+ * Anthropic Setup Steps
+ *
+ * Interactive setup flow for the Anthropic API provider.
+ */
+
+import type { ProviderSetupSteps, ProviderCredentials } from '../../core/types.js';
+import type { CodeMieConfigOptions } from '../../../env/types.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { AnthropicTemplate } from './anthropic.template.js';
+
+export const AnthropicSetupSteps: ProviderSetupSteps = {
+  name: 'anthropic',
+
+  async getCredentials(_isUpdate = false): Promise<ProviderCredentials> {
+    const inquirer = (await import('inquirer')).default;
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'apiKey',
+        message: 'Anthropic API Key:',
+        mask: '*',
+        validate: (input: string) => input.trim() !== '' || 'API key is required'
+      },
+      {
+        type: 'input',
+        name: 'baseUrl',
+        message: 'API base URL:',
+        default: AnthropicTemplate.defaultBaseUrl,
+        validate: (input: string) => input.trim() !== '' || 'Base URL is required'
+      }
+    ]);
+
+    return {
+      baseUrl: answers.baseUrl.trim(),
+      apiKey: answers.apiKey.trim()
+    };
+  },
+
+  async fetchModels(credentials: ProviderCredentials): Promise<string[]> {
+    const { AnthropicModelProxy } = await import('./anthropic.models.js');
+
+    const modelProxy = new AnthropicModelProxy(
+      credentials.baseUrl || AnthropicTemplate.defaultBaseUrl,
+      credentials.apiKey
+    );
+
+    try {
+      const models = await modelProxy.listModels();
+      return models.map(m => m.id);
+    } catch (error) {
+      const chalk = (await import('chalk')).default;
+      console.log(chalk.yellow('\n⚠ Could not fetch models from Anthropic'));
+      console.log(chalk.dim(`  Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      console.log(chalk.dim('  Using recommended models instead\n'));
+
+      return AnthropicTemplate.recommendedModels;
+    }
+  },
+
+  buildConfig(credentials: ProviderCredentials, selectedModel: string): Partial<CodeMieConfigOptions> {
+    return {
+      provider: 'anthropic',
+      baseUrl: credentials.baseUrl,
+      apiKey: credentials.apiKey,
+      model: selectedModel,
+      timeout: 300,
+      debug: false
+    };
+  }
+};
+
+// Auto-register setup steps
+ProviderRegistry.registerSetupSteps('anthropic', AnthropicSetupSteps);
@@ -0,0 +1,108 @@
+/**
+ * Anthropic Provider Template
+ *
+ * Template definition for the Anthropic Messages API.
+ * Direct access to Claude models with an Anthropic API key.
+ *
+ * Auto-registers on import via registerProvider().
+ */
+
+import type { ProviderTemplate } from '../../core/types.js';
+import { registerProvider } from '../../core/decorators.js';
+
+/**
+ * Anthropic API version sent with every request
+ */
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+
+export const AnthropicTemplate = registerProvider<ProviderTemplate>({
+  name: 'anthropic',
+  displayName: 'Anthropic',
+  description: 'Anthropic API - Claude models with an Anthropic API key',
+  defaultBaseUrl: 'https://api.anthropic.com',
+  requiresAuth: true,
+  authType: 'api-key',
+  priority: 13,
+  defaultProfileName: 'anthropic',
+  recommendedModels: [
+    'claude-sonnet-4-5',
+    'claude-opus-4-1',
+    'claude-haiku-4-5'
+  ],
+  modelMetadata: {
+    'claude-sonnet-4-5': {
+      name: 'Claude Sonnet 4.5',
+      description: 'Best balance of intelligence and speed for coding',
+      popular: true,
+      contextWindow: 200000
+    },
+    'claude-opus-4-1': {
+      name: 'Claude Opus 4.1',
+      description: 'Most capable model for complex tasks',
+      popular: true,
+      contextWindow: 200000
+    },
+    'claude-haiku-4-5': {
+      name: 'Claude Haiku 4.5',
+      description: 'Fastest and most cost-efficient model',
+      popular: true,
+      contextWindow: 200000
+    }
+  },
+  capabilities: ['streaming', 'tools', 'function-calling', 'vision'],
+  supportsModelInstallation: false,
+  supportsStreaming: true,
+  healthCheckEndpoint: '/v1/models',
+
+  // Provider-specific agent hooks
+  agentHooks: {
+    // Claude Code talks to the Anthropic API directly
+    // https://code.claude.com/docs/en/settings#environment-variables
+    'claude': {
+      beforeRun: async (env, _config) => {
+        // Anthropic API keys are sent as x-api-key, not as a bearer token
+        if (env.CODEMIE_API_KEY) {
+          env.ANTHROPIC_API_KEY = env.CODEMIE_API_KEY;
+        }
+        delete env.ANTHROPIC_AUTH_TOKEN;
+
+        // Keep the default endpoint unless a custom one is configured
+        if (env.ANTHROPIC_BASE_URL === AnthropicTemplate.defaultBaseUrl) {
+          delete env.ANTHROPIC_BASE_URL;
+        }
+
+        if (env.CODEMIE_MODEL) {
+          env.ANTHROPIC_MODEL = env.CODEMIE_MODEL;
+        }
+
+        return env;
+      }
+    }
+  },
+
+  setupInstructions: `
+# Anthropic Setup Instructions
+
+## API Key
+
+1. Sign in to the Anthropic Console: https://console.anthropic.com
+2. Go to Settings → API Keys and create a key
+3. Run \`codemie setup\` and select "Anthropic"
+
+## Using CodeMie with Anthropic
+
+\`\`\`bash
+# Use with built-in agent (prompt caching enabled)
+codemie-code --profile anthropic "your task"
+
+# Use with Claude Code agent
+codemie-claude --profile anthropic "your task"
+\`\`\`
+
+## Documentation
+
+- Models: https://docs.anthropic.com/en/docs/about-claude/models
+- Prompt caching: https://docs.anthropic.com/en/docs/build-with-claude/prompt-caching
+- Pricing: https://www.anthropic.com/pricing
+`
+});
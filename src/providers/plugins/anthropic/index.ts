@@ -0,0 +1,11 @@
+/**
+ * Anthropic Provider - Complete Provider Implementation
+ *
+ * All Anthropic API code in one place for easy maintenance.
+ * Auto-registers with ProviderRegistry on import.
+ */
+
+export { AnthropicTemplate } from './anthropic.template.js';
+export { AnthropicHealthCheck } from './anthropic.health.js';
+export { AnthropicModelProxy } from './anthropic.models.js';
+export { AnthropicSetupSteps } from './anthropic.setup-steps.js';
@@ -9,6 +9,7 @@
 
 import type { ProviderTemplate } from '../../core/types.js';
 import { registerProvider } from '../../core/decorators.js';
+import { PROXY_API_KEY } from '../sso/proxy/plugins/provider-auth.plugin.js';
 
 export const BedrockTemplate = registerProvider<ProviderTemplate>({
   name: 'bedrock',
@@ -17,6 +18,7 @@ export const BedrockTemplate = registerProvider<ProviderTemplate>({
   defaultBaseUrl: 'https://bedrock-runtime.us-east-1.amazonaws.com',
   requiresAuth: true,
   authType: 'api-key', // Using AWS credentials (access key + secret key)
+  proxyAuthType: 'aws-sigv4', // The proxy signs requests with the AWS credentials
   priority: 15,
   defaultProfileName: 'bedrock',
   recommendedModels: [
@@ -51,11 +53,20 @@ export const BedrockTemplate = registerProvider<ProviderTemplate>({
         // Transform CODEMIE_AWS_* → AWS_* (standard AWS environment variables)
         // External agents expect standard AWS env vars, not CODEMIE_AWS_* variants
 
+        // With the CodeMie proxy (proxy.enabled), the proxy signs requests itself
+        const usingProxy = env.CODEMIE_API_KEY === PROXY_API_KEY;
+
         // Determine authentication method: profile vs direct credentials
         const usingAwsProfile = env.CODEMIE_AWS_PROFILE &&
                                env.CODEMIE_API_KEY === 'aws-profile';
 
-        if (usingAwsProfile) {
+        if (usingProxy) {
+          // Agents must not sign requests with credentials of the shell session
+          delete env.AWS_PROFILE;
+          delete env.AWS_ACCESS_KEY_ID;
+          delete env.AWS_SECRET_ACCESS_KEY;
+          delete env.AWS_SESSION_TOKEN;
+        } else if (usingAwsProfile) {
           // Profile-based authentication
           env.AWS_PROFILE = env.CODEMIE_AWS_PROFILE;
 
@@ -100,9 +111,16 @@ export const BedrockTemplate = registerProvider<ProviderTemplate>({
         // "403 Invalid API Key format" errors
         delete env.ANTHROPIC_AUTH_TOKEN;
 
-        // Clear base URL as well - Bedrock doesn't use HTTP endpoints
+        // Clear base URL as well - Claude Code uses the Bedrock endpoint of the region
         delete env.ANTHROPIC_BASE_URL;
 
+        // Through the CodeMie proxy: send requests to the proxy, which signs them
+        // https://code.claude.com/docs/en/llm-gateway
+        if (env.CODEMIE_API_KEY === PROXY_API_KEY && env.CODEMIE_BASE_URL) {
+          env.ANTHROPIC_BEDROCK_BASE_URL = env.CODEMIE_BASE_URL;
+          env.CLAUDE_CODE_SKIP_BEDROCK_AUTH = '1';
+        }
+
         // Set model if specified (Bedrock uses inference profile IDs)
         if (env.CODEMIE_MODEL) {
           env.ANTHROPIC_MODEL = env.CODEMIE_MODEL;
@@ -0,0 +1,170 @@
+/**
+ * Gemini Provider Tests
+ *
+ * Tests model listing for both auth modes, health checks and the Gemini CLI agent hook
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { GoogleAuth } from 'google-auth-library';
+import { HTTPClient } from '../../../core/base/http-client.js';
+import { ProviderRegistry } from '../../../core/registry.js';
+import { GeminiTemplate } from '../gemini.template.js';
+import { GeminiModelProxy } from '../gemini.models.js';
+import { GeminiHealthCheck } from '../gemini.health.js';
+import { ProviderAuthPlugin, PROXY_API_KEY } from '../../sso/proxy/plugins/provider-auth.plugin.js';
+import type { ProxyContext } from '../../sso/proxy/proxy-types.js';
+import { logger } from '../../../../utils/logger.js';
+import '../gemini.setup-steps.js';
+
+function response(data: Record<string, unknown>) {
+  return { status: 200, statusText: 'OK', headers: {}, data };
+}
+
+const vertex = { project: 'my-project', location: 'europe-west4', credentialsFile: '/keys/sa.json' };
+
+describe('Gemini provider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should register template, setup steps, model proxy and health check', () => {
+    expect(ProviderRegistry.getProvider('gemini')).toBe(GeminiTemplate);
+    expect(ProviderRegistry.getSetupSteps('gemini')).toBeDefined();
+    expect(ProviderRegistry.getModelProxy('gemini')?.supports('gemini')).toBe(true);
+    expect(ProviderRegistry.getHealthCheck('gemini')?.supports('gemini')).toBe(true);
+  });
+
+  it('should list Gemini API models that generate content across pages', async () => {
+    const get = vi.spyOn(HTTPClient.prototype, 'get')
+      .mockResolvedValueOnce(response({
+        models: [
+          { name: 'models/gemini-2.5-pro', displayName: 'Gemini 2.5 Pro', inputTokenLimit: 1048576, supportedGenerationMethods: ['generateContent'] },
+          { name: 'models/text-embedding-004', supportedGenerationMethods: ['embedContent'] }
+        ],
+        nextPageToken: 'page-2'
+      }))
+      .mockResolvedValueOnce(response({
+        models: [{ name: 'models/gemini-2.5-flash', supportedGenerationMethods: ['generateContent', 'countTokens'] }]
+      }));
+
+    const models = await new GeminiModelProxy('https://generativelanguage.googleapis.com/v1beta', 'AIza-test').listModels();
+
+    expect(models.map(model => model.id)).toEqual(['gemini-2.5-pro', 'gemini-2.5-flash']);
+    expect(models[1]).toMatchObject({ name: 'Gemini 2.5 Flash', popular: true, contextWindow: 1048576 });
+    expect(get.mock.calls[0]).toEqual([
+      'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000',
+      { 'x-goog-api-key': 'AIza-test' }
+    ]);
+    expect(get.mock.calls[1][0]).toBe('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000&pageToken=page-2');
+  });
+
+  it('should list Vertex AI publisher models with an access token', async () => {
+    vi.spyOn(GoogleAuth.prototype, 'getAccessToken').mockResolvedValue('ya29.token');
+    const get = vi.spyOn(HTTPClient.prototype, 'get').mockResolvedValue(response({
+      publisherModels: [
+        { name: 'publishers/google/models/gemini-2.5-pro', launchStage: 'GA' },
+        { name: 'publishers/google/models/gemini-1.0-pro', launchStage: 'DEPRECATED' },
+        { name: 'publishers/google/models/imagen-4.0-generate-001', launchStage: 'GA' }
+      ]
+    }));
+
+    const models = await new GeminiModelProxy(undefined, undefined, vertex).listModels();
+
+    expect(models.map(model => model.id)).toEqual(['gemini-2.5-pro']);
+    expect(get).toHaveBeenCalledWith(
+      'https://europe-west4-aiplatform.googleapis.com/v1beta1/publishers/google/models?pageSize=1000',
+      { Authorization: 'Bearer ya29.token', 'x-goog-user-project': 'my-project' }
+    );
+  });
+
+  it('should report rejected credentials for the configured API', async () => {
+    vi.spyOn(HTTPClient.prototype, 'get').mockRejectedValue(new Error('HTTP 403: Forbidden'));
+    vi.spyOn(GoogleAuth.prototype, 'getAccessToken').mockResolvedValue('ya29.token');
+    const healthCheck = new GeminiHealthCheck();
+
+    const apiKeyResult = await healthCheck.check({ provider: 'gemini', apiKey: 'AIza-wrong', model: 'gemini-2.5-pro' });
+    const vertexResult = await healthCheck.check({
+      provider: 'gemini',
+      apiKey: 'vertex-ai',
+      model: 'gemini-2.5-pro',
+      vertexProject: 'my-project'
+    });
+
+    expect(apiKeyResult).toMatchObject({ status: 'unreachable', message: 'Gemini API rejected the API key' });
+    expect(vertexResult).toMatchObject({ status: 'unreachable', message: 'Vertex AI rejected the Google credentials' });
+  });
+
+  it('should export Vertex AI settings as CODEMIE_VERTEX_* variables', () => {
+    expect(GeminiTemplate.exportEnvVars!({
+      vertexProject: 'my-project',
+      vertexLocation: 'europe-west4',
+      vertexCredentialsFile: '/keys/sa.json'
+    })).toEqual({
+      CODEMIE_VERTEX_PROJECT: 'my-project',
+      CODEMIE_VERTEX_LOCATION: 'europe-west4',
+      CODEMIE_VERTEX_CREDENTIALS: '/keys/sa.json'
+    });
+  });
+
+  it('should pass the API key or Vertex AI settings to Gemini CLI', async () => {
+    const beforeRun = GeminiTemplate.agentHooks!.gemini.beforeRun!;
+
+    const apiKeyEnv = await beforeRun({
+      CODEMIE_API_KEY: 'AIza-test',
+      CODEMIE_MODEL: 'gemini-2.5-pro',
+      GEMINI_BASE_URL: 'https://generativelanguage.googleapis.com',
+      GOOGLE_GEMINI_BASE_URL: 'https://generativelanguage.googleapis.com'
+    }, {} as any);
+    const vertexEnv = await beforeRun({
+      CODEMIE_API_KEY: 'vertex-ai',
+      CODEMIE_VERTEX_PROJECT: 'my-project',
+      CODEMIE_VERTEX_LOCATION: 'europe-west4',
+      CODEMIE_VERTEX_CREDENTIALS: '/keys/sa.json',
+      GEMINI_API_KEY: 'vertex-ai'
+    }, {} as any);
+
+    expect(apiKeyEnv).toEqual({
+      CODEMIE_API_KEY: 'AIza-test',
+      CODEMIE_MODEL: 'gemini-2.5-pro',
+      GEMINI_API_KEY: 'AIza-test',
+      GEMINI_MODEL: 'gemini-2.5-pro'
+    });
+    expect(vertexEnv).toMatchObject({
+      GOOGLE_GENAI_USE_VERTEXAI: 'true',
+      GOOGLE_CLOUD_PROJECT: 'my-project',
+      GOOGLE_CLOUD_LOCATION: 'europe-west4',
+      GOOGLE_APPLICATION_CREDENTIALS: '/keys/sa.json'
+    });
+    expect(vertexEnv.GEMINI_API_KEY).toBeUndefined();
+  });
+
+  it('should keep the proxy URL and placeholder key when the proxy is active', async () => {
+    const proxyEnv = await GeminiTemplate.agentHooks!.gemini.beforeRun!({
+      CODEMIE_API_KEY: PROXY_API_KEY,
+      CODEMIE_MODEL: 'gemini-2.5-pro',
+      GEMINI_BASE_URL: 'http://localhost:4001',
+      GOOGLE_GEMINI_BASE_URL: 'http://localhost:4001'
+    }, {} as any);
+
+    expect(proxyEnv).toMatchObject({
+      GEMINI_API_KEY: PROXY_API_KEY,
+      GEMINI_BASE_URL: 'http://localhost:4001',
+      GOOGLE_GEMINI_BASE_URL: 'http://localhost:4001'
+    });
+
+    // The proxy swaps the placeholder Gemini CLI sends for the profile's key
+    const interceptor = await new ProviderAuthPlugin().createInterceptor({
+      config: { targetApiUrl: 'https://generativelanguage.googleapis.com', provider: 'gemini', sessionId: 'test-session' },
+      logger,
+      profileConfig: { provider: 'gemini', apiKey: 'AIza-test' }
+    });
+    const context = {
+      url: '/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse',
+      headers: { 'x-goog-api-key': proxyEnv.GEMINI_API_KEY }
+    } as unknown as ProxyContext;
+
+    await interceptor.onRequest!(context);
+
+    expect(context.headers['x-goog-api-key']).toBe('AIza-test');
+  });
+});
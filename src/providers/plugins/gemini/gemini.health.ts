@@ -0,0 +1,109 @@
+/**
+ * Gemini Health Check Implementation
+ *
+ * Validates Gemini API or Vertex AI reachability and the configured credentials.
+ * Uses BaseHealthCheck for common patterns, delegates to GeminiModelProxy for model operations.
+ */
+
+import type { CodeMieConfigOptions } from '../../../env/types.js';
+import type { HealthCheckResult, ModelInfo } from '../../core/types.js';
+import { BaseHealthCheck } from '../../core/base/BaseHealthCheck.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { GeminiTemplate, getVertexBaseUrl } from './gemini.template.js';
+import { GeminiModelProxy, getVertexSettings, type VertexSettings } from './gemini.models.js';
+
+/**
+ * Health check implementation for Google Gemini
+ */
+export class GeminiHealthCheck extends BaseHealthCheck {
+  private modelProxy: GeminiModelProxy;
+  private vertex?: VertexSettings;
+
+  constructor(baseUrl: string = GeminiTemplate.defaultBaseUrl, apiKey?: string) {
+    super({
+      provider: 'gemini',
+      baseUrl,
+      timeout: 10000
+    });
+    this.modelProxy = new GeminiModelProxy(baseUrl, apiKey);
+  }
+
+  /**
+   * Override check() to use the credentials of the config being checked
+   */
+  async check(config: CodeMieConfigOptions): Promise<HealthCheckResult> {
+    this.vertex = getVertexSettings(config);
+    this.config.baseUrl = this.vertex
+      ? getVertexBaseUrl(this.vertex.location)
+      : config.baseUrl || GeminiTemplate.defaultBaseUrl;
+    this.modelProxy = new GeminiModelProxy(this.config.baseUrl, this.vertex ? undefined : config.apiKey, this.vertex);
+
+    return super.check(config);
+  }
+
+  /**
+   * Ping the API by listing models, which also validates the credentials
+   */
+  protected async ping(): Promise<void> {
+    await this.modelProxy.listModels();
+  }
+
+  /**
+   * Get API version (neither API has a version endpoint)
+   */
+  protected async getVersion(): Promise<string | undefined> {
+    return this.vertex ? `Vertex AI (${this.vertex.project}, ${this.vertex.location})` : 'Gemini API v1beta';
+  }
+
+  /**
+   * List available models
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    return this.modelProxy.listModels();
+  }
+
+  /**
+   * Custom unreachable message with credential hints
+   */
+  protected getUnreachableResult(error?: unknown): HealthCheckResult {
+    const message = error instanceof Error ? error.message : String(error);
+    const unauthorized = /HTTP 40[013]|credentials|access token/i.test(message);
+
+    if (this.vertex) {
+      return {
+        provider: 'gemini',
+        status: 'unreachable',
+        message: unauthorized ? 'Vertex AI rejected the Google credentials' : `Cannot connect to Vertex AI: ${message}`,
+        remediation: `Check your Vertex AI setup:
+  1. Enable the Vertex AI API in project ${this.vertex.project}
+  2. Grant the service account the "Vertex AI User" role
+  3. Verify the key file path, or run: gcloud auth application-default login
+  4. Update the profile: codemie setup`
+      };
+    }
+
+    return {
+      provider: 'gemini',
+      status: 'unreachable',
+      message: unauthorized ? 'Gemini API rejected the API key' : `Cannot connect to Gemini API: ${message}`,
+      remediation: unauthorized
+        ? `Check your API key:
+  1. Create or copy a key at https://aistudio.google.com/apikey
+  2. Update the profile: codemie setup`
+        : `Check connectivity to ${this.config.baseUrl}:
+  1. Verify the base URL in your profile
+  2. Check proxy and firewall settings`
+    };
+  }
+
+  /**
+   * Custom healthy message
+   */
+  protected getHealthyMessage(models: ModelInfo[]): string {
+    const api = this.vertex ? 'Vertex AI' : 'Gemini API';
+    return `${api} is accessible with ${models.length} Gemini model(s) available`;
+  }
+}
+
+// Auto-register health check (credentials come from the checked config)
+ProviderRegistry.registerHealthCheck('gemini', new GeminiHealthCheck());
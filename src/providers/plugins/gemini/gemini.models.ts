@@ -0,0 +1,193 @@
+/**
+ * Gemini Model Proxy
+ *
+ * Fetches available Gemini models from the Gemini API (/v1beta/models) or,
+ * for Vertex AI profiles, from the Vertex AI publisher model catalog.
+ */
+
+import { GoogleAuth } from 'google-auth-library';
+import type { CodeMieConfigOptions } from '../../../env/types.js';
+import type { ModelInfo } from '../../core/types.js';
+import { BaseModelProxy } from '../../core/base/BaseModelProxy.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { GeminiTemplate, getVertexBaseUrl } from './gemini.template.js';
+
+/**
+ * Vertex AI project settings
+ */
+export interface VertexSettings {
+  project: string;
+  location: string;
+
+  /** Service account key file (application default credentials when unset) */
+  credentialsFile?: string;
+}
+
+/**
+ * Gemini API /v1beta/models response
+ */
+interface GeminiModelsResponse {
+  models?: Array<{
+    name: string;
+    displayName?: string;
+    description?: string;
+    inputTokenLimit?: number;
+    supportedGenerationMethods?: string[];
+  }>;
+  nextPageToken?: string;
+}
+
+/**
+ * Vertex AI /v1beta1/publishers/google/models response
+ */
+interface VertexPublisherModelsResponse {
+  publisherModels?: Array<{
+    name: string;
+    versionId?: string;
+    launchStage?: string;
+  }>;
+  nextPageToken?: string;
+}
+
+/**
+ * Get Vertex AI settings from a profile (undefined for Gemini API key profiles)
+ */
+export function getVertexSettings(config: Partial<CodeMieConfigOptions>): VertexSettings | undefined {
+  if (!config.vertexProject) {
+    return undefined;
+  }
+
+  return {
+    project: config.vertexProject,
+    location: config.vertexLocation || 'us-central1',
+    credentialsFile: config.vertexCredentialsFile || undefined
+  };
+}
+
+/**
+ * Get an OAuth access token for Vertex AI
+ */
+async function getVertexAccessToken(vertex: VertexSettings): Promise<string> {
+  const auth = new GoogleAuth({
+    keyFile: vertex.credentialsFile,
+    scopes: ['https://www.googleapis.com/auth/cloud-platform']
+  });
+
+  const token = await auth.getAccessToken();
+  if (!token) {
+    throw new Error('Google credentials did not provide an access token');
+  }
+
+  return token;
+}
+
+/**
+ * Gemini model proxy implementation
+ */
+export class GeminiModelProxy extends BaseModelProxy {
+  private apiKey?: string;
+  private vertex?: VertexSettings;
+
+  constructor(baseUrl: string = GeminiTemplate.defaultBaseUrl, apiKey?: string, vertex?: VertexSettings) {
+    // Accept base URLs with or without the API version suffix
+    super(baseUrl.replace(/\/v1(beta1?)?\/?$/, '').replace(/\/$/, ''), 10000);
+    this.apiKey = apiKey;
+    this.vertex = vertex;
+  }
+
+  supports(provider: string): boolean {
+    return provider === 'gemini';
+  }
+
+  /**
+   * List Gemini models that can generate content, following pagination
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    if (this.vertex) {
+      const ids = await this.listVertexModelIds(this.vertex);
+      return ids.map(id => this.toModelInfo(id));
+    }
+
+    const models: ModelInfo[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const query = `pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+      const response = await this.client.get<GeminiModelsResponse>(
+        `${this.baseUrl}/v1beta/models?${query}`,
+        this.apiKey ? { 'x-goog-api-key': this.apiKey } : {}
+      );
+
+      for (const model of response.data.models ?? []) {
+        const id = model.name.replace(/^models\//, '');
+        if (!id.startsWith('gemini') || !model.supportedGenerationMethods?.includes('generateContent')) {
+          continue;
+        }
+
+        models.push(this.toModelInfo(id, model.displayName, model.description, model.inputTokenLimit));
+      }
+
+      pageToken = response.data.nextPageToken;
+    } while (pageToken);
+
+    return models;
+  }
+
+  /**
+   * Fetch models for setup wizard
+   */
+  async fetchModels(config: CodeMieConfigOptions): Promise<ModelInfo[]> {
+    const vertex = getVertexSettings(config) ?? this.vertex;
+    const proxy = new GeminiModelProxy(
+      vertex ? getVertexBaseUrl(vertex.location) : config.baseUrl || this.baseUrl,
+      config.apiKey || this.apiKey,
+      vertex
+    );
+    return proxy.listModels();
+  }
+
+  /**
+   * List Gemini model IDs from the Vertex AI publisher catalog
+   */
+  private async listVertexModelIds(vertex: VertexSettings): Promise<string[]> {
+    const headers = {
+      Authorization: `Bearer ${await getVertexAccessToken(vertex)}`,
+      'x-goog-user-project': vertex.project
+    };
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const query = `pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+      const response = await this.client.get<VertexPublisherModelsResponse>(
+        `${getVertexBaseUrl(vertex.location)}/v1beta1/publishers/google/models?${query}`,
+        headers
+      );
+
+      for (const model of response.data.publisherModels ?? []) {
+        const id = model.name.replace(/^publishers\/google\/models\//, '');
+        if (id.startsWith('gemini') && model.launchStage !== 'DEPRECATED') {
+          ids.push(id);
+        }
+      }
+
+      pageToken = response.data.nextPageToken;
+    } while (pageToken);
+
+    return ids;
+  }
+
+  private toModelInfo(id: string, displayName?: string, description?: string, inputTokenLimit?: number): ModelInfo {
+    const metadata = GeminiTemplate.modelMetadata?.[id];
+    return {
+      id,
+      name: displayName || metadata?.name || id,
+      description: description || metadata?.description,
+      contextWindow: inputTokenLimit ?? metadata?.contextWindow,
+      popular: metadata?.popular ?? false
+    };
+  }
+}
+
+// Auto-register model proxy
+ProviderRegistry.registerModelProxy('gemini', new GeminiModelProxy());
@@ -0,0 +1,147 @@
+/**
+ * Google Gemini Setup Steps
+ *
+ * Interactive setup flow for Google Gemini.
+ * Supports both a Gemini API key and Vertex AI with a service account.
+ */
+
+import type { ProviderSetupSteps, ProviderCredentials } from '../../core/types.js';
+import type { CodeMieConfigOptions } from '../../../env/types.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { GeminiTemplate, VERTEX_AI_API_KEY, getVertexBaseUrl } from './gemini.template.js';
+import { existsSync } from 'fs';
+import path from 'path';
+import os from 'os';
+
+/**
+ * Expand ~ in a key file path and make it absolute
+ */
+function resolveKeyFile(input: string): string {
+  const expanded = input.startsWith('~') ? path.join(os.homedir(), input.slice(1)) : input;
+  return path.resolve(expanded);
+}
+
+export const GeminiSetupSteps: ProviderSetupSteps = {
+  name: 'gemini',
+
+  async getCredentials(_isUpdate = false): Promise<ProviderCredentials> {
+    const inquirer = (await import('inquirer')).default;
+
+    const { authMethod } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'authMethod',
+        message: 'Authentication method:',
+        choices: [
+          { name: 'Gemini API key (Google AI Studio)', value: 'api-key' },
+          { name: 'Vertex AI (service account)', value: 'vertex' }
+        ]
+      }
+    ]);
+
+    if (authMethod === 'api-key') {
+      const { apiKey } = await inquirer.prompt([
+        {
+          type: 'password',
+          name: 'apiKey',
+          message: 'Gemini API Key:',
+          mask: '*',
+          validate: (input: string) => input.trim() !== '' || 'API key is required'
+        }
+      ]);
+
+      return {
+        baseUrl: GeminiTemplate.defaultBaseUrl,
+        apiKey: apiKey.trim()
+      };
+    }
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'project',
+        message: 'Google Cloud project ID:',
+        default: process.env.GOOGLE_CLOUD_PROJECT,
+        validate: (input: string) => input.trim() !== '' || 'Project ID is required'
+      },
+      {
+        type: 'input',
+        name: 'location',
+        message: 'Vertex AI location:',
+        default: process.env.GOOGLE_CLOUD_LOCATION || 'us-central1',
+        validate: (input: string) => input.trim() !== '' || 'Location is required'
+      },
+      {
+        type: 'input',
+        name: 'credentialsFile',
+        message: 'Service account key file (empty for application default credentials):',
+        default: process.env.GOOGLE_APPLICATION_CREDENTIALS,
+        validate: (input: string) => {
+          if (!input || input.trim() === '') return true;
+          return existsSync(resolveKeyFile(input.trim())) || 'Key file not found';
+        }
+      }
+    ]);
+
+    const location = answers.location.trim();
+    const credentialsFile = answers.credentialsFile?.trim();
+
+    return {
+      baseUrl: getVertexBaseUrl(location),
+      apiKey: VERTEX_AI_API_KEY,
+      additionalConfig: {
+        vertexProject: answers.project.trim(),
+        vertexLocation: location,
+        vertexCredentialsFile: credentialsFile ? resolveKeyFile(credentialsFile) : undefined
+      }
+    };
+  },
+
+  async fetchModels(credentials: ProviderCredentials): Promise<string[]> {
+    const { GeminiModelProxy, getVertexSettings } = await import('./gemini.models.js');
+
+    const vertex = getVertexSettings((credentials.additionalConfig ?? {}) as Partial<CodeMieConfigOptions>);
+    const modelProxy = new GeminiModelProxy(
+      credentials.baseUrl || GeminiTemplate.defaultBaseUrl,
+      vertex ? undefined : credentials.apiKey,
+      vertex
+    );
+
+    try {
+      const models = await modelProxy.listModels();
+      return models.map(m => m.id);
+    } catch (error) {
+      const chalk = (await import('chalk')).default;
+      console.log(chalk.yellow(`\n⚠ Could not fetch models from ${vertex ? 'Vertex AI' : 'Gemini API'}`));
+      console.log(chalk.dim(`  Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      console.log(chalk.dim('  Using recommended models instead\n'));
+
+      return GeminiTemplate.recommendedModels;
+    }
+  },
+
+  buildConfig(credentials: ProviderCredentials, selectedModel: string): Partial<CodeMieConfigOptions> {
+    const config: Partial<CodeMieConfigOptions> = {
+      provider: 'gemini',
+      baseUrl: credentials.baseUrl,
+      apiKey: credentials.apiKey,
+      model: selectedModel,
+      timeout: 300,
+      debug: false
+    };
+
+    // Vertex AI credentials come from the service account, not the API key
+    if (credentials.additionalConfig?.vertexProject) {
+      config.vertexProject = credentials.additionalConfig.vertexProject as string;
+      config.vertexLocation = credentials.additionalConfig.vertexLocation as string;
+      if (credentials.additionalConfig.vertexCredentialsFile) {
+        config.vertexCredentialsFile = credentials.additionalConfig.vertexCredentialsFile as string;
+      }
+    }
+
+    return config;
+  }
+};
+
+// Auto-register setup steps
+ProviderRegistry.registerSetupSteps('gemini', GeminiSetupSteps);
@@ -0,0 +1,158 @@
+/**
+ * Google Gemini Provider Template
+ *
+ * Template definition for Google's Gemini models, either through the Gemini API
+ * (API key from Google AI Studio) or through Vertex AI (service account).
+ *
+ * Auto-registers on import via registerProvider().
+ */
+
+import type { ProviderTemplate } from '../../core/types.js';
+import { registerProvider } from '../../core/decorators.js';
+import { PROXY_API_KEY } from '../sso/proxy/plugins/provider-auth.plugin.js';
+
+/**
+ * Placeholder API key of Vertex AI profiles (credentials come from the service account)
+ */
+export const VERTEX_AI_API_KEY = 'vertex-ai';
+
+/**
+ * Build the Vertex AI endpoint for a location
+ */
+export function getVertexBaseUrl(location: string): string {
+  return location === 'global'
+    ? 'https://aiplatform.googleapis.com'
+    : `https://${location}-aiplatform.googleapis.com`;
+}
+
+export const GeminiTemplate = registerProvider<ProviderTemplate>({
+  name: 'gemini',
+  displayName: 'Google Gemini',
+  description: 'Gemini API or Vertex AI - Gemini models from Google',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com',
+  requiresAuth: true,
+  authType: 'api-key', // API key, or a service account for Vertex AI
+  priority: 16,
+  defaultProfileName: 'gemini',
+  recommendedModels: [
+    'gemini-2.5-pro',
+    'gemini-2.5-flash',
+    'gemini-3-pro-preview'
+  ],
+  modelMetadata: {
+    'gemini-2.5-pro': {
+      name: 'Gemini 2.5 Pro',
+      description: 'Most capable stable Gemini model for coding and reasoning',
+      popular: true,
+      contextWindow: 1048576
+    },
+    'gemini-2.5-flash': {
+      name: 'Gemini 2.5 Flash',
+      description: 'Fast and cost-efficient model with thinking',
+      popular: true,
+      contextWindow: 1048576
+    },
+    'gemini-3-pro-preview': {
+      name: 'Gemini 3 Pro (Preview)',
+      description: 'Latest Gemini model for complex agentic tasks',
+      popular: true,
+      contextWindow: 1048576
+    }
+  },
+  capabilities: ['streaming', 'tools', 'function-calling', 'vision'],
+  supportsModelInstallation: false,
+  supportsStreaming: true,
+
+  // Environment Variable Export
+  exportEnvVars: (config) => {
+    const env: Record<string, string> = {};
+
+    // Vertex AI-specific environment variables
+    if (config.vertexProject) env.CODEMIE_VERTEX_PROJECT = config.vertexProject;
+    if (config.vertexLocation) env.CODEMIE_VERTEX_LOCATION = config.vertexLocation;
+    if (config.vertexCredentialsFile) env.CODEMIE_VERTEX_CREDENTIALS = config.vertexCredentialsFile;
+
+    return env;
+  },
+
+  // Provider-specific agent hooks
+  agentHooks: {
+    // Gemini CLI authentication
+    // https://github.com/google-gemini/gemini-cli/blob/main/docs/get-started/authentication.md
+    'gemini': {
+      beforeRun: async (env, _config) => {
+        // Behind the CodeMie proxy the agent only gets a placeholder key;
+        // the proxy replaces it with the real key in the x-goog-api-key header
+        const usingProxy = env.CODEMIE_API_KEY === PROXY_API_KEY && !env.CODEMIE_VERTEX_PROJECT;
+
+        if (!usingProxy) {
+          // Gemini CLI talks to Google directly (the proxy cannot sign Vertex AI requests)
+          delete env.GOOGLE_GEMINI_BASE_URL;
+          delete env.GEMINI_BASE_URL;
+        }
+
+        if (env.CODEMIE_VERTEX_PROJECT) {
+          // Vertex AI with a service account (or application default credentials)
+          env.GOOGLE_GENAI_USE_VERTEXAI = 'true';
+          env.GOOGLE_CLOUD_PROJECT = env.CODEMIE_VERTEX_PROJECT;
+          env.GOOGLE_CLOUD_LOCATION = env.CODEMIE_VERTEX_LOCATION || 'us-central1';
+          if (env.CODEMIE_VERTEX_CREDENTIALS) {
+            env.GOOGLE_APPLICATION_CREDENTIALS = env.CODEMIE_VERTEX_CREDENTIALS;
+          }
+
+          // An API key would switch Gemini CLI to Vertex AI express mode
+          delete env.GEMINI_API_KEY;
+          delete env.GOOGLE_API_KEY;
+        } else {
+          // Gemini API key from Google AI Studio
+          if (env.CODEMIE_API_KEY) {
+            env.GEMINI_API_KEY = env.CODEMIE_API_KEY;
+          }
+          delete env.GOOGLE_API_KEY;
+          delete env.GOOGLE_GENAI_USE_VERTEXAI;
+        }
+
+        if (env.CODEMIE_MODEL) {
+          env.GEMINI_MODEL = env.CODEMIE_MODEL;
+        }
+
+        return env;
+      }
+    }
+  },
+
+  setupInstructions: `
+# Google Gemini Setup Instructions
+
+## Authentication Options
+
+### Option 1: Gemini API key
+1. Sign in to Google AI Studio: https://aistudio.google.com
+2. Create an API key under "Get API key"
+3. Run \`codemie setup\` and select "Google Gemini"
+
+### Option 2: Vertex AI (service account)
+1. Enable the Vertex AI API in your Google Cloud project
+2. Create a service account with the "Vertex AI User" role
+3. Download a JSON key for the service account
+4. Run \`codemie setup\`, select "Google Gemini" and then "Vertex AI"
+
+Leave the key file empty to use application default credentials
+(\`gcloud auth application-default login\`).
+
+## Using CodeMie with Gemini
+
+\`\`\`bash
+# Use with built-in agent
+codemie-code --profile gemini "your task"
+
+# Use with Gemini CLI
+codemie-gemini --profile gemini "your task"
+\`\`\`
+
+## Documentation
+
+- Gemini API: https://ai.google.dev/gemini-api/docs
+- Vertex AI: https://cloud.google.com/vertex-ai/generative-ai/docs
+`
+});
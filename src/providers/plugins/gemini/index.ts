@@ -0,0 +1,11 @@
+/**
+ * Google Gemini Provider - Complete Provider Implementation
+ *
+ * All Gemini API and Vertex AI code in one place for easy maintenance.
+ * Auto-registers with ProviderRegistry on import.
+ */
+
+export { GeminiTemplate } from './gemini.template.js';
+export { GeminiHealthCheck } from './gemini.health.js';
+export { GeminiModelProxy } from './gemini.models.js';
+export { GeminiSetupSteps } from './gemini.setup-steps.js';
@@ -8,6 +8,7 @@ import { ProviderRegistry } from '../../core/registry.js';
 import { LiteLLMSetupSteps } from './litellm.setup-steps.js';
 
 export { LiteLLMTemplate } from './litellm.template.js';
+export { LiteLLMModelProxy } from './litellm.models.js';
 export { LiteLLMSetupSteps } from './litellm.setup-steps.js';
 
 // Register setup steps
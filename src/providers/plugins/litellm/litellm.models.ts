@@ -7,6 +7,8 @@
 import type { CodeMieConfigOptions } from '../../../env/types.js';
 import type { ModelInfo } from '../../core/types.js';
 import { BaseModelProxy } from '../../core/base/BaseModelProxy.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { LiteLLMTemplate } from './litellm.template.js';
 
 /**
  * LiteLLM model proxy implementation
@@ -56,7 +58,11 @@ export class LiteLLMModelProxy extends BaseModelProxy {
   /**
    * Fetch models for setup wizard
    */
-  async fetchModels(_config: CodeMieConfigOptions): Promise<ModelInfo[]> {
-    return this.listModels();
+  async fetchModels(config: CodeMieConfigOptions): Promise<ModelInfo[]> {
+    const proxy = new LiteLLMModelProxy(config.baseUrl || this.baseUrl, config.apiKey || this.apiKey);
+    return proxy.listModels();
   }
 }
+
+// Auto-register model proxy
+ProviderRegistry.registerModelProxy('litellm', new LiteLLMModelProxy(LiteLLMTemplate.defaultBaseUrl));
@@ -0,0 +1,82 @@
+/**
+ * Ollama Provider Tests
+ *
+ * Tests model capability detection, model management and the Claude Code agent hook
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { HTTPClient } from '../../../core/base/http-client.js';
+import { OllamaTemplate } from '../ollama.template.js';
+import { OllamaModelProxy } from '../ollama.models.js';
+
+function showResponse(data: Record<string, unknown>) {
+  return { status: 200, statusText: 'OK', headers: {}, data };
+}
+
+describe('Ollama provider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read capabilities and context length from /api/show', async () => {
+    const post = vi.spyOn(HTTPClient.prototype, 'post').mockResolvedValue(showResponse({
+      capabilities: ['completion', 'tools'],
+      model_info: { 'general.architecture': 'qwen2', 'qwen2.context_length': 32768 }
+    }));
+
+    const details = await new OllamaModelProxy('http://localhost:11434').getModelDetails('qwen2.5-coder:7b');
+
+    expect(details).toEqual({ capabilities: ['completion', 'tools'], contextLength: 32768 });
+    expect(post).toHaveBeenCalledWith('http://localhost:11434/api/show', { model: 'qwen2.5-coder:7b' });
+  });
+
+  it('should derive tool support from the template on older Ollama versions', async () => {
+    vi.spyOn(HTTPClient.prototype, 'post')
+      .mockResolvedValueOnce(showResponse({ template: '{{ if .Tools }}<tools>{{ end }}{{ .Prompt }}' }))
+      .mockResolvedValueOnce(showResponse({ template: '[INST] {{ .Prompt }} [/INST]' }));
+
+    const proxy = new OllamaModelProxy();
+
+    expect((await proxy.getModelDetails('llama3.1')).capabilities).toEqual(['completion', 'tools']);
+    expect((await proxy.getModelDetails('codellama')).capabilities).toEqual(['completion']);
+  });
+
+  it('should report models that are not installed', async () => {
+    vi.spyOn(HTTPClient.prototype, 'post').mockRejectedValue(new Error('HTTP 404: Not Found'));
+
+    await expect(new OllamaModelProxy().getModelDetails('missing')).rejects.toThrow(
+      'Failed to get details for model missing: HTTP 404: Not Found'
+    );
+  });
+
+  it('should manage models on the native API of the profile base URL', async () => {
+    const get = vi.spyOn(HTTPClient.prototype, 'get').mockResolvedValue(showResponse({
+      models: [{ name: 'qwen2.5-coder:7b', size: 4683087332, digest: 'abc', modified_at: '2025-01-01' }]
+    }));
+
+    const installer = new OllamaModelProxy().getInstaller({ provider: 'ollama', baseUrl: 'http://gpu-box:11434/v1/' });
+    const models = await installer.listModels();
+
+    expect(get).toHaveBeenCalledWith('http://gpu-box:11434/api/tags');
+    expect(models.map(m => m.id)).toEqual(['qwen2.5-coder:7b']);
+  });
+
+  it('should point Claude Code at the Anthropic-compatible API', async () => {
+    const beforeRun = OllamaTemplate.agentHooks!.claude.beforeRun!;
+
+    const env = await beforeRun({
+      CODEMIE_BASE_URL: 'http://localhost:11434/v1',
+      CODEMIE_API_KEY: 'not-required',
+      CODEMIE_MODEL: 'qwen3-coder',
+      ANTHROPIC_API_KEY: 'sk-ant-test'
+    }, {} as any);
+
+    expect(env).toMatchObject({
+      ANTHROPIC_BASE_URL: 'http://localhost:11434',
+      ANTHROPIC_AUTH_TOKEN: 'ollama',
+      ANTHROPIC_MODEL: 'qwen3-coder',
+      CLAUDE_CODE_DISABLE_EXPERIMENTAL_BETAS: '1'
+    });
+    expect(env.ANTHROPIC_API_KEY).toBeUndefined();
+  });
+});
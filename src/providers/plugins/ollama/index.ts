@@ -7,5 +7,5 @@
 
 export { OllamaTemplate } from './ollama.template.js';
 export { OllamaHealthCheck } from './ollama.health.js';
-export { OllamaModelProxy } from './ollama.models.js';
+export { OllamaModelProxy, type OllamaModelDetails } from './ollama.models.js';
 export { OllamaSetupSteps } from './ollama.setup-steps.js';
@@ -30,6 +30,26 @@ interface OllamaTagsResponse {
   }>;
 }
 
+/**
+ * Ollama /api/show response (fields used by CodeMie)
+ */
+interface OllamaShowResponse {
+  template?: string;
+  capabilities?: string[];
+  model_info?: Record<string, unknown>;
+}
+
+/**
+ * Capabilities and limits of an installed Ollama model
+ */
+export interface OllamaModelDetails {
+  /** Capabilities reported by Ollama (e.g. 'completion', 'tools', 'vision') */
+  capabilities: string[];
+
+  /** Maximum context length the model was trained for */
+  contextLength?: number;
+}
+
 /**
  * Pattern to identify coding model names
  */
@@ -85,7 +105,8 @@ function getCodingModelMetadata(modelId: string): Partial<ModelInfo> {
  */
 export class OllamaModelProxy extends BaseModelProxy {
   constructor(baseUrl: string = OllamaTemplate.defaultBaseUrl) {
-    super(baseUrl, 300000); // 5 minutes for model operations
+    // Profiles store the OpenAI-compatible /v1 URL; model management uses the native API
+    super(baseUrl.replace(/\/+$/, '').replace(/\/v1$/, ''), 300000); // 5 minutes for model operations
   }
 
   /**
@@ -130,9 +151,7 @@ export class OllamaModelProxy extends BaseModelProxy {
    */
   async fetchModels(config: CodeMieConfigOptions): Promise<ModelInfo[]> {
     try {
-      // Use baseUrl from config if provided, otherwise use default
-      const baseUrl = config.baseUrl || OllamaTemplate.defaultBaseUrl;
-      const proxy = baseUrl === this.baseUrl ? this : new OllamaModelProxy(baseUrl);
+      const proxy = this.getInstaller(config);
 
       // Try to fetch installed models from Ollama
       const installedModels = await proxy.listModels();
@@ -166,6 +185,15 @@ export class OllamaModelProxy extends BaseModelProxy {
     });
   }
 
+  /**
+   * Get a proxy for the Ollama instance of a profile
+   */
+  getInstaller(config: CodeMieConfigOptions): OllamaModelProxy {
+    // Use baseUrl from config if provided, otherwise use default
+    const proxy = new OllamaModelProxy(config.baseUrl || OllamaTemplate.defaultBaseUrl);
+    return proxy.baseUrl === this.baseUrl ? this : proxy;
+  }
+
   /**
    * Install model with progress tracking
    * Streams real-time progress from Ollama API
@@ -251,6 +279,28 @@ export class OllamaModelProxy extends BaseModelProxy {
     }
   }
 
+  /**
+   * Get capabilities and context length of an installed model
+   * Ollama versions before 0.6 do not report capabilities, so tool support is
+   * derived from the chat template instead
+   */
+  async getModelDetails(modelName: string): Promise<OllamaModelDetails> {
+    try {
+      const response = await this.client.post<OllamaShowResponse>(`${this.baseUrl}/api/show`, { model: modelName });
+      const { template, capabilities, model_info: modelInfo } = response.data;
+
+      const contextLength = Object.entries(modelInfo ?? {})
+        .find(([key, value]) => key.endsWith('.context_length') && typeof value === 'number')?.[1] as number | undefined;
+
+      return {
+        capabilities: capabilities ?? ['completion', ...(template?.includes('.Tools') ? ['tools'] : [])],
+        contextLength
+      };
+    } catch (error) {
+      throw new Error(`Failed to get details for model ${modelName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get detailed model information
    */
@@ -29,7 +29,32 @@ export const OllamaTemplate = registerProvider<ProviderTemplate>({
   healthCheckEndpoint: '/api/version',
 
   // Agent lifecycle hooks
-  agentHooks: {},
+  agentHooks: {
+    // Claude Code talks to Ollama's Anthropic-compatible Messages API (Ollama 0.14+)
+    // Replaces Claude Code's default hook, so its defaults are repeated here
+    'claude': {
+      beforeRun: async (env, _config) => {
+        // Claude Code appends /v1/messages itself
+        if (env.CODEMIE_BASE_URL) {
+          env.ANTHROPIC_BASE_URL = env.CODEMIE_BASE_URL.replace(/\/+$/, '').replace(/\/v1$/, '');
+        }
+
+        // Ollama ignores the token, but Claude Code requires one
+        env.ANTHROPIC_AUTH_TOKEN = 'ollama';
+        delete env.ANTHROPIC_API_KEY;
+
+        if (env.CODEMIE_MODEL) {
+          env.ANTHROPIC_MODEL = env.CODEMIE_MODEL;
+        }
+
+        // Ollama implements neither Anthropic beta features nor the telemetry endpoint
+        env.CLAUDE_CODE_DISABLE_EXPERIMENTAL_BETAS = '1';
+        env.CLAUDE_CODE_ENABLE_TELEMETRY = '0';
+
+        return env;
+      }
+    }
+  },
 
   setupInstructions: `
 # Ollama Setup Instructions
@@ -57,6 +82,17 @@ Download from: https://ollama.com/download
 - **deepseek-v3.1:671b-cloud**: Latest DeepSeek with advanced reasoning (671B)
 
 **Note**: Models without tool support (like codellama) will fail with agents that require function calling.
+The built-in agent checks this when it starts and refuses models that cannot call tools.
+
+## Using CodeMie with Ollama
+
+\`\`\`bash
+# Use with built-in agent
+codemie-code --profile ollama "your task"
+
+# Use with Claude Code agent (requires Ollama 0.14 or later)
+codemie-claude --profile ollama "your task"
+\`\`\`
 
 ## Documentation
 
@@ -0,0 +1,125 @@
+/**
+ * OpenAI-Compatible Provider Tests
+ *
+ * Tests registration, model discovery with custom auth headers and setup config
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ProviderRegistry } from '../../../core/registry.js';
+import { OpenAICompatibleModelProxy } from '../openai-compatible.models.js';
+import { OpenAICompatibleSetupSteps, parseHeaders } from '../openai-compatible.setup-steps.js';
+import {
+  NO_API_KEY,
+  createOpenAICompatibleFetch,
+  getOpenAICompatibleConnection
+} from '../openai-compatible.connection.js';
+import '../index.js';
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('OpenAI-compatible provider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should register template, model proxy, health check and setup steps', () => {
+    expect(ProviderRegistry.getProvider('openai-compatible')?.displayName).toBe('OpenAI-Compatible API');
+    expect(ProviderRegistry.getModelProxy('openai-compatible')).toBeInstanceOf(OpenAICompatibleModelProxy);
+    expect(ProviderRegistry.getHealthCheck('openai-compatible')).toBeDefined();
+    expect(ProviderRegistry.getSetupSteps('openai-compatible')).toBe(OpenAICompatibleSetupSteps);
+  });
+
+  it('should list models from /models with the configured auth header and static headers', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse({
+      data: [{ id: 'Qwen/Qwen2.5-Coder-32B', owned_by: 'vllm', max_model_len: 32768 }]
+    }));
+
+    const proxy = new OpenAICompatibleModelProxy(
+      'https://gateway.example.com/v1/',
+      'secret',
+      getOpenAICompatibleConnection({ authHeader: 'api-key', authScheme: '', headers: { 'X-Tenant': 'team-a' } })
+    );
+    const models = await proxy.listModels();
+
+    expect(models).toEqual([{
+      id: 'Qwen/Qwen2.5-Coder-32B',
+      name: 'Qwen/Qwen2.5-Coder-32B',
+      contextWindow: 32768,
+      popular: false,
+      metadata: { ownedBy: 'vllm' }
+    }]);
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    const headers = new Headers(init?.headers);
+    expect(url).toBe('https://gateway.example.com/v1/models');
+    expect(headers.get('api-key')).toBe('secret');
+    expect(headers.get('x-tenant')).toBe('team-a');
+    expect(headers.get('authorization')).toBeNull();
+  });
+
+  it('should report HTTP errors from the models endpoint', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 401, statusText: 'Unauthorized' }));
+
+    await expect(new OpenAICompatibleModelProxy().listModels()).rejects.toThrow('HTTP 401: Unauthorized');
+  });
+
+  it('should replace the SDK Authorization header and skip auth without a key', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse({}));
+
+    const withKey = createOpenAICompatibleFetch(getOpenAICompatibleConnection({ authScheme: 'Token' }), 'secret', {
+      'X-CodeMie-Client': 'codemie-code'
+    });
+    await withKey('http://localhost:8000/v1/chat/completions', { headers: { Authorization: 'Bearer secret' } });
+
+    const withoutKey = createOpenAICompatibleFetch(getOpenAICompatibleConnection({}), NO_API_KEY);
+    await withoutKey('http://localhost:8000/v1/chat/completions', { headers: { Authorization: `Bearer ${NO_API_KEY}` } });
+
+    const first = new Headers(fetchSpy.mock.calls[0][1]?.headers);
+    expect(first.get('authorization')).toBe('Token secret');
+    expect(first.get('x-codemie-client')).toBe('codemie-code');
+    expect(new Headers(fetchSpy.mock.calls[1][1]?.headers).get('authorization')).toBeNull();
+  });
+
+  it('should parse extra headers', () => {
+    expect(parseHeaders('X-Tenant: team-a, X-Route: gpu:1')).toEqual({ 'X-Tenant': 'team-a', 'X-Route': 'gpu:1' });
+    expect(parseHeaders('')).toEqual({});
+    expect(() => parseHeaders('X-Tenant')).toThrow('expected "Name: value"');
+  });
+
+  it('should store only connection settings that differ from the OpenAI defaults', () => {
+    const defaults = OpenAICompatibleSetupSteps.buildConfig({
+      baseUrl: 'http://localhost:8000/v1',
+      apiKey: NO_API_KEY,
+      additionalConfig: { authHeader: 'Authorization', authScheme: 'Bearer', headers: {}, tls: {} }
+    }, 'qwen');
+
+    expect(defaults).toEqual({
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:8000/v1',
+      apiKey: NO_API_KEY,
+      model: 'qwen',
+      timeout: 300,
+      debug: false
+    });
+
+    const custom = OpenAICompatibleSetupSteps.buildConfig({
+      baseUrl: 'https://gateway.example.com/v1',
+      apiKey: 'secret',
+      additionalConfig: {
+        authHeader: 'X-API-Key',
+        authScheme: '',
+        headers: { 'X-Tenant': 'team-a' },
+        tls: { caFile: '/etc/ssl/corp-ca.pem' }
+      }
+    }, 'qwen');
+
+    expect(custom).toMatchObject({
+      authHeader: 'X-API-Key',
+      authScheme: '',
+      headers: { 'X-Tenant': 'team-a' },
+      tls: { caFile: '/etc/ssl/corp-ca.pem' }
+    });
+  });
+});
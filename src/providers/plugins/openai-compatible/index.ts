@@ -0,0 +1,18 @@
+/**
+ * OpenAI-Compatible Provider - Complete Provider Implementation
+ *
+ * All code for generic OpenAI-compatible endpoints in one place for easy maintenance.
+ * Auto-registers with ProviderRegistry on import.
+ */
+
+export { OpenAICompatibleTemplate } from './openai-compatible.template.js';
+export { OpenAICompatibleHealthCheck } from './openai-compatible.health.js';
+export { OpenAICompatibleModelProxy } from './openai-compatible.models.js';
+export { OpenAICompatibleSetupSteps } from './openai-compatible.setup-steps.js';
+export {
+  createOpenAICompatibleFetch,
+  getOpenAICompatibleConnection,
+  getOpenAICompatibleHeaders,
+  getTlsAgentOptions,
+  type OpenAICompatibleConnection
+} from './openai-compatible.connection.js';
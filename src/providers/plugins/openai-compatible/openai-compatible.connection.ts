@@ -0,0 +1,120 @@
+/**
+ * OpenAI-Compatible Connection Settings
+ *
+ * Auth header, static headers and TLS settings of an OpenAI-compatible
+ * profile, shared by model discovery, health checks and the built-in agent.
+ */
+
+import { readFileSync } from 'fs';
+import { rootCertificates } from 'tls';
+import { Agent, fetch as undiciFetch } from 'undici';
+import type { CodeMieConfigOptions, TlsSettings } from '../../../env/types.js';
+
+/**
+ * Placeholder API key of endpoints without authentication
+ */
+export const NO_API_KEY = 'not-required';
+
+/**
+ * How requests to an OpenAI-compatible endpoint are authenticated and sent
+ */
+export interface OpenAICompatibleConnection {
+  /** Header carrying the API key */
+  authHeader: string;
+
+  /** Scheme before the API key, e.g. Bearer (empty for the bare key) */
+  authScheme: string;
+
+  /** Static headers sent with every request */
+  headers: Record<string, string>;
+
+  tls?: TlsSettings;
+}
+
+/**
+ * Get the connection settings of a profile (defaults match the OpenAI API)
+ */
+export function getOpenAICompatibleConnection(config: Partial<CodeMieConfigOptions>): OpenAICompatibleConnection {
+  return {
+    authHeader: config.authHeader?.trim() || 'Authorization',
+    authScheme: config.authScheme ?? 'Bearer',
+    headers: config.headers ?? {},
+    tls: config.tls
+  };
+}
+
+/**
+ * Build the static and auth headers of a request
+ */
+export function getOpenAICompatibleHeaders(connection: OpenAICompatibleConnection, apiKey?: string): Record<string, string> {
+  const headers = { ...connection.headers };
+
+  if (apiKey && apiKey !== NO_API_KEY) {
+    headers[connection.authHeader] = connection.authScheme.trim()
+      ? `${connection.authScheme.trim()} ${apiKey}`
+      : apiKey;
+  }
+
+  return headers;
+}
+
+/**
+ * Create a fetch function that sends the connection's headers and trusts its CA bundle.
+ * Headers set by the caller are kept, except the OpenAI SDK's Authorization
+ * header, which is replaced by the configured auth header.
+ */
+export function createOpenAICompatibleFetch(
+  connection: OpenAICompatibleConnection,
+  apiKey?: string,
+  extraHeaders: Record<string, string> = {}
+): typeof fetch {
+  const dispatcher = createTlsDispatcher(connection.tls);
+  const connectionHeaders = getOpenAICompatibleHeaders(connection, apiKey);
+
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const headers = new Headers(init?.headers);
+    headers.delete('authorization');
+    for (const [name, value] of Object.entries({ ...connectionHeaders, ...extraHeaders })) {
+      headers.set(name, value);
+    }
+
+    if (!dispatcher) {
+      return fetch(input, { ...init, headers });
+    }
+
+    // Node's built-in fetch does not take custom CAs, so use undici's fetch with its own agent
+    return undiciFetch(input as Parameters<typeof undiciFetch>[0], {
+      ...(init as Parameters<typeof undiciFetch>[1]),
+      headers: Object.fromEntries(headers.entries()),
+      dispatcher
+    });
+  }) as typeof fetch;
+}
+
+/**
+ * Get the TLS options of node and undici agents (undefined for the defaults)
+ */
+export function getTlsAgentOptions(tls?: TlsSettings): { ca?: string[]; rejectUnauthorized: boolean } | undefined {
+  if (!tls?.caFile && tls?.rejectUnauthorized !== false) {
+    return undefined;
+  }
+
+  let ca: string[] | undefined;
+  if (tls.caFile) {
+    try {
+      ca = [...rootCertificates, readFileSync(tls.caFile, 'utf-8')];
+    } catch (error) {
+      throw new Error(`Cannot read CA bundle ${tls.caFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { ca, rejectUnauthorized: tls.rejectUnauthorized ?? true };
+}
+
+/**
+ * Create an undici agent for custom TLS settings (undefined for the defaults)
+ */
+function createTlsDispatcher(tls?: TlsSettings): Agent | undefined {
+  const connect = getTlsAgentOptions(tls);
+  return connect ? new Agent({ connect }) : undefined;
+}
@@ -0,0 +1,96 @@
+/**
+ * OpenAI-Compatible Health Check Implementation
+ *
+ * Validates endpoint reachability, credentials and certificates by listing models.
+ * Uses BaseHealthCheck for common patterns, delegates to OpenAICompatibleModelProxy for model operations.
+ */
+
+import type { CodeMieConfigOptions } from '../../../env/types.js';
+import type { HealthCheckResult, ModelInfo } from '../../core/types.js';
+import { BaseHealthCheck } from '../../core/base/BaseHealthCheck.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { OpenAICompatibleTemplate } from './openai-compatible.template.js';
+import { OpenAICompatibleModelProxy } from './openai-compatible.models.js';
+import { getOpenAICompatibleConnection } from './openai-compatible.connection.js';
+
+/**
+ * Health check implementation for OpenAI-compatible endpoints
+ */
+export class OpenAICompatibleHealthCheck extends BaseHealthCheck {
+  private modelProxy: OpenAICompatibleModelProxy;
+
+  constructor(baseUrl: string = OpenAICompatibleTemplate.defaultBaseUrl) {
+    super({
+      provider: 'openai-compatible',
+      baseUrl,
+      timeout: 10000
+    });
+    this.modelProxy = new OpenAICompatibleModelProxy(baseUrl);
+  }
+
+  /**
+   * Override check() to use the connection settings of the config being checked
+   */
+  async check(config: CodeMieConfigOptions): Promise<HealthCheckResult> {
+    this.config.baseUrl = config.baseUrl || OpenAICompatibleTemplate.defaultBaseUrl;
+    this.modelProxy = new OpenAICompatibleModelProxy(this.config.baseUrl, config.apiKey, getOpenAICompatibleConnection(config));
+
+    return super.check(config);
+  }
+
+  /**
+   * Ping the endpoint by listing models, which also validates the credentials
+   */
+  protected async ping(): Promise<void> {
+    await this.modelProxy.listModels();
+  }
+
+  /**
+   * Get server version (not part of the OpenAI API)
+   */
+  protected async getVersion(): Promise<string | undefined> {
+    return undefined;
+  }
+
+  /**
+   * List available models
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    return this.modelProxy.listModels();
+  }
+
+  /**
+   * Custom unreachable message with auth and certificate hints
+   */
+  protected getUnreachableResult(error?: unknown): HealthCheckResult {
+    const message = error instanceof Error ? error.message : String(error);
+    const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : '';
+    const unauthorized = /HTTP 40[13]/.test(message);
+    const certificate = /certificate|self[- ]signed|CA bundle/i.test(message + cause);
+
+    return {
+      provider: 'openai-compatible',
+      status: 'unreachable',
+      message: unauthorized ? 'Endpoint rejected the API key' : `Cannot connect to ${this.config.baseUrl}: ${message}${cause}`,
+      remediation: unauthorized
+        ? `Check the API key, auth header and auth scheme of the profile: codemie setup`
+        : certificate
+          ? `The server certificate is not trusted:
+  1. Set the CA bundle of your organization in the profile (tls.caFile)
+  2. Update the profile: codemie setup`
+          : `Check connectivity to ${this.config.baseUrl}:
+  1. Verify the server is running and the base URL ends with the API version (e.g. /v1)
+  2. Check proxy and firewall settings`
+    };
+  }
+
+  /**
+   * Custom no models message
+   */
+  protected getNoModelsRemediation(): string {
+    return 'Start the server with a model loaded, then run: codemie models list';
+  }
+}
+
+// Auto-register health check (connection settings come from the checked config)
+ProviderRegistry.registerHealthCheck('openai-compatible', new OpenAICompatibleHealthCheck());
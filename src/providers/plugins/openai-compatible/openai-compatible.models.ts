@@ -0,0 +1,89 @@
+/**
+ * OpenAI-Compatible Model Proxy
+ *
+ * Fetches available models from the OpenAI-compatible /v1/models endpoint,
+ * with the profile's auth header, static headers and TLS settings.
+ */
+
+import type { CodeMieConfigOptions } from '../../../env/types.js';
+import type { ModelInfo } from '../../core/types.js';
+import { BaseModelProxy } from '../../core/base/BaseModelProxy.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { OpenAICompatibleTemplate } from './openai-compatible.template.js';
+import {
+  createOpenAICompatibleFetch,
+  getOpenAICompatibleConnection,
+  type OpenAICompatibleConnection
+} from './openai-compatible.connection.js';
+
+/**
+ * /v1/models response (max_model_len is reported by vLLM)
+ */
+interface ModelsResponse {
+  data?: Array<{
+    id: string;
+    owned_by?: string;
+    max_model_len?: number;
+  }>;
+}
+
+/**
+ * OpenAI-compatible model proxy implementation
+ */
+export class OpenAICompatibleModelProxy extends BaseModelProxy {
+  private apiKey?: string;
+  private connection: OpenAICompatibleConnection;
+
+  constructor(
+    baseUrl: string = OpenAICompatibleTemplate.defaultBaseUrl,
+    apiKey?: string,
+    connection: OpenAICompatibleConnection = getOpenAICompatibleConnection({})
+  ) {
+    super(baseUrl.replace(/\/+$/, ''), 10000);
+    this.apiKey = apiKey;
+    this.connection = connection;
+  }
+
+  supports(provider: string): boolean {
+    return provider === 'openai-compatible';
+  }
+
+  /**
+   * List models served by the endpoint
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const fetchWithConnection = createOpenAICompatibleFetch(this.connection, this.apiKey);
+    const response = await fetchWithConnection(`${this.baseUrl}/models`, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(10000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const body = await response.json() as ModelsResponse;
+    return (body.data ?? []).map(model => ({
+      id: model.id,
+      name: model.id,
+      contextWindow: model.max_model_len,
+      popular: false,
+      metadata: model.owned_by ? { ownedBy: model.owned_by } : undefined
+    }));
+  }
+
+  /**
+   * Fetch models for setup wizard
+   */
+  async fetchModels(config: CodeMieConfigOptions): Promise<ModelInfo[]> {
+    const proxy = new OpenAICompatibleModelProxy(
+      config.baseUrl || this.baseUrl,
+      config.apiKey || this.apiKey,
+      getOpenAICompatibleConnection(config)
+    );
+    return proxy.listModels();
+  }
+}
+
+// Auto-register model proxy
+ProviderRegistry.registerModelProxy('openai-compatible', new OpenAICompatibleModelProxy());
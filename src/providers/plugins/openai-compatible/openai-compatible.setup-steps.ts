@@ -0,0 +1,208 @@
+/**
+ * OpenAI-Compatible Setup Steps
+ *
+ * Interactive setup flow for OpenAI-compatible endpoints.
+ * Asks for the base URL and API key, and optionally for a custom auth header,
+ * static headers and TLS settings of internal gateways.
+ */
+
+import type { ProviderSetupSteps, ProviderCredentials } from '../../core/types.js';
+import type { CodeMieConfigOptions, TlsSettings } from '../../../env/types.js';
+import { ProviderRegistry } from '../../core/registry.js';
+import { OpenAICompatibleTemplate } from './openai-compatible.template.js';
+import { NO_API_KEY, getOpenAICompatibleConnection } from './openai-compatible.connection.js';
+import { existsSync } from 'fs';
+import path from 'path';
+import os from 'os';
+
+/**
+ * Expand ~ in a file path and make it absolute
+ */
+function resolveFile(input: string): string {
+  const expanded = input.startsWith('~') ? path.join(os.homedir(), input.slice(1)) : input;
+  return path.resolve(expanded);
+}
+
+/**
+ * Parse "Name: value" pairs separated by commas
+ */
+export function parseHeaders(input: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const pair of input.split(',')) {
+    if (!pair.trim()) continue;
+
+    const separator = pair.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid header "${pair.trim()}", expected "Name: value"`);
+    }
+    headers[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+
+  return headers;
+}
+
+export const OpenAICompatibleSetupSteps: ProviderSetupSteps = {
+  name: 'openai-compatible',
+
+  async getCredentials(_isUpdate = false): Promise<ProviderCredentials> {
+    const inquirer = (await import('inquirer')).default;
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'baseUrl',
+        message: 'Base URL (OpenAI API root, usually ending in /v1):',
+        default: OpenAICompatibleTemplate.defaultBaseUrl,
+        validate: (input: string) => {
+          try {
+            new URL(input.trim());
+            return true;
+          } catch {
+            return 'Enter a valid URL, e.g. http://localhost:8000/v1';
+          }
+        }
+      },
+      {
+        type: 'password',
+        name: 'apiKey',
+        message: 'API Key (optional, leave empty if not required):',
+        mask: '*'
+      },
+      {
+        type: 'confirm',
+        name: 'advanced',
+        message: 'Configure auth header, extra headers or TLS certificates?',
+        default: false
+      }
+    ]);
+
+    const baseUrl = answers.baseUrl.trim().replace(/\/+$/, '');
+    const apiKey = answers.apiKey?.trim() || NO_API_KEY;
+
+    if (!answers.advanced) {
+      return { baseUrl, apiKey };
+    }
+
+    const advanced = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'authHeader',
+        message: 'Auth header name:',
+        default: 'Authorization',
+        when: () => apiKey !== NO_API_KEY
+      },
+      {
+        type: 'input',
+        name: 'authScheme',
+        message: 'Auth scheme (leave empty to send the bare key):',
+        default: 'Bearer',
+        when: () => apiKey !== NO_API_KEY
+      },
+      {
+        type: 'input',
+        name: 'headers',
+        message: 'Extra headers (Name: value, separated by commas; empty for none):',
+        validate: (input: string) => {
+          try {
+            parseHeaders(input);
+            return true;
+          } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+          }
+        }
+      },
+      {
+        type: 'input',
+        name: 'caFile',
+        message: 'CA bundle file (PEM, empty for the system CAs):',
+        when: () => baseUrl.startsWith('https:'),
+        validate: (input: string) => {
+          if (!input || input.trim() === '') return true;
+          return existsSync(resolveFile(input.trim())) || 'CA bundle file not found';
+        }
+      },
+      {
+        type: 'confirm',
+        name: 'verifyCertificates',
+        message: 'Verify server certificates? (disable only for testing)',
+        default: true,
+        when: () => baseUrl.startsWith('https:')
+      }
+    ]);
+
+    const tls: TlsSettings = {};
+    if (advanced.caFile?.trim()) {
+      tls.caFile = resolveFile(advanced.caFile.trim());
+    }
+    if (advanced.verifyCertificates === false) {
+      tls.rejectUnauthorized = false;
+    }
+
+    return {
+      baseUrl,
+      apiKey,
+      additionalConfig: {
+        authHeader: advanced.authHeader?.trim() || undefined,
+        authScheme: advanced.authScheme !== undefined ? advanced.authScheme.trim() : undefined,
+        headers: parseHeaders(advanced.headers ?? ''),
+        tls
+      }
+    };
+  },
+
+  async fetchModels(credentials: ProviderCredentials): Promise<string[]> {
+    const { OpenAICompatibleModelProxy } = await import('./openai-compatible.models.js');
+
+    const config = (credentials.additionalConfig ?? {}) as Partial<CodeMieConfigOptions>;
+    const modelProxy = new OpenAICompatibleModelProxy(
+      credentials.baseUrl || OpenAICompatibleTemplate.defaultBaseUrl,
+      credentials.apiKey,
+      getOpenAICompatibleConnection(config)
+    );
+
+    try {
+      const models = await modelProxy.listModels();
+      return models.map(m => m.id);
+    } catch (error) {
+      const chalk = (await import('chalk')).default;
+      const cause = error instanceof Error && error.cause instanceof Error ? ` (${error.cause.message})` : '';
+      console.log(chalk.yellow('\n⚠ Could not fetch models from /v1/models'));
+      console.log(chalk.dim(`  Error: ${error instanceof Error ? error.message : 'Unknown error'}${cause}`));
+      console.log(chalk.dim('  Enter the model name manually\n'));
+
+      return OpenAICompatibleTemplate.recommendedModels;
+    }
+  },
+
+  buildConfig(credentials: ProviderCredentials, selectedModel: string): Partial<CodeMieConfigOptions> {
+    const config: Partial<CodeMieConfigOptions> = {
+      provider: 'openai-compatible',
+      baseUrl: credentials.baseUrl,
+      apiKey: credentials.apiKey,
+      model: selectedModel,
+      timeout: 300,
+      debug: false
+    };
+
+    // Only store settings that differ from the OpenAI defaults
+    const additional = (credentials.additionalConfig ?? {}) as Partial<CodeMieConfigOptions>;
+    if (additional.authHeader && additional.authHeader !== 'Authorization') {
+      config.authHeader = additional.authHeader;
+    }
+    if (additional.authScheme !== undefined && additional.authScheme !== 'Bearer') {
+      config.authScheme = additional.authScheme;
+    }
+    if (additional.headers && Object.keys(additional.headers).length > 0) {
+      config.headers = additional.headers;
+    }
+    if (additional.tls && Object.keys(additional.tls).length > 0) {
+      config.tls = additional.tls;
+    }
+
+    return config;
+  }
+};
+
+// Auto-register setup steps
+ProviderRegistry.registerSetupSteps('openai-compatible', OpenAICompatibleSetupSteps);
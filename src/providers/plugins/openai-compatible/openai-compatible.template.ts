@@ -0,0 +1,47 @@
+/**
+ * OpenAI-Compatible Provider Template
+ *
+ * Template definition for any server that implements the OpenAI Chat
+ * Completions API: vLLM, LM Studio, Hugging Face TGI, llama.cpp server or
+ * internal gateways with their own auth headers and certificates.
+ *
+ * Auto-registers on import via registerProvider().
+ */
+
+import type { ProviderTemplate } from '../../core/types.js';
+import { registerProvider } from '../../core/decorators.js';
+
+export const OpenAICompatibleTemplate = registerProvider<ProviderTemplate>({
+  name: 'openai-compatible',
+  displayName: 'OpenAI-Compatible API',
+  description: 'vLLM, LM Studio, TGI or any gateway with an OpenAI-compatible API',
+  defaultBaseUrl: 'http://localhost:8000/v1',
+  requiresAuth: false,
+  authType: 'api-key',
+  priority: 17,
+  defaultProfileName: 'openai-compatible',
+  recommendedModels: [],
+  capabilities: ['streaming', 'tools', 'function-calling'],
+  supportsModelInstallation: false,
+  supportsStreaming: true,
+  setupInstructions: `
+# OpenAI-Compatible API Setup Instructions
+
+Use this provider for servers that implement the OpenAI Chat Completions API.
+The base URL is the one you would give an OpenAI client, usually ending in /v1:
+
+- vLLM: http://localhost:8000/v1 (\`vllm serve <model> --enable-auto-tool-choice --tool-call-parser <parser>\`)
+- LM Studio: http://localhost:1234/v1
+- Hugging Face TGI: http://localhost:8080/v1
+- llama.cpp server: http://localhost:8080/v1 (\`llama-server --jinja\`)
+
+The built-in agent needs a model served with tool calling enabled.
+
+## Gateways
+
+- Auth header: for gateways that expect the key in another header (e.g. \`api-key\` or \`X-API-Key\`)
+- Auth scheme: \`Bearer\` by default; leave empty to send the bare key
+- Extra headers: static headers such as a tenant or routing header
+- CA bundle: PEM file of your organization's CA, used in addition to the system CAs
+`
+});
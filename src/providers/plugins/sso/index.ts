@@ -16,4 +16,9 @@ export { MetricsSender } from './session/processors/metrics/metrics-api-client.j
 
 // SSO Proxy (HTTP proxy with plugins)
 export { CodeMieProxy } from './proxy/sso.proxy.js';
+export { PROXY_API_KEY } from './proxy/plugins/provider-auth.plugin.js';
+export { getCassetteSettings } from './proxy/plugins/cassette.plugin.js';
+export { getCacheSettings } from './proxy/plugins/cache.plugin.js';
+export { getRedactionSettings } from './proxy/plugins/redaction.plugin.js';
+export { hasBudgetLimits } from './proxy/plugins/budget-ledger.js';
 export type { ProxyConfig } from './proxy/proxy-types.js';
@@ -0,0 +1,199 @@
+/**
+ * Budget Plugin Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BudgetPlugin } from '../budget.plugin.js';
+import { BudgetLedger, evaluateBudget, formatBudgetStatus } from '../budget-ledger.js';
+import { TokenUsageCollector, extractUsage } from '../token-usage.js';
+import { PluginContext } from '../types.js';
+import { ProxyContext } from '../../proxy-types.js';
+import type { BudgetSettings } from '../../../../../../env/types.js';
+import { logger } from '../../../../../../utils/logger.js';
+
+function createPluginContext(budget?: BudgetSettings): PluginContext {
+  return {
+    config: { targetApiUrl: 'https://api.anthropic.com', provider: 'anthropic', profile: 'work', sessionId: 'test-session' },
+    logger,
+    profileConfig: { budget }
+  };
+}
+
+function createProxyContext(url: string, body: object): ProxyContext {
+  return {
+    requestId: `request-${Math.random()}`,
+    sessionId: 'test-session',
+    agentName: 'test-agent',
+    method: 'POST',
+    url,
+    headers: {},
+    requestBody: Buffer.from(JSON.stringify(body)),
+    requestStartTime: Date.now(),
+    metadata: {}
+  };
+}
+
+describe('Token usage', () => {
+  it('should read usage from Anthropic event streams split across chunks', () => {
+    const collector = new TokenUsageCollector('text/event-stream');
+    const stream = [
+      'event: message_start',
+      'data: {"type":"message_start","message":{"model":"claude-sonnet-4-5","usage":{"input_tokens":100,"cache_read_input_tokens":50,"output_tokens":1}}}',
+      '',
+      'event: message_delta',
+      'data: {"type":"message_delta","usage":{"output_tokens":200}}',
+      ''
+    ].join('\n');
+
+    collector.push(Buffer.from(stream.slice(0, 70)));
+    collector.push(Buffer.from(stream.slice(70)));
+
+    expect(collector.finish()).toEqual({
+      model: 'claude-sonnet-4-5',
+      inputTokens: 150,
+      outputTokens: 200,
+      cacheReadTokens: 50,
+      cacheWriteTokens: 0
+    });
+  });
+
+  it('should read usage from OpenAI and Gemini responses', () => {
+    const collector = new TokenUsageCollector('application/json');
+    collector.push(Buffer.from(JSON.stringify({
+      model: 'gpt-4.1',
+      usage: { prompt_tokens: 1000, completion_tokens: 300, prompt_tokens_details: { cached_tokens: 400 } }
+    })));
+    expect(collector.finish()).toMatchObject({ model: 'gpt-4.1', inputTokens: 1000, outputTokens: 300, cacheReadTokens: 400 });
+
+    expect(extractUsage({
+      modelVersion: 'gemini-2.5-pro',
+      usageMetadata: { promptTokenCount: 80, candidatesTokenCount: 20, thoughtsTokenCount: 5 }
+    })).toMatchObject({ model: 'gemini-2.5-pro', inputTokens: 80, outputTokens: 25 });
+
+    expect(extractUsage({ choices: [] })).toBeNull();
+  });
+});
+
+describe('BudgetPlugin', () => {
+  let dir: string;
+  let ledger: BudgetLedger;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'codemie-budget-'));
+    ledger = new BudgetLedger(dir);
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should be disabled without budget limits', async () => {
+    await expect(new BudgetPlugin(ledger).createInterceptor(createPluginContext())).rejects.toThrow('disabled');
+    await expect(new BudgetPlugin(ledger).createInterceptor(createPluginContext({ warnAt: 0.5 }))).rejects.toThrow('disabled');
+  });
+
+  it('should sum daily and monthly totals per profile', async () => {
+    const now = new Date(2026, 9, 19, 12).getTime();
+    const yesterday = new Date(2026, 9, 18, 12).getTime();
+    const lastMonth = new Date(2026, 8, 30, 12).getTime();
+
+    await ledger.record({ timestamp: now, sessionId: 's1', profile: 'work', tokens: 100, cost: 0.5 });
+    await ledger.record({ timestamp: now, sessionId: 's2', profile: 'personal', tokens: 999, cost: 9 });
+    await ledger.record({ timestamp: yesterday, sessionId: 's0', profile: 'work', tokens: 50, cost: 0.25 });
+    await ledger.record({ timestamp: lastMonth, sessionId: 's0', profile: 'work', tokens: 1000, cost: 5 });
+
+    const totals = await ledger.getTotals('work', now);
+
+    expect(totals).toEqual({ daily: { tokens: 100, cost: 0.5 }, monthly: { tokens: 150, cost: 0.75 } });
+
+    const [status] = evaluateBudget({ daily: { tokens: 200, cost: 2 } }, { session: { tokens: 0, cost: 0 }, ...totals })
+      .filter(s => s.period === 'daily');
+    expect(status.ratio).toBe(0.5);
+    expect(formatBudgetStatus(status)).toBe('daily budget: 100 / 200 tokens, $0.50 / $2.00');
+  });
+
+  it('should reject requests with the API error format once a limit is crossed', async () => {
+    const interceptor = await new BudgetPlugin(ledger).createInterceptor(createPluginContext({ session: { tokens: 1000 } }));
+    await interceptor.onProxyStart!();
+
+    // First request is allowed and uses up the session budget
+    const first = createProxyContext('/v1/messages', { model: 'claude-sonnet-4-5' });
+    await interceptor.onRequest!(first);
+    expect(first.metadata.blocked).toBeUndefined();
+
+    await interceptor.onResponseHeaders!(first, { 'content-type': 'application/json' });
+    await interceptor.onResponseChunk!(first, Buffer.from('{"usage":{"input_tokens":900,"output_tokens":200}}'));
+    await interceptor.onResponseComplete!(first, {} as any);
+
+    expect(process.stderr.write).toHaveBeenCalledWith(expect.stringContaining('session budget: 1,100 / 1,000 tokens'));
+    expect((await ledger.getTotals('work')).daily.tokens).toBe(1100);
+
+    // Anthropic Messages API
+    const anthropic = createProxyContext('/v1/messages', { model: 'claude-sonnet-4-5' });
+    await interceptor.onRequest!(anthropic);
+    expect(anthropic.metadata.blocked).toBe(true);
+    expect(anthropic.blockedResponse?.statusCode).toBe(402);
+    expect(JSON.parse(anthropic.blockedResponse!.body)).toMatchObject({ type: 'error', error: { type: 'billing_error' } });
+
+    // OpenAI-compatible API
+    const openai = createProxyContext('/v1/chat/completions', { model: 'gpt-4.1' });
+    await interceptor.onRequest!(openai);
+    expect(openai.blockedResponse?.statusCode).toBe(429);
+    expect(JSON.parse(openai.blockedResponse!.body)).toMatchObject({ error: { code: 'insufficient_quota' } });
+  });
+
+  it('should not leave models without pricing unlimited', async () => {
+    // A cost limit alone cannot be enforced
+    const costOnly = await new BudgetPlugin(ledger).createInterceptor(createPluginContext({ daily: { cost: 5 } }));
+    const rejected = createProxyContext('/v1/chat/completions', { model: 'in-house-coder' });
+    await costOnly.onRequest!(rejected);
+    expect(rejected.blockedResponse?.statusCode).toBe(429);
+    expect(JSON.parse(rejected.blockedResponse!.body).error.message).toContain('cannot price model "in-house-coder"');
+
+    // With a token limit the request goes ahead, and the missing pricing is reported once
+    const interceptor = await new BudgetPlugin(ledger).createInterceptor(createPluginContext({ daily: { cost: 5, tokens: 1000 } }));
+    for (let i = 0; i < 2; i++) {
+      const context = createProxyContext('/v1/chat/completions', { model: 'in-house-coder' });
+      await interceptor.onRequest!(context);
+      expect(context.metadata.blocked).toBeUndefined();
+
+      await interceptor.onResponseHeaders!(context, { 'content-type': 'application/json' });
+      await interceptor.onResponseChunk!(context, Buffer.from('{"usage":{"prompt_tokens":300,"completion_tokens":100}}'));
+      await interceptor.onResponseComplete!(context, {} as any);
+    }
+
+    const warnings = vi.mocked(process.stderr.write).mock.calls.map(([message]) => String(message));
+    expect(warnings.filter(message => message.includes('cannot price model "in-house-coder"'))).toHaveLength(1);
+    expect(warnings.some(message => message.includes('daily budget: 800 / 1,000 tokens, $0.00 / $5.00 - 80% used'))).toBe(true);
+  });
+
+  it('should count usage of other sessions and start over on a new day', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 19, 23, 50));
+
+    try {
+      const interceptor = await new BudgetPlugin(ledger).createInterceptor(createPluginContext({ daily: { tokens: 1000 } }));
+      await interceptor.onProxyStart!();
+
+      // Another session of the profile uses up the daily budget while this one runs
+      await ledger.record({ timestamp: Date.now(), sessionId: 'other-session', profile: 'work', tokens: 1200, cost: 1 });
+
+      const sameDay = createProxyContext('/v1/messages', { model: 'claude-sonnet-4-5' });
+      await interceptor.onRequest!(sameDay);
+      expect(sameDay.metadata.blocked).toBe(true);
+
+      vi.setSystemTime(new Date(2026, 9, 20, 0, 10));
+
+      const nextDay = createProxyContext('/v1/messages', { model: 'claude-sonnet-4-5' });
+      await interceptor.onRequest!(nextDay);
+      expect(nextDay.metadata.blocked).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
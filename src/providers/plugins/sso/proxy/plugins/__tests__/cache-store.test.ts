@@ -0,0 +1,101 @@
+/**
+ * Response Cache Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CacheStore, getCacheKey } from '../cache-store.js';
+
+function body(value: object): Buffer {
+  return Buffer.from(JSON.stringify(value));
+}
+
+describe('getCacheKey', () => {
+  const request = {
+    model: 'gpt-4.1',
+    messages: [{ role: 'user', content: 'Review' }],
+    tools: [{ type: 'function', function: { name: 'read_file' } }],
+    temperature: 0
+  };
+
+  it('should hash the whole body except per-session fields, regardless of key order', () => {
+    const key = getCacheKey('POST', '/v1/chat/completions', body(request));
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(getCacheKey('POST', '/v1/chat/completions', body({
+      temperature: 0,
+      user: 'someone-else',
+      tools: request.tools,
+      messages: request.messages,
+      model: 'gpt-4.1'
+    }))).toBe(key);
+
+    expect(getCacheKey('POST', '/v1/chat/completions', body({ ...request, model: 'gpt-4.1-mini' }))).not.toBe(key);
+    expect(getCacheKey('POST', '/v1/chat/completions', body({ ...request, tools: [] }))).not.toBe(key);
+    expect(getCacheKey('POST', '/v1/responses', body(request))).not.toBe(key);
+  });
+
+  it('should tell apart requests that differ only in output settings or target', () => {
+    const key = getCacheKey('POST', 'https://api.openai.com/v1/chat/completions', body(request));
+
+    expect(getCacheKey('POST', 'https://api.openai.com/v1/chat/completions', body({
+      ...request,
+      response_format: { type: 'json_object' }
+    }))).not.toBe(key);
+    expect(getCacheKey('POST', 'https://api.openai.com/v1/chat/completions', body({
+      ...request,
+      metadata: { user_id: 'session-2' }
+    }))).toBe(key);
+    expect(getCacheKey('POST', 'https://llm.corp.example/v1/chat/completions', body(request))).not.toBe(key);
+  });
+
+  it('should only cache requests with temperature 0', () => {
+    expect(getCacheKey('POST', '/v1/messages', body({ ...request, temperature: 1 }))).toBeNull();
+    expect(getCacheKey('POST', '/v1/messages', body({ model: 'claude-sonnet-4-5', messages: [] }))).toBeNull();
+    expect(getCacheKey('POST', '/v1beta/models/gemini-2.5-pro:generateContent', body({
+      contents: [],
+      generationConfig: { temperature: 0 }
+    }))).not.toBeNull();
+    expect(getCacheKey('GET', '/v1/models', null)).toBeNull();
+    expect(getCacheKey('POST', '/v1/messages', Buffer.from('not json'))).toBeNull();
+  });
+});
+
+describe('CacheStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'codemie-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should expire entries after their lifetime', async () => {
+    const store = new CacheStore(dir, 60_000);
+    await store.set('a', 200, { 'content-type': 'application/json', 'set-cookie': 'secret' }, Buffer.from('{}'));
+
+    const entry = await store.get('a');
+    expect(entry?.headers).toEqual({ 'content-type': 'application/json' });
+    expect(Buffer.from(entry!.body, 'base64').toString()).toBe('{}');
+
+    expect(await store.get('a', Date.now() + 60_000)).toBeNull();
+    expect(await readdir(join(dir, 'responses'))).toEqual([]);
+  });
+
+  it('should evict the oldest entries beyond the size limit', async () => {
+    const store = new CacheStore(dir, 60_000, 500);
+    const payload = Buffer.alloc(150, 'x');
+
+    await store.set('first', 200, {}, payload);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await store.set('second', 200, {}, payload);
+
+    expect(await store.get('first')).toBeNull();
+    expect(await store.get('second')).not.toBeNull();
+    expect(store.fits(501)).toBe(false);
+  });
+});
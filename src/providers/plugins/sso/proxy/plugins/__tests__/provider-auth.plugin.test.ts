@@ -0,0 +1,120 @@
+/**
+ * Provider Authentication Plugin Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ProviderAuthPlugin, PROXY_API_KEY, getProxyAuthType } from '../provider-auth.plugin.js';
+import { PluginContext } from '../types.js';
+import { ProxyContext } from '../../proxy-types.js';
+import type { CodeMieConfigOptions } from '../../../../../../env/types.js';
+import { logger } from '../../../../../../utils/logger.js';
+import { AnthropicTemplate } from '../../../../anthropic/anthropic.template.js';
+import { BedrockTemplate } from '../../../../bedrock/bedrock.template.js';
+import { OllamaTemplate } from '../../../../ollama/ollama.template.js';
+import { SSOTemplate } from '../../../../sso/sso.template.js';
+
+function createPluginContext(provider: string, targetApiUrl: string, profileConfig: CodeMieConfigOptions = {}): PluginContext {
+  return {
+    config: { targetApiUrl, provider, sessionId: 'test-session' },
+    logger,
+    profileConfig
+  };
+}
+
+function createProxyContext(targetUrl: string, headers: Record<string, string>, body?: string): ProxyContext {
+  return {
+    requestId: 'test-request',
+    sessionId: 'test-session',
+    agentName: 'test-agent',
+    method: 'POST',
+    url: new URL(targetUrl).pathname,
+    headers,
+    requestBody: body ? Buffer.from(body) : null,
+    requestStartTime: Date.now(),
+    targetUrl,
+    metadata: {}
+  };
+}
+
+describe('ProviderAuthPlugin', () => {
+  it('should derive the authentication type from the provider', () => {
+    expect(getProxyAuthType(SSOTemplate)).toBe('sso');
+    expect(getProxyAuthType(AnthropicTemplate)).toBe('api-key');
+    expect(getProxyAuthType(BedrockTemplate)).toBe('aws-sigv4');
+    expect(getProxyAuthType(OllamaTemplate)).toBe('none');
+    expect(getProxyAuthType(undefined)).toBe('api-key');
+  });
+
+  it('should replace the placeholder key wherever the agent sends it', async () => {
+    const interceptor = await new ProviderAuthPlugin().createInterceptor(
+      createPluginContext('anthropic', 'https://api.anthropic.com', { apiKey: 'sk-ant-real' })
+    );
+
+    const headerContext = createProxyContext('https://api.anthropic.com/v1/messages', { 'x-api-key': PROXY_API_KEY });
+    await interceptor.onRequest!(headerContext);
+    expect(headerContext.headers).toEqual({ 'x-api-key': 'sk-ant-real' });
+
+    const queryContext = createProxyContext(`https://api.anthropic.com/v1/models?key=${PROXY_API_KEY}`, {});
+    await interceptor.onRequest!(queryContext);
+    expect(queryContext.targetUrl).toBe('https://api.anthropic.com/v1/models?key=sk-ant-real');
+    expect(queryContext.headers).toEqual({});
+
+    const missingContext = createProxyContext('https://api.anthropic.com/v1/messages', {});
+    await interceptor.onRequest!(missingContext);
+    expect(missingContext.headers).toEqual({ authorization: 'Bearer sk-ant-real' });
+  });
+
+  it('should send the auth header and static headers of OpenAI-compatible profiles', async () => {
+    const interceptor = await new ProviderAuthPlugin().createInterceptor(createPluginContext(
+      'openai-compatible',
+      'https://llm.corp.example/v1',
+      { apiKey: 'sk-gateway', authHeader: 'X-Api-Key', authScheme: 'Token', headers: { 'X-Tenant': 'acme' } }
+    ));
+    const context = createProxyContext('https://llm.corp.example/v1/chat/completions', {
+      authorization: `Bearer ${PROXY_API_KEY}`,
+      'x-tenant': 'agent',
+      'content-type': 'application/json'
+    });
+
+    await interceptor.onRequest!(context);
+
+    expect(context.headers).toEqual({
+      'x-api-key': 'Token sk-gateway',
+      'x-tenant': 'acme',
+      'content-type': 'application/json'
+    });
+  });
+
+  it('should drop the placeholder key for providers without authentication', async () => {
+    const interceptor = await new ProviderAuthPlugin().createInterceptor(createPluginContext('ollama', 'http://localhost:11434'));
+    const context = createProxyContext('http://localhost:11434/v1/messages', {
+      authorization: `Bearer ${PROXY_API_KEY}`,
+      'content-type': 'application/json'
+    });
+
+    await interceptor.onRequest!(context);
+
+    expect(context.headers).toEqual({ 'content-type': 'application/json' });
+  });
+
+  it('should sign Bedrock requests with AWS Signature Version 4', async () => {
+    const interceptor = await new ProviderAuthPlugin().createInterceptor(createPluginContext(
+      'bedrock',
+      'https://bedrock-runtime.eu-west-1.amazonaws.com',
+      { apiKey: 'AKIDEXAMPLE', awsSecretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY', awsRegion: 'us-east-1' }
+    ));
+    const context = createProxyContext(
+      'https://bedrock-runtime.eu-west-1.amazonaws.com/model/anthropic.claude-sonnet-4-5-v1%3A0/invoke',
+      { authorization: `Bearer ${PROXY_API_KEY}`, 'content-type': 'application/json', 'x-codemie-session-id': 'test-session' },
+      '{"messages":[]}'
+    );
+
+    await interceptor.onRequest!(context);
+
+    expect(context.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-west-1\/bedrock\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+    expect(context.headers['x-amz-date']).toMatch(/^\d{8}T\d{6}Z$/);
+    expect(context.headers['x-codemie-session-id']).toBe('test-session');
+  });
+});
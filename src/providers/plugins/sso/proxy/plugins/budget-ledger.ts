@@ -0,0 +1,156 @@
+/**
+ * Budget ledger
+ *
+ * Token usage and cost of model requests, appended to one JSONL file per
+ * calendar day under ~/.codemie/budget. Daily and monthly totals of a profile
+ * are summed from these files; session totals are kept by BudgetTracker.
+ */
+
+import { appendFile, mkdir, readFile, readdir } from 'fs/promises';
+import { join } from 'path';
+import type { BudgetLimit, BudgetSettings } from '../../../../../env/types.js';
+import { getCodemiePath } from '../../../../../utils/paths.js';
+
+export type BudgetPeriod = 'session' | 'daily' | 'monthly';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['session', 'daily', 'monthly'];
+
+export const DEFAULT_BUDGET_WARN_AT = 0.8;
+
+/**
+ * One model request
+ */
+export interface BudgetEntry {
+  timestamp: number;
+  sessionId: string;
+  profile: string;
+  model?: string;
+  tokens: number;
+  cost: number;
+}
+
+export interface BudgetTotals {
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Consumption of one limited period
+ */
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  limit: BudgetLimit;
+  used: BudgetTotals;
+  ratio: number;  // Highest used/limit ratio of the limited counters
+}
+
+export class BudgetLedger {
+  constructor(private readonly dir: string = getCodemiePath('budget')) {}
+
+  /**
+   * Append a request to the file of its day
+   */
+  async record(entry: BudgetEntry): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await appendFile(join(this.dir, `${formatDay(entry.timestamp)}.jsonl`), JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  /**
+   * Get the daily and monthly totals of a profile
+   */
+  async getTotals(profile: string, now: number = Date.now()): Promise<{ daily: BudgetTotals; monthly: BudgetTotals }> {
+    const today = formatDay(now);
+    const month = today.slice(0, 7);
+    const daily = emptyTotals();
+    const monthly = emptyTotals();
+
+    let files: string[];
+    try {
+      files = (await readdir(this.dir)).filter(file => file.startsWith(month) && file.endsWith('.jsonl'));
+    } catch {
+      return { daily, monthly };
+    }
+
+    for (const file of files) {
+      for (const entry of await this.readEntries(file)) {
+        if (entry.profile !== profile) continue;
+
+        addTotals(monthly, entry);
+        if (file === `${today}.jsonl`) {
+          addTotals(daily, entry);
+        }
+      }
+    }
+
+    return { daily, monthly };
+  }
+
+  private async readEntries(file: string): Promise<BudgetEntry[]> {
+    const content = await readFile(join(this.dir, file), 'utf-8').catch(() => '');
+
+    return content.split('\n').flatMap(line => {
+      try {
+        return line.trim() ? [JSON.parse(line) as BudgetEntry] : [];
+      } catch {
+        return [];  // Partially written line
+      }
+    });
+  }
+}
+
+/**
+ * Compare usage with the limits of a budget
+ */
+export function evaluateBudget(budget: BudgetSettings, used: Record<BudgetPeriod, BudgetTotals>): BudgetStatus[] {
+  return BUDGET_PERIODS.flatMap(period => {
+    const limit = budget[period];
+    if (!limit || (limit.tokens === undefined && limit.cost === undefined)) {
+      return [];
+    }
+
+    const ratios = [
+      limit.tokens !== undefined ? used[period].tokens / limit.tokens : 0,
+      limit.cost !== undefined ? used[period].cost / limit.cost : 0
+    ];
+    return [{ period, limit, used: used[period], ratio: Math.max(...ratios) }];
+  });
+}
+
+/**
+ * Check whether a budget has any limit
+ */
+export function hasBudgetLimits(budget: BudgetSettings | undefined): budget is BudgetSettings {
+  return !!budget && BUDGET_PERIODS.some(period => budget[period]?.tokens !== undefined || budget[period]?.cost !== undefined);
+}
+
+/**
+ * Describe a budget status, e.g. "daily budget: 80,000 / 100,000 tokens, $1.20 / $5.00"
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  const parts: string[] = [];
+  if (status.limit.tokens !== undefined) {
+    parts.push(`${status.used.tokens.toLocaleString('en-US')} / ${status.limit.tokens.toLocaleString('en-US')} tokens`);
+  }
+  if (status.limit.cost !== undefined) {
+    parts.push(`$${status.used.cost.toFixed(2)} / $${status.limit.cost.toFixed(2)}`);
+  }
+  return `${status.period} budget: ${parts.join(', ')}`;
+}
+
+export function emptyTotals(): BudgetTotals {
+  return { tokens: 0, cost: 0 };
+}
+
+export function addTotals(totals: BudgetTotals, usage: BudgetTotals): void {
+  totals.tokens += usage.tokens;
+  totals.cost += usage.cost;
+}
+
+/**
+ * Local calendar day, e.g. 2026-10-19
+ */
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,134 @@
+/**
+ * Budget tracker
+ *
+ * Usage of one session checked against the profile's budget: session totals
+ * in memory, daily and monthly totals re-read from the ledger before each
+ * request, so other sessions and a new day or month count. Used by the budget
+ * plugin for agents behind the proxy and by the built-in agent, which calls
+ * providers directly.
+ */
+
+import type { BudgetSettings } from '../../../../../env/types.js';
+import { calculateModelCost, getModelPricing, type ModelUsage } from '../../../../core/model-catalog.js';
+import { logger } from '../../../../../utils/logger.js';
+import {
+  BudgetLedger,
+  BUDGET_PERIODS,
+  DEFAULT_BUDGET_WARN_AT,
+  addTotals,
+  emptyTotals,
+  evaluateBudget,
+  formatBudgetStatus,
+  type BudgetPeriod,
+  type BudgetTotals
+} from './budget-ledger.js';
+
+export class BudgetTracker {
+  private totals: Record<BudgetPeriod, BudgetTotals> = {
+    session: emptyTotals(),
+    daily: emptyTotals(),
+    monthly: emptyTotals()
+  };
+  private warned = new Set<string>();
+
+  /**
+   * @param display - Shows a warning to the user (it is also written to the log)
+   */
+  constructor(
+    private budget: BudgetSettings,
+    private session: { profile: string; sessionId: string },
+    private display: (message: string) => void,
+    private ledger: BudgetLedger = new BudgetLedger()
+  ) {}
+
+  /**
+   * Read the daily and monthly totals of the profile (all sessions, current day and month)
+   */
+  async refresh(): Promise<void> {
+    try {
+      const { daily, monthly } = await this.ledger.getTotals(this.session.profile);
+      this.totals.daily = daily;
+      this.totals.monthly = monthly;
+    } catch (error) {
+      logger.error('[budget] Failed to load budget totals:', error);
+    }
+  }
+
+  /**
+   * Refresh the totals and check whether a request for a model may go ahead.
+   * Returns why it must be rejected, or null.
+   */
+  async check(model?: string): Promise<string | null> {
+    await this.refresh();
+    this.warnAboutLimits();
+
+    // Usage of a model without pricing costs $0, so a cost limit alone would never fire
+    const costOnly = BUDGET_PERIODS.find(period => this.budget[period]?.cost !== undefined && this.budget[period]?.tokens === undefined);
+    if (model && costOnly && !getModelPricing(model)) {
+      return `CodeMie cannot price model "${model}", so the cost limit of budget.${costOnly} of profile "${this.session.profile}" ` +
+        `cannot be enforced; add the model's pricing to ~/.codemie/models.json or set budget.${costOnly}.tokens.`;
+    }
+
+    const exceeded = evaluateBudget(this.budget, this.totals).find(status => status.ratio >= 1);
+    if (!exceeded) {
+      return null;
+    }
+
+    return `CodeMie ${formatBudgetStatus(exceeded)}. The budget of profile "${this.session.profile}" is exhausted; ` +
+      `raise budget.${exceeded.period} in the profile${exceeded.period === 'session' ? ' or start a new session' : ''}.`;
+  }
+
+  /**
+   * Add the usage of a model response to the totals and the ledger
+   */
+  async record(model: string, usage: ModelUsage): Promise<BudgetTotals> {
+    const used: BudgetTotals = {
+      tokens: usage.inputTokens + usage.outputTokens,
+      cost: calculateModelCost(model, usage)
+    };
+    Object.values(this.totals).forEach(totals => addTotals(totals, used));
+
+    if (!getModelPricing(model) && BUDGET_PERIODS.some(period => this.budget[period]?.cost !== undefined)) {
+      this.warnOnce(`unpriced:${model}`, `CodeMie cannot price model "${model}" - its usage counts towards token limits only; ` +
+        'add its pricing to ~/.codemie/models.json');
+    }
+
+    try {
+      await this.ledger.record({
+        timestamp: Date.now(),
+        sessionId: this.session.sessionId,
+        profile: this.session.profile,
+        model,
+        ...used
+      });
+    } catch (error) {
+      logger.error('[budget] Failed to record usage:', error);
+    }
+
+    this.warnAboutLimits();
+    return used;
+  }
+
+  /**
+   * Warn once per period when usage reaches the warning threshold, and once when it crosses the limit
+   */
+  warnAboutLimits(): void {
+    const warnAt = this.budget.warnAt ?? DEFAULT_BUDGET_WARN_AT;
+
+    for (const status of evaluateBudget(this.budget, this.totals)) {
+      if (status.ratio >= 1) {
+        this.warnOnce(`${status.period}:exceeded`, `CodeMie ${formatBudgetStatus(status)} - limit reached, further requests are rejected`);
+      } else if (status.ratio >= warnAt) {
+        this.warnOnce(`${status.period}:warning`, `CodeMie ${formatBudgetStatus(status)} - ${Math.round(status.ratio * 100)}% used`);
+      }
+    }
+  }
+
+  private warnOnce(key: string, message: string): void {
+    if (this.warned.has(key)) return;
+
+    this.warned.add(key);
+    logger.warn(`[budget] ${message}`);
+    this.display(message);
+  }
+}
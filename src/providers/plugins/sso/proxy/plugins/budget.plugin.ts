@@ -0,0 +1,147 @@
+/**
+ * Budget Plugin - Token and Cost Limits
+ * Priority: 7 (after the endpoint blocker and response cache, before authentication)
+ *
+ * Reads token usage from upstream responses (JSON and SSE usage events),
+ * keeps running totals per session, per day and per month of the profile
+ * and enforces the limits of the profile's `budget` settings:
+ * - warns once a limit reaches `warnAt` (default 80%)
+ * - rejects further requests once a limit is crossed, with an error shaped
+ *   like the upstream API's (Anthropic Messages or OpenAI)
+ * - rejects requests for models without pricing when a period has only a cost limit
+ *
+ * Usage is recorded to ~/.codemie/budget for `codemie analytics`.
+ * Only active when the profile configures a budget. Responses served from
+ * the response cache are not counted.
+ *
+ * SOLID: Single responsibility = enforce budgets (totals and limits in BudgetTracker)
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import chalk from 'chalk';
+import { ProxyPlugin, PluginContext, ProxyInterceptor } from './types.js';
+import { ProxyContext } from '../proxy-types.js';
+import type { BudgetSettings } from '../../../../../env/types.js';
+import { logger } from '../../../../../utils/logger.js';
+import { BudgetLedger, hasBudgetLimits } from './budget-ledger.js';
+import { BudgetTracker } from './budget-tracker.js';
+import { TokenUsageCollector } from './token-usage.js';
+
+export class BudgetPlugin implements ProxyPlugin {
+  id = '@codemie/proxy-budget';
+  name = 'Budget';
+  version = '1.0.0';
+  priority = 7;
+
+  constructor(private ledger: BudgetLedger = new BudgetLedger()) {}
+
+  async createInterceptor(context: PluginContext): Promise<ProxyInterceptor> {
+    const budget = context.profileConfig?.budget;
+    if (!hasBudgetLimits(budget)) {
+      throw new Error('No budget limits configured (budget disabled)');
+    }
+
+    return new BudgetInterceptor(budget, this.ledger, {
+      profile: context.config.profile || 'default',
+      sessionId: context.config.sessionId || 'unknown',
+      model: context.config.model
+    });
+  }
+}
+
+class BudgetInterceptor implements ProxyInterceptor {
+  name = 'budget';
+
+  private tracker: BudgetTracker;
+  private collectors = new Map<string, TokenUsageCollector>();
+
+  constructor(
+    budget: BudgetSettings,
+    ledger: BudgetLedger,
+    private session: { profile: string; sessionId: string; model?: string }
+  ) {
+    // The agent owns the terminal, so warnings go to stderr as a single line
+    this.tracker = new BudgetTracker(budget, session, message => process.stderr.write(chalk.yellow(`\n⚠ ${message}\n`)), ledger);
+  }
+
+  async onProxyStart(): Promise<void> {
+    // Sessions started over a limit warn right away
+    await this.tracker.refresh();
+    this.tracker.warnAboutLimits();
+  }
+
+  async onRequest(context: ProxyContext): Promise<void> {
+    const message = await this.tracker.check(getRequestModel(context) || this.session.model);
+    if (!message) {
+      return;
+    }
+
+    context.metadata.blocked = true;
+    context.blockedResponse = createBudgetErrorResponse(context.url, message);
+    logger.warn(`[${this.name}] Rejected request ${context.requestId}: ${message}`);
+  }
+
+  async onResponseHeaders(context: ProxyContext, headers: IncomingHttpHeaders): Promise<void> {
+    // Cached responses did not reach the provider
+    if (context.metadata.cache === 'hit') {
+      return;
+    }
+    this.collectors.set(context.requestId, new TokenUsageCollector(headers['content-type']));
+  }
+
+  async onResponseChunk(context: ProxyContext, chunk: Buffer): Promise<Buffer | null> {
+    this.collectors.get(context.requestId)?.push(chunk);
+    return chunk;
+  }
+
+  async onResponseComplete(context: ProxyContext): Promise<void> {
+    const collector = this.collectors.get(context.requestId);
+    this.collectors.delete(context.requestId);
+
+    const usage = collector?.finish();
+    if (!usage) {
+      return;
+    }
+
+    const model = usage.model || getRequestModel(context) || this.session.model || 'unknown';
+    const used = await this.tracker.record(model, usage);
+
+    logger.debug(`[${this.name}] ${context.requestId}: ${used.tokens} tokens, $${used.cost.toFixed(4)} (${model})`);
+  }
+
+  async onError(context: ProxyContext): Promise<void> {
+    this.collectors.delete(context.requestId);
+  }
+}
+
+/**
+ * Error response in the format of the API the agent calls
+ */
+function createBudgetErrorResponse(url: string, message: string): NonNullable<ProxyContext['blockedResponse']> {
+  // Anthropic Messages API (not retried by clients: 402 billing_error)
+  if (/\/messages(\?|$)/.test(url)) {
+    return {
+      statusCode: 402,
+      body: JSON.stringify({ type: 'error', error: { type: 'billing_error', message } })
+    };
+  }
+
+  // OpenAI-compatible APIs
+  return {
+    statusCode: 429,
+    body: JSON.stringify({ error: { message, type: 'insufficient_quota', param: null, code: 'insufficient_quota' } })
+  };
+}
+
+function getRequestModel(context: ProxyContext): string | undefined {
+  if (!context.requestBody) {
+    return undefined;
+  }
+
+  try {
+    const body = JSON.parse(context.requestBody.toString('utf-8'));
+    return typeof body?.model === 'string' ? body.model : undefined;
+  } catch {
+    return undefined;
+  }
+}
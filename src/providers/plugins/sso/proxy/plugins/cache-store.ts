@@ -0,0 +1,211 @@
+/**
+ * Response cache store
+ *
+ * Cached model responses under ~/.codemie/cache/responses, one JSON file per
+ * request key, bounded by a lifetime and a total size (oldest entries are
+ * evicted first). Cache hits are appended to ~/.codemie/cache/hits.jsonl for
+ * `codemie analytics`.
+ */
+
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile, readdir, stat, unlink, writeFile } from 'fs/promises';
+import { IncomingHttpHeaders } from 'http';
+import { join } from 'path';
+import { getCodemiePath } from '../../../../../utils/paths.js';
+import { toCanonicalJSON } from '../../../../../utils/parsers.js';
+
+export const DEFAULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+export const DEFAULT_CACHE_MAX_SIZE_MB = 100;
+
+// Per-session body fields that do not change the response (e.g. Claude Code's metadata.user_id)
+const IGNORED_BODY_FIELDS = ['metadata', 'user'];
+
+// Response headers that are not cached
+const IGNORED_RESPONSE_HEADERS = ['set-cookie', 'date'];
+
+export interface CachedResponse {
+  createdAt: number;
+  statusCode: number;
+  headers: IncomingHttpHeaders;
+  body: string;  // Base64
+}
+
+/**
+ * A request served from the cache
+ */
+export interface CacheHit {
+  timestamp: number;
+  sessionId: string;
+  profile: string;
+  model?: string;
+  tokens: number;  // Tokens the provider did not have to process
+  cost: number;
+}
+
+export interface CacheHitFilter {
+  sessionId?: string;
+  fromDate?: Date;
+  toDate?: Date;
+}
+
+export interface CacheHitSummary {
+  hits: number;
+  tokens: number;
+  cost: number;
+}
+
+export class CacheStore {
+  private readonly responsesDir: string;
+  private readonly hitsFile: string;
+
+  constructor(
+    private readonly dir: string = getCodemiePath('cache'),
+    private readonly ttlMs: number = DEFAULT_CACHE_TTL_SECONDS * 1000,
+    private readonly maxBytes: number = DEFAULT_CACHE_MAX_SIZE_MB * 1024 * 1024
+  ) {
+    this.responsesDir = join(this.dir, 'responses');
+    this.hitsFile = join(this.dir, 'hits.jsonl');
+  }
+
+  /**
+   * Get a cached response (null if missing or expired)
+   */
+  async get(key: string, now: number = Date.now()): Promise<CachedResponse | null> {
+    const file = join(this.responsesDir, `${key}.json`);
+
+    let entry: CachedResponse;
+    try {
+      entry = JSON.parse(await readFile(file, 'utf-8')) as CachedResponse;
+    } catch {
+      return null;
+    }
+
+    if (now - entry.createdAt >= this.ttlMs) {
+      await unlink(file).catch(() => undefined);
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * Cache a response, then evict expired and oldest entries beyond the size limit
+   */
+  async set(key: string, statusCode: number, headers: IncomingHttpHeaders, body: Buffer): Promise<void> {
+    const entry: CachedResponse = {
+      createdAt: Date.now(),
+      statusCode,
+      headers: Object.fromEntries(
+        Object.entries(headers).filter(([name, value]) => value !== undefined && !IGNORED_RESPONSE_HEADERS.includes(name.toLowerCase()))
+      ),
+      body: body.toString('base64')
+    };
+
+    await mkdir(this.responsesDir, { recursive: true });
+    await writeFile(join(this.responsesDir, `${key}.json`), JSON.stringify(entry), 'utf-8');
+    await this.prune();
+  }
+
+  /**
+   * Whether a body fits into the cache at all
+   */
+  fits(bytes: number): boolean {
+    return bytes <= this.maxBytes;
+  }
+
+  async prune(now: number = Date.now()): Promise<void> {
+    let files: string[];
+    try {
+      files = (await readdir(this.responsesDir)).filter(file => file.endsWith('.json'));
+    } catch {
+      return;
+    }
+
+    const entries: { file: string; size: number; mtimeMs: number }[] = [];
+    for (const file of files) {
+      const stats = await stat(join(this.responsesDir, file)).catch(() => null);
+      if (!stats) continue;
+
+      if (now - stats.mtimeMs >= this.ttlMs) {
+        await unlink(join(this.responsesDir, file)).catch(() => undefined);
+      } else {
+        entries.push({ file, size: stats.size, mtimeMs: stats.mtimeMs });
+      }
+    }
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+      if (total <= this.maxBytes) break;
+
+      await unlink(join(this.responsesDir, entry.file)).catch(() => undefined);
+      total -= entry.size;
+    }
+  }
+
+  async recordHit(hit: CacheHit): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await appendFile(this.hitsFile, JSON.stringify(hit) + '\n', 'utf-8');
+  }
+
+  /**
+   * Sum the recorded cache hits
+   */
+  async summarizeHits(filter: CacheHitFilter = {}): Promise<CacheHitSummary> {
+    const summary: CacheHitSummary = { hits: 0, tokens: 0, cost: 0 };
+    const content = await readFile(this.hitsFile, 'utf-8').catch(() => '');
+
+    for (const line of content.split('\n')) {
+      let hit: CacheHit;
+      try {
+        if (!line.trim()) continue;
+        hit = JSON.parse(line) as CacheHit;
+      } catch {
+        continue;  // Partially written line
+      }
+
+      if (filter.sessionId && hit.sessionId !== filter.sessionId) continue;
+      if (filter.fromDate && hit.timestamp < filter.fromDate.getTime()) continue;
+      if (filter.toDate && hit.timestamp > filter.toDate.getTime()) continue;
+
+      summary.hits++;
+      summary.tokens += hit.tokens;
+      summary.cost += hit.cost;
+    }
+
+    return summary;
+  }
+}
+
+/**
+ * Get the cache key of a request to a target URL, or null if its response is
+ * not deterministic (only requests with temperature 0 are cached)
+ */
+export function getCacheKey(method: string, url: string, body: Buffer | null): string | null {
+  if (method.toUpperCase() !== 'POST' || !body) {
+    return null;
+  }
+
+  let request: Record<string, unknown>;
+  try {
+    request = JSON.parse(body.toString('utf-8'));
+  } catch {
+    return null;
+  }
+  if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+    return null;
+  }
+
+  const generationConfig = request.generationConfig as Record<string, unknown> | undefined;
+  const temperature = request.temperature ?? generationConfig?.temperature;
+  if (temperature !== 0) {
+    return null;
+  }
+
+  // The endpoint, API and (for Gemini) the model come from the target URL; every
+  // other body field may change the response (e.g. response_format, reasoning_effort)
+  const target = new URL(url, 'http://localhost');
+  const fields = Object.fromEntries(Object.entries(request).filter(([field]) => !IGNORED_BODY_FIELDS.includes(field)));
+
+  return createHash('sha256')
+    .update(`${target.origin}${target.pathname}${target.search}\n${toCanonicalJSON(fields)}`)
+    .digest('hex');
+}
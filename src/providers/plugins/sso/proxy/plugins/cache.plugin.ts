@@ -0,0 +1,178 @@
+/**
+ * Response Cache Plugin - Deterministic Requests
+ * Priority: 6 (after the endpoint blocker, before budget checks: hits cost nothing)
+ *
+ * Serves repeated requests with temperature 0 from ~/.codemie/cache, e.g. CI
+ * pipelines re-running the same review prompts against unchanged diffs.
+ * Requests are keyed on the target URL and a canonical hash of the body
+ * without per-session fields (metadata, user). JSON responses and streams are cached once they were
+ * received completely; hits are served in one piece.
+ *
+ * Opt-in: `proxy.cache.enabled` in the profile or CODEMIE_PROXY_CACHE_ENABLED=true
+ * Hits are marked with `x-codemie-cache: hit`, logged by the logging plugin
+ * and recorded for `codemie analytics`.
+ *
+ * SOLID: Single responsibility = cache deterministic responses
+ * KISS: One file per response, evicted by age and total size
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import { Readable } from 'stream';
+import { ProxyPlugin, PluginContext, ProxyInterceptor, ResponseMetadata } from './types.js';
+import { ProxyContext } from '../proxy-types.js';
+import type { CacheSettings, CodeMieConfigOptions } from '../../../../../env/types.js';
+import { calculateModelCost } from '../../../../core/model-catalog.js';
+import { logger } from '../../../../../utils/logger.js';
+import { CacheStore, DEFAULT_CACHE_MAX_SIZE_MB, DEFAULT_CACHE_TTL_SECONDS, getCacheKey } from './cache-store.js';
+import { TokenUsageCollector } from './token-usage.js';
+
+// Larger responses are streamed without caching
+const MAX_CACHED_RESPONSE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Get the response cache settings (null when caching is off)
+ * Priority: ENV > Profile config > Default (off)
+ */
+export function getCacheSettings(profileConfig: CodeMieConfigOptions | undefined): Required<Omit<CacheSettings, 'enabled'>> | null {
+  const envEnabled = process.env.CODEMIE_PROXY_CACHE_ENABLED;
+  const enabled = envEnabled !== undefined
+    ? envEnabled === 'true' || envEnabled === '1'
+    : profileConfig?.proxy?.cache?.enabled === true;
+
+  if (!enabled) {
+    return null;
+  }
+
+  return {
+    ttlSeconds: profileConfig?.proxy?.cache?.ttlSeconds ?? DEFAULT_CACHE_TTL_SECONDS,
+    maxSizeMb: profileConfig?.proxy?.cache?.maxSizeMb ?? DEFAULT_CACHE_MAX_SIZE_MB
+  };
+}
+
+export class CachePlugin implements ProxyPlugin {
+  id = '@codemie/proxy-cache';
+  name = 'Response Cache';
+  version = '1.0.0';
+  priority = 6;
+
+  async createInterceptor(context: PluginContext): Promise<ProxyInterceptor> {
+    const settings = getCacheSettings(context.profileConfig);
+    if (!settings) {
+      throw new Error('Response cache not enabled (cache disabled)');
+    }
+
+    const store = new CacheStore(undefined, settings.ttlSeconds * 1000, settings.maxSizeMb * 1024 * 1024);
+    return new CacheInterceptor(store, {
+      profile: context.config.profile || 'default',
+      sessionId: context.config.sessionId || 'unknown',
+      model: context.config.model
+    });
+  }
+}
+
+interface PendingResponse {
+  key: string;
+  headers: IncomingHttpHeaders;
+  chunks: Buffer[];
+  bytes: number;
+}
+
+class CacheInterceptor implements ProxyInterceptor {
+  name = 'cache';
+
+  private pending = new Map<string, PendingResponse>();
+
+  constructor(
+    private store: CacheStore,
+    private session: { profile: string; sessionId: string; model?: string }
+  ) {}
+
+  async onRequest(context: ProxyContext): Promise<void> {
+    const key = getCacheKey(context.method, context.targetUrl ?? context.url, context.requestBody);
+    if (!key) {
+      return;
+    }
+
+    const cached = await this.store.get(key);
+    if (!cached) {
+      context.metadata.cache = 'miss';
+      this.pending.set(context.requestId, { key, headers: {}, chunks: [], bytes: 0 });
+      return;
+    }
+
+    const body = Buffer.from(cached.body, 'base64');
+    context.metadata.cache = 'hit';
+    context.servedResponse = Object.assign(Readable.from([body], { objectMode: false }), {
+      statusCode: cached.statusCode,
+      statusMessage: 'OK',
+      headers: { ...cached.headers, 'x-codemie-cache': 'hit' }
+    });
+
+    await this.recordHit(cached.headers, body);
+  }
+
+  async onResponseHeaders(context: ProxyContext, headers: IncomingHttpHeaders): Promise<void> {
+    const pending = this.pending.get(context.requestId);
+    if (pending) {
+      pending.headers = headers;
+    }
+  }
+
+  async onResponseChunk(context: ProxyContext, chunk: Buffer): Promise<Buffer | null> {
+    const pending = this.pending.get(context.requestId);
+    if (pending) {
+      pending.bytes += chunk.length;
+      if (pending.bytes > MAX_CACHED_RESPONSE_BYTES) {
+        this.pending.delete(context.requestId);
+      } else {
+        pending.chunks.push(Buffer.from(chunk));
+      }
+    }
+    return chunk;
+  }
+
+  async onResponseComplete(context: ProxyContext, metadata: ResponseMetadata): Promise<void> {
+    const pending = this.pending.get(context.requestId);
+    this.pending.delete(context.requestId);
+
+    // Only complete, successful responses are reusable
+    if (!pending || metadata.statusCode !== 200 || metadata.aborted || !this.store.fits(pending.bytes)) {
+      return;
+    }
+
+    try {
+      await this.store.set(pending.key, metadata.statusCode, pending.headers, Buffer.concat(pending.chunks));
+      logger.debug(`[${this.name}] Cached response of ${context.method} ${context.url} (${pending.bytes} bytes)`);
+    } catch (error) {
+      logger.error(`[${this.name}] Failed to cache response:`, error);
+    }
+  }
+
+  async onError(context: ProxyContext): Promise<void> {
+    this.pending.delete(context.requestId);
+  }
+
+  /**
+   * Record the tokens and cost the hit saved
+   */
+  private async recordHit(headers: IncomingHttpHeaders, body: Buffer): Promise<void> {
+    const contentType = headers['content-type'];
+    const collector = new TokenUsageCollector(Array.isArray(contentType) ? contentType[0] : contentType);
+    collector.push(body);
+    const usage = collector.finish();
+    const model = usage?.model || this.session.model;
+
+    try {
+      await this.store.recordHit({
+        timestamp: Date.now(),
+        sessionId: this.session.sessionId,
+        profile: this.session.profile,
+        model,
+        tokens: usage ? usage.inputTokens + usage.outputTokens : 0,
+        cost: usage && model ? calculateModelCost(model, usage) : 0
+      });
+    } catch (error) {
+      logger.error(`[${this.name}] Failed to record cache hit:`, error);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Cassette store
+ *
+ * Recorded proxy interactions, one JSON file per distinct request under the
+ * cassette directory. Requests are matched by method, path and a hash of the
+ * normalized body, so a replay does not depend on JSON key order or on
+ * per-session fields such as Claude Code's `metadata.user_id`.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { IncomingHttpHeaders } from 'http';
+import { join } from 'path';
+import { toCanonicalJSON } from '../../../../../utils/parsers.js';
+
+export const CASSETTE_FORMAT_VERSION = 1;
+
+// Top-level body fields that differ between sessions of the same conversation
+const IGNORED_BODY_FIELDS = ['metadata', 'user'];
+
+// Response headers that are not recorded
+const IGNORED_RESPONSE_HEADERS = ['set-cookie'];
+
+export interface CassetteRequest {
+  method: string;
+  path: string;
+  bodyHash: string;
+  body?: unknown;  // For readers of the cassette, not used for matching
+}
+
+/**
+ * A response chunk and the time since the previous one (or since the response headers)
+ */
+export interface CassetteChunk {
+  delayMs: number;
+  text?: string;    // UTF-8 chunks (e.g. SSE events)
+  base64?: string;  // Binary or compressed chunks
+}
+
+export interface CassetteResponse {
+  statusCode: number;
+  statusMessage?: string;
+  headers: IncomingHttpHeaders;
+  chunks: CassetteChunk[];
+}
+
+export interface Cassette {
+  version: number;
+  request: CassetteRequest;
+  responses: CassetteResponse[];  // In recording order; replays repeat the last one
+}
+
+export class CassetteStore {
+  constructor(private readonly dir: string) {}
+
+  async load(request: CassetteRequest): Promise<Cassette | null> {
+    try {
+      const cassette = JSON.parse(await readFile(this.getPath(request), 'utf-8')) as Cassette;
+      return cassette.responses?.length > 0 ? cassette : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(cassette: Cassette): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.getPath(cassette.request), JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+  }
+
+  /**
+   * File of a request, e.g. post-v1-messages-3f2a9c1d0b7e4a65.json
+   */
+  getPath(request: CassetteRequest): string {
+    const slug = `${request.method}${request.path}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/-+$/, '').slice(0, 80);
+    const hash = createHash('sha256').update(`${request.method} ${request.path} ${request.bodyHash}`).digest('hex');
+    return join(this.dir, `${slug}-${hash.slice(0, 16)}.json`);
+  }
+}
+
+/**
+ * Describe a proxied request for matching
+ */
+export function createCassetteRequest(method: string, url: string, body: Buffer | null): CassetteRequest {
+  const path = new URL(url, 'http://localhost').pathname;
+  const text = body?.toString('utf-8') ?? '';
+
+  let parsed: unknown = text || undefined;
+  let normalized = text;
+  try {
+    parsed = JSON.parse(text);
+    normalized = toCanonicalJSON(omitFields(parsed));
+  } catch {
+    // Not JSON: matched byte for byte
+  }
+
+  return {
+    method: method.toUpperCase(),
+    path,
+    bodyHash: createHash('sha256').update(normalized).digest('hex'),
+    body: parsed
+  };
+}
+
+export function encodeChunk(chunk: Buffer, delayMs: number): CassetteChunk {
+  const text = chunk.toString('utf-8');
+
+  // Chunks may end inside a multi-byte character, which would not survive a round trip
+  return Buffer.from(text, 'utf-8').equals(chunk)
+    ? { delayMs, text }
+    : { delayMs, base64: chunk.toString('base64') };
+}
+
+export function decodeChunk(chunk: CassetteChunk): Buffer {
+  return chunk.base64 !== undefined ? Buffer.from(chunk.base64, 'base64') : Buffer.from(chunk.text ?? '', 'utf-8');
+}
+
+export function filterResponseHeaders(headers: IncomingHttpHeaders): IncomingHttpHeaders {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([key, value]) => value !== undefined && !IGNORED_RESPONSE_HEADERS.includes(key.toLowerCase()))
+  );
+}
+
+function omitFields(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !IGNORED_BODY_FIELDS.includes(key)));
+}
@@ -0,0 +1,201 @@
+/**
+ * Cassette Plugin - Record and Replay
+ * Priority: 8 (after blocking and budget checks, before authentication)
+ *
+ * Record mode: writes request bodies and the full streamed responses,
+ * including the timing of SSE chunks, to the cassette directory.
+ * Replay mode: serves recorded responses from disk with their original chunk
+ * timing, so agent integrations can be tested without network or provider
+ * credentials. Requests without a recording get a 404 and are not forwarded.
+ *
+ * Enabled by `proxy.cassette` in the profile or by the environment:
+ *   CODEMIE_PROXY_CASSETTE_MODE=record|replay|off
+ *   CODEMIE_PROXY_CASSETTE_DIR=<directory> (default: ~/.codemie/cassettes)
+ *
+ * SOLID: Single responsibility = record and replay upstream responses
+ * KISS: One JSON file per distinct request
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import { Readable } from 'stream';
+import { setTimeout as sleep } from 'timers/promises';
+import { ProxyPlugin, PluginContext, ProxyInterceptor, ResponseMetadata } from './types.js';
+import { ProxyContext, ResponseStream } from '../proxy-types.js';
+import type { CassetteSettings, CodeMieConfigOptions } from '../../../../../env/types.js';
+import { logger } from '../../../../../utils/logger.js';
+import { getCodemiePath } from '../../../../../utils/paths.js';
+import {
+  CASSETTE_FORMAT_VERSION,
+  CassetteStore,
+  createCassetteRequest,
+  decodeChunk,
+  encodeChunk,
+  filterResponseHeaders,
+  type Cassette,
+  type CassetteChunk,
+  type CassetteRequest,
+  type CassetteResponse
+} from './cassette-store.js';
+
+/**
+ * Get the cassette settings of the proxy (null when neither recording nor replaying)
+ * Priority: ENV > Profile config
+ */
+export function getCassetteSettings(profileConfig: CodeMieConfigOptions | undefined): Required<CassetteSettings> | null {
+  const mode = process.env.CODEMIE_PROXY_CASSETTE_MODE || profileConfig?.proxy?.cassette?.mode;
+  if (mode !== 'record' && mode !== 'replay') {
+    return null;
+  }
+
+  return {
+    mode,
+    dir: process.env.CODEMIE_PROXY_CASSETTE_DIR || profileConfig?.proxy?.cassette?.dir || getCodemiePath('cassettes')
+  };
+}
+
+export class CassettePlugin implements ProxyPlugin {
+  id = '@codemie/proxy-cassette';
+  name = 'Cassette';
+  version = '1.0.0';
+  priority = 8;
+
+  async createInterceptor(context: PluginContext): Promise<ProxyInterceptor> {
+    const settings = getCassetteSettings(context.profileConfig);
+    if (!settings) {
+      throw new Error('No cassette mode configured (cassette disabled)');
+    }
+
+    logger.info(`[${this.name}] ${settings.mode === 'record' ? 'Recording to' : 'Replaying from'} ${settings.dir}`);
+
+    const store = new CassetteStore(settings.dir);
+    return settings.mode === 'record' ? new RecordInterceptor(store) : new ReplayInterceptor(store);
+  }
+}
+
+interface Recording {
+  request: CassetteRequest;
+  response: CassetteResponse;
+  lastChunkTime: number;
+}
+
+/**
+ * Record responses as they stream to the agent
+ */
+class RecordInterceptor implements ProxyInterceptor {
+  name = 'cassette-record';
+
+  private recordings = new Map<string, Recording>();
+  // Cassettes written by this proxy: the first recording replaces older ones, later ones are appended
+  private cassettes = new Map<string, Cassette>();
+  // Writes still running (responses complete after the agent has received them)
+  private pendingWrites = new Set<Promise<void>>();
+
+  constructor(private store: CassetteStore) {}
+
+  async onProxyStop(): Promise<void> {
+    await Promise.all(this.pendingWrites);
+  }
+
+  async onResponseHeaders(context: ProxyContext, headers: IncomingHttpHeaders): Promise<void> {
+    this.recordings.set(context.requestId, {
+      request: createCassetteRequest(context.method, context.url, context.requestBody),
+      response: { statusCode: 0, headers: filterResponseHeaders(headers), chunks: [] },
+      lastChunkTime: Date.now()
+    });
+  }
+
+  async onResponseChunk(context: ProxyContext, chunk: Buffer): Promise<Buffer | null> {
+    const recording = this.recordings.get(context.requestId);
+    if (recording) {
+      const now = Date.now();
+      recording.response.chunks.push(encodeChunk(chunk, now - recording.lastChunkTime));
+      recording.lastChunkTime = now;
+    }
+    return chunk;
+  }
+
+  async onResponseComplete(context: ProxyContext, metadata: ResponseMetadata): Promise<void> {
+    const recording = this.recordings.get(context.requestId);
+    this.recordings.delete(context.requestId);
+    if (!recording) {
+      return;
+    }
+
+    recording.response.statusCode = metadata.statusCode;
+    recording.response.statusMessage = metadata.statusMessage;
+
+    const path = this.store.getPath(recording.request);
+    const cassette = this.cassettes.get(path) ?? {
+      version: CASSETTE_FORMAT_VERSION,
+      request: recording.request,
+      responses: []
+    };
+    cassette.responses.push(recording.response);
+    this.cassettes.set(path, cassette);
+
+    const write = this.store.save(cassette)
+      .then(() => logger.debug(`[${this.name}] Recorded ${context.method} ${recording.request.path} (${recording.response.chunks.length} chunks) to ${path}`))
+      .catch(error => logger.error(`[${this.name}] Failed to record ${context.method} ${recording.request.path}:`, error))
+      .finally(() => this.pendingWrites.delete(write));
+    this.pendingWrites.add(write);
+    await write;
+  }
+
+  async onError(context: ProxyContext): Promise<void> {
+    this.recordings.delete(context.requestId);
+  }
+}
+
+/**
+ * Serve recorded responses instead of forwarding requests
+ */
+class ReplayInterceptor implements ProxyInterceptor {
+  name = 'cassette-replay';
+
+  // Responses served per cassette, so repeated requests replay the recordings in order
+  private served = new Map<string, number>();
+
+  constructor(private store: CassetteStore) {}
+
+  async onRequest(context: ProxyContext): Promise<void> {
+    const request = createCassetteRequest(context.method, context.url, context.requestBody);
+    const cassette = await this.store.load(request);
+
+    if (!cassette) {
+      const message = `No recorded response for ${request.method} ${request.path} (expected ${this.store.getPath(request)})`;
+      logger.warn(`[${this.name}] ${message}`);
+
+      context.metadata.blocked = true;
+      context.blockedResponse = {
+        statusCode: 404,
+        body: JSON.stringify({ error: { type: 'cassette_not_found', message } })
+      };
+      return;
+    }
+
+    const path = this.store.getPath(request);
+    const index = this.served.get(path) ?? 0;
+    this.served.set(path, index + 1);
+
+    const response = cassette.responses[Math.min(index, cassette.responses.length - 1)];
+    context.servedResponse = createReplayStream(response);
+    logger.debug(`[${this.name}] Replaying ${request.method} ${request.path} (response ${index + 1}/${cassette.responses.length})`);
+  }
+}
+
+function createReplayStream(response: CassetteResponse): ResponseStream {
+  return Object.assign(Readable.from(replayChunks(response.chunks), { objectMode: false }), {
+    statusCode: response.statusCode,
+    statusMessage: response.statusMessage ?? '',
+    headers: response.headers
+  });
+}
+
+async function* replayChunks(chunks: CassetteChunk[]): AsyncGenerator<Buffer> {
+  for (const chunk of chunks) {
+    if (chunk.delayMs > 0) {
+      await sleep(chunk.delayMs);
+    }
+    yield decodeChunk(chunk);
+  }
+}
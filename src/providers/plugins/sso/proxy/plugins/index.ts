@@ -6,8 +6,12 @@
  */
 
 import { getPluginRegistry } from './registry.js';
+import { RedactionPlugin } from './redaction.plugin.js';
 import { EndpointBlockerPlugin } from './endpoint-blocker.plugin.js';
-import { SSOAuthPlugin } from './sso-auth.plugin.js';
+import { BudgetPlugin } from './budget.plugin.js';
+import { CachePlugin } from './cache.plugin.js';
+import { CassettePlugin } from './cassette.plugin.js';
+import { ProviderAuthPlugin } from './provider-auth.plugin.js';
 import { HeaderInjectionPlugin } from './header-injection.plugin.js';
 import { LoggingPlugin } from './logging.plugin.js';
 import { SSOSessionSyncPlugin } from './sso.session-sync.plugin.js';
@@ -20,8 +24,12 @@ export function registerCorePlugins(): void {
   const registry = getPluginRegistry();
 
   // Register in any order (priority determines execution order)
+  registry.register(new RedactionPlugin()); // Priority 4 - masks or blocks secrets in prompts (opt-in)
   registry.register(new EndpointBlockerPlugin()); // Priority 5 - blocks unwanted endpoints early
-  registry.register(new SSOAuthPlugin());
+  registry.register(new CachePlugin()); // Priority 6 - serves repeated temperature 0 requests (opt-in)
+  registry.register(new BudgetPlugin()); // Priority 7 - rejects requests over the profile's budget
+  registry.register(new CassettePlugin()); // Priority 8 - records or replays responses (offline testing)
+  registry.register(new ProviderAuthPlugin()); // Priority 10 - SSO cookies, API key, AWS SigV4 or none
   registry.register(new HeaderInjectionPlugin());
   registry.register(new LoggingPlugin()); // Always enabled - logs to log files at INFO level
   registry.register(new SSOSessionSyncPlugin()); // Priority 100 - syncs sessions via multiple processors
@@ -31,7 +39,12 @@ export function registerCorePlugins(): void {
 registerCorePlugins();
 
 // Re-export for convenience
-export { EndpointBlockerPlugin, SSOAuthPlugin, HeaderInjectionPlugin, LoggingPlugin };
+export { RedactionPlugin, EndpointBlockerPlugin, CachePlugin, BudgetPlugin, CassettePlugin, ProviderAuthPlugin, HeaderInjectionPlugin, LoggingPlugin };
+export { PROXY_API_KEY, getProxyAuthType } from './provider-auth.plugin.js';
+export { getCassetteSettings } from './cassette.plugin.js';
+export { getCacheSettings } from './cache.plugin.js';
+export { getRedactionSettings } from './redaction.plugin.js';
+export { hasBudgetLimits } from './budget-ledger.js';
 export { SSOSessionSyncPlugin } from './sso.session-sync.plugin.js';
 export { getPluginRegistry, resetPluginRegistry } from './registry.js';
 export * from './types.js';
@@ -12,6 +12,8 @@
  *   - SSE (Server-Sent Events): First/last events + stats (avoids logging full stream)
  *   - Other: Raw content (truncated if > 1000 bytes)
  * - Streaming: chunk count, bytes transferred, streaming detection
+ * - Response cache: hit or miss of cacheable requests (hits also at INFO level)
+ * - Redaction: number of secrets found in the prompt (bodies are logged after masking)
  *
  * Log Level: DEBUG (file + console when CODEMIE_DEBUG=1)
  * Log Location: ~/.codemie/logs/debug-YYYY-MM-DD.log
@@ -23,6 +25,7 @@
 import { ProxyPlugin, PluginContext, ProxyInterceptor, ResponseMetadata } from './types.js';
 import { ProxyContext } from '../proxy-types.js';
 import { logger } from '../../../../../utils/logger.js';
+import { isSensitiveKey } from '../../../../../utils/security.js';
 
 export class LoggingPlugin implements ProxyPlugin {
   id = '@codemie/proxy-logging';
@@ -79,7 +82,7 @@ class LoggingInterceptor implements ProxyInterceptor {
           profile: context.profile,
           provider: context.provider,
           model: context.model,
-          targetUrl: context.targetUrl,
+          targetUrl: context.targetUrl && this.sanitizeUrl(context.targetUrl),
           contentType,
           bodySize: context.requestBody?.length || 0,
           headers: this.sanitizeHeaders(context.headers),
@@ -160,6 +163,14 @@ class LoggingInterceptor implements ProxyInterceptor {
     metadata: ResponseMetadata
   ): Promise<void> {
     try {
+      if (context.metadata.cache === 'hit') {
+        logger.info(`[proxy-cache] Served ${context.method} ${context.url} from the response cache`, {
+          requestId: context.requestId,
+          sessionId: context.sessionId,
+          bytesSent: metadata.bytesSent
+        });
+      }
+
       // Capture chunks for logging (use local reference to avoid race conditions)
       const chunksToLog = this.responseChunks;
       const chunkCount = this.chunkCount;
@@ -225,6 +236,8 @@ class LoggingInterceptor implements ProxyInterceptor {
               model: context.model,
               statusCode: metadata.statusCode,
               statusMessage: metadata.statusMessage,
+              cache: context.metadata.cache,
+              redactions: context.metadata.redactions,
               contentType,
               isStreaming,
               bytesSent: metadata.bytesSent,
@@ -282,6 +295,19 @@ class LoggingInterceptor implements ProxyInterceptor {
     }
   }
 
+  /**
+   * Mask API keys passed as query parameters (e.g. ?key= of the Gemini API)
+   */
+  private sanitizeUrl(targetUrl: string): string {
+    const url = new URL(targetUrl);
+    for (const param of [...url.searchParams.keys()]) {
+      if (param === 'key' || isSensitiveKey(param)) {
+        url.searchParams.set(param, '***');
+      }
+    }
+    return url.toString();
+  }
+
   /**
    * Filter headers to only include X-Codemie headers
    */
@@ -0,0 +1,165 @@
+/**
+ * Prompt redactor
+ *
+ * Finds secrets and personal data in the string values of a prompt with the
+ * built-in detectors and the profile's custom patterns, and masks the ones
+ * whose policy is `mask`. Used by the redaction plugin for agents behind the
+ * proxy and by the built-in agent, which calls providers directly.
+ */
+
+import { createHash } from 'crypto';
+import type { RedactionPolicy, RedactionSettings } from '../../../../../env/types.js';
+import { logger } from '../../../../../utils/logger.js';
+import { SECRET_DETECTORS, findSecrets, type SecretDetector } from '../../../../../utils/security.js';
+
+/**
+ * Redaction settings of an enabled redaction
+ */
+export type ActiveRedactionSettings = Required<Omit<RedactionSettings, 'enabled'>>;
+
+export interface RedactionFinding {
+  detector: string;
+  policy: RedactionPolicy;
+  location: string;  // Path of the string value, e.g. messages[2].content[0].text
+  fingerprint: string;
+}
+
+// Opaque values the provider verifies (thinking signatures)
+const OPAQUE_FIELDS = ['signature', 'encrypted_content'];
+
+export class PromptRedactor {
+  private detectors: SecretDetector[] = [];
+  private policies = new Map<string, RedactionPolicy>();
+  private allow: RegExp[];
+
+  // Fingerprints of the secrets the user was told about
+  private notified = new Set<string>();
+
+  /**
+   * @param display - Shows a notice to the user (it is also written to the log)
+   */
+  constructor(settings: ActiveRedactionSettings, private display: (message: string) => void) {
+    for (const detector of SECRET_DETECTORS) {
+      const policy = settings.detectors[detector.name] ?? settings.policy;
+      if (policy !== 'off') {
+        this.detectors.push(detector);
+        this.policies.set(detector.name, policy);
+      }
+    }
+
+    // Invalid patterns are rejected by config validation; skip them rather than disable all detectors
+    for (const custom of settings.patterns) {
+      const pattern = compilePattern(custom.pattern, 'g');
+      if (pattern) {
+        this.detectors.push({ name: custom.name, pattern });
+        this.policies.set(custom.name, custom.policy ?? settings.policy);
+      } else {
+        logger.error(`[redaction] Ignoring redaction pattern "${custom.name}": invalid regular expression`);
+      }
+    }
+
+    this.allow = settings.allow
+      .map(pattern => compilePattern(pattern))
+      .filter((pattern): pattern is RegExp => pattern !== null);
+  }
+
+  /**
+   * e.g. "aws-access-key (mask), email (warn)"
+   */
+  describeDetectors(): string {
+    return this.detectors.map(d => `${d.name} (${this.policies.get(d.name)})`).join(', ');
+  }
+
+  /**
+   * Copy a JSON value with the secrets of mask detectors replaced, collecting all findings
+   */
+  scan(value: unknown, location: string, findings: RedactionFinding[], opaqueFields: string[] = OPAQUE_FIELDS): unknown {
+    if (typeof value === 'string') {
+      return this.scanText(value, location || 'body', findings);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.scan(item, `${location}[${index}]`, findings));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      const record = value as Record<string, unknown>;
+      return Object.fromEntries(Object.entries(record).map(([key, item]) => {
+        if (opaqueFields.includes(key)) {
+          return [key, item];
+        }
+
+        const itemOpaqueFields = isBase64Source(record, key) ? [...OPAQUE_FIELDS, 'data'] : OPAQUE_FIELDS;
+        return [key, this.scan(item, location ? `${location}.${key}` : key, findings, itemOpaqueFields)];
+      }));
+    }
+
+    return value;
+  }
+
+  /**
+   * Tell the user about secrets seen for the first time in this session
+   */
+  notify(findings: RedactionFinding[], action: 'masked' | 'blocked' | 'detected'): void {
+    const unseen = findings.filter(finding => !this.notified.has(finding.fingerprint));
+    if (unseen.length === 0) {
+      return;
+    }
+    unseen.forEach(finding => this.notified.add(finding.fingerprint));
+
+    const message = `CodeMie ${action} ${describeFindings(unseen)} in the prompt`;
+    logger.warn(`[redaction] ${message}`);
+    this.display(message);
+  }
+
+  private scanText(text: string, location: string, findings: RedactionFinding[]): string {
+    const matches = findSecrets(text, this.detectors).filter(match => !this.allow.some(pattern => pattern.test(match.value)));
+
+    let redacted = '';
+    let position = 0;
+    for (const match of matches) {
+      const policy = this.policies.get(match.detector)!;
+      findings.push({
+        detector: match.detector,
+        policy,
+        location,
+        fingerprint: createHash('sha256').update(`${match.detector}:${match.value}`).digest('hex')
+      });
+
+      if (policy === 'mask') {
+        redacted += `${text.slice(position, match.start)}[REDACTED:${match.detector}]`;
+        position = match.end;
+      }
+    }
+
+    return redacted + text.slice(position);
+  }
+}
+
+/**
+ * e.g. "aws-access-key (2) and email"
+ */
+export function describeFindings(findings: RedactionFinding[]): string {
+  const counts = new Map<string, number>();
+  findings.forEach(finding => counts.set(finding.detector, (counts.get(finding.detector) ?? 0) + 1));
+
+  const names = [...counts].map(([detector, count]) => count > 1 ? `${detector} (${count})` : detector);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+}
+
+/**
+ * Check whether a field holds base64 data the provider decodes: the source of an
+ * Anthropic image or document block, or Gemini inline data
+ */
+function isBase64Source(block: Record<string, unknown>, key: string): boolean {
+  return key === 'inlineData' || key === 'inline_data' ||
+    (key === 'source' && (block.type === 'image' || block.type === 'document'));
+}
+
+function compilePattern(pattern: string, flags?: string): RegExp | null {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+}
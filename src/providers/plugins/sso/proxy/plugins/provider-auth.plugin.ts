@@ -0,0 +1,279 @@
+/**
+ * Provider Authentication Plugin
+ * Priority: 10 (must run first)
+ *
+ * Authenticates forwarded requests the way the profile's provider expects:
+ * - sso:       CodeMie SSO cookies
+ * - api-key:   the profile's API key in place of the agent's placeholder key
+ *              (OpenAI-compatible: in the profile's auth header, with its static headers)
+ * - aws-sigv4: AWS Signature Version 4 (Bedrock)
+ * - none:      no authentication (e.g. Ollama)
+ *
+ * SOLID: Single responsibility = authenticate upstream requests
+ * KISS: One interceptor per authentication type
+ */
+
+import { ProxyPlugin, PluginContext, ProxyInterceptor } from './types.js';
+import { ProxyContext } from '../proxy-types.js';
+import { ProviderRegistry } from '../../../../core/registry.js';
+import type { ProviderTemplate, ProxyAuthType, SSOCredentials } from '../../../../core/types.js';
+import type { CodeMieConfigOptions } from '../../../../../env/types.js';
+import { logger } from '../../../../../utils/logger.js';
+import {
+  getOpenAICompatibleConnection,
+  getOpenAICompatibleHeaders,
+  type OpenAICompatibleConnection
+} from '../../../openai-compatible/openai-compatible.connection.js';
+
+/**
+ * API key handed to agents whose requests the proxy authenticates
+ */
+export const PROXY_API_KEY = 'proxy-handled';
+
+/**
+ * Get how the proxy authenticates requests to a provider
+ */
+export function getProxyAuthType(provider: ProviderTemplate | undefined): ProxyAuthType {
+  if (provider?.proxyAuthType) {
+    return provider.proxyAuthType;
+  }
+
+  switch (provider?.authType) {
+    case 'sso':
+      return 'sso';
+    case 'none':
+      return 'none';
+    default:
+      return 'api-key';
+  }
+}
+
+export class ProviderAuthPlugin implements ProxyPlugin {
+  id = '@codemie/proxy-auth';
+  name = 'Provider Authentication';
+  version = '1.0.0';
+  priority = 10;
+
+  async createInterceptor(context: PluginContext): Promise<ProxyInterceptor> {
+    const authType = getProxyAuthType(ProviderRegistry.getProvider(context.config.provider || ''));
+    const profileConfig = context.profileConfig ?? {};
+
+    switch (authType) {
+      case 'sso':
+        if (!context.credentials) {
+          // Only without a replay cassette (the proxy refuses to start otherwise)
+          throw new Error('SSO credentials not available (SSO authentication disabled)');
+        }
+        return new SSOAuthInterceptor(context.credentials);
+
+      case 'aws-sigv4':
+        return AwsSigV4AuthInterceptor.create(context.config.targetApiUrl, profileConfig);
+
+      case 'api-key':
+        if (context.config.provider === 'openai-compatible') {
+          return new OpenAICompatibleAuthInterceptor(getOpenAICompatibleConnection(profileConfig), profileConfig.apiKey);
+        }
+        if (profileConfig.apiKey) {
+          return new ApiKeyAuthInterceptor(profileConfig.apiKey);
+        }
+        logger.warn(`[${this.name}] No API key in profile, forwarding requests without authentication`);
+        return new NoAuthInterceptor();
+
+      case 'none':
+        return new NoAuthInterceptor();
+    }
+  }
+}
+
+/**
+ * Inject SSO cookies
+ */
+class SSOAuthInterceptor implements ProxyInterceptor {
+  name = 'sso-auth';
+
+  constructor(private credentials: SSOCredentials) {}
+
+  async onRequest(context: ProxyContext): Promise<void> {
+    const cookieHeader = Object.entries(this.credentials.cookies)
+      .map(([key, value]) => `${key}=${value}`)
+      .join('; ');
+
+    // Use lowercase 'cookie' to match Node.js HTTP header conventions
+    context.headers['cookie'] = cookieHeader;
+
+    logger.debug(`[${this.name}] Injected SSO cookies:`, {
+      cookieCount: Object.keys(this.credentials.cookies).length,
+      cookieNames: Object.keys(this.credentials.cookies),
+      headerLength: cookieHeader.length
+    });
+  }
+}
+
+/**
+ * Replace the agent's placeholder key with the profile's API key
+ *
+ * Each agent sends the key in the header its API expects (Authorization,
+ * x-api-key, x-goog-api-key, ?key=), so the placeholder is replaced wherever it is.
+ */
+class ApiKeyAuthInterceptor implements ProxyInterceptor {
+  name = 'api-key-auth';
+
+  constructor(private apiKey: string) {}
+
+  async onRequest(context: ProxyContext): Promise<void> {
+    let replaced = false;
+
+    for (const [key, value] of Object.entries(context.headers)) {
+      if (value.includes(PROXY_API_KEY)) {
+        context.headers[key] = value.replaceAll(PROXY_API_KEY, this.apiKey);
+        replaced = true;
+      }
+    }
+
+    const url = context.targetUrl ? new URL(context.targetUrl) : null;
+    const keyParams = url ? [...url.searchParams].filter(([, value]) => value === PROXY_API_KEY) : [];
+    if (url && keyParams.length > 0) {
+      keyParams.forEach(([param]) => url.searchParams.set(param, this.apiKey));
+      context.targetUrl = url.toString();
+      replaced = true;
+    }
+
+    if (!replaced) {
+      context.headers['authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    logger.debug(`[${this.name}] Injected API key`);
+  }
+}
+
+/**
+ * Send the profile's auth header and static headers to an OpenAI-compatible endpoint
+ *
+ * Agents send the placeholder as `Authorization: Bearer`, while gateways may expect
+ * another header (e.g. api-key) or scheme, so the placeholder header is replaced.
+ */
+class OpenAICompatibleAuthInterceptor implements ProxyInterceptor {
+  name = 'openai-compatible-auth';
+
+  constructor(
+    private connection: OpenAICompatibleConnection,
+    private apiKey?: string
+  ) {}
+
+  async onRequest(context: ProxyContext): Promise<void> {
+    for (const [key, value] of Object.entries(context.headers)) {
+      if (value.includes(PROXY_API_KEY)) {
+        delete context.headers[key];
+      }
+    }
+
+    for (const [name, value] of Object.entries(getOpenAICompatibleHeaders(this.connection, this.apiKey))) {
+      // Node.js delivers lowercase header names, so replace the agent's header of any case
+      Object.keys(context.headers)
+        .filter(key => key.toLowerCase() === name.toLowerCase())
+        .forEach(key => delete context.headers[key]);
+      context.headers[name.toLowerCase()] = value;
+    }
+
+    logger.debug(`[${this.name}] Injected ${this.connection.authHeader} header`);
+  }
+}
+
+/**
+ * Remove the agent's placeholder key for providers without authentication
+ */
+class NoAuthInterceptor implements ProxyInterceptor {
+  name = 'no-auth';
+
+  async onRequest(context: ProxyContext): Promise<void> {
+    for (const [key, value] of Object.entries(context.headers)) {
+      if (value.includes(PROXY_API_KEY)) {
+        delete context.headers[key];
+      }
+    }
+  }
+}
+
+interface RequestSigner {
+  sign(request: {
+    method: string;
+    protocol: string;
+    hostname: string;
+    port?: number;
+    path: string;
+    query: Record<string, string>;
+    headers: Record<string, string>;
+    body?: Buffer;
+  }): Promise<{ headers: Record<string, string> }>;
+}
+
+/**
+ * Sign requests with AWS Signature Version 4
+ *
+ * Credentials come from the profile: an AWS CLI profile, an access key pair,
+ * or the default credential chain (environment, SSO, instance roles).
+ */
+class AwsSigV4AuthInterceptor implements ProxyInterceptor {
+  name = 'aws-sigv4-auth';
+
+  private constructor(private signer: RequestSigner) {}
+
+  static async create(targetApiUrl: string, config: CodeMieConfigOptions): Promise<AwsSigV4AuthInterceptor> {
+    const [{ SignatureV4 }, { Sha256 }, { fromIni, fromNodeProviderChain }] = await Promise.all([
+      import('@smithy/signature-v4'),
+      import('@aws-crypto/sha256-js'),
+      import('@aws-sdk/credential-providers')
+    ]);
+
+    const usingAccessKeys = config.awsSecretAccessKey && config.apiKey && config.apiKey !== 'aws-profile';
+    const credentials = usingAccessKeys
+      ? { accessKeyId: config.apiKey!, secretAccessKey: config.awsSecretAccessKey! }
+      : config.awsProfile ? fromIni({ profile: config.awsProfile }) : fromNodeProviderChain();
+
+    // The region of the endpoint wins: a request signed for another region is rejected
+    const endpointRegion = new URL(targetApiUrl).hostname.match(/^bedrock-runtime(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com$/)?.[1];
+
+    return new AwsSigV4AuthInterceptor(new SignatureV4({
+      service: 'bedrock',
+      region: endpointRegion || config.awsRegion || 'us-east-1',
+      credentials,
+      sha256: Sha256
+    }));
+  }
+
+  async onRequest(context: ProxyContext): Promise<void> {
+    if (!context.targetUrl) {
+      return;
+    }
+
+    // The agent's own credentials are replaced by the signature
+    for (const key of Object.keys(context.headers)) {
+      const lower = key.toLowerCase();
+      if (lower === 'authorization' || lower.startsWith('x-amz-')) {
+        delete context.headers[key];
+      }
+    }
+
+    const url = new URL(context.targetUrl);
+    const contentType = Object.entries(context.headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1];
+
+    const signed = await this.signer.sign({
+      method: context.method,
+      protocol: url.protocol,
+      hostname: url.hostname,
+      port: url.port ? Number(url.port) : undefined,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: { host: url.host, ...(contentType ? { 'content-type': contentType } : {}) },
+      body: context.requestBody ?? undefined
+    });
+
+    for (const [key, value] of Object.entries(signed.headers)) {
+      if (key !== 'host' && key !== 'content-type') {
+        context.headers[key] = value;
+      }
+    }
+
+    logger.debug(`[${this.name}] Signed request for ${url.hostname}`);
+  }
+}
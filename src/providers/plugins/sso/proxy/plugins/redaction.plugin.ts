@@ -0,0 +1,169 @@
+/**
+ * Redaction Plugin - Secrets in Prompts
+ * Priority: 4 (before the body is cached, recorded, signed or forwarded)
+ *
+ * Scans the string values of JSON request bodies for secrets and personal
+ * data (private keys, AWS keys, GitHub tokens, JWTs, email addresses and the
+ * profile's custom patterns) and applies the policy of each detector:
+ * - mask: replaces the secret with [REDACTED:<detector>] in the forwarded body
+ * - block: rejects the request with an error shaped like the upstream API's
+ * - warn: forwards the request unchanged
+ *
+ * Every finding is written to the session log with its detector and location,
+ * never with the secret itself. Agents resend the whole conversation with
+ * each request, so the terminal notice is shown once per secret.
+ *
+ * Opt-in: `proxy.redaction.enabled` in the profile or
+ *   CODEMIE_PROXY_REDACTION_POLICY=mask|block|warn|off
+ *
+ * SOLID: Single responsibility = keep secrets out of prompts
+ * KISS: Regular expressions over string values (PromptRedactor), detectors shared with log sanitization
+ */
+
+import chalk from 'chalk';
+import { ProxyPlugin, PluginContext, ProxyInterceptor } from './types.js';
+import { ProxyContext } from '../proxy-types.js';
+import type { CodeMieConfigOptions, RedactionPolicy } from '../../../../../env/types.js';
+import { logger } from '../../../../../utils/logger.js';
+import { PromptRedactor, describeFindings, type ActiveRedactionSettings, type RedactionFinding } from './prompt-redactor.js';
+
+const REDACTION_POLICIES: readonly string[] = ['mask', 'block', 'warn'];
+
+/**
+ * Get the redaction settings (null when redaction is off)
+ * Priority: ENV > Profile config > Default (off)
+ */
+export function getRedactionSettings(
+  profileConfig: CodeMieConfigOptions | undefined
+): ActiveRedactionSettings | null {
+  const redaction = profileConfig?.proxy?.redaction;
+  const envPolicy = process.env.CODEMIE_PROXY_REDACTION_POLICY;
+
+  let policy: RedactionPolicy | undefined;
+  if (envPolicy !== undefined) {
+    policy = isRedactionPolicy(envPolicy) ? envPolicy : undefined;
+  } else if (redaction?.enabled === true) {
+    policy = redaction.policy ?? 'mask';
+  }
+
+  if (!policy) {
+    return null;
+  }
+
+  return {
+    policy,
+    detectors: redaction?.detectors ?? {},
+    patterns: redaction?.patterns ?? [],
+    allow: redaction?.allow ?? []
+  };
+}
+
+export class RedactionPlugin implements ProxyPlugin {
+  id = '@codemie/proxy-redaction';
+  name = 'Redaction';
+  version = '1.0.0';
+  priority = 4;
+
+  async createInterceptor(context: PluginContext): Promise<ProxyInterceptor> {
+    const settings = getRedactionSettings(context.profileConfig);
+    if (!settings) {
+      throw new Error('Redaction not enabled (redaction disabled)');
+    }
+
+    // The agent owns the terminal, so notices go to stderr as a single line
+    const redactor = new PromptRedactor(settings, message => process.stderr.write(chalk.yellow(`\n⚠ ${message}\n`)));
+
+    logger.info(`[${this.name}] Scanning prompts with ${redactor.describeDetectors()}`);
+    return new RedactionInterceptor(redactor);
+  }
+}
+
+class RedactionInterceptor implements ProxyInterceptor {
+  name = 'redaction';
+
+  constructor(private redactor: PromptRedactor) {}
+
+  async onRequest(context: ProxyContext): Promise<void> {
+    const body = parseJsonBody(context.requestBody);
+    if (body === undefined) {
+      return;
+    }
+
+    const findings: RedactionFinding[] = [];
+    const redacted = this.redactor.scan(body, '', findings);
+    if (findings.length === 0) {
+      return;
+    }
+
+    context.metadata.redactions = findings.length;
+    const blocking = findings.filter(finding => finding.policy === 'block');
+    for (const finding of findings) {
+      const action = blocking.length > 0 ? 'Blocked' : finding.policy === 'mask' ? 'Masked' : 'Detected';
+      logger.info(`[${this.name}] ${action} ${finding.detector} in ${finding.location} of ${context.method} ${context.url}`, {
+        requestId: context.requestId,
+        policy: finding.policy
+      });
+    }
+
+    if (blocking.length > 0) {
+      const message = `CodeMie blocked this request: the prompt contains ${describeFindings(blocking)}. ` +
+        'Remove the secret from the conversation or change proxy.redaction in the profile.';
+
+      context.metadata.blocked = true;
+      context.blockedResponse = createRedactionErrorResponse(context.url, message);
+      this.redactor.notify(blocking, 'blocked');
+      return;
+    }
+
+    if (findings.some(finding => finding.policy === 'mask')) {
+      context.requestBody = Buffer.from(JSON.stringify(redacted), 'utf-8');
+      setContentLength(context.headers, context.requestBody.length);
+    }
+
+    this.redactor.notify(findings.filter(finding => finding.policy === 'mask'), 'masked');
+    this.redactor.notify(findings.filter(finding => finding.policy === 'warn'), 'detected');
+  }
+}
+
+function isRedactionPolicy(value: string): value is RedactionPolicy {
+  return REDACTION_POLICIES.includes(value);
+}
+
+function parseJsonBody(body: Buffer | null): unknown {
+  if (!body || body.length === 0) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(body.toString('utf-8'));
+  } catch {
+    return undefined;  // Not JSON (e.g. compressed): forwarded unchanged
+  }
+}
+
+function setContentLength(headers: Record<string, string>, length: number): void {
+  // Chunked requests have no length to update
+  const name = Object.keys(headers).find(key => key.toLowerCase() === 'content-length');
+  if (name) {
+    headers[name] = String(length);
+  }
+}
+
+/**
+ * Error response in the format of the API the agent calls (400: not retried by clients)
+ */
+function createRedactionErrorResponse(url: string, message: string): NonNullable<ProxyContext['blockedResponse']> {
+  // Anthropic Messages API
+  if (/\/messages(\?|$)/.test(url)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ type: 'error', error: { type: 'invalid_request_error', message } })
+    };
+  }
+
+  // OpenAI-compatible APIs
+  return {
+    statusCode: 400,
+    body: JSON.stringify({ error: { message, type: 'invalid_request_error', param: null, code: 'sensitive_content' } })
+  };
+}
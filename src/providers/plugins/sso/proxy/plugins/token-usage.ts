@@ -0,0 +1,183 @@
+/**
+ * Token usage of proxied model responses
+ *
+ * Reads usage from JSON responses and from SSE streams of the Anthropic
+ * Messages API, OpenAI Chat Completions and Responses APIs and the Gemini API.
+ * Streams report usage in several events (e.g. Anthropic message_start and
+ * message_delta, cumulative Gemini usageMetadata), so the highest value of
+ * every counter wins.
+ */
+
+import type { ModelUsage } from '../../../../core/model-catalog.js';
+
+export interface ResponseUsage extends ModelUsage {
+  model?: string;
+}
+
+// Bodies larger than this are not parsed (usage is only a few bytes of them)
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Collects a response body and extracts its token usage
+ */
+export class TokenUsageCollector {
+  private readonly isEventStream: boolean;
+  private readonly decoder = new TextDecoder();
+  private buffer = '';
+  private bytes = 0;
+  private usage: ResponseUsage | null = null;
+
+  constructor(contentType: string | undefined) {
+    this.isEventStream = (contentType ?? '').includes('text/event-stream');
+  }
+
+  /**
+   * Add a chunk of the response body
+   */
+  push(chunk: Buffer): void {
+    this.bytes += chunk.length;
+    if (this.bytes > MAX_BODY_BYTES) {
+      this.buffer = '';
+      return;
+    }
+
+    this.buffer += this.decoder.decode(chunk, { stream: true });
+
+    if (this.isEventStream) {
+      // Parse complete lines, keep the partial last line for the next chunk
+      const lines = this.buffer.split('\n');
+      this.buffer = lines.pop() ?? '';
+      lines.forEach(line => this.parseEventLine(line));
+    }
+  }
+
+  /**
+   * Get the usage of the complete response (null if it reported none)
+   */
+  finish(): ResponseUsage | null {
+    this.buffer += this.decoder.decode();
+
+    if (this.isEventStream) {
+      this.parseEventLine(this.buffer);
+    } else if (this.bytes <= MAX_BODY_BYTES) {
+      this.parseJson(this.buffer);
+    }
+    this.buffer = '';
+
+    return this.usage;
+  }
+
+  private parseEventLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      return;
+    }
+
+    const data = trimmed.slice(5).trim();
+    if (data && data !== '[DONE]') {
+      this.parseJson(data);
+    }
+  }
+
+  private parseJson(text: string): void {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    const usage = extractUsage(data);
+    if (usage) {
+      this.merge(usage);
+    }
+  }
+
+  private merge(usage: ResponseUsage): void {
+    const current = this.usage ?? { inputTokens: 0, outputTokens: 0 };
+
+    this.usage = {
+      model: current.model ?? usage.model,
+      inputTokens: Math.max(current.inputTokens, usage.inputTokens),
+      outputTokens: Math.max(current.outputTokens, usage.outputTokens),
+      cacheReadTokens: Math.max(current.cacheReadTokens ?? 0, usage.cacheReadTokens ?? 0),
+      cacheWriteTokens: Math.max(current.cacheWriteTokens ?? 0, usage.cacheWriteTokens ?? 0)
+    };
+  }
+}
+
+/**
+ * Extract the usage reported by a response body or stream event
+ */
+export function extractUsage(data: unknown): ResponseUsage | null {
+  if (!isObject(data)) {
+    return null;
+  }
+
+  // Anthropic message_start wraps the message, Responses API events wrap the response
+  if (isObject(data.message) && isObject(data.message.usage)) {
+    return extractUsage(data.message);
+  }
+  if (isObject(data.response) && isObject(data.response.usage)) {
+    return extractUsage(data.response);
+  }
+
+  const model = typeof data.model === 'string' ? data.model
+    : typeof data.modelVersion === 'string' ? data.modelVersion : undefined;
+
+  // Gemini
+  if (isObject(data.usageMetadata)) {
+    const usage = data.usageMetadata;
+    return {
+      model,
+      inputTokens: toCount(usage.promptTokenCount),
+      outputTokens: toCount(usage.candidatesTokenCount) + toCount(usage.thoughtsTokenCount),
+      cacheReadTokens: toCount(usage.cachedContentTokenCount)
+    };
+  }
+
+  if (!isObject(data.usage)) {
+    return null;
+  }
+  const usage = data.usage;
+
+  // OpenAI Chat Completions
+  if ('prompt_tokens' in usage || 'completion_tokens' in usage) {
+    const details = isObject(usage.prompt_tokens_details) ? usage.prompt_tokens_details : {};
+    return {
+      model,
+      inputTokens: toCount(usage.prompt_tokens),
+      outputTokens: toCount(usage.completion_tokens),
+      cacheReadTokens: toCount(details.cached_tokens)
+    };
+  }
+
+  // OpenAI Responses API: input tokens include cached ones
+  if (isObject(usage.input_tokens_details)) {
+    return {
+      model,
+      inputTokens: toCount(usage.input_tokens),
+      outputTokens: toCount(usage.output_tokens),
+      cacheReadTokens: toCount(usage.input_tokens_details.cached_tokens)
+    };
+  }
+
+  // Anthropic: input tokens exclude cache reads and writes
+  const cacheReadTokens = toCount(usage.cache_read_input_tokens);
+  const cacheWriteTokens = toCount(usage.cache_creation_input_tokens);
+  return {
+    model,
+    inputTokens: toCount(usage.input_tokens) + cacheReadTokens + cacheWriteTokens,
+    outputTokens: toCount(usage.output_tokens),
+    cacheReadTokens,
+    cacheWriteTokens
+  };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
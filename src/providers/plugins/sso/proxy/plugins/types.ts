@@ -98,4 +98,5 @@ export interface ResponseMetadata {
   headers: IncomingHttpHeaders;
   bytesSent: number;
   durationMs: number;
+  aborted?: boolean;  // Client disconnected before the response was fully streamed
 }
@@ -17,6 +17,7 @@ import { logger } from '../../../../utils/logger.js';
 export interface HTTPClientOptions {
   timeout?: number;
   rejectUnauthorized?: boolean;
+  ca?: string[]; // PEM certificates to trust instead of the system CAs
 }
 
 export interface ForwardRequestOptions {
@@ -57,6 +58,7 @@ export class ProxyHTTPClient {
     // NO timeout on agent - we handle it at request level
     const baseAgentOptions = {
       rejectUnauthorized: options.rejectUnauthorized ?? false,
+      ca: options.ca,
       keepAlive: true,
       maxSockets: 50
     };
@@ -4,7 +4,8 @@
  * Type definitions for proxy system.
  */
 
-import { IncomingHttpHeaders } from 'http';
+import { IncomingHttpHeaders, IncomingMessage } from 'http';
+import { Readable } from 'stream';
 import type { CodeMieConfigOptions } from '../../../../env/types.js';
 
 /**
@@ -41,9 +42,25 @@ export interface ProxyContext {
   requestBody: Buffer | null; // Changed to Buffer to preserve byte integrity
   requestStartTime: number;
   targetUrl?: string;
+  blockedResponse?: BlockedResponse; // Response to a request blocked by an interceptor
+  servedResponse?: ResponseStream;   // Response served by an interceptor instead of the upstream (e.g. replay)
   metadata: Record<string, unknown>;
 }
 
+/**
+ * Response sent instead of forwarding a blocked request (default: 200 {"success":true})
+ */
+export interface BlockedResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Streamed response: the upstream response or one served by an interceptor
+ */
+export type ResponseStream = Readable & Pick<IncomingMessage, 'statusCode' | 'statusMessage' | 'headers'>;
+
 /**
  * Upstream response
  */
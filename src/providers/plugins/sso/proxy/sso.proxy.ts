@@ -28,11 +28,12 @@ import { URL } from 'url';
 import { ProviderRegistry } from '../../../core/registry.js';
 import { logger } from '../../../../utils/logger.js';
 import { ProxyHTTPClient } from './proxy-http-client.js';
-import { ProxyConfig, ProxyContext } from './proxy-types.js';
+import { ProxyConfig, ProxyContext, ResponseStream } from './proxy-types.js';
 import { AuthenticationError, NetworkError, TimeoutError, normalizeError } from './proxy-errors.js';
 import { getPluginRegistry } from './plugins/registry.js';
 import { PluginContext, ProxyInterceptor, ResponseMetadata } from './plugins/types.js';
-import './plugins/index.js'; // Auto-register core plugins
+import { getCassetteSettings, getProxyAuthType } from './plugins/index.js'; // Auto-registers core plugins
+import { getTlsAgentOptions } from '../../openai-compatible/openai-compatible.connection.js';
 
 /**
  * CodeMie Proxy - Plugin-based HTTP proxy with streaming
@@ -45,10 +46,15 @@ export class CodeMieProxy {
   private actualPort: number = 0;
 
   constructor(private config: ProxyConfig) {
+    // OpenAI-compatible endpoints are verified like the built-in agent does, with the profile's CA bundle
+    const openAICompatible = config.provider === 'openai-compatible';
+    const tls = openAICompatible ? getTlsAgentOptions(config.profileConfig?.tls) : undefined;
+
     // Initialize HTTP client with streaming support
     this.httpClient = new ProxyHTTPClient({
       timeout: config.timeout || 300000,
-      rejectUnauthorized: false // Allow self-signed certificates
+      rejectUnauthorized: tls?.rejectUnauthorized ?? openAICompatible, // Otherwise allow self-signed certificates
+      ca: tls?.ca
     });
   }
 
@@ -56,9 +62,11 @@ export class CodeMieProxy {
    * Start the proxy server
    */
   async start(): Promise<{ port: number; url: string }> {
-    // 1. Check if provider uses SSO authentication
+    // 1. Check if provider uses SSO authentication (others are authenticated from the profile)
+    // Replayed sessions never reach the provider, so they need no credentials
     const provider = ProviderRegistry.getProvider(this.config.provider || '');
-    const isSSOProvider = provider?.authType === 'sso';
+    const isSSOProvider = getProxyAuthType(provider) === 'sso' &&
+      getCassetteSettings(this.config.profileConfig)?.mode !== 'replay';
 
     // 2. Load credentials (if needed for SSO)
     let credentials: any = null;
@@ -180,25 +188,34 @@ export class CodeMieProxy {
 
       // 2.5. Check if request was blocked by any interceptor
       if (context.metadata.blocked) {
-        // Request blocked - return 200 OK immediately without forwarding
-        res.statusCode = 200;
+        // Request blocked - respond immediately without forwarding (200 OK unless the interceptor set a response)
+        const blocked = context.blockedResponse ?? { statusCode: 200, body: JSON.stringify({ success: true }) };
+        res.statusCode = blocked.statusCode;
         res.setHeader('Content-Type', 'application/json');
-        res.end(JSON.stringify({ success: true }));
-        logger.debug(`[proxy] Request blocked: ${context.url}`);
+        for (const [key, value] of Object.entries(blocked.headers ?? {})) {
+          res.setHeader(key, value);
+        }
+        res.end(blocked.body);
+        logger.debug(`[proxy] Request blocked: ${context.url} (${blocked.statusCode})`);
         return;
       }
 
-      // 3. Forward request to upstream
-      const targetUrl = this.buildTargetUrl(req.url!);
-      context.targetUrl = targetUrl.toString();
-
-      logger.debug(`[proxy] Forwarding request to upstream for ${context.requestId}`);
-      const upstreamResponse = await this.httpClient.forward(targetUrl, {
-        method: req.method!,
-        headers: context.headers,
-        body: context.requestBody || undefined
-      });
-      logger.debug(`[proxy] Received upstream response object for ${context.requestId}`);
+      // 3. Forward request to upstream (interceptors may have rewritten the target URL or served the response)
+      let upstreamResponse: ResponseStream;
+      if (context.servedResponse) {
+        logger.debug(`[proxy] Response served by interceptor for ${context.requestId}`);
+        upstreamResponse = context.servedResponse;
+      } else {
+        const targetUrl = new URL(context.targetUrl!);
+
+        logger.debug(`[proxy] Forwarding request to upstream for ${context.requestId}`);
+        upstreamResponse = await this.httpClient.forward(targetUrl, {
+          method: req.method!,
+          headers: context.headers,
+          body: context.requestBody || undefined
+        });
+        logger.debug(`[proxy] Received upstream response object for ${context.requestId}`);
+      }
 
       // 4. Run onResponseHeaders hooks (BEFORE streaming)
       await this.runHook('onResponseHeaders', interceptor =>
@@ -262,6 +279,7 @@ export class CodeMieProxy {
       headers: forwardHeaders,
       requestBody,
       requestStartTime: Date.now(),
+      targetUrl: this.buildTargetUrl(req.url || '/').toString(),
       metadata: {}
     };
   }
@@ -270,6 +288,12 @@ export class CodeMieProxy {
    * Build target URL from request path
    */
   private buildTargetUrl(requestPath: string): URL {
+    // Agents append the API version themselves (e.g. /v1/messages), while
+    // profiles of OpenAI-compatible providers store base URLs ending in /v1
+    if (/\/v1\/?$/.test(this.config.targetApiUrl) && /^\/v1(\/|$)/.test(requestPath)) {
+      requestPath = requestPath.slice(3);
+    }
+
     // Construct target URL by properly joining base URL with request path
     let targetUrlString: string;
 
@@ -308,7 +332,7 @@ export class CodeMieProxy {
    */
   private async streamResponse(
     context: ProxyContext,
-    upstream: IncomingMessage,
+    upstream: ResponseStream,
     downstream: ServerResponse,
     startTime: number
   ): Promise<ResponseMetadata> {
@@ -400,7 +424,8 @@ export class CodeMieProxy {
       statusMessage: upstream.statusMessage || 'OK',
       headers: upstream.headers,
       bytesSent,
-      durationMs
+      durationMs,
+      aborted: downstreamClosed
     };
   }
 
@@ -422,6 +447,12 @@ export class CodeMieProxy {
           logger.debug(`[proxy] Request blocked by ${interceptor.name}, skipping remaining onRequest hooks`);
           break;
         }
+
+        // Same for served responses: the request is not forwarded, so it needs no authentication
+        if (hookName === 'onRequest' && context?.servedResponse) {
+          logger.debug(`[proxy] Response served by ${interceptor.name}, skipping remaining onRequest hooks`);
+          break;
+        }
       } catch (error) {
         logger.error(`[CodeMieProxy] Hook ${hookName} error in ${interceptor.name}:`, error);
         // Continue with other interceptors
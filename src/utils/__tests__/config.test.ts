@@ -0,0 +1,84 @@
+/**
+ * Config Loader Tests
+ *
+ * Tests what the project layer (.codemie/codemie-cli.config.json and .env) may change
+ * and where project config files are written
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigLoader } from '../config.js';
+
+describe('ConfigLoader project permissions', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'config-test-'));
+    await mkdir(join(projectDir, '.codemie'));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(ConfigLoader as any, 'loadGlobalConfigProfile').mockResolvedValue({
+      provider: 'openai',
+      permissions: { mode: 'ask', allow: ['execute_command(npm test)'], deny: ['edit_file(**/.env*)'] }
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    delete process.env.CODEMIE_PERMISSION_MODE;
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should take only deny rules from the project config', async () => {
+    await writeFile(join(projectDir, '.codemie', 'codemie-cli.config.json'), JSON.stringify({
+      permissions: { mode: 'auto-accept-edits', allow: ['execute_command'], deny: ['execute_command(git push)'] }
+    }));
+
+    const config = await ConfigLoader.load(projectDir);
+
+    expect(config.permissions).toEqual({
+      mode: 'ask',
+      allow: ['execute_command(npm test)'],
+      deny: ['edit_file(**/.env*)', 'execute_command(git push)']
+    });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('projects can only add deny rules'));
+  });
+
+  it('should ignore a permission mode from the project .env', async () => {
+    await writeFile(join(projectDir, '.env'), 'CODEMIE_PERMISSION_MODE=auto-accept-edits\n');
+
+    expect((await ConfigLoader.load(projectDir)).permissions?.mode).toBe('ask');
+    expect(process.env.CODEMIE_PERMISSION_MODE).toBeUndefined();
+
+    // The user's own environment still selects the mode
+    process.env.CODEMIE_PERMISSION_MODE = 'read-only';
+    expect((await ConfigLoader.load(projectDir)).permissions?.mode).toBe('read-only');
+  });
+});
+
+describe('ConfigLoader project config files', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'config-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should write the project layer of the CLI config to its own file', async () => {
+    await ConfigLoader.writeConfigFile('project', { permissions: { deny: ['execute_command(git push)'] } }, projectDir);
+
+    expect(await ConfigLoader.readConfigFile('project', projectDir)).toEqual({ permissions: { deny: ['execute_command(git push)'] } });
+    expect(ConfigLoader.getConfigFilePath('project', projectDir)).toBe(join(projectDir, '.codemie', 'codemie-cli.config.json'));
+  });
+
+  it('should keep saving project settings to .codemie/config.json', async () => {
+    await ConfigLoader.saveProjectConfig(projectDir, { model: 'gpt-4.1' });
+
+    expect(JSON.parse(await readFile(join(projectDir, '.codemie', 'config.json'), 'utf-8'))).toEqual({ model: 'gpt-4.1' });
+    expect(await ConfigLoader.readConfigFile('project', projectDir)).toEqual({});
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { getErrorStatus, isRetryableError } from '../errors.js';
+
+describe('retryable error classification', () => {
+  describe('getErrorStatus', () => {
+    it('should read the status from SDK errors', () => {
+      expect(getErrorStatus(Object.assign(new Error('Too Many Requests'), { status: 429 }))).toBe(429);
+      expect(getErrorStatus({ message: 'Not found', status_code: 404 })).toBe(404);
+      expect(getErrorStatus({ message: 'Bad gateway', response: { status: 502 } })).toBe(502);
+    });
+
+    it('should read the status from error messages', () => {
+      expect(getErrorStatus(new Error('HTTP 503: Service Unavailable'))).toBe(503);
+      expect(getErrorStatus(new Error('429 Too Many Requests'))).toBe(429);
+      expect(getErrorStatus(new Error('Model returned 3 choices'))).toBeUndefined();
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry rate limits, timeouts and server errors', () => {
+      for (const status of [408, 429, 500, 502, 503, 529]) {
+        expect(isRetryableError(Object.assign(new Error('Request failed'), { status }))).toBe(true);
+      }
+    });
+
+    it('should not retry client errors', () => {
+      for (const status of [400, 401, 403, 404, 422]) {
+        expect(isRetryableError(Object.assign(new Error('Too many requests'), { status }))).toBe(false);
+      }
+    });
+
+    it('should retry network errors, including wrapped ones', () => {
+      expect(isRetryableError(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }))).toBe(true);
+      expect(isRetryableError(new TypeError('fetch failed', { cause: Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }) }))).toBe(true);
+    });
+
+    it('should retry throttling errors without a status', () => {
+      expect(isRetryableError(new Error('ThrottlingException: Rate exceeded'))).toBe(true);
+      expect(isRetryableError(new Error('Overloaded'))).toBe(true);
+    });
+
+    it('should not retry aborts or unknown errors', () => {
+      const abort = new Error('This operation was aborted');
+      abort.name = 'AbortError';
+
+      expect(isRetryableError(abort)).toBe(false);
+      expect(isRetryableError(new Error('Invalid tool schema'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Secret Reference Tests
+ *
+ * Tests resolving env:, file:, cmd: and keychain: references and moving plaintext secrets to the credential store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { access, mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CredentialStore } from '../security.js';
+import { ConfigLoader } from '../config.js';
+import {
+  clearProfileSecrets,
+  isPlaintextSecret,
+  isSecretReference,
+  resolveSecrets,
+  storeProfileSecrets
+} from '../secrets.js';
+
+describe('Secret references', () => {
+  let tempDir: string;
+  let keychain: Map<string, string>;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'secrets-test-'));
+    keychain = new Map();
+
+    vi.spyOn(CredentialStore.prototype, 'storeSecret').mockImplementation(async (service, account, secret) => {
+      keychain.set(`${service}/${account}`, secret);
+    });
+    vi.spyOn(CredentialStore.prototype, 'retrieveSecret').mockImplementation(async (service, account) => {
+      return keychain.get(`${service}/${account}`) ?? null;
+    });
+    vi.spyOn(CredentialStore.prototype, 'clearSecret').mockImplementation(async (service, account) => {
+      keychain.delete(`${service}/${account}`);
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    delete process.env.SECRETS_TEST_KEY;
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should tell references from plaintext secrets and placeholders', () => {
+    expect(isSecretReference('env:OPENAI_KEY')).toBe(true);
+    expect(isSecretReference('cmd:pass show openai')).toBe(true);
+    expect(isSecretReference('sk-proj-abc')).toBe(false);
+
+    expect(isPlaintextSecret('sk-proj-abc')).toBe(true);
+    expect(isPlaintextSecret('keychain:codemie/openai')).toBe(false);
+    expect(isPlaintextSecret('not-required')).toBe(false);
+    expect(isPlaintextSecret('')).toBe(false);
+  });
+
+  it('should resolve env, file and cmd references', async () => {
+    process.env.SECRETS_TEST_KEY = 'from-env';
+    const secretFile = join(tempDir, 'key');
+    await writeFile(secretFile, 'from-file\n');
+
+    expect(await resolveSecrets({ apiKey: 'env:SECRETS_TEST_KEY' })).toEqual({ apiKey: 'from-env' });
+    expect(await resolveSecrets({ apiKey: `file:${secretFile}` })).toEqual({ apiKey: 'from-file' });
+    expect(await resolveSecrets({
+      apiKey: 'sk-plain',
+      awsSecretAccessKey: `cmd:node -e "console.log('from-cmd'); console.log('metadata')"`
+    })).toEqual({ apiKey: 'sk-plain', awsSecretAccessKey: 'from-cmd' });
+  });
+
+  it('should name the field of a reference that cannot be resolved', async () => {
+    await expect(resolveSecrets({ apiKey: 'env:SECRETS_TEST_MISSING' })).rejects.toThrow(
+      'Cannot resolve apiKey reference "env:SECRETS_TEST_MISSING": Environment variable SECRETS_TEST_MISSING is not set'
+    );
+    await expect(resolveSecrets({ apiKey: 'keychain:codemie' })).rejects.toThrow('expected keychain:<service>/<account>');
+    await expect(resolveSecrets({ apiKey: 'cmd:exit 3' })).rejects.toThrow('exited with code 3');
+  });
+
+  it('should move plaintext secrets to the credential store and resolve them back', async () => {
+    const profile = { provider: 'bedrock', apiKey: 'AKIA123', awsSecretAccessKey: 'aws-secret', model: 'claude' };
+
+    const secured = await storeProfileSecrets('work', profile);
+
+    expect(secured).toEqual({
+      provider: 'bedrock',
+      apiKey: 'keychain:codemie/work',
+      awsSecretAccessKey: 'keychain:codemie/work/awsSecretAccessKey',
+      model: 'claude'
+    });
+    expect(profile.apiKey).toBe('AKIA123');
+    expect(await resolveSecrets(secured)).toEqual(profile);
+
+    await clearProfileSecrets(secured);
+    expect(keychain.size).toBe(0);
+  });
+
+  it('should leave references and placeholders in place', async () => {
+    const profile = { apiKey: 'env:OPENAI_KEY' };
+
+    expect(await storeProfileSecrets('work', profile)).toEqual(profile);
+    expect(await storeProfileSecrets('sso', { apiKey: 'sso-provided' })).toEqual({ apiKey: 'sso-provided' });
+    expect(keychain.size).toBe(0);
+  });
+
+  it('should reject references of the project config and environment without resolving them', async () => {
+    const marker = join(tempDir, 'executed');
+    await mkdir(join(tempDir, '.codemie'));
+    await writeFile(join(tempDir, '.codemie', 'codemie-cli.config.json'), JSON.stringify({
+      baseUrl: 'https://attacker.example.com',
+      apiKey: `cmd:touch ${marker}`
+    }));
+    vi.spyOn(ConfigLoader as any, 'loadGlobalConfigProfile').mockResolvedValue({ provider: 'openai', apiKey: 'env:SECRETS_TEST_KEY' });
+    process.env.SECRETS_TEST_KEY = 'sk-profile';
+
+    await expect(ConfigLoader.load(tempDir)).rejects.toThrow('Secret references are only allowed in profiles of the global config');
+    await expect(access(marker)).rejects.toThrow();
+
+    // References of the global profile are resolved
+    const otherDir = await mkdtemp(join(tmpdir(), 'secrets-test-'));
+    try {
+      expect((await ConfigLoader.load(otherDir)).apiKey).toBe('sk-profile');
+
+      process.env.CODEMIE_API_KEY = 'file:~/.ssh/id_rsa';
+      await expect(ConfigLoader.load(otherDir)).rejects.toThrow('Secret reference in apiKey is not allowed here');
+    } finally {
+      delete process.env.CODEMIE_API_KEY;
+      await rm(otherDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -8,11 +8,15 @@ import {
   MultiProviderConfig,
   CodeMieIntegrationInfo,
   ConfigWithSource,
+  PermissionMode,
   isMultiProviderConfig,
   isLegacyConfig
 } from '../env/types.js';
+import { assertValidConfig, resolveProfileExtends, type ConfigSchemaKind } from '../env/schema.js';
 import { ProviderRegistry } from '../providers/index.js';
 import { getCodemieHome, getCodemiePath } from './paths.js';
+import { SECRET_FIELDS, clearProfileSecrets, isSecretReference, resolveSecrets, storeProfileSecrets } from './secrets.js';
+import { ConfigurationError } from './errors.js';
 
 // Re-export for backward compatibility
 export type { CodeMieConfigOptions, CodeMieIntegrationInfo, ConfigWithSource };
@@ -53,15 +57,20 @@ export class ConfigLoader {
 
     // 4. Global config (~/.codemie/codemie-cli.config.json)
     // Load from active profile if multi-provider, otherwise load as-is
-    const globalConfig = await this.loadGlobalConfigProfile(cliOverrides?.name);
-    Object.assign(config, this.removeUndefined(globalConfig));
+    // Secret references (env:, keychain:, file:, cmd:) are only resolved for the selected profile of this layer
+    const globalConfig = await resolveSecrets(await this.loadGlobalConfigProfile(cliOverrides?.name));
+    this.applyLayer(config, globalConfig);
 
     // 3. Project-local config (.codemie/codemie-cli.config.json)
     const localConfigPath = path.join(workingDir, this.LOCAL_CONFIG);
     const localConfig = await this.loadJsonConfig(localConfigPath);
-    Object.assign(config, this.removeUndefined(localConfig));
+    assertValidConfig(localConfig, 'project', localConfigPath);
+    delete (localConfig as Record<string, unknown>).$schema;
+    this.applyLayer(config, this.withoutProjectGrants(localConfig, localConfigPath));
 
     // 2. Environment variables (load .env first if in project)
+    // A project's .env cannot set the permission mode, only the user's environment can
+    const userPermissionMode = process.env.CODEMIE_PERMISSION_MODE;
     const envPath = path.join(workingDir, '.env');
     try {
       await fs.access(envPath);
@@ -69,6 +78,10 @@ export class ConfigLoader {
     } catch {
       // No .env file, that's fine
     }
+    if (userPermissionMode === undefined && process.env.CODEMIE_PERMISSION_MODE !== undefined) {
+      console.warn(chalk.yellow(`Ignoring CODEMIE_PERMISSION_MODE from ${envPath}: set the permission mode in your profile`));
+      delete process.env.CODEMIE_PERMISSION_MODE;
+    }
     const envConfig = this.loadFromEnv();
 
     // If a profile is explicitly selected, only apply env vars that aren't profile-specific
@@ -100,20 +113,72 @@ export class ConfigLoader {
         console.log(`[ConfigLoader] Profile protection: filtered environment vars: ${filtered.join(', ')}`);
       }
 
-      Object.assign(config, this.removeUndefined(filteredEnvConfig));
+      this.applyLayer(config, filteredEnvConfig);
     } else {
       // No explicit profile selected, use normal priority
-      Object.assign(config, this.removeUndefined(envConfig));
+      this.applyLayer(config, envConfig);
     }
 
     // 1. CLI arguments (highest priority)
     if (cliOverrides) {
-      Object.assign(config, this.removeUndefined(cliOverrides));
+      this.applyLayer(config, cliOverrides);
+    }
+
+    // References from other layers (e.g. a project's .env) are not resolved
+    for (const field of SECRET_FIELDS) {
+      if (isSecretReference(config[field])) {
+        throw new ConfigurationError(
+          `Secret reference in ${field} is not allowed here: references are only resolved in profiles of ${this.GLOBAL_CONFIG}`
+        );
+      }
     }
 
     return config;
   }
 
+  /**
+   * Keep only the deny rules of a project config's permissions: a cloned
+   * repository must not grant itself unprompted edits or commands
+   */
+  private static withoutProjectGrants(
+    localConfig: Partial<CodeMieConfigOptions>,
+    localConfigPath: string
+  ): Partial<CodeMieConfigOptions> {
+    const permissions = localConfig.permissions;
+    if (!permissions || (permissions.mode === undefined && !permissions.allow?.length)) {
+      return localConfig;
+    }
+
+    console.warn(chalk.yellow(
+      `Ignoring permissions.mode and permissions.allow in ${localConfigPath}: projects can only add deny rules`
+    ));
+    return { ...localConfig, permissions: { deny: permissions.deny } };
+  }
+
+  /**
+   * Apply a configuration layer on top of the current config.
+   * Permission rules and MCP servers accumulate across layers so a project
+   * can add to the profile (deny rules only for permissions); the permission
+   * mode and same-named servers come from the highest layer.
+   */
+  private static applyLayer(config: CodeMieConfigOptions, layer: Partial<CodeMieConfigOptions>): void {
+    const previousPermissions = config.permissions;
+    const previousMcpServers = config.mcpServers;
+    Object.assign(config, this.removeUndefined(layer));
+
+    if (previousMcpServers && layer.mcpServers) {
+      config.mcpServers = { ...previousMcpServers, ...layer.mcpServers };
+    }
+
+    if (previousPermissions && layer.permissions) {
+      config.permissions = {
+        mode: layer.permissions.mode ?? previousPermissions.mode,
+        allow: [...(previousPermissions.allow ?? []), ...(layer.permissions.allow ?? [])],
+        deny: [...(previousPermissions.deny ?? []), ...(layer.permissions.deny ?? [])]
+      };
+    }
+  }
+
   /**
    * Load full configuration including analytics
    * Returns the complete multi-provider config with analytics settings
@@ -143,6 +208,7 @@ export class ConfigLoader {
    */
   private static async loadGlobalConfigProfile(profileName?: string): Promise<Partial<CodeMieConfigOptions>> {
     const rawConfig = await this.loadJsonConfig(this.GLOBAL_CONFIG);
+    assertValidConfig(rawConfig, 'global', this.GLOBAL_CONFIG);
 
     // Check if multi-provider config
     if (isMultiProviderConfig(rawConfig)) {
@@ -164,8 +230,8 @@ export class ConfigLoader {
         );
       }
 
-      // Return profile with name included
-      return { ...rawConfig.profiles[profile], name: profile };
+      // Return profile with inherited settings and name included
+      return resolveProfileExtends(rawConfig.profiles, profile);
     }
 
     // Legacy single-provider config
@@ -218,6 +284,14 @@ export class ConfigLoader {
     if (process.env.CODEMIE_IGNORE_PATTERNS) {
       env.ignorePatterns = process.env.CODEMIE_IGNORE_PATTERNS.split(',').map(s => s.trim());
     }
+    if (process.env.CODEMIE_PERMISSION_MODE) {
+      env.permissions = { mode: process.env.CODEMIE_PERMISSION_MODE as PermissionMode };
+    }
+
+    // Vertex AI-specific environment variables (exported by the Gemini provider)
+    if (process.env.CODEMIE_VERTEX_PROJECT) env.vertexProject = process.env.CODEMIE_VERTEX_PROJECT;
+    if (process.env.CODEMIE_VERTEX_LOCATION) env.vertexLocation = process.env.CODEMIE_VERTEX_LOCATION;
+    if (process.env.CODEMIE_VERTEX_CREDENTIALS) env.vertexCredentialsFile = process.env.CODEMIE_VERTEX_CREDENTIALS;
 
     // SSO-specific environment variables
     if (process.env.CODEMIE_URL) env.codeMieUrl = process.env.CODEMIE_URL;
@@ -304,6 +378,7 @@ export class ConfigLoader {
 
   /**
    * Add or update a profile
+   * Plaintext secrets are moved to the credential store and saved as keychain references
    */
   static async saveProfile(profileName: string, profile: ProviderProfile): Promise<void> {
     const config = await this.loadMultiProviderConfig();
@@ -312,7 +387,7 @@ export class ConfigLoader {
     profile.name = profileName;
 
     // Add or update profile
-    config.profiles[profileName] = profile;
+    config.profiles[profileName] = await storeProfileSecrets(profileName, profile);
 
     // If this is the first profile, make it active
     if (Object.keys(config.profiles).length === 1) {
@@ -332,8 +407,16 @@ export class ConfigLoader {
       throw new Error(`Profile "${profileName}" not found`);
     }
 
+    const deleted = config.profiles[profileName];
     delete config.profiles[profileName];
 
+    // Remove stored secrets unless another profile still references them
+    const remainingValues = new Set(Object.values(config.profiles).flatMap(p => [p.apiKey, p.awsSecretAccessKey]));
+    await clearProfileSecrets({
+      apiKey: remainingValues.has(deleted.apiKey) ? undefined : deleted.apiKey,
+      awsSecretAccessKey: remainingValues.has(deleted.awsSecretAccessKey) ? undefined : deleted.awsSecretAccessKey
+    });
+
     // If we deleted the active profile, switch to another one (if any exist)
     if (config.activeProfile === profileName) {
       const remainingProfiles = Object.keys(config.profiles);
@@ -380,6 +463,14 @@ export class ConfigLoader {
     return config.profiles[profileName] || null;
   }
 
+  /**
+   * Get a profile with the settings it inherits through `extends`
+   */
+  static async getEffectiveProfile(profileName: string): Promise<ProviderProfile | null> {
+    const config = await this.loadMultiProviderConfig();
+    return config.profiles[profileName] ? resolveProfileExtends(config.profiles, profileName) : null;
+  }
+
   /**
    * Rename a profile
    */
@@ -431,6 +522,66 @@ export class ConfigLoader {
     );
   }
 
+  /**
+   * Save the project layer of the CLI config (.codemie/codemie-cli.config.json)
+   */
+  static async saveLocalConfig(workingDir: string, data: Record<string, unknown>): Promise<void> {
+    await fs.mkdir(path.join(workingDir, '.codemie'), { recursive: true });
+    await fs.writeFile(path.join(workingDir, this.LOCAL_CONFIG), JSON.stringify(data, null, 2), 'utf-8');
+  }
+
+  /**
+   * Get the path of the global or project config file
+   */
+  static getConfigFilePath(scope: ConfigSchemaKind, workingDir: string = process.cwd()): string {
+    return scope === 'project' ? path.join(workingDir, this.LOCAL_CONFIG) : this.GLOBAL_CONFIG;
+  }
+
+  /**
+   * Read a config file as stored, without defaults, validation or secret resolution
+   * @throws ConfigurationError if the file is not a JSON object
+   */
+  static async readConfigFile(scope: ConfigSchemaKind, workingDir: string = process.cwd()): Promise<Record<string, unknown>> {
+    const filePath = this.getConfigFilePath(scope, workingDir);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new ConfigurationError(`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new ConfigurationError(`Invalid configuration in ${filePath}: expected a JSON object`);
+    }
+    return data as Record<string, unknown>;
+  }
+
+  /**
+   * Write a config file as given
+   */
+  static async writeConfigFile(
+    scope: ConfigSchemaKind,
+    data: Record<string, unknown>,
+    workingDir: string = process.cwd()
+  ): Promise<void> {
+    if (scope === 'project') {
+      await this.saveLocalConfig(workingDir, data);
+    } else {
+      await this.saveGlobalConfig(data);
+    }
+  }
+
   /**
    * Delete global config file
    */
@@ -586,6 +737,11 @@ export class ConfigLoader {
   private static maskSensitive(key: string, value: any): string {
     const keyLower = key.toLowerCase();
 
+    // Secret references only name where the secret lives
+    if (isSecretReference(value)) {
+      return String(value);
+    }
+
     // Handle sensitive values
     if (keyLower.includes('key') || keyLower.includes('token') || keyLower.includes('password')) {
       const valueStr = String(value);
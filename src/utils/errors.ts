@@ -554,3 +554,92 @@ export function formatErrorWithExplanation(
 
   return lines.join('\n');
 }
+
+// ============================================================================
+// Retryable Errors
+// ============================================================================
+
+/**
+ * Client error statuses worth retrying (timeouts and rate limits); all 5xx
+ * server errors are retried as well
+ */
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429]);
+
+/**
+ * Network error codes of connections that may succeed when retried
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+/**
+ * Message patterns of throttling and overload errors from providers that do
+ * not expose a status code (e.g. Bedrock ThrottlingException)
+ */
+const RETRYABLE_MESSAGE_PATTERNS = [
+  'rate limit',
+  'too many requests',
+  'throttl',
+  'overloaded',
+  'service unavailable',
+  'temporarily unavailable',
+  'socket hang up',
+  'fetch failed'
+];
+
+/**
+ * Extract the HTTP status of a failed request from SDK errors (status,
+ * statusCode, status_code or response.status) or from messages such as
+ * "HTTP 503: ..." and "429 Too Many Requests"
+ *
+ * @param error - The caught error (unknown type)
+ * @returns HTTP status code, or undefined when the error has none
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error === 'object' && error !== null) {
+    const errorObj = error as Record<string, any>;
+    const status = errorObj.status ?? errorObj.statusCode ?? errorObj.status_code ?? errorObj.response?.status;
+    if (typeof status === 'number') {
+      return status;
+    }
+  }
+
+  const match = extractErrorDetails(error).message.match(/^(?:HTTP )?([1-5]\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Check whether a failed request is worth retrying: rate limits, overloaded
+ * or failing servers, timeouts and dropped connections. Client errors such as
+ * invalid credentials or bad requests are not retryable, nor are aborts.
+ *
+ * @param error - The caught error (unknown type)
+ * @returns True when the same request may succeed later
+ */
+export function isRetryableError(error: unknown): boolean {
+  const details = extractErrorDetails(error);
+  if (details.name === 'AbortError') {
+    return false;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUS_CODES.has(status) || status >= 500;
+  }
+
+  // Network errors may be wrapped, e.g. undici's "fetch failed" with a cause
+  const cause = error instanceof Error ? error.cause : undefined;
+  const codes = [details.code, cause ? extractErrorDetails(cause).code : undefined];
+  if (codes.some(code => code && RETRYABLE_ERROR_CODES.has(code.toUpperCase()))) {
+    return true;
+  }
+
+  const message = details.message.toLowerCase();
+  return RETRYABLE_MESSAGE_PATTERNS.some(pattern => message.includes(pattern));
+}
@@ -134,3 +134,23 @@ export function normalizeModelName(modelName: string): string {
   // Return as-is for standard formats (Claude, OpenAI, Google, etc.)
   return modelName;
 }
+
+/**
+ * Serialize a value as JSON with sorted object keys
+ * Equal values give equal strings regardless of key order (e.g. for hashing request bodies)
+ *
+ * @param value - JSON-compatible value
+ * @returns Canonical JSON string
+ */
+export function toCanonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toCanonicalJSON).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${toCanonicalJSON(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,196 @@
+/**
+ * Secret References
+ *
+ * Profile fields holding secrets can name where the secret lives instead of
+ * storing it in plain text:
+ *
+ * - env:OPENAI_KEY           - environment variable
+ * - keychain:codemie/openai  - system keychain entry <service>/<account> (CredentialStore)
+ * - file:/run/secrets/key    - file contents
+ * - cmd:pass show openai     - first line of a command's output
+ *
+ * ConfigLoader resolves references of the selected global profile only, so
+ * the secret is only read for the profile in use. Project configs and the
+ * environment cannot use references: a cloned repository must not be able to
+ * run commands or send local secrets to a host of its choice.
+ */
+
+import { readFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { CodeMieConfigOptions } from '../env/types.js';
+import { ConfigurationError } from './errors.js';
+import { exec } from './exec.js';
+import { CredentialStore } from './security.js';
+
+/**
+ * Profile fields that hold secrets
+ */
+export const SECRET_FIELDS = ['apiKey', 'awsSecretAccessKey'] as const;
+
+export type SecretField = typeof SECRET_FIELDS[number];
+
+/**
+ * Keychain service of secrets moved out of the config file by CodeMie
+ */
+export const SECRET_SERVICE = 'codemie';
+
+/**
+ * Placeholder values of providers without a real key (not secrets)
+ */
+const PLACEHOLDER_VALUES = new Set(['not-required', 'sso-provided', 'vertex-ai', 'aws-profile']);
+
+const REFERENCE_PATTERN = /^(env|keychain|file|cmd):(.+)$/s;
+
+const COMMAND_TIMEOUT_MS = 30000;
+
+// Keychain and command lookups can be slow or interactive, so resolve them once per process
+const resolvedCache = new Map<string, string>();
+
+/**
+ * Check whether a value is a secret reference
+ */
+export function isSecretReference(value: unknown): value is string {
+  return typeof value === 'string' && REFERENCE_PATTERN.test(value.trim());
+}
+
+/**
+ * Check whether a value is a secret stored in plain text
+ */
+export function isPlaintextSecret(value: unknown): value is string {
+  return typeof value === 'string'
+    && value.trim() !== ''
+    && !isSecretReference(value)
+    && !PLACEHOLDER_VALUES.has(value);
+}
+
+/**
+ * Create the keychain reference of a profile field
+ */
+export function getProfileSecretReference(profileName: string, field: SecretField): string {
+  return `keychain:${SECRET_SERVICE}/${getProfileSecretAccount(profileName, field)}`;
+}
+
+function getProfileSecretAccount(profileName: string, field: SecretField): string {
+  return field === 'apiKey' ? profileName : `${profileName}/${field}`;
+}
+
+/**
+ * Resolve a secret reference to its value
+ * @throws ConfigurationError if the secret cannot be read
+ */
+export async function resolveSecretReference(reference: string): Promise<string> {
+  const match = REFERENCE_PATTERN.exec(reference.trim());
+  if (!match) {
+    return reference;
+  }
+
+  const [, type, target] = match;
+  const cached = resolvedCache.get(reference);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let value: string;
+  switch (type) {
+    case 'env': {
+      const envValue = process.env[target];
+      if (!envValue) {
+        throw new ConfigurationError(`Environment variable ${target} is not set`);
+      }
+      return envValue;
+    }
+
+    case 'file': {
+      const filePath = path.resolve(target.startsWith('~') ? path.join(os.homedir(), target.slice(1)) : target);
+      try {
+        return (await readFile(filePath, 'utf-8')).trim();
+      } catch (error) {
+        throw new ConfigurationError(`Cannot read secret file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    case 'keychain': {
+      const separator = target.indexOf('/');
+      if (separator <= 0 || separator === target.length - 1) {
+        throw new ConfigurationError(`Invalid keychain reference "${reference}", expected keychain:<service>/<account>`);
+      }
+
+      const secret = await CredentialStore.getInstance().retrieveSecret(target.slice(0, separator), target.slice(separator + 1));
+      if (!secret) {
+        throw new ConfigurationError(`Keychain entry ${target} not found`);
+      }
+      value = secret;
+      break;
+    }
+
+    default: {
+      const result = await exec(target, [], { shell: true, timeout: COMMAND_TIMEOUT_MS });
+      if (result.code !== 0) {
+        throw new ConfigurationError(`Command "${target}" exited with code ${result.code}${result.stderr ? `: ${result.stderr}` : ''}`);
+      }
+
+      value = result.stdout.split(/\r?\n/)[0].trim();
+      if (!value) {
+        throw new ConfigurationError(`Command "${target}" printed no secret`);
+      }
+    }
+  }
+
+  resolvedCache.set(reference, value);
+  return value;
+}
+
+/**
+ * Resolve the secret references of a configuration
+ * @returns Copy of the configuration with secret values
+ * @throws ConfigurationError naming the field whose secret cannot be read
+ */
+export async function resolveSecrets<T extends Partial<CodeMieConfigOptions>>(config: T): Promise<T> {
+  const resolved = { ...config };
+
+  for (const field of SECRET_FIELDS) {
+    const value = config[field];
+    if (!isSecretReference(value)) continue;
+
+    try {
+      resolved[field] = await resolveSecretReference(value) as T[SecretField];
+    } catch (error) {
+      throw new ConfigurationError(
+        `Cannot resolve ${field} reference "${value}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Move plaintext secrets of a profile into the credential store
+ * @returns Copy of the profile with keychain references in place of the secrets
+ */
+export async function storeProfileSecrets<T extends Partial<CodeMieConfigOptions>>(profileName: string, profile: T): Promise<T> {
+  const secured = { ...profile };
+
+  for (const field of SECRET_FIELDS) {
+    const value = profile[field];
+    if (!isPlaintextSecret(value)) continue;
+
+    await CredentialStore.getInstance().storeSecret(SECRET_SERVICE, getProfileSecretAccount(profileName, field), value);
+    secured[field] = getProfileSecretReference(profileName, field) as T[SecretField];
+  }
+
+  return secured;
+}
+
+/**
+ * Remove the secrets CodeMie stored for a profile from the credential store
+ */
+export async function clearProfileSecrets(profile: Partial<CodeMieConfigOptions>): Promise<void> {
+  for (const field of SECRET_FIELDS) {
+    const value = profile[field];
+    if (!isSecretReference(value) || !value.startsWith(`keychain:${SECRET_SERVICE}/`)) continue;
+
+    await CredentialStore.getInstance().clearSecret(SECRET_SERVICE, value.slice(`keychain:${SECRET_SERVICE}/`.length));
+  }
+}
@@ -44,12 +44,15 @@ const SENSITIVE_VALUE_PATTERNS = [
   /^ya29\.[a-zA-Z0-9-_]{100,}$/, // Google OAuth tokens
   /^[A-Za-z0-9-_]{20,}\.[A-Za-z0-9-_]{20,}\.[A-Za-z0-9-_]{20,}$/, // JWT tokens
   /^Bearer\s+[A-Za-z0-9-_.+/=]{20,}$/i, // Bearer tokens
+  /^(?:AKIA|ASIA)[A-Z0-9]{16}$/, // AWS access key IDs
+  /^(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})$/, // GitHub tokens
+  /^-----BEGIN [A-Z ]*PRIVATE KEY-----/, // PEM private keys
 ];
 
 /**
  * Check if a key name indicates sensitive data
  */
-function isSensitiveKey(key: string): boolean {
+export function isSensitiveKey(key: string): boolean {
   return SENSITIVE_KEY_PATTERNS.some(pattern => pattern.test(key));
 }
 
@@ -249,6 +252,62 @@ export function sanitizeLogArgs(...args: unknown[]): unknown[] {
   });
 }
 
+// ============================================================================
+// Secret Detection in Text
+// ============================================================================
+
+/**
+ * Detector of secrets or personal data inside free text (e.g. prompts)
+ */
+export interface SecretDetector {
+  name: string;
+  pattern: RegExp;  // Must have the global flag
+}
+
+/**
+ * A detected secret and its position in the scanned text
+ */
+export interface SecretMatch {
+  detector: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Built-in detectors, unanchored variants of the sensitive value patterns
+ */
+export const SECRET_DETECTORS: readonly SecretDetector[] = [
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  { name: 'aws-secret-key', pattern: /(?<=aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/gi },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g }
+];
+
+/**
+ * Find secrets in a text, in order of appearance
+ * Overlapping matches are reported once, by the first detector that found them.
+ */
+export function findSecrets(text: string, detectors: readonly SecretDetector[] = SECRET_DETECTORS): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+
+  for (const detector of detectors) {
+    for (const match of text.matchAll(detector.pattern)) {
+      if (!match[0]) continue;  // Custom patterns may match empty strings
+
+      const start = match.index;
+      const end = start + match[0].length;
+      if (!matches.some(other => start < other.end && other.start < end)) {
+        matches.push({ detector: detector.name, value: match[0], start, end });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
 // ============================================================================
 // Credential Storage
 // ============================================================================
@@ -280,7 +339,7 @@ async function getKeytar(): Promise<typeof import('keytar') | null> {
 /**
  * Secure credential storage with encryption
  *
- * Stores SSO credentials using:
+ * Stores SSO credentials and profile secrets using:
  * - System keychain (macOS Keychain, Windows Credential Vault) when available
  * - Encrypted file storage as fallback
  * - Machine-specific AES-256-CBC encryption
@@ -394,6 +453,69 @@ export class CredentialStore {
     }
   }
 
+  /**
+   * Store a secret referenced as keychain:<service>/<account>
+   * Kept as is in the system keychain; encrypted file storage is used when no keychain is available
+   */
+  async storeSecret(service: string, account: string, secret: string): Promise<void> {
+    const keytarModule = await getKeytar();
+    if (keytarModule) {
+      try {
+        await keytarModule.setPassword(service, account, secret);
+        return;
+      } catch {
+        // Fall back to file storage
+      }
+    }
+
+    await this.storeToFile(this.encrypt(secret), this.getSecretFilePath(service, account));
+  }
+
+  async retrieveSecret(service: string, account: string): Promise<string | null> {
+    // Try keychain first if available (also finds secrets added with system tools)
+    const keytarModule = await getKeytar();
+    if (keytarModule) {
+      try {
+        const secret = await keytarModule.getPassword(service, account);
+        if (secret) {
+          return secret;
+        }
+      } catch {
+        // Fall through to file storage
+      }
+    }
+
+    try {
+      const encrypted = await this.retrieveFromFile(this.getSecretFilePath(service, account));
+      return encrypted ? this.decrypt(encrypted) : null;
+    } catch {
+      // Unable to decrypt file storage
+      return null;
+    }
+  }
+
+  async clearSecret(service: string, account: string): Promise<void> {
+    const keytarModule = await getKeytar();
+    if (keytarModule) {
+      try {
+        await keytarModule.deletePassword(service, account);
+      } catch {
+        // Ignore errors, will try file storage next
+      }
+    }
+
+    try {
+      await fs.unlink(this.getSecretFilePath(service, account));
+    } catch {
+      // Ignore file not found errors
+    }
+  }
+
+  private getSecretFilePath(service: string, account: string): string {
+    const hash = crypto.createHash('sha256').update(`${service}/${account}`).digest('hex');
+    return path.join(CREDENTIALS_DIR, `secret-${hash}.enc`);
+  }
+
   private encrypt(text: string): string {
     const iv = crypto.randomBytes(16);
     // Use a proper 32-byte key by hashing the encryptionKey
@@ -0,0 +1,154 @@
+/**
+ * Integration Test: Proxy Response Cache
+ *
+ * Verifies that the cache plugin:
+ * 1. Serves repeated temperature 0 requests without reaching the upstream
+ * 2. Caches streamed responses once they were received completely
+ * 3. Forwards non-deterministic and different requests
+ * 4. Records hits with the tokens they saved for analytics
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { readdir } from 'fs/promises';
+import http from 'http';
+import { CodeMieProxy } from '../../src/providers/plugins/sso/proxy/sso.proxy.js';
+import { CacheStore } from '../../src/providers/plugins/sso/proxy/plugins/cache-store.js';
+import { getCodemiePath } from '../../src/utils/paths.js';
+import { setupTestIsolation } from '../helpers/test-isolation.js';
+
+const JSON_RESPONSE = {
+  id: 'msg_1',
+  model: 'claude-sonnet-4-5',
+  content: [{ type: 'text', text: 'LGTM' }],
+  usage: { input_tokens: 1000, output_tokens: 50 }
+};
+const SSE_EVENTS = [
+  'event: message_start\ndata: {"type":"message_start","message":{"model":"claude-sonnet-4-5","usage":{"input_tokens":10,"output_tokens":1}}}\n\n',
+  'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":5}}\n\n',
+  'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+];
+
+describe('Proxy Response Cache Integration', () => {
+  // Setup isolated CODEMIE_HOME for this test suite (the cache lives in ~/.codemie/cache)
+  setupTestIsolation();
+
+  let upstreamServer: http.Server;
+  let upstreamUrl: string;
+  let upstreamCallCount = 0;
+  let proxy: CodeMieProxy;
+  let proxyUrl: string;
+
+  beforeAll(async () => {
+    upstreamServer = http.createServer((req, res) => {
+      upstreamCallCount++;
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', async () => {
+        if (JSON.parse(body).stream) {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          for (const event of SSE_EVENTS) {
+            res.write(event);
+            await new Promise(resolve => setTimeout(resolve, 10));
+          }
+          res.end();
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(JSON_RESPONSE));
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => upstreamServer.listen(0, 'localhost', () => resolve()));
+    const address = upstreamServer.address();
+    upstreamUrl = `http://localhost:${typeof address === 'object' && address ? address.port : 0}`;
+  });
+
+  beforeEach(async () => {
+    upstreamCallCount = 0;
+    proxy = new CodeMieProxy({
+      targetApiUrl: upstreamUrl,
+      provider: 'test',
+      profile: 'ci',
+      sessionId: 'test-session',
+      profileConfig: { proxy: { cache: { enabled: true } } }
+    });
+    ({ url: proxyUrl } = await proxy.start());
+  });
+
+  afterEach(async () => {
+    await proxy.stop();
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => upstreamServer.close(() => resolve()));
+  });
+
+  async function sendMessage(body: object): Promise<{ status: number; cache: string | null; text: string }> {
+    const response = await fetch(`${proxyUrl}/v1/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, cache: response.headers.get('x-codemie-cache'), text: await response.text() };
+  }
+
+  // Responses are cached after they were sent to the agent
+  async function waitForCachedResponses(count: number): Promise<void> {
+    await vi.waitFor(async () => {
+      expect(await readdir(getCodemiePath('cache', 'responses')).catch(() => [])).toHaveLength(count);
+    });
+  }
+
+  it('should serve repeated temperature 0 requests from the cache', async () => {
+    const request = {
+      model: 'claude-sonnet-4-5',
+      messages: [{ role: 'user', content: 'Review this diff' }],
+      temperature: 0,
+      metadata: { user_id: 'run-1' }
+    };
+
+    const first = await sendMessage(request);
+    await waitForCachedResponses(1);
+    const second = await sendMessage({ ...request, metadata: { user_id: 'run-2' } });
+
+    expect(first.cache).toBeNull();
+    expect(second.status).toBe(200);
+    expect(second.cache).toBe('hit');
+    expect(JSON.parse(second.text)).toEqual(JSON_RESPONSE);
+    expect(upstreamCallCount).toBe(1);
+
+    const summary = await new CacheStore().summarizeHits({ sessionId: 'test-session' });
+    expect(summary.hits).toBe(1);
+    expect(summary.tokens).toBe(1050);
+    expect(summary.cost).toBeGreaterThan(0);
+  });
+
+  it('should cache complete streamed responses', async () => {
+    const request = { model: 'claude-sonnet-4-5', messages: [{ role: 'user', content: 'Stream it' }], temperature: 0, stream: true };
+
+    const first = await sendMessage(request);
+    await waitForCachedResponses(2);
+    const second = await sendMessage(request);
+
+    expect(first.text).toBe(SSE_EVENTS.join(''));
+    expect(second.cache).toBe('hit');
+    expect(second.text).toBe(SSE_EVENTS.join(''));
+    expect(upstreamCallCount).toBe(1);
+  });
+
+  it('should forward non-deterministic and different requests', async () => {
+    const sampled = { model: 'claude-sonnet-4-5', messages: [{ role: 'user', content: 'Be creative' }], temperature: 0.7 };
+    await sendMessage(sampled);
+    await sendMessage(sampled);
+    expect(upstreamCallCount).toBe(2);
+
+    const withDefaultTemperature = { model: 'claude-sonnet-4-5', messages: [{ role: 'user', content: 'Be creative' }] };
+    await sendMessage(withDefaultTemperature);
+    await sendMessage(withDefaultTemperature);
+    expect(upstreamCallCount).toBe(4);
+
+    const other = await sendMessage({ model: 'claude-sonnet-4-5', messages: [{ role: 'user', content: 'Another diff' }], temperature: 0 });
+    expect(other.cache).toBeNull();
+    expect(upstreamCallCount).toBe(5);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Integration Test: Proxy Record and Replay
+ *
+ * Verifies that the cassette plugin:
+ * 1. Records streamed SSE responses with their chunk timing
+ * 2. Replays them without reaching the upstream or needing SSO credentials
+ * 3. Matches requests regardless of JSON key order and session metadata
+ * 4. Answers unrecorded requests with 404 instead of forwarding them
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import http from 'http';
+import { CodeMieProxy } from '../../src/providers/plugins/sso/proxy/sso.proxy.js';
+import { ProxyConfig } from '../../src/providers/plugins/sso/proxy/proxy-types.js';
+import type { Cassette } from '../../src/providers/plugins/sso/proxy/plugins/cassette-store.js';
+import { SSOTemplate } from '../../src/providers/plugins/sso/sso.template.js';
+import { setupTestIsolation } from '../helpers/test-isolation.js';
+
+const SSE_EVENTS = [
+  'event: message_start\ndata: {"type":"message_start","message":{"model":"claude-sonnet-4-5","usage":{"input_tokens":10,"output_tokens":1}}}\n\n',
+  'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hello"}}\n\n',
+  'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":5}}\n\n'
+];
+const CHUNK_INTERVAL_MS = 60;
+
+describe('Proxy Record and Replay Integration', () => {
+  // Setup isolated CODEMIE_HOME for this test suite
+  setupTestIsolation();
+
+  let cassetteDir: string;
+  let upstreamServer: http.Server;
+  let upstreamUrl: string;
+  let upstreamCallCount = 0;
+  let proxy: CodeMieProxy | null = null;
+
+  beforeAll(async () => {
+    cassetteDir = mkdtempSync(join(tmpdir(), 'codemie-cassettes-'));
+
+    // Mock upstream streaming an Anthropic response in timed chunks
+    upstreamServer = http.createServer(async (req, res) => {
+      upstreamCallCount++;
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Set-Cookie': 'session=secret' });
+      for (const event of SSE_EVENTS) {
+        res.write(event);
+        await new Promise(resolve => setTimeout(resolve, CHUNK_INTERVAL_MS));
+      }
+      res.end();
+    });
+
+    await new Promise<void>(resolve => upstreamServer.listen(0, 'localhost', () => resolve()));
+    const address = upstreamServer.address();
+    upstreamUrl = `http://localhost:${typeof address === 'object' && address ? address.port : 0}`;
+  });
+
+  afterEach(async () => {
+    await proxy?.stop();
+    proxy = null;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => upstreamServer.close(() => resolve()));
+    rmSync(cassetteDir, { recursive: true, force: true });
+  });
+
+  async function startProxy(config: Partial<ProxyConfig>, mode: 'record' | 'replay'): Promise<string> {
+    proxy = new CodeMieProxy({
+      targetApiUrl: upstreamUrl,
+      provider: 'test',
+      sessionId: 'test-session',
+      ...config,
+      profileConfig: { proxy: { cassette: { mode, dir: cassetteDir } } }
+    });
+    const { url } = await proxy.start();
+    return url;
+  }
+
+  async function sendMessage(proxyUrl: string, body: object): Promise<{ status: number; contentType: string | null; text: string; durationMs: number }> {
+    const start = Date.now();
+    const response = await fetch(`${proxyUrl}/v1/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const text = await response.text();
+    return { status: response.status, contentType: response.headers.get('content-type'), text, durationMs: Date.now() - start };
+  }
+
+  it('should record streamed responses with their chunk timing', async () => {
+    const proxyUrl = await startProxy({}, 'record');
+
+    const response = await sendMessage(proxyUrl, {
+      model: 'claude-sonnet-4-5',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true,
+      metadata: { user_id: 'session-1' }
+    });
+
+    expect(response.text).toBe(SSE_EVENTS.join(''));
+    expect(upstreamCallCount).toBe(1);
+
+    // Stopping the proxy waits for the recording to be written
+    await proxy!.stop();
+    proxy = null;
+
+    const files = readdirSync(cassetteDir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^post-v1-messages-[0-9a-f]{16}\.json$/);
+
+    const cassette = JSON.parse(readFileSync(join(cassetteDir, files[0]), 'utf-8')) as Cassette;
+    expect(cassette.request).toMatchObject({ method: 'POST', path: '/v1/messages' });
+
+    const [recorded] = cassette.responses;
+    expect(recorded.statusCode).toBe(200);
+    expect(recorded.headers['content-type']).toBe('text/event-stream');
+    expect(recorded.headers['set-cookie']).toBeUndefined();
+    expect(recorded.chunks.map(chunk => chunk.text).join('')).toBe(SSE_EVENTS.join(''));
+    expect(recorded.chunks.slice(1).every(chunk => chunk.delayMs >= CHUNK_INTERVAL_MS / 2)).toBe(true);
+  });
+
+  it('should replay recorded responses without the upstream or SSO credentials', async () => {
+    // SSO provider without stored credentials: the proxy would refuse to start outside replay
+    const proxyUrl = await startProxy({ provider: SSOTemplate.name }, 'replay');
+
+    // Same request with other key order and session metadata
+    const response = await sendMessage(proxyUrl, {
+      metadata: { user_id: 'session-2' },
+      stream: true,
+      messages: [{ content: 'Hi', role: 'user' }],
+      model: 'claude-sonnet-4-5'
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.contentType).toBe('text/event-stream');
+    expect(response.text).toBe(SSE_EVENTS.join(''));
+    expect(response.durationMs).toBeGreaterThanOrEqual(CHUNK_INTERVAL_MS);
+    expect(upstreamCallCount).toBe(1);
+  });
+
+  it('should answer unrecorded requests with 404 without forwarding them', async () => {
+    const proxyUrl = await startProxy({}, 'replay');
+
+    const response = await sendMessage(proxyUrl, {
+      model: 'claude-sonnet-4-5',
+      messages: [{ role: 'user', content: 'Something else' }]
+    });
+
+    expect(response.status).toBe(404);
+    expect(JSON.parse(response.text)).toMatchObject({ error: { type: 'cassette_not_found' } });
+    expect(upstreamCallCount).toBe(1);
+  });
+});